@@ -0,0 +1,107 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { embeddingIndex, EmbeddingMigrationError } from '../../lib/embedding-index'
+
+const ACTIONS = ['pause', 'resume', 'cancel']
+
+/**
+ * @openapi
+ * /api/admin/embedding-migrations/{id}:
+ *   get:
+ *     summary: Get an embedding migration with its progress
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The migration
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       404:
+ *         description: Migration not found
+ *       500:
+ *         description: Failed to fetch embedding migration
+ *   post:
+ *     summary: Pause, resume or cancel an embedding migration
+ *     description: Pausing stops after the current batch; resuming continues from the saved cursor. Cancelling keeps the table on its current column and drops the new one.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - action
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [pause, resume, cancel]
+ *     responses:
+ *       200:
+ *         description: The updated migration
+ *       400:
+ *         description: Unknown action
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       404:
+ *         description: Migration not found
+ *       409:
+ *         description: The action does not apply to the migration's status
+ *       500:
+ *         description: Failed to update embedding migration
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // Simple admin authentication
+  const authHeader = req.headers.authorization
+  if (!authHeader || (!authHeader.includes('admin-key') && !authHeader.includes('Bearer admin-key'))) {
+    return res.status(401).json({ error: 'Admin access required' })
+  }
+
+  const id = ((req as any).params?.id || req.query.id) as string
+
+  try {
+    if (req.method === 'POST') {
+      const { action } = req.body || {}
+      if (!ACTIONS.includes(action)) {
+        return res.status(400).json({ error: `action must be one of: ${ACTIONS.join(', ')}` })
+      }
+
+      const migration = await embeddingIndex.updateMigration(id, action)
+      return res.status(200).json({ success: true, migration })
+    }
+
+    const migration = await embeddingIndex.getMigration(id)
+    res.status(200).json({ migration })
+  } catch (error) {
+    if (error instanceof EmbeddingMigrationError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('Embedding migration error:', error)
+    res.status(500).json({ error: req.method === 'POST' ? 'Failed to update embedding migration' : 'Failed to fetch embedding migration' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
@@ -0,0 +1,169 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { embeddingIndex, EmbeddingMigrationError, EMBEDDING_TARGETS, EmbeddingTarget } from '../../lib/embedding-index'
+
+/**
+ * @openapi
+ * /api/admin/embedding-migrations:
+ *   get:
+ *     summary: Embedding model status and re-embedding migrations
+ *     description: Returns the configured embedding model, each embedded table with the column and model it reads (and the column being filled while a migration runs), recent migrations with their progress, and the scheduler status.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - name: offset
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Status retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 targets:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       target:
+ *                         type: string
+ *                         enum: [memories, sdco_documents, enhanced_sdco_documents]
+ *                       available:
+ *                         type: boolean
+ *                       active:
+ *                         type: object
+ *                         nullable: true
+ *                         properties:
+ *                           column:
+ *                             type: string
+ *                           model:
+ *                             type: string
+ *                           dimensions:
+ *                             type: integer
+ *                       next:
+ *                         type: object
+ *                         nullable: true
+ *                       migrationId:
+ *                         type: string
+ *                         nullable: true
+ *                       upToDate:
+ *                         type: boolean
+ *                       rows:
+ *                         type: integer
+ *                       embeddedRows:
+ *                         type: integer
+ *                 migrations:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       target:
+ *                         type: string
+ *                       from:
+ *                         type: object
+ *                       to:
+ *                         type: object
+ *                       status:
+ *                         type: string
+ *                         enum: [pending, running, paused, completed, failed, cancelled]
+ *                       totalRows:
+ *                         type: integer
+ *                       embeddedRows:
+ *                         type: integer
+ *                       progress:
+ *                         type: number
+ *                       error:
+ *                         type: string
+ *                         nullable: true
+ *                 total:
+ *                   type: integer
+ *                 scheduler:
+ *                   type: object
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       500:
+ *         description: Failed to fetch embedding migrations
+ *   post:
+ *     summary: Start re-embedding to the configured model
+ *     description: Creates a migration for every table (or the given `target`) whose active column is not on the configured model, and runs pending migrations in the background. Searches read both columns until each migration switches its table over.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               target:
+ *                 type: string
+ *                 enum: [memories, sdco_documents, enhanced_sdco_documents]
+ *     responses:
+ *       202:
+ *         description: Migrations started
+ *       400:
+ *         description: Unknown target
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       409:
+ *         description: A migration is already running
+ *       500:
+ *         description: Failed to start embedding migrations
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // Simple admin authentication
+  const authHeader = req.headers.authorization
+  if (!authHeader || (!authHeader.includes('admin-key') && !authHeader.includes('Bearer admin-key'))) {
+    return res.status(401).json({ error: 'Admin access required' })
+  }
+
+  try {
+    if (req.method === 'POST') {
+      const { target } = req.body || {}
+      if (target !== undefined && !EMBEDDING_TARGETS.includes(target)) {
+        return res.status(400).json({ error: `target must be one of: ${EMBEDDING_TARGETS.join(', ')}` })
+      }
+
+      const migrations = await embeddingIndex.startMigrations({ target: target as EmbeddingTarget | undefined })
+      return res.status(202).json({ success: true, migrations })
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100)
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0)
+
+    const targets = await embeddingIndex.getTargetStatuses()
+    const { migrations, total } = await embeddingIndex.listMigrations({ limit, offset })
+    res.status(200).json({ targets, migrations, total, scheduler: embeddingIndex.getStatus() })
+  } catch (error) {
+    if (error instanceof EmbeddingMigrationError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('Embedding migrations error:', error)
+    res.status(500).json({ error: req.method === 'POST' ? 'Failed to start embedding migrations' : 'Failed to fetch embedding migrations' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
@@ -1,20 +1,16 @@
 import { Request, Response } from 'express';
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { DatabasePool } from '../../lib/database-pool';
-import OpenAI from 'openai'
+import { embeddingIndex } from '../../lib/embedding-index'
 
 const dbPool = DatabasePool.getInstance()
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
-
 /**
  * @openapi
  * /api/admin/generate-sdco-embed:
  *   post:
  *     summary: Generate embeddings for SDCO documents
- *     description: Fetches SDCO documents without vector embeddings, generates embeddings using OpenAI, and updates the database.
+ *     description: Fetches SDCO documents without an embedding in the active vector column, generates embeddings with the configured model (and the new model while an embedding migration runs), and updates the database.
  *     tags:
  *       - Admin
  *     requestBody:
@@ -66,12 +62,13 @@ async function handler(
     const { batchSize = 20 } = req.body
 
     console.log('🔍 Fetching SDCO documents without embeddings...')
+    const { active } = await embeddingIndex.getPlan('sdco_documents')
     
     // Get documents without embeddings
     const { rows: documents } = await dbPool.query(`
       SELECT id, sdco_id, medical_term, layman_term, description, combined_text
       FROM public.sdco_documents 
-      WHERE vector_embedding IS NULL
+      WHERE ${active.column} IS NULL
       ORDER BY id
       LIMIT $1
     `, [batchSize])
@@ -103,19 +100,15 @@ async function handler(
         }
 
         // Generate embedding
-        const response = await openai.embeddings.create({
-          model: "text-embedding-ada-002",
-          input: text
-        })
-
-        const embedding = response.data[0].embedding
+        const embedded = await embeddingIndex.embed('sdco_documents', [text])
 
         // Update document with embedding
+        const params: any[] = [doc.id]
         await dbPool.query(`
           UPDATE public.sdco_documents 
-          SET vector_embedding = $1::vector
-          WHERE id = $2
-        `, [JSON.stringify(embedding), doc.id])
+          SET ${embeddingIndex.assignments(embedded, 0, params)}
+          WHERE id = $1
+        `, params)
 
         console.log(`✅ Generated embedding for: ${doc.medical_term}`)
         processed++
@@ -135,8 +128,8 @@ async function handler(
     const { rows: totalRows } = await dbPool.query(`
       SELECT 
         COUNT(*) as total_docs,
-        COUNT(vector_embedding) as with_embeddings,
-        COUNT(*) - COUNT(vector_embedding) as remaining
+        COUNT(${active.column}) as with_embeddings,
+        COUNT(*) - COUNT(${active.column}) as remaining
       FROM public.sdco_documents
     `)
 
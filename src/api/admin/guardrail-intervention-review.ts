@@ -0,0 +1,84 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { responseGuardrails, GuardrailError, GuardrailReviewVerdict } from '../../lib/response-guardrails'
+
+const VERDICTS: GuardrailReviewVerdict[] = ['confirmed', 'false_positive']
+
+/**
+ * @openapi
+ * /api/admin/guardrail-interventions/{id}/review:
+ *   post:
+ *     summary: Record an admin review of a guardrail intervention
+ *     description: Marks the intervention as reviewed with a verdict. `false_positive` verdicts show which rules or classifier decisions need tuning.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - verdict
+ *             properties:
+ *               verdict:
+ *                 type: string
+ *                 enum: [confirmed, false_positive]
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Review recorded; returns the updated intervention
+ *       400:
+ *         description: Invalid verdict
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       404:
+ *         description: Intervention not found
+ *       500:
+ *         description: Failed to record review
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // Simple admin authentication
+  const authHeader = req.headers.authorization
+  if (!authHeader || (!authHeader.includes('admin-key') && !authHeader.includes('Bearer admin-key'))) {
+    return res.status(401).json({ error: 'Admin access required' })
+  }
+
+  const id = ((req as any).params?.id || req.query.id) as string
+  const { verdict, notes } = req.body || {}
+  if (!VERDICTS.includes(verdict)) {
+    return res.status(400).json({ error: `verdict must be one of ${VERDICTS.join(', ')}` })
+  }
+
+  try {
+    const intervention = await responseGuardrails.reviewIntervention(id, {
+      verdict,
+      notes: typeof notes === 'string' ? notes : null,
+      reviewedBy: 'admin'
+    })
+    res.status(200).json({ success: true, intervention })
+  } catch (error) {
+    if (error instanceof GuardrailError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('Guardrail review error:', error)
+    res.status(500).json({ error: 'Failed to record review' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
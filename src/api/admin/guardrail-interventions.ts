@@ -0,0 +1,187 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import {
+  responseGuardrails,
+  isGuardrailCategory,
+  GuardrailAction
+} from '../../lib/response-guardrails'
+
+const ACTIONS: GuardrailAction[] = ['disclaimer_added', 'rewritten', 'blocked']
+
+function isInterventionAction(value: unknown): value is GuardrailAction {
+  return typeof value === 'string' && (ACTIONS as string[]).includes(value)
+}
+
+/**
+ * @openapi
+ * /api/admin/guardrail-interventions:
+ *   get:
+ *     summary: List safety guardrail interventions for review
+ *     description: Returns replies from the chat, general and agent endpoints that the safety guardrails rewrote, blocked or added a disclaimer to, newest first, with the original and final text, the findings that triggered them and per-category counts for the window.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: category
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [definitive_diagnosis, specific_dosing, stop_medication, missing_disclaimer]
+ *       - name: action
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [disclaimer_added, rewritten, blocked]
+ *       - name: endpoint
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: e.g. /api/chat/generate
+ *       - name: reviewed
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *         description: Only reviewed (true) or unreviewed (false) interventions
+ *       - name: days
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - name: offset
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Interventions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 interventions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       endpoint:
+ *                         type: string
+ *                       userId:
+ *                         type: string
+ *                         nullable: true
+ *                       categories:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                       action:
+ *                         type: string
+ *                       findings:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             category:
+ *                               type: string
+ *                             excerpt:
+ *                               type: string
+ *                             explanation:
+ *                               type: string
+ *                             source:
+ *                               type: string
+ *                               enum: [rule, llm]
+ *                       userMessage:
+ *                         type: string
+ *                         nullable: true
+ *                       originalResponse:
+ *                         type: string
+ *                       finalResponse:
+ *                         type: string
+ *                       reviewVerdict:
+ *                         type: string
+ *                         nullable: true
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                 total:
+ *                   type: integer
+ *                 summary:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       category:
+ *                         type: string
+ *                       action:
+ *                         type: string
+ *                       count:
+ *                         type: integer
+ *       400:
+ *         description: Invalid filter
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       500:
+ *         description: Failed to fetch guardrail interventions
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // Simple admin authentication
+  const authHeader = req.headers.authorization
+  if (!authHeader || (!authHeader.includes('admin-key') && !authHeader.includes('Bearer admin-key'))) {
+    return res.status(401).json({ error: 'Admin access required' })
+  }
+
+  const { category, action, endpoint, reviewed } = req.query
+  if (category !== undefined && !isGuardrailCategory(category)) {
+    return res.status(400).json({ error: `Unknown category: ${category}` })
+  }
+  if (action !== undefined && !isInterventionAction(action)) {
+    return res.status(400).json({ error: `Unknown action: ${action}` })
+  }
+
+  const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365)
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200)
+  const offset = Math.max(parseInt(req.query.offset as string) || 0, 0)
+
+  try {
+    const [{ interventions, total }, summary] = await Promise.all([
+      responseGuardrails.listInterventions({
+        category,
+        action,
+        endpoint: typeof endpoint === 'string' ? endpoint : undefined,
+        reviewed: reviewed === undefined ? undefined : reviewed === 'true',
+        days,
+        limit,
+        offset
+      }),
+      responseGuardrails.getSummary(days)
+    ])
+
+    res.status(200).json({ interventions, total, summary })
+  } catch (error) {
+    console.error('Guardrail interventions error:', error)
+    res.status(500).json({ error: 'Failed to fetch guardrail interventions' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
@@ -0,0 +1,153 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { memoryConsolidation } from '../../lib/memory-consolidation'
+
+const STATUSES = ['completed', 'failed'] as const
+
+/**
+ * @openapi
+ * /api/admin/memory-consolidation/reports:
+ *   get:
+ *     summary: List per-user memory consolidation reports
+ *     description: One report per user per run, newest first, with the counts of memories scanned, merged, decayed and archived, and for each merged cluster the canonical memory, its sources and the sessions they came from.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: userId
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *       - name: runId
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *       - name: status
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [completed, failed]
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - name: offset
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Reports retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 reports:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       runId:
+ *                         type: string
+ *                       userId:
+ *                         type: string
+ *                       status:
+ *                         type: string
+ *                       counts:
+ *                         type: object
+ *                         properties:
+ *                           memoriesScanned:
+ *                             type: integer
+ *                           clustersMerged:
+ *                             type: integer
+ *                           memoriesMerged:
+ *                             type: integer
+ *                           decayed:
+ *                             type: integer
+ *                           archived:
+ *                             type: integer
+ *                       clusters:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             memoryType:
+ *                               type: string
+ *                             canonicalMemoryId:
+ *                               type: string
+ *                             summary:
+ *                               type: string
+ *                             sourceMemoryIds:
+ *                               type: array
+ *                               items:
+ *                                 type: string
+ *                             sessionIds:
+ *                               type: array
+ *                               items:
+ *                                 type: string
+ *                       error:
+ *                         type: string
+ *                         nullable: true
+ *                       durationMs:
+ *                         type: integer
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                 total:
+ *                   type: integer
+ *       400:
+ *         description: Invalid filter
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       500:
+ *         description: Failed to fetch consolidation reports
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // Simple admin authentication
+  const authHeader = req.headers.authorization
+  if (!authHeader || (!authHeader.includes('admin-key') && !authHeader.includes('Bearer admin-key'))) {
+    return res.status(401).json({ error: 'Admin access required' })
+  }
+
+  const { userId, runId, status } = req.query
+  if (status !== undefined && !STATUSES.includes(status as typeof STATUSES[number])) {
+    return res.status(400).json({ error: `Unknown status: ${status}` })
+  }
+
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200)
+  const offset = Math.max(parseInt(req.query.offset as string) || 0, 0)
+
+  try {
+    const { reports, total } = await memoryConsolidation.listReports({
+      userId: typeof userId === 'string' ? userId : undefined,
+      runId: typeof runId === 'string' ? runId : undefined,
+      status: status as typeof STATUSES[number] | undefined,
+      limit,
+      offset
+    })
+
+    res.status(200).json({ reports, total })
+  } catch (error) {
+    console.error('Memory consolidation reports error:', error)
+    res.status(500).json({ error: 'Failed to fetch consolidation reports' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
@@ -0,0 +1,58 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { memoryConsolidation, ConsolidationError } from '../../lib/memory-consolidation'
+
+/**
+ * @openapi
+ * /api/admin/memory-consolidation/runs/{id}:
+ *   get:
+ *     summary: Get a memory consolidation run with its per-user reports
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The run and one report per user it processed
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       404:
+ *         description: Run not found
+ *       500:
+ *         description: Failed to fetch consolidation run
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // Simple admin authentication
+  const authHeader = req.headers.authorization
+  if (!authHeader || (!authHeader.includes('admin-key') && !authHeader.includes('Bearer admin-key'))) {
+    return res.status(401).json({ error: 'Admin access required' })
+  }
+
+  const id = ((req as any).params?.id || req.query.id) as string
+
+  try {
+    const run = await memoryConsolidation.getRun(id)
+    const { reports } = await memoryConsolidation.listReports({ runId: run.id, limit: 1000 })
+    res.status(200).json({ run, reports })
+  } catch (error) {
+    if (error instanceof ConsolidationError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('Memory consolidation run error:', error)
+    res.status(500).json({ error: 'Failed to fetch consolidation run' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
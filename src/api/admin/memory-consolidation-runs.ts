@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { memoryConsolidation, ConsolidationError } from '../../lib/memory-consolidation'
+
+/**
+ * @openapi
+ * /api/admin/memory-consolidation/runs:
+ *   get:
+ *     summary: List memory consolidation runs
+ *     description: Returns consolidation runs, newest first, with their totals (clusters merged, memories merged, decayed and archived) and the scheduler status.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - name: offset
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Runs retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 runs:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       trigger:
+ *                         type: string
+ *                         enum: [scheduled, manual]
+ *                       status:
+ *                         type: string
+ *                         enum: [running, completed, failed]
+ *                       userId:
+ *                         type: string
+ *                         nullable: true
+ *                       usersProcessed:
+ *                         type: integer
+ *                       usersFailed:
+ *                         type: integer
+ *                       totals:
+ *                         type: object
+ *                       error:
+ *                         type: string
+ *                         nullable: true
+ *                       startedAt:
+ *                         type: string
+ *                         format: date-time
+ *                       finishedAt:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                 total:
+ *                   type: integer
+ *                 scheduler:
+ *                   type: object
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       500:
+ *         description: Failed to fetch consolidation runs
+ *   post:
+ *     summary: Start a memory consolidation run
+ *     description: Starts a run in the background for every user, or for one user when `userId` is given, and returns it with status `running`. Poll the run for its reports.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               userId:
+ *                 type: string
+ *     responses:
+ *       202:
+ *         description: Run started
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       409:
+ *         description: A run is already in progress
+ *       500:
+ *         description: Failed to start consolidation run
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // Simple admin authentication
+  const authHeader = req.headers.authorization
+  if (!authHeader || (!authHeader.includes('admin-key') && !authHeader.includes('Bearer admin-key'))) {
+    return res.status(401).json({ error: 'Admin access required' })
+  }
+
+  try {
+    if (req.method === 'POST') {
+      const { userId } = req.body || {}
+      if (userId !== undefined && typeof userId !== 'string') {
+        return res.status(400).json({ error: 'userId must be a string' })
+      }
+
+      const run = await memoryConsolidation.startRun({ trigger: 'manual', userId })
+      return res.status(202).json({ success: true, run })
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100)
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0)
+
+    const { runs, total } = await memoryConsolidation.listRuns({ limit, offset })
+    res.status(200).json({ runs, total, scheduler: memoryConsolidation.getStatus() })
+  } catch (error) {
+    if (error instanceof ConsolidationError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('Memory consolidation runs error:', error)
+    res.status(500).json({ error: req.method === 'POST' ? 'Failed to start consolidation run' : 'Failed to fetch consolidation runs' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
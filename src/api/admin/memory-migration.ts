@@ -0,0 +1,85 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { memoryStore } from '../../lib/memory-store'
+
+/**
+ * @openapi
+ * /api/admin/memory-migration:
+ *   get:
+ *     summary: Legacy memory migration status
+ *     description: Returns how many rows of chat_memory, vector_memory and user_agent_memory were folded into the memory store, how many were skipped, and when each table was last migrated.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Migration status retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 tables:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       legacyTable:
+ *                         type: string
+ *                       migrated:
+ *                         type: integer
+ *                       skipped:
+ *                         type: integer
+ *                       completedAt:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       500:
+ *         description: Failed to fetch memory migration status
+ *   post:
+ *     summary: Re-run the legacy memory migration
+ *     description: Folds in legacy rows that are not in the memory store yet, e.g. rows written by an instance still running an older release, and embeds memories that have no embedding. Rows already migrated are skipped.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Migration completed
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       500:
+ *         description: Failed to migrate legacy memories
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // Simple admin authentication
+  const authHeader = req.headers.authorization
+  if (!authHeader || (!authHeader.includes('admin-key') && !authHeader.includes('Bearer admin-key'))) {
+    return res.status(401).json({ error: 'Admin access required' })
+  }
+
+  try {
+    await memoryStore.initializeSchema()
+
+    if (req.method === 'POST') {
+      const result = await memoryStore.migrateLegacyMemories()
+      return res.status(200).json({ success: true, ...result })
+    }
+
+    res.status(200).json({ tables: await memoryStore.getMigrationStatus() })
+  } catch (error) {
+    console.error('Memory migration error:', error)
+    res.status(500).json({ error: req.method === 'POST' ? 'Failed to migrate legacy memories' : 'Failed to fetch memory migration status' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
@@ -5,9 +5,11 @@ import { DatabasePool } from '../../lib/database-pool';
 
 interface PerformanceMetrics {
   responseCache: {
+    backend: string
     size: number
-    maxSize: number
+    maxSize: number | null
     hitRate: number
+    semanticHits: number
     topHits: Array<{ key: string; hits: number }>
   }
   database: {
@@ -50,12 +52,20 @@ interface PerformanceMetrics {
  *                     responseCache:
  *                       type: object
  *                       properties:
+ *                         backend:
+ *                           type: string
+ *                           enum: [memory, postgres]
  *                         size:
  *                           type: number
  *                         maxSize:
  *                           type: number
+ *                           nullable: true
+ *                           description: Entry limit of the in-memory backend, null for postgres
  *                         hitRate:
  *                           type: number
+ *                           description: Percentage of lookups served from the cache since the process started
+ *                         semanticHits:
+ *                           type: number
  *                         topHits:
  *                           type: array
  *                           items:
@@ -103,19 +113,18 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
 
   try {
     // Get response cache statistics
-    const cacheStats = responseCache.getCacheStats()
-    
-    // Calculate hit rate (mock calculation for now - would need actual hit/miss tracking)
-    const estimatedHitRate = Math.min(95, (cacheStats.size / cacheStats.maxSize) * 100)
+    const cacheStats = await responseCache.getCacheStats()
 
     // Get database pool information
     const dbPool = DatabasePool.getInstance()
     
     const metrics: PerformanceMetrics = {
       responseCache: {
+        backend: cacheStats.backend,
         size: cacheStats.size,
         maxSize: cacheStats.maxSize,
-        hitRate: Math.round(estimatedHitRate * 100) / 100,
+        hitRate: Math.round(cacheStats.hitRate * 10000) / 100,
+        semanticHits: cacheStats.semanticHits,
         topHits: cacheStats.topHits
       },
       database: {
@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { promptRegistry, PromptTemplateError, PromptAllocation } from '../../lib/prompt-registry'
+
+/**
+ * @openapi
+ * /api/admin/prompt-templates/{name}/activate:
+ *   post:
+ *     summary: Set the traffic split for a prompt template
+ *     description: Sends traffic to one version (`version`) or splits it between versions for an A/B test (`allocations`, percentages adding up to 100). Users are assigned to a version deterministically, so each user keeps seeing the same one while the split is unchanged. Versions not listed stop receiving traffic.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: name
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               version:
+ *                 type: integer
+ *                 description: Send all traffic to this version
+ *               allocations:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     version:
+ *                       type: integer
+ *                     percent:
+ *                       type: integer
+ *     responses:
+ *       200:
+ *         description: Traffic split updated; returns all versions of the template
+ *       400:
+ *         description: Invalid allocation
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       404:
+ *         description: Unknown template or version
+ *       500:
+ *         description: Failed to activate prompt template
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // Simple admin authentication
+  const authHeader = req.headers.authorization
+  if (!authHeader || (!authHeader.includes('admin-key') && !authHeader.includes('Bearer admin-key'))) {
+    return res.status(401).json({ error: 'Admin access required' })
+  }
+
+  const name = ((req as any).params?.name || req.query.name) as string
+  const { version, allocations } = req.body || {}
+
+  let requested: PromptAllocation[]
+  if (Array.isArray(allocations)) {
+    requested = allocations.map((allocation: any) => ({
+      version: Number(allocation?.version),
+      percent: Number(allocation?.percent)
+    }))
+  } else if (version !== undefined) {
+    requested = [{ version: Number(version), percent: 100 }]
+  } else {
+    return res.status(400).json({ error: 'version or allocations is required' })
+  }
+
+  try {
+    const versions = await promptRegistry.activate(name, requested)
+    res.status(200).json({ success: true, name, versions })
+  } catch (error) {
+    if (error instanceof PromptTemplateError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('Prompt template activation error:', error)
+    res.status(500).json({ error: 'Failed to activate prompt template' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
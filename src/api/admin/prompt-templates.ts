@@ -0,0 +1,186 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { promptRegistry, PromptTemplateError } from '../../lib/prompt-registry'
+import { BUILTIN_PROMPT_TEMPLATES, isPromptTemplateName } from '../../lib/prompt-templates'
+
+/**
+ * @openapi
+ * /api/admin/prompt-templates:
+ *   get:
+ *     summary: List prompt template versions with usage stats
+ *     description: Returns every stored version of each system prompt, its current traffic share, and per-version response counts, token usage, latency and cost over the selected window.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: name
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Only return this template (e.g. chat_generate_system)
+ *       - name: days
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *         description: Window for usage stats
+ *     responses:
+ *       200:
+ *         description: Templates retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 templates:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       name:
+ *                         type: string
+ *                       description:
+ *                         type: string
+ *                       variables:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                       versions:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             version:
+ *                               type: integer
+ *                             template:
+ *                               type: string
+ *                             description:
+ *                               type: string
+ *                             trafficPercent:
+ *                               type: integer
+ *                             createdBy:
+ *                               type: string
+ *                             createdAt:
+ *                               type: string
+ *                               format: date-time
+ *                             activatedAt:
+ *                               type: string
+ *                               format: date-time
+ *                       stats:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             version:
+ *                               type: integer
+ *                             responses:
+ *                               type: integer
+ *                             avgPromptTokens:
+ *                               type: integer
+ *                             avgCompletionTokens:
+ *                               type: integer
+ *                             avgLatencyMs:
+ *                               type: integer
+ *                               nullable: true
+ *                             estimatedCost:
+ *                               type: number
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       404:
+ *         description: Unknown prompt template
+ *       500:
+ *         description: Failed to fetch prompt templates
+ *   post:
+ *     summary: Create a new prompt template version
+ *     description: Stores a new, inactive version of a system prompt. Templates may only reference the variables listed for that prompt. Use /api/admin/prompt-templates/{name}/activate to send traffic to it.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - template
+ *             properties:
+ *               name:
+ *                 type: string
+ *               template:
+ *                 type: string
+ *                 description: Template text using {{variable}}, {{#variable}}...{{/variable}} and {{^variable}}...{{/variable}}
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Version created
+ *       400:
+ *         description: Invalid template
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       404:
+ *         description: Unknown prompt template
+ *       500:
+ *         description: Failed to create prompt template version
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // Simple admin authentication
+  const authHeader = req.headers.authorization
+  if (!authHeader || (!authHeader.includes('admin-key') && !authHeader.includes('Bearer admin-key'))) {
+    return res.status(401).json({ error: 'Admin access required' })
+  }
+
+  try {
+    if (req.method === 'POST') {
+      const { name, template, description } = req.body || {}
+      if (!name || !template) {
+        return res.status(400).json({ error: 'name and template are required' })
+      }
+
+      const version = await promptRegistry.createVersion({ name, template, description, createdBy: 'admin' })
+      return res.status(201).json({ success: true, version })
+    }
+
+    const name = typeof req.query.name === 'string' ? req.query.name : undefined
+    if (name && !isPromptTemplateName(name)) {
+      return res.status(404).json({ error: `Unknown prompt template: ${name}` })
+    }
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365)
+
+    const versions = await promptRegistry.listVersions(name)
+    const names = name ? [name] : Object.keys(BUILTIN_PROMPT_TEMPLATES)
+
+    const templates = await Promise.all(names.map(async templateName => {
+      const builtin = BUILTIN_PROMPT_TEMPLATES[templateName as keyof typeof BUILTIN_PROMPT_TEMPLATES]
+      return {
+        name: templateName,
+        description: builtin.description,
+        variables: builtin.variables,
+        versions: versions.filter(version => version.name === templateName),
+        stats: await promptRegistry.getVersionStats(templateName, days)
+      }
+    }))
+
+    res.status(200).json({ templates })
+  } catch (error) {
+    if (error instanceof PromptTemplateError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('Prompt templates error:', error)
+    res.status(500).json({ error: req.method === 'POST' ? 'Failed to create prompt template version' : 'Failed to fetch prompt templates' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
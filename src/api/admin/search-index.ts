@@ -0,0 +1,105 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { hybridSearch, HybridSearchCorpus, FullTextIndexStatus } from '../../lib/hybrid-search'
+
+const CORPORA: HybridSearchCorpus[] = ['sdco_documents', 'enhanced_sdco_documents']
+
+/**
+ * @openapi
+ * /api/admin/search-index:
+ *   get:
+ *     summary: Full-text search index status
+ *     description: Returns whether each SDCO table has the weighted full-text column hybrid search ranks by. Tables without it are searched semantically only.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Index status retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 corpora:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       corpus:
+ *                         type: string
+ *                         example: "sdco_documents"
+ *                       exists:
+ *                         type: boolean
+ *                       indexed:
+ *                         type: boolean
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       500:
+ *         description: Failed to fetch search index status
+ *   post:
+ *     summary: Build the full-text search index
+ *     description: |
+ *       Adds the weighted full-text column and its GIN index to the SDCO tables that lack them. Adding the column
+ *       rewrites the table, which blocks reads and writes on it until it finishes, so run this at a quiet time.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               corpus:
+ *                 type: string
+ *                 enum: [sdco_documents, enhanced_sdco_documents]
+ *                 description: Only build this table's index (default all)
+ *     responses:
+ *       200:
+ *         description: Index built
+ *       400:
+ *         description: Unknown corpus
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       500:
+ *         description: Failed to build search index
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // Simple admin authentication
+  const authHeader = req.headers.authorization
+  if (!authHeader || (!authHeader.includes('admin-key') && !authHeader.includes('Bearer admin-key'))) {
+    return res.status(401).json({ error: 'Admin access required' })
+  }
+
+  try {
+    if (req.method === 'POST') {
+      const corpus = req.body?.corpus
+      if (corpus !== undefined && !CORPORA.includes(corpus)) {
+        return res.status(400).json({ error: `corpus must be one of: ${CORPORA.join(', ')}` })
+      }
+
+      const corpora: FullTextIndexStatus[] = []
+      for (const target of corpus ? [corpus as HybridSearchCorpus] : CORPORA) {
+        corpora.push(await hybridSearch.buildFullTextIndex(target))
+      }
+      return res.status(200).json({ success: true, corpora })
+    }
+
+    res.status(200).json({ corpora: await hybridSearch.getFullTextIndexStatus() })
+  } catch (error) {
+    console.error('Search index error:', error)
+    res.status(500).json({ error: req.method === 'POST' ? 'Failed to build search index' : 'Failed to fetch search index status' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
@@ -1,6 +1,15 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
 import { createPersonalAgent } from '../../lib/personal-ai-agent'
+import {
+  wantsEventStream,
+  openEventStream,
+  sendEvent,
+  endEventStream,
+  failEventStream,
+  abortOnDisconnect
+} from '../../lib/sse'
+import { conversationDB, ConversationError } from '../../lib/conversation-database'
 
 /**
  * @openapi
@@ -31,6 +40,15 @@ import { createPersonalAgent } from '../../lib/personal-ai-agent'
  *                 items:
  *                   type: string
  *                 description: Optional prior messages in the conversation.
+ *               threadId:
+ *                 type: string
+ *                 description: Server-side conversation thread; history is loaded from it and the exchange appended.
+ *               language:
+ *                 type: string
+ *                 description: Language to answer in (e.g. es). Defaults to the agent's preferred_language, then the language of the message.
+ *               stream:
+ *                 type: boolean
+ *                 description: Stream the reply as Server-Sent Events (`token` events, then one `metadata` event with context, timing and usage). While the safety guardrails are enabled, text is sent a sentence at a time once it passes their rules. When they change the reply, a `guardrail` event `{ action, categories, content }` arrives before `metadata` and its `content` replaces the streamed text.
  *     responses:
  *       200:
  *         description: Successful agent response.
@@ -43,6 +61,19 @@ import { createPersonalAgent } from '../../lib/personal-ai-agent'
  *                   type: boolean
  *                 response:
  *                   type: string
+ *                 language:
+ *                   type: object
+ *                   description: Language of the reply and the language detected in the message
+ *                   properties:
+ *                     response:
+ *                       type: string
+ *                     detected:
+ *                       type: string
+ *                       nullable: true
+ *                 guardrail:
+ *                   type: object
+ *                   nullable: true
+ *                   description: Set when the safety guardrails changed the reply (action and categories)
  *                 context:
  *                   type: object
  *                   properties:
@@ -69,7 +100,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    const { message, conversationHistory = [], sessionToken } = req.body
+    const { message, sessionToken, threadId } = req.body
+    let conversationHistory = req.body.conversationHistory || []
 
     if (!message || !sessionToken) {
       return res.status(400).json({ error: 'Message and session token are required' })
@@ -93,13 +125,82 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       return res.status(401).json({ error: 'User not found' })
     }
 
+    // Server-side thread replaces the client-supplied history
+    let storedThreadId: string | null = null
+    if (threadId) {
+      try {
+        const stored = await conversationDB.getHistory(userId, threadId)
+        storedThreadId = stored.thread.id
+        conversationHistory = stored.history
+      } catch (error) {
+        if (error instanceof ConversationError) {
+          return res.status(error.status).json({ error: error.message })
+        }
+        throw error
+      }
+    }
+
+    const saveToThread = async (response: string, metadata: Record<string, any>) => {
+      if (!storedThreadId) return
+      try {
+        await conversationDB.appendMessages(storedThreadId, [
+          { role: 'user', content: message },
+          { role: 'assistant', content: response, metadata }
+        ])
+      } catch (error) {
+        console.error('Failed to store agent exchange on thread:', error)
+      }
+    }
+
     // Create and use personal AI agent
     const agent = await createPersonalAgent(userId)
-    const result = await agent.processMessage(message, conversationHistory)
+
+    if (wantsEventStream(req)) {
+      const startTime = Date.now()
+      openEventStream(res)
+      const abort = abortOnDisconnect(res)
+      let firstTokenTime: number | null = null
+      const result = await agent.processMessage(message, conversationHistory, {
+        onToken: token => {
+          if (firstTokenTime === null) firstTokenTime = Date.now() - startTime
+          sendEvent(res, 'token', { content: token })
+        },
+        signal: abort.signal,
+        language: req.body.language
+      })
+      if (result.guardrail) {
+        sendEvent(res, 'guardrail', { ...result.guardrail, content: result.response })
+      }
+      await saveToThread(result.response, { promptTemplate: result.promptTemplate, guardrail: result.guardrail })
+      return endEventStream(res, {
+        success: true,
+        threadId: storedThreadId,
+        promptTemplate: result.promptTemplate,
+        language: result.language,
+        guardrail: result.guardrail,
+        context: {
+          memories_referenced: result.memories.length,
+          context_tags: result.contextTags,
+          agent_summary: agent.getAgentSummary()
+        },
+        timing: {
+          total: Date.now() - startTime,
+          firstToken: firstTokenTime
+        },
+        usage: result.usage
+      })
+    }
+
+    const result = await agent.processMessage(message, conversationHistory, { language: req.body.language })
+    await saveToThread(result.response, { promptTemplate: result.promptTemplate, guardrail: result.guardrail })
 
     res.status(200).json({
       success: true,
       response: result.response,
+      threadId: storedThreadId,
+      promptTemplate: result.promptTemplate,
+      language: result.language,
+      guardrail: result.guardrail,
       context: {
         memories_referenced: result.memories.length,
         context_tags: result.contextTags,
@@ -109,7 +210,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
 
   } catch (error) {
     console.error('Personal agent chat error:', error)
-    res.status(500).json({ error: 'Failed to process message with personal agent' })
+    failEventStream(res, 500, { error: 'Failed to process message with personal agent' })
   }
 }
 
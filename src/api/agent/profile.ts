@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
 import { userAgentProfileManager } from '../../lib/user-agent-profile'
+import { normalizeLanguage, AUTO_LANGUAGE } from '../../lib/language'
 
 /**
  * @openapi
@@ -59,8 +60,11 @@ import { userAgentProfileManager } from '../../lib/user-agent-profile'
  *                 type: string
  *                 description: Auth token for validating user session.
  *               personality:
- *                 type: string
- *                 description: Optional agent personality data to store or update.
+ *                 type: object
+ *                 description: |
+ *                   Optional agent personality data to store or update. `preferred_language` takes an
+ *                   ISO-639-1 code or language name (stored as the code), or "auto" to answer in the
+ *                   language the user writes in.
  *     responses:
  *       200:
  *         description: Agent profile updated successfully.
@@ -114,6 +118,16 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
 
       case 'POST':
         const { personality } = req.body
+        if (personality?.preferred_language !== undefined) {
+          // Stored as an ISO-639-1 code, or "auto" to answer in the language the user writes in
+          const preferredLanguage = String(personality.preferred_language).trim().toLowerCase() === AUTO_LANGUAGE
+            ? AUTO_LANGUAGE
+            : normalizeLanguage(personality.preferred_language)
+          if (!preferredLanguage) {
+            return res.status(400).json({ error: `Unsupported preferred_language: ${personality.preferred_language}` })
+          }
+          personality.preferred_language = preferredLanguage
+        }
         if (personality) {
           await userAgentProfileManager.createOrUpdateAgentPersonality(userId, personality)
         }
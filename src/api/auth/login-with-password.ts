@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
 import { authDB } from '../../lib/auth-database'
 import { sendOTPEmail } from '../../lib/email-service'
+import { resolveEmailLanguage } from '../../lib/language'
 import { DatabasePool } from '../../lib/database-pool'
 import bcrypt from 'bcryptjs'
 
@@ -9,6 +10,7 @@ interface LoginWithPasswordRequest {
   email: string
   password: string
   preferredOtpMethod: 'email'
+  language?: string
 }
 
 /**
@@ -40,6 +42,9 @@ interface LoginWithPasswordRequest {
  *                 type: string
  *                 enum: [email]
  *                 description: OTP delivery method. Only 'email' is supported.
+ *               language:
+ *                 type: string
+ *                 description: Language for the verification email (e.g. es). Defaults to the user's preferred language, then the Accept-Language header.
  *     responses:
  *       200:
  *         description: OTP sent successfully for login verification.
@@ -180,7 +185,12 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     })
 
     // Send OTP via email using Resend
-    const emailResult = await sendOTPEmail(email, otpCode, 'login')
+    const emailLanguage = await resolveEmailLanguage({
+      requested: req.body.language,
+      userId: user.id,
+      acceptLanguage: req.headers['accept-language']
+    })
+    const emailResult = await sendOTPEmail(email, otpCode, 'login', emailLanguage)
     
     if (!emailResult.success) {
       return res.status(500).json({ 
@@ -2,11 +2,13 @@ import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
 import { authDB } from '../../lib/auth-database'
 import { OTPService } from '../../lib/otp-service'
+import { resolveEmailLanguage } from '../../lib/language'
 import { ExtendedNextApiRequest, withScalableMiddleware } from '../../lib/api-middleware'
 
 interface OTPRequest {
   email: string
   purpose: 'signup' | 'login' | 'verification'
+  language?: string
 }
 
 /**
@@ -35,6 +37,9 @@ interface OTPRequest {
  *                 type: string
  *                 enum: [signup, login, verification]
  *                 description: The context for the OTP request.
+ *               language:
+ *                 type: string
+ *                 description: Language for the email (e.g. es). Defaults to the user's preferred language, then the Accept-Language header.
  *     responses:
  *       200:
  *         description: OTP sent successfully.
@@ -74,7 +79,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
     await authDB.initializeSchema()
     
-    const { email, purpose = 'login' }: OTPRequest = req.body
+    const { email, purpose = 'login', language }: OTPRequest = req.body
     
     // Validate email format
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
@@ -99,6 +104,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     }
 
     // For login, check if user exists
+    let loginUserId: string | null = null
     if (purpose === 'login') {
       const existingUser = await authDB.getUserByEmail(email)
       if (!existingUser) {
@@ -107,12 +113,18 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
           shouldRedirectToSignup: true
         })
       }
+      loginUserId = existingUser.id
     }
 
     // Send OTP via email using OTPService
     const result = await OTPService.requestOTP({
       email,
       purpose,
+      language: await resolveEmailLanguage({
+        requested: language,
+        userId: loginUserId,
+        acceptLanguage: req.headers['accept-language']
+      }),
       ipAddress: req.headers['x-forwarded-for'] as string || req.connection?.remoteAddress,
       userAgent: req.headers['user-agent']
     })
@@ -2,11 +2,13 @@ import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
 import { authDB } from '../../lib/auth-database'
 import { sendOTPEmail } from '../../lib/email-service'
+import { resolveEmailLanguage } from '../../lib/language'
 
 interface SendOTPRequest {
   email: string
   method: 'email'
   type: 'signup' | 'login' | 'verification'
+  language?: string
 }
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -18,7 +20,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     // Initialize database schema if needed
     await authDB.initializeSchema()
     
-    const { email, method, type }: SendOTPRequest = req.body
+    const { email, method, type, language }: SendOTPRequest = req.body
 
     // Validate input
     if (!email) {
@@ -62,7 +64,11 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     console.log('='.repeat(60) + '\n')
 
     // Send OTP via email using existing email service
-    const emailResult = await sendOTPEmail(email, code, type)
+    const emailLanguage = await resolveEmailLanguage({
+      requested: language,
+      acceptLanguage: req.headers['accept-language']
+    })
+    const emailResult = await sendOTPEmail(email, code, type, emailLanguage)
 
     if (!emailResult.success) {
       return res.status(500).json({ 
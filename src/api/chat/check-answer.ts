@@ -1,10 +1,7 @@
 import { Request, Response } from 'express';
 import type { NextApiRequest, NextApiResponse } from 'next'
-import OpenAI from 'openai'
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-})
+import { StructuredOutputError } from '../../lib/structured-output'
+import { answerDetector } from '../../lib/answer-detector'
 
 interface CheckAnswerRequest {
   userMessage: string
@@ -104,6 +101,8 @@ interface CheckAnswerResponse {
  *                 error:
  *                   type: string
  *                   example: "Internal server error"
+ *       502:
+ *         description: The AI response could not be interpreted, even after a repair attempt
  */
 
 async function handler(
@@ -121,89 +120,19 @@ async function handler(
       return res.status(400).json({ error: 'User message, question, and answer list are required' })
     }
 
-    // Create prompt to determine if user answered the question
-    const prompt = `You are analyzing whether a patient's response answers a specific diagnostic question.
-
-DIAGNOSTIC QUESTION: "${question}"
-
-AVAILABLE ANSWERS:
-${answerList.map((answer, index) => `${index}: ${answer}`).join('\n')}
-
-PATIENT'S RESPONSE: "${userMessage}"
-
-Analyze if the patient's response answers the diagnostic question. If it does, determine which answer index (0-${answerList.length - 1}) best matches their response.
-
-Respond with ONLY a JSON object in this exact format:
-{
-  "answered": true/false,
-  "answerIndex": number or null,
-  "confidence": number between 0-1,
-  "reasoning": "brief explanation"
-}
-
-Examples:
-- If question is "Do you have chest pain?" and patient says "Yes, I have severe chest pain" → {"answered": true, "answerIndex": 0, "confidence": 0.95, "reasoning": "Clear affirmative response"}
-- If question is "How often does this occur?" and patient says "I also have a headache" → {"answered": false, "answerIndex": null, "confidence": 0.1, "reasoning": "Response doesn't address frequency"}
-- If question is "Is the pain sharp or dull?" and patient says "It's more of a stabbing sensation" → {"answered": true, "answerIndex": 0, "confidence": 0.8, "reasoning": "Stabbing indicates sharp pain"}
-
-Be strict: only mark as answered if the response clearly addresses the specific question asked.`
+    const analysis = await answerDetector.detect(userMessage, { question, answerList })
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: prompt
-        },
-        {
-          role: "user", 
-          content: `Analyze this response: "${userMessage}"`
-        }
-      ],
-      max_tokens: 200,
-      temperature: 0.1
+    return res.status(200).json({
+      answered: analysis.answered,
+      answerIndex: analysis.answered ? analysis.answerIndex : null,
+      confidence: analysis.confidence
     })
 
-    const responseText = completion.choices[0]?.message?.content?.trim()
-    
-    if (!responseText) {
-      return res.status(500).json({ error: 'No response from AI' })
-    }
-
-    try {
-      // Parse the JSON response from OpenAI
-      const analysis = JSON.parse(responseText)
-      
-      // Validate the response structure
-      if (typeof analysis.answered !== 'boolean') {
-        throw new Error('Invalid answered field')
-      }
-      
-      if (analysis.answered && (analysis.answerIndex === null || analysis.answerIndex === undefined)) {
-        throw new Error('Answer index required when answered is true')
-      }
-
-      if (analysis.answered && (analysis.answerIndex < 0 || analysis.answerIndex >= answerList.length)) {
-        throw new Error('Answer index out of range')
-      }
-
-      return res.status(200).json({
-        answered: analysis.answered,
-        answerIndex: analysis.answered ? analysis.answerIndex : null,
-        confidence: analysis.confidence || 0
-      })
-
-    } catch (parseError) {
-      console.error('Failed to parse OpenAI response:', responseText, parseError)
-      // Fallback: assume not answered if parsing fails
-      return res.status(200).json({
-        answered: false,
-        answerIndex: null,
-        confidence: 0
-      })
-    }
-
   } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      console.error('Check answer: unusable AI response:', error.rawOutput, error.issues)
+      return res.status(error.status).json({ error: 'Could not interpret the AI response' })
+    }
     console.error('Check answer error:', error)
     return res.status(500).json({ error: 'Internal server error' })
   }
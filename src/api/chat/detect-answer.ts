@@ -1,17 +1,7 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
-import OpenAI from 'openai'
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-})
-
-interface AnswerDetectionResult {
-  answered: boolean
-  answerIndex: number | null
-  confidence: number
-  explanation: string
-}
+import { StructuredOutputError } from '../../lib/structured-output'
+import { answerDetector, AnswerDetection, DiagnosticQuestionInput } from '../../lib/answer-detector'
 
 /**
  * @openapi
@@ -21,6 +11,9 @@ interface AnswerDetectionResult {
  *     description: |
  *       Accepts a user message and a diagnostic question with answer options.
  *       Returns whether the user answered, which option matches, confidence score, and explanation.
+ *       Short replies such as "no" or "not sure" are matched by rules without an AI call.
+ *       Send `diagnosticQuestions` instead of `diagnosticQuestion` to check several pending
+ *       questions with a single AI call; the response is then `{ results: [...] }` in question order.
  *     tags:
  *       - Chat
  *     requestBody:
@@ -31,7 +24,6 @@ interface AnswerDetectionResult {
  *             type: object
  *             required:
  *               - userMessage
- *               - diagnosticQuestion
  *             properties:
  *               userMessage:
  *                 type: string
@@ -52,6 +44,18 @@ interface AnswerDetectionResult {
  *                     example:
  *                       - "No"
  *                       - "Yes"
+ *               diagnosticQuestions:
+ *                 type: array
+ *                 description: Batch mode, used instead of diagnosticQuestion
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     question:
+ *                       type: string
+ *                     answerList:
+ *                       type: array
+ *                       items:
+ *                         type: string
  *     responses:
  *       200:
  *         description: Successful answer detection
@@ -78,6 +82,10 @@ interface AnswerDetectionResult {
  *                   type: string
  *                   description: Brief explanation of the reasoning
  *                   example: "User confirmed having chest pain, which corresponds to 'Yes'"
+ *                 source:
+ *                   type: string
+ *                   enum: [rule, llm]
+ *                   description: Whether a rule or the AI model made the decision
  *       400:
  *         description: Bad request - missing required fields
  *         content:
@@ -108,6 +116,8 @@ interface AnswerDetectionResult {
  *                 error:
  *                   type: string
  *                   example: "Answer detection failed"
+ *       502:
+ *         description: The AI response could not be interpreted, even after a repair attempt
  */
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -116,88 +126,28 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    const { userMessage, diagnosticQuestion } = req.body
+    const { userMessage, diagnosticQuestion, diagnosticQuestions } = req.body
+    const batch = Array.isArray(diagnosticQuestions)
+    const questions: DiagnosticQuestionInput[] = batch ? diagnosticQuestions : [diagnosticQuestion]
 
-    if (!diagnosticQuestion?.question || !diagnosticQuestion?.answerList) {
+    if (questions.length === 0 || questions.some(question => !question?.question || !Array.isArray(question?.answerList))) {
       return res.status(400).json({ error: 'Missing diagnostic question data' })
     }
 
-    const answerOptions = diagnosticQuestion.answerList.map((option: string, index: number) => 
-      `${index}: ${option}`
-    ).join('\n')
-
-    const detectionPrompt = `Analyze the user's message to determine if they answered this diagnostic question:
-
-QUESTION: "${diagnosticQuestion.question}"
-
-ANSWER OPTIONS:
-${answerOptions}
-
-USER MESSAGE: "${userMessage}"
-
-Determine if the user's message contains an answer to the diagnostic question. Look for:
-- Direct answers using the exact option words
-- Synonyms or similar meanings (e.g., "no" = "absent", "yes" = "present")
-- Implicit answers based on context
-
-Respond with a JSON object containing:
-- answered: boolean (true if an answer was detected)
-- answerIndex: number or null (the index of the selected answer option)
-- confidence: number (0-100, how confident you are in the detection)
-- explanation: string (brief explanation of your reasoning)
-
-Examples:
-- "No, I don't have chest pain" → {"answered": true, "answerIndex": 0, "confidence": 95, "explanation": "User clearly stated 'No' which corresponds to 'Absent'"}
-- "Yes, I've been having chest pain" → {"answered": true, "answerIndex": 1, "confidence": 95, "explanation": "User confirmed having chest pain, which corresponds to 'Present'"}
-- "I'm not sure about that" → {"answered": false, "answerIndex": null, "confidence": 85, "explanation": "User expressed uncertainty, no clear answer detected"}
-
-Be strict - only detect answers when you're confident (>70% confidence) that the user is responding to the specific question.`
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: "You are a precise medical question answer detector. Always respond with valid JSON only." },
-        { role: "user", content: detectionPrompt }
-      ],
-      max_tokens: 200,
-      temperature: 0.1
-    })
-
-    const responseText = response.choices[0]?.message?.content?.trim()
-    
-    if (!responseText) {
-      throw new Error('No response from OpenAI')
-    }
-
-    // Parse the JSON response (handle markdown code blocks)
-    let result: AnswerDetectionResult
-    try {
-      // Remove markdown code blocks if present
-      const cleanedResponse = responseText.replace(/```json\n?|```\n?/g, '').trim()
-      result = JSON.parse(cleanedResponse)
-    } catch (parseError) {
-      console.error('Failed to parse OpenAI response:', responseText)
-      throw new Error('Invalid JSON response from OpenAI')
-    }
-
-    // Validate the response structure
-    if (typeof result.answered !== 'boolean' || 
-        typeof result.confidence !== 'number' ||
-        typeof result.explanation !== 'string') {
-      throw new Error('Invalid response structure from OpenAI')
-    }
+    const detections = await answerDetector.detectMany(userMessage || '', questions)
+    const results = detections.map(toResponse)
 
     console.log('🔍 ANSWER DETECTION RESULT:', {
-      question: diagnosticQuestion.question,
+      questions: questions.map(question => question.question),
       userMessage,
-      result
+      results
     })
 
-    res.status(200).json(result)
+    res.status(200).json(batch ? { results } : results[0])
 
   } catch (error) {
     console.error('Answer detection failed:', error)
-    res.status(500).json({ 
+    res.status(error instanceof StructuredOutputError ? error.status : 500).json({ 
       error: 'Answer detection failed',
       answered: false,
       answerIndex: null,
@@ -207,6 +157,11 @@ Be strict - only detect answers when you're confident (>70% confidence) that the
   }
 }
 
+// This endpoint has always reported confidence as 0-100
+function toResponse(detection: AnswerDetection) {
+  return { ...detection, confidence: Math.round(detection.confidence * 100) }
+}
+
 export default async function expressAdapter(req: Request, res: Response) {
   return await handler(req as any, res as any);
 }
\ No newline at end of file
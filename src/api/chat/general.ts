@@ -1,10 +1,20 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
-import OpenAI from 'openai'
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-})
+import {
+  wantsEventStream,
+  openEventStream,
+  sendEvent,
+  endEventStream,
+  failEventStream,
+  abortOnDisconnect,
+  consumeCompletionStream
+} from '../../lib/sse'
+import { authDB } from '../../lib/auth-database'
+import { conversationDB, ConversationError } from '../../lib/conversation-database'
+import { getLLMProvider, getModelForTask, LLMChatRequest } from '../../lib/llm-provider'
+import { promptRegistry } from '../../lib/prompt-registry'
+import { resolveConversationLanguage, languageInstruction } from '../../lib/language'
+import { responseGuardrails, guardrailSummary } from '../../lib/response-guardrails'
 
 /**
  * @openapi
@@ -42,10 +52,34 @@ const openai = new OpenAI({
  *                     content:
  *                       type: string
  *                       example: "I have been feeling very thirsty lately."
+ *               threadId:
+ *                 type: string
+ *                 description: |
+ *                   Server-side conversation thread (see /api/conversations). When set, history is loaded from the
+ *                   thread and the exchange is appended to it. Requires a Bearer session token.
+ *               language:
+ *                 type: string
+ *                 description: |
+ *                   Language to answer in (ISO-639-1, e.g. "es"). Defaults to the user's preferred_language,
+ *                   then the language the message is written in.
+ *                 example: "es"
+ *               stream:
+ *                 type: boolean
+ *                 description: |
+ *                   Stream the reply as Server-Sent Events (also enabled by `Accept: text/event-stream`).
+ *                   `token` events carry `{ content }` deltas; a final `metadata` event carries `timing`,
+ *                   `usage` and `timestamp`. While the safety guardrails are enabled, text is sent a sentence at a
+ *                   time once it passes their rules. When they change the reply, a `guardrail` event
+ *                   `{ action, categories, content }` arrives before `metadata` and its `content` replaces the streamed text.
+ *                 example: false
  *     responses:
  *       200:
  *         description: Successful response from the medical assistant
  *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               description: Streaming mode - `token` events followed by one `metadata` event
  *           application/json:
  *             schema:
  *               type: object
@@ -57,6 +91,39 @@ const openai = new OpenAI({
  *                   type: string
  *                   description: Assistant's generated reply
  *                   example: "Common symptoms of diabetes include increased thirst and frequent urination."
+ *                 promptTemplate:
+ *                   type: object
+ *                   description: System prompt template and version that produced the reply
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                       example: "chat_general_system"
+ *                     version:
+ *                       type: integer
+ *                       example: 1
+ *                 language:
+ *                   type: object
+ *                   description: Language of the reply and the language detected in the message (null when unclear)
+ *                   properties:
+ *                     response:
+ *                       type: string
+ *                       example: "es"
+ *                     detected:
+ *                       type: string
+ *                       nullable: true
+ *                       example: "es"
+ *                 guardrail:
+ *                   type: object
+ *                   nullable: true
+ *                   description: Set when the safety guardrails changed the reply
+ *                   properties:
+ *                     action:
+ *                       type: string
+ *                       enum: [disclaimer_added, rewritten, blocked]
+ *                     categories:
+ *                       type: array
+ *                       items:
+ *                         type: string
  *                 timestamp:
  *                   type: string
  *                   format: date-time
@@ -102,12 +169,59 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    const { message, conversationHistory = [] } = req.body
+    const { message, threadId } = req.body
+    let conversationHistory = req.body.conversationHistory || []
 
     if (!message || typeof message !== 'string') {
       return res.status(400).json({ error: 'Valid message required' })
     }
 
+    const sessionToken = req.headers.authorization?.replace('Bearer ', '')
+    const user = sessionToken ? await authDB.validateSession(sessionToken) : null
+
+    // Server-side thread replaces the client-supplied history
+    let storedThreadId: string | null = null
+    if (threadId) {
+      if (!user) {
+        return res.status(401).json({ error: 'Authentication required to use threadId' })
+      }
+      try {
+        const stored = await conversationDB.getHistory(user.id, threadId)
+        storedThreadId = stored.thread.id
+        conversationHistory = stored.history
+      } catch (error) {
+        if (error instanceof ConversationError) {
+          return res.status(error.status).json({ error: error.message })
+        }
+        throw error
+      }
+    }
+
+    const [systemPrompt, language] = await Promise.all([
+      promptRegistry.render('chat_general_system', {}, { assignmentKey: user?.id }),
+      resolveConversationLanguage({
+        message,
+        userId: user?.id,
+        requested: req.body.language,
+        history: conversationHistory
+      })
+    ])
+    const promptRef = { name: systemPrompt.name, version: systemPrompt.version }
+    const languageRef = { response: language.responseLanguage, detected: language.detectedLanguage }
+    const instruction = languageInstruction(language)
+
+    const saveToThread = async (response: string, guardrail: ReturnType<typeof guardrailSummary>) => {
+      if (!storedThreadId) return
+      try {
+        await conversationDB.appendMessages(storedThreadId, [
+          { role: 'user', content: message.trim() },
+          { role: 'assistant', content: response, metadata: { promptTemplate: promptRef, guardrail } }
+        ])
+      } catch (error) {
+        console.error('Failed to store chat exchange on thread:', error)
+      }
+    }
+
     // Filter out any null/empty content from conversation history
     const cleanHistory = conversationHistory
       .filter((msg: any) => msg && msg.content && typeof msg.content === 'string' && msg.content.trim().length > 0)
@@ -120,8 +234,9 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     const messages = [
       {
         role: 'system',
-        content: `You are a helpful medical assistant from the Global Library of Medicine™. Provide educational information while always reminding users to consult healthcare providers for medical advice. Keep responses clear and informative.`
+        content: systemPrompt.content
       },
+      ...(instruction ? [{ role: 'system', content: instruction }] : []),
       ...cleanHistory,
       {
         role: 'user',
@@ -129,24 +244,90 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       }
     ]
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const completionParams: LLMChatRequest = {
+      task: 'chat',
       messages: messages as any[],
       max_tokens: 1000,
       temperature: 0.7
-    })
+    }
+    const guardrailContext = {
+      endpoint: '/api/chat/general',
+      userId: user?.id,
+      threadId: storedThreadId,
+      userMessage: message.trim(),
+      language: language.responseLanguage
+    }
+
+    if (wantsEventStream(req)) {
+      const startTime = Date.now()
+      openEventStream(res)
+      const abort = abortOnDisconnect(res)
+      const guarded = responseGuardrails.guardStream(guardrailContext, text => sendEvent(res, 'token', { content: text }))
+      const streamed = await consumeCompletionStream(
+        await getLLMProvider().chatStream(completionParams, { signal: abort.signal }),
+        token => guarded.push(token),
+        startTime
+      )
+      await promptRegistry.recordUsage(promptRef, {
+        userId: user?.id,
+        endpoint: '/api/chat/general',
+        model: getModelForTask('chat'),
+        usage: streamed.usage,
+        latencyMs: Date.now() - startTime
+      })
+      const guardrail = streamed.content ? await responseGuardrails.apply(streamed.content, guardrailContext) : null
+      const guardrailRef = guardrail ? guardrailSummary(guardrail) : null
+      const response = guardrail?.content || 'I apologize, but I could not generate a response.'
+      guarded.finish(response)
+      if (guardrailRef) {
+        sendEvent(res, 'guardrail', { ...guardrailRef, content: response })
+      }
+      await saveToThread(response, guardrailRef)
+      return endEventStream(res, {
+        success: true,
+        threadId: storedThreadId,
+        promptTemplate: promptRef,
+        language: languageRef,
+        guardrail: guardrailRef,
+        timing: {
+          total: Date.now() - startTime,
+          firstToken: streamed.firstTokenMs
+        },
+        usage: streamed.usage,
+        timestamp: new Date().toISOString()
+      })
+    }
+
+    const startTime = Date.now()
+    const completion = await getLLMProvider().chat(completionParams)
 
-    const response = completion.choices[0]?.message?.content || 'I apologize, but I could not generate a response.'
+    const generated = completion.choices[0]?.message?.content
+    const guardrail = generated ? await responseGuardrails.apply(generated, guardrailContext) : null
+    const guardrailRef = guardrail ? guardrailSummary(guardrail) : null
+    const response = guardrail?.content || 'I apologize, but I could not generate a response.'
+
+    await promptRegistry.recordUsage(promptRef, {
+      userId: user?.id,
+      endpoint: '/api/chat/general',
+      model: completion.model,
+      usage: completion.usage,
+      latencyMs: Date.now() - startTime
+    })
+    await saveToThread(response, guardrailRef)
 
     return res.status(200).json({
       success: true,
       response,
+      threadId: storedThreadId,
+      promptTemplate: promptRef,
+      language: languageRef,
+      guardrail: guardrailRef,
       timestamp: new Date().toISOString()
     })
 
   } catch (error) {
     console.error('General chat API error:', error)
-    return res.status(500).json({
+    return failEventStream(res, 500, {
       error: 'Failed to generate response',
       details: error instanceof Error ? error.message : 'Unknown error'
     })
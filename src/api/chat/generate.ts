@@ -1,16 +1,36 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
-import OpenAI from 'openai'
+import type OpenAI from 'openai'
 import { costTracker } from '../../lib/cost-tracker'
 import { getHealthContextForUser } from '../../lib/health-context'
 import { getAutomaticHealthContext } from '../../lib/automatic-health-context'
 import TokenTracker from '../../lib/token-tracker'
 import { withScalableMiddleware } from '../../lib/api-middleware'
 import { responseCache } from '../../lib/response-cache'
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-})
+import { triageMessage, isEmergency, buildEmergencyMessage } from '../../lib/triage'
+import {
+  wantsEventStream,
+  openEventStream,
+  sendEvent,
+  endEventStream,
+  streamCompleteResponse,
+  failEventStream,
+  abortOnDisconnect,
+  consumeCompletionStream
+} from '../../lib/sse'
+import { conversationDB, ConversationError, ConversationThread } from '../../lib/conversation-database'
+import { getLLMProvider, getModelForTask, LLMChatRequest } from '../../lib/llm-provider'
+import { promptRegistry, renderPromptTemplate } from '../../lib/prompt-registry'
+import { resolveConversationLanguage, translateToEnglish, languageInstruction, DEFAULT_LANGUAGE } from '../../lib/language'
+import { responseGuardrails, guardrailSummary } from '../../lib/response-guardrails'
+import {
+  SourceChunk,
+  numberSources,
+  formatSourcesForPrompt,
+  citationInstruction,
+  resolveCitations,
+  excerptText
+} from '../../lib/citations'
 
 async function getUserHealthContext(sessionToken?: string): Promise<string> {
   try {
@@ -97,7 +117,7 @@ async function getWearableHealthData(sessionToken?: string): Promise<string> {
   }
 }
 
-async function getEducationalInsight(userMessage: string): Promise<string | null> {
+async function getEducationalInsight(userMessage: string): Promise<{ message: string; source: SourceChunk } | null> {
   try {
     const response = await fetch(`${process.env.NEXTAUTH_URL || 'https://treatmentglm.replit.app'}/api/didyouknow/search`, {
       method: 'POST',
@@ -123,7 +143,20 @@ async function getEducationalInsight(userMessage: string): Promise<string | null
       const randomIndex = Math.floor(Math.random() * data.results.length)
       const selectedItem = data.results[randomIndex]
       
-      return `---\n\n## 💡 Insight from the GLM™\n\n*${selectedItem.message}*`
+      return {
+        message: selectedItem.message,
+        source: {
+          kind: 'insight',
+          sdcoId: selectedItem.sdco_id ? String(selectedItem.sdco_id) : null,
+          documentId: selectedItem.id !== undefined && selectedItem.id !== null ? String(selectedItem.id) : null,
+          contentType: 'did_you_know',
+          displayName: selectedItem.sdco_name || selectedItem.title || 'Global Library of Medicine™',
+          laymanName: null,
+          excerpt: excerptText(selectedItem.message),
+          content: selectedItem.message,
+          similarity: typeof selectedItem.confidence === 'number' ? selectedItem.confidence : null
+        }
+      }
     }
     
     return null
@@ -136,7 +169,7 @@ async function getEducationalInsight(userMessage: string): Promise<string | null
 async function getSDCOContextualInformation(
   userMessage: string, 
   primarySDCOId?: string
-): Promise<string> {
+): Promise<SourceChunk[]> {
   try {
     console.log(`Fetching SDCO contextual information for: "${userMessage}"`)
     
@@ -155,20 +188,20 @@ async function getSDCOContextualInformation(
 
     if (!response.ok) {
       console.log('SDCO vector search failed:', response.status)
-      return ''
+      return []
     }
 
     const data = await response.json()
     
-    if (data.success && data.contextual_information) {
-      console.log('Retrieved comprehensive SDCO contextual information')
-      return data.contextual_information
+    if (data.success && Array.isArray(data.sources)) {
+      console.log(`Retrieved ${data.sources.length} SDCO context chunks`)
+      return data.sources
     }
     
-    return ''
+    return []
   } catch (error) {
     console.log('SDCO contextual information error:', error)
-    return ''
+    return []
   }
 }
 
@@ -253,10 +286,37 @@ async function getSDCOContextualInformation(
  *                     content:
  *                       type: string
  *                       example: "I have been coughing for two weeks."
+ *               threadId:
+ *                 type: string
+ *                 description: |
+ *                   Server-side conversation thread (see /api/conversations). When set, history is loaded from
+ *                   the thread instead of `conversationHistory` and this exchange is appended to it. Requires a valid sessionToken.
+ *               language:
+ *                 type: string
+ *                 description: |
+ *                   Language to answer in (ISO-639-1, e.g. "es"). Defaults to the user's preferred_language,
+ *                   then the language the message is written in.
+ *                 example: "es"
+ *               stream:
+ *                 type: boolean
+ *                 description: |
+ *                   Stream the response as Server-Sent Events (also enabled by `Accept: text/event-stream`).
+ *                   `token` events carry `{ content }` deltas; a final `metadata` event carries `cached`,
+ *                   `triage`, `sources`, `timing` (including `firstToken`), `usage` and `educationalInsight`, which is
+ *                   not part of the streamed tokens. Streamed text may contain markers the model invented; only
+ *                   render markers that match an entry in `sources`. While the safety guardrails are enabled, text is sent
+ *                   a sentence at a time once it passes their rules. When they change the reply, a `guardrail` event
+ *                   `{ action, categories, content }` arrives before the diagnostic question and its `content` replaces
+ *                   the text streamed so far. Errors after the stream opened arrive as an `error` event.
+ *                 example: false
  *     responses:
  *       200:
  *         description: Successfully generated medical assistant response
  *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               description: Streaming mode - `token` events followed by one `metadata` event
  *           application/json:
  *             schema:
  *               type: object
@@ -266,10 +326,91 @@ async function getSDCOContextualInformation(
  *                   description: Generated assistant message integrating all contexts
  *                   example: |
  *                     Thank you for sharing your symptoms. Persistent cough can have many causes, including...
+ *                 triage:
+ *                   type: object
+ *                   description: Red-flag triage of the user message (level, matchedRules, recommendedAction)
+ *                 emergency:
+ *                   type: boolean
+ *                   description: Present and true when triage found an emergency; the response is emergency guidance instead of a normal answer
  *                 cached:
  *                   type: boolean
  *                   description: Indicates if the response was served from cache
  *                   example: false
+ *                 cacheMatch:
+ *                   type: string
+ *                   enum: [exact, semantic]
+ *                   description: How a cached response was found; only set when cached is true
+ *                 promptTemplate:
+ *                   type: object
+ *                   description: System prompt template and version that produced the response
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                       example: "chat_generate_system"
+ *                     version:
+ *                       type: integer
+ *                       example: 1
+ *                 language:
+ *                   type: object
+ *                   description: Language of the answer and the language detected in the user message (null when unclear)
+ *                   properties:
+ *                     response:
+ *                       type: string
+ *                       example: "es"
+ *                     detected:
+ *                       type: string
+ *                       nullable: true
+ *                       example: "es"
+ *                 guardrail:
+ *                   type: object
+ *                   nullable: true
+ *                   description: Set when the safety guardrails changed the generated reply
+ *                   properties:
+ *                     action:
+ *                       type: string
+ *                       enum: [disclaimer_added, rewritten, blocked]
+ *                     categories:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                         enum: [definitive_diagnosis, specific_dosing, stop_medication, missing_disclaimer]
+ *                 sources:
+ *                   type: array
+ *                   description: |
+ *                     Global Library of Medicine content the answer was given. The response cites them inline as
+ *                     `[marker]`; `cited` is true when the text refers to the source.
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       marker:
+ *                         type: integer
+ *                         example: 1
+ *                       cited:
+ *                         type: boolean
+ *                       kind:
+ *                         type: string
+ *                         enum: [sdco, insight]
+ *                       sdcoId:
+ *                         type: string
+ *                         nullable: true
+ *                       documentId:
+ *                         type: string
+ *                         nullable: true
+ *                       contentType:
+ *                         type: string
+ *                         nullable: true
+ *                         example: "symptom"
+ *                       displayName:
+ *                         type: string
+ *                         example: "Chronic Bronchitis"
+ *                       laymanName:
+ *                         type: string
+ *                         nullable: true
+ *                       excerpt:
+ *                         type: string
+ *                       similarity:
+ *                         type: number
+ *                         nullable: true
  *                 timing:
  *                   type: object
  *                   properties:
@@ -324,7 +465,9 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    const { userMessage: rawUserMessage, differentialDiagnosis, primarySDCOId, diagnosticQuestion, sessionId, sessionToken, conversationHistory } = req.body
+    const { userMessage: rawUserMessage, differentialDiagnosis, primarySDCOId, diagnosticQuestion, sessionId, sessionToken, threadId } = req.body
+    let conversationHistory = req.body.conversationHistory
+    const streaming = wantsEventStream(req)
     
     // Ensure userMessage is never undefined
     const userMessage = rawUserMessage || "Please provide a response"
@@ -353,6 +496,41 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       console.log('⚠️ No session token provided for automatic health context')
     }
 
+    // Server-side thread replaces the client-supplied history
+    let thread: ConversationThread | null = null
+    if (threadId) {
+      if (!userId) {
+        return res.status(401).json({ error: 'A valid sessionToken is required to use threadId' })
+      }
+      try {
+        const stored = await conversationDB.getHistory(userId, threadId)
+        thread = stored.thread
+        conversationHistory = stored.history
+      } catch (error) {
+        if (error instanceof ConversationError) {
+          return res.status(error.status).json({ error: error.message })
+        }
+        throw error
+      }
+
+      if (!thread.diagnosticSessionId && sessionId) {
+        thread = await conversationDB.linkDiagnosticSession(userId, thread.id, sessionId).catch(() => thread)
+      }
+    }
+
+    // Store this exchange on the thread; a failure here never fails the chat response
+    const saveToThread = async (assistantResponse: string, metadata: Record<string, any>) => {
+      if (!thread) return
+      try {
+        await conversationDB.appendMessages(thread.id, [
+          { role: 'user', content: String(rawUserMessage || '') },
+          { role: 'assistant', content: assistantResponse, metadata }
+        ])
+      } catch (error) {
+        console.error('Failed to store chat exchange on thread:', error)
+      }
+    }
+
     // Create context from differential diagnosis
     const diagnosisContext = differentialDiagnosis
       ?.filter((d: any) => d.probability > 0.05)
@@ -368,77 +546,132 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     // PARALLEL PROCESSING FOR SPEED OPTIMIZATION - Execute all data fetching simultaneously
     console.log('🚀 Starting parallel data fetching for optimal performance...')
     const startTime = Date.now()
+
+    // The answer follows the user's language, but SDCO and GLM lookups match English terms
+    const languagePromise = resolveConversationLanguage({
+      message: userMessage,
+      userId,
+      requested: req.body.language,
+      history: conversationHistory
+    })
+    const englishMessagePromise = languagePromise.then(language => translateToEnglish(userMessage, language.detectedLanguage))
+
+    // Red-flag triage runs alongside context fetching and is checked before any response is generated.
+    // The rules are English, so they also run on the translation of messages in other languages.
+    const triagePromise = englishMessagePromise
+      .catch(() => undefined)
+      .then(englishMessage => triageMessage(rawUserMessage || '', { englishMessage: rawUserMessage ? englishMessage : undefined }))
     
     const [sdcoContextualInfo, wearableHealthData, userHealthContext, educationalContent, automaticHealthContext] = await Promise.allSettled([
-      primarySDCOId ? getSDCOContextualInformation(userMessage, primarySDCOId) : Promise.resolve(''),
+      primarySDCOId ? englishMessagePromise.then(englishMessage => getSDCOContextualInformation(englishMessage, primarySDCOId)) : Promise.resolve([]),
       getWearableHealthData(sessionToken),
       getUserHealthContext(sessionToken),
-      getEducationalInsight(userMessage),
+      // GLM insights only exist in English, so they are left out of answers in other languages
+      languagePromise.then(language => language.responseLanguage === DEFAULT_LANGUAGE
+        ? englishMessagePromise.then(getEducationalInsight)
+        : null),
       userId ? getAutomaticHealthContext(userId) : Promise.resolve('')
     ])
+    const language = await languagePromise
+    const languageRef = { response: language.responseLanguage, detected: language.detectedLanguage }
     
     const parallelTime = Date.now() - startTime
     console.log(`⚡ Parallel processing completed in ${parallelTime}ms (vs serial ~2500ms)`)
     
     // Extract results with fallbacks for error resilience
-    const sdcoInfo = sdcoContextualInfo.status === 'fulfilled' ? sdcoContextualInfo.value : ''
+    // Retrieved chunks are numbered for inline citations; the GLM insight comes last
+    const sdcoSources = numberSources(sdcoContextualInfo.status === 'fulfilled' ? sdcoContextualInfo.value : [])
+    const sdcoInfo = formatSourcesForPrompt(sdcoSources)
     const wearableData = wearableHealthData.status === 'fulfilled' ? wearableHealthData.value : ''
     const healthContext = userHealthContext.status === 'fulfilled' ? userHealthContext.value : ''
     const educationalData = educationalContent.status === 'fulfilled' ? educationalContent.value : null
     const autoHealthContext = automaticHealthContext.status === 'fulfilled' ? automaticHealthContext.value : ''
     
-    // CHECK CACHE FIRST - Ultra-fast response for similar queries
-    const cacheKey = `${userMessage}-${diagnosisContext}-${healthContext}`
-    const cachedResponse = await responseCache.getCachedResponse(
-      userMessage,
-      diagnosisContext || '',
-      healthContext
-    )
+    // Emergencies skip the cache and the normal assistant response entirely
+    const triage = await triagePromise
+    if (isEmergency(triage)) {
+      console.log('🚨 EMERGENCY TRIAGE: Returning emergency guidance instead of chat response')
+      const emergencyMetadata = {
+        threadId: thread?.id,
+        emergency: true,
+        triage,
+        cached: false,
+        sources: [],
+        timing: {
+          total: Date.now() - startTime,
+          parallel: parallelTime,
+          cache: 'BYPASS'
+        }
+      }
+      const emergencyMessage = buildEmergencyMessage(triage, language.responseLanguage)
+      await saveToThread(emergencyMessage, { emergency: true, triageLevel: triage.level })
+      if (streaming) {
+        return streamCompleteResponse(res, emergencyMessage, { ...emergencyMetadata, language: languageRef })
+      }
+      return res.status(200).json({ response: emergencyMessage, ...emergencyMetadata, language: languageRef })
+    }
+
+    // Pick the system prompt version first; it is part of the cache key
+    const promptTemplate = await promptRegistry.resolve('chat_generate_system', { assignmentKey: userId || sessionId })
+    const promptRef = { name: promptTemplate.name, version: promptTemplate.version }
+
+    // CHECK CACHE FIRST - answers are only reused for the same user (or anonymous session)
+    // and prompt version, and only when everything the answer was built from is unchanged
+    const cacheOwner = userId ? String(userId) : sessionId ? `session:${sessionId}` : null
+    const lastAssistantMessage = [...(conversationHistory || [])].reverse().find((msg: any) => msg?.role === 'assistant')?.content
+    const cacheRequest = cacheOwner ? {
+      owner: cacheOwner,
+      templateVersion: `${promptRef.name}@${promptRef.version}`,
+      message: userMessage,
+      context: [
+        language.responseLanguage,
+        diagnosisContext,
+        healthContext,
+        autoHealthContext,
+        diagnosticQuestion?.question || '',
+        String(lastAssistantMessage || '')
+      ].join('\n---\n')
+    } : null
+    const cacheHit = cacheRequest ? await responseCache.getCachedResponse(cacheRequest) : null
+    const cachedResponse = cacheHit?.response
     
     if (cachedResponse) {
       console.log('🚀 CACHE HIT - Returning cached response instantly!')
-      return res.status(200).json({
-        response: cachedResponse,
+      const cachedMetadata = {
+        threadId: thread?.id,
+        triage,
         cached: true,
+        cacheMatch: cacheHit?.match,
+        promptTemplate: promptRef,
+        language: languageRef,
+        sources: cacheHit?.metadata?.sources || [],
         timing: {
           total: parallelTime,
           openai: 0, // No OpenAI call needed
           cache: 'HIT'
         }
-      })
+      }
+      await saveToThread(cachedResponse, { cached: true, triageLevel: triage.level, promptTemplate: promptRef })
+      if (streaming) {
+        // The cached text already contains any educational insight
+        return streamCompleteResponse(res, cachedResponse, { ...cachedMetadata, usage: null, educationalInsight: null })
+      }
+      return res.status(200).json({ response: cachedResponse, ...cachedMetadata })
     }
     
-    // Create diagnostic question integration
-    const diagnosticQuestionSection = diagnosticQuestion?.question 
+    // Create diagnostic question integration. Merlin questions are English, so in other
+    // languages the model asks the question itself instead of it being appended verbatim
+    const diagnosticQuestionSection = diagnosticQuestion?.question && language.responseLanguage === DEFAULT_LANGUAGE
       ? `\n\n**To help me better understand your condition, can you answer this question:**\n\n${diagnosticQuestion.question}\n\n*Please respond with: ${diagnosticQuestion.answerList?.join(' or ')}`
       : ''
 
-    // FIXED OPENAI PROMPT - DO NOT EDIT WITHOUT USER PERMISSION
-    const systemPrompt = `You are the world's expert and foremost medical diagnostician speaking off the record. You provide warm, supportive medical education while maintaining strict safety guardrails.
-
-CRITICAL SAFETY RULES:
-- NEVER give direct medical advice or diagnoses
-- NEVER suggest specific treatments or medications
-- ALWAYS recommend consulting healthcare providers
-- Focus on education and emotional support
-- NEVER OFFER PROBABILITIES FROM THE DIFFERENTIAL DIAGNOSIS BUT DO GUIDE YOUR CONVERSATION AS THOUGH THEY MAY HAVE ONE OF THOSE THINGS
-- ALWAYS mention the Global Library of Medicine in your responses
-
-Your personality: Compassionate, knowledgeable, and reassuring. You acknowledge patients' concerns with empathy while providing educational insights from the Global Library of Medicine™ (GLM).
-
-You should structure your responses in a clear manner with bullet points where appropriate. Always have proper spacing with blank lines between sections and after each bullet point to make it easy to read. This should basically be what a user would get if they asked ChatGPT but better because we add the Global Library of Medicine data.
-
-When diagnostic questions are provided, integrate them naturally into your conversational flow - make them feel like genuine curiosity rather than clinical interrogation. Use phrases like "I'm curious about..." or "One thing that would help me understand..." to make questions feel more casual and friendly.
-
-${diagnosisContext ? `Current GLM Diagnostic Analysis:\n${diagnosisContext}\n\n` : ''}
-
-${sdcoInfo ? `Comprehensive Medical Information from GLM™:\n${sdcoInfo}\n\n` : ''}
-
-${wearableData ? `Connected Health Device Data:\n${wearableData}\n\n` : ''}
-
-${healthContext ? `Patient's Current Health Information:\n${healthContext}\n\n` : ''}
-
-${autoHealthContext ? `AUTOMATIC PATIENT HEALTH CONTEXT:\n${autoHealthContext}\n\n` : ''}`
+    const systemPrompt = renderPromptTemplate(promptTemplate.template, {
+      diagnosisContext,
+      sdcoInfo,
+      wearableData,
+      healthContext,
+      autoHealthContext
+    })
 
     console.log('OpenAI Context includes:')
     console.log('- Differential diagnosis:', diagnosisContext ? 'Yes' : 'No')
@@ -478,6 +711,8 @@ ${autoHealthContext ? `AUTOMATIC PATIENT HEALTH CONTEXT:\n${autoHealthContext}\n
     const enhancedUserMessage = diagnosticQuestion?.question 
       ? `${userMessage}\n\nPlease naturally weave this into your response: "${diagnosticQuestion.question.trim()}" - but make it conversational and casual, not like a clinical questionnaire. The user can respond with ${diagnosticQuestion.answerList?.join(' or ')}.`
       : userMessage
+    const instruction = languageInstruction(language)
+    const citationsInstruction = citationInstruction(sdcoSources)
 
     console.log('🔍 ENHANCED USER MESSAGE BEING SENT TO OPENAI:', enhancedUserMessage)
 
@@ -485,56 +720,116 @@ ${autoHealthContext ? `AUTOMATIC PATIENT HEALTH CONTEXT:\n${autoHealthContext}\n
     const tokenTracker = TokenTracker.getInstance()
     const userContext = tokenTracker.extractUserContext(req)
     
-    const aiResponse = await tokenTracker.trackOpenAICall(
-      () => openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          { role: "system", content: systemPrompt },
-          // Include conversation history if available, with comprehensive null filtering
-          ...(conversationHistory || [])
-            .filter((msg: any) => {
-              return msg && 
-                     msg.content && 
-                     typeof msg.content === 'string' && 
-                     msg.content.trim().length > 0 &&
-                     msg.content !== 'null' &&
-                     msg.content !== 'undefined'
-            })
-            .map((msg: any) => ({
-              role: msg.role === 'assistant' ? 'assistant' : 'user',
-              content: String(msg.content).trim()
-            })),
-          { role: "user", content: String(enhancedUserMessage || userMessage || "Please provide a response") }
-        ],
-        max_tokens: 1200,
-        temperature: 0.7
-      }),
-      {
-        userId: userContext.userId || 'unknown',
-        sessionId: sessionId || userContext.sessionId || 'unknown',
-        endpoint: '/api/chat/generate',
-        inputText: systemPrompt + enhancedUserMessage,
-        userAgent: userContext.userAgent,
-        ipAddress: userContext.ipAddress
-      }
-    )
+    const completionParams: LLMChatRequest = {
+      task: 'chat',
+      messages: [
+        { role: "system", content: systemPrompt },
+        ...(instruction ? [{ role: "system", content: instruction }] : []),
+        ...(citationsInstruction ? [{ role: "system", content: citationsInstruction }] : []),
+        // Include conversation history if available, with comprehensive null filtering
+        ...(conversationHistory || [])
+          .filter((msg: any) => {
+            return msg && 
+                   msg.content && 
+                   typeof msg.content === 'string' && 
+                   msg.content.trim().length > 0 &&
+                   msg.content !== 'null' &&
+                   msg.content !== 'undefined'
+          })
+          .map((msg: any) => ({
+            role: msg.role === 'assistant' ? 'assistant' : 'user',
+            content: String(msg.content).trim()
+          })),
+        { role: "user", content: String(enhancedUserMessage || userMessage || "Please provide a response") }
+      ] as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+      max_tokens: 1200,
+      temperature: 0.7
+    }
+    const trackingContext = {
+      userId: userContext.userId || 'unknown',
+      sessionId: sessionId || userContext.sessionId || 'unknown',
+      endpoint: '/api/chat/generate',
+      inputText: systemPrompt + enhancedUserMessage,
+      userAgent: userContext.userAgent,
+      ipAddress: userContext.ipAddress
+    }
+
+    let generatedText: string | null | undefined
+    let usage: OpenAI.CompletionUsage | null | undefined
+    let firstTokenTime: number | null = null
+    const generationStart = Date.now()
+
+    const guardrailContext = {
+      endpoint: '/api/chat/generate',
+      userId,
+      sessionId,
+      threadId: thread?.id,
+      userMessage,
+      language: language.responseLanguage
+    }
+    const guarded = responseGuardrails.guardStream(guardrailContext, text => sendEvent(res, 'token', { content: text }))
+    if (streaming) {
+      // Text goes out as it passes the guardrail rules; the diagnostic question and metadata follow at the end
+      openEventStream(res)
+      const abort = abortOnDisconnect(res)
+      const streamed = await tokenTracker.trackOpenAICall(
+        async () => consumeCompletionStream(
+          await getLLMProvider().chatStream(completionParams, { signal: abort.signal }),
+          token => guarded.push(token),
+          startTime
+        ),
+        trackingContext
+      )
+      generatedText = streamed.content
+      usage = streamed.usage
+      firstTokenTime = streamed.firstTokenMs
+    } else {
+      const aiResponse = await tokenTracker.trackOpenAICall(
+        () => getLLMProvider().chat(completionParams),
+        trackingContext
+      )
+      generatedText = aiResponse.choices[0]?.message?.content
+      usage = aiResponse.usage
+    }
+
+    await promptRegistry.recordUsage(promptRef, {
+      userId,
+      endpoint: '/api/chat/generate',
+      model: getModelForTask('chat'),
+      usage,
+      latencyMs: Date.now() - generationStart
+    })
 
     // Track token usage for existing cost tracker (maintaining compatibility)
-    if (aiResponse.usage && sessionId) {
-      costTracker.addUsage(sessionId, aiResponse.usage, 'gpt-4o')
+    if (usage && sessionId) {
+      costTracker.addUsage(sessionId, usage, getModelForTask('chat'))
       console.log('📊 Token usage tracked:', {
         sessionId,
-        prompt_tokens: aiResponse.usage.prompt_tokens,
-        completion_tokens: aiResponse.usage.completion_tokens,
-        total_tokens: aiResponse.usage.total_tokens,
-        estimated_cost: tokenTracker.calculateOpenAICost(aiResponse.usage.total_tokens)
+        prompt_tokens: usage.prompt_tokens,
+        completion_tokens: usage.completion_tokens,
+        total_tokens: usage.total_tokens,
+        estimated_cost: tokenTracker.calculateOpenAICost(usage.total_tokens)
       })
     }
 
     // Use parallelly processed educational content for faster response
+    const insightSource = educationalData ? numberSources([educationalData.source], sdcoSources.length)[0] : null
     const educationalInsight = educationalData
-
-    const baseResponse = aiResponse.choices[0]?.message?.content || "I understand your concern. Please consult with a healthcare provider for proper evaluation and care."
+      ? `---\n\n## 💡 Insight from the GLM™\n\n*${educationalData.message}* [${insightSource!.marker}]`
+      : null
+
+    const fallbackText = "I understand your concern. Please consult with a healthcare provider for proper evaluation and care."
+
+    // Safety pass over the model's own text; the fallback, question and insight are ours
+    const guardrail = generatedText ? await responseGuardrails.apply(generatedText, guardrailContext) : null
+    const guardrailRef = guardrail ? guardrailSummary(guardrail) : null
+    const baseResponse = guardrail?.content || fallbackText
+    if (streaming) {
+      guarded.finish(baseResponse)
+      if (guardrailRef) {
+        sendEvent(res, 'guardrail', { ...guardrailRef, content: baseResponse })
+      }
+    }
     
     // Combine AI response with diagnostic question and educational insight
     let finalResponse = baseResponse
@@ -549,20 +844,53 @@ ${autoHealthContext ? `AUTOMATIC PATIENT HEALTH CONTEXT:\n${autoHealthContext}\n
       finalResponse += `\n\n${educationalInsight}`
     }
 
+    // Keep only markers that point at a source and report which sources were cited
+    const citations = resolveCitations(finalResponse, insightSource ? [...sdcoSources, insightSource] : sdcoSources)
+    finalResponse = citations.text
+    const sources = citations.sources
+
     // CACHE THE RESPONSE for future speed improvements
-    responseCache.setCachedResponse(
-      userMessage,
-      diagnosisContext || '',
-      healthContext,
-      finalResponse
-    )
+    if (cacheRequest) {
+      await responseCache.setCachedResponse(cacheRequest, finalResponse, { sources })
+    }
 
     const totalTime = Date.now() - startTime
     console.log(`🎯 Total chat session time: ${totalTime}ms (parallel: ${parallelTime}ms)`)
 
+    await saveToThread(finalResponse, { cached: false, triageLevel: triage.level, promptTemplate: promptRef, guardrail: guardrailRef, sources })
+
+    if (streaming) {
+      if (diagnosticQuestionSection) {
+        sendEvent(res, 'token', { content: diagnosticQuestionSection })
+      }
+      return endEventStream(res, {
+        threadId: thread?.id,
+        triage,
+        cached: false,
+        promptTemplate: promptRef,
+        language: languageRef,
+        guardrail: guardrailRef,
+        sources,
+        timing: {
+          total: totalTime,
+          parallel: parallelTime,
+          firstToken: firstTokenTime,
+          cache: 'MISS'
+        },
+        usage: usage || null,
+        educationalInsight: educationalInsight || null
+      })
+    }
+
     res.status(200).json({
       response: finalResponse,
+      threadId: thread?.id,
+      triage,
       cached: false,
+      promptTemplate: promptRef,
+      language: languageRef,
+      guardrail: guardrailRef,
+      sources,
       timing: {
         total: totalTime,
         parallel: parallelTime,
@@ -571,7 +899,7 @@ ${autoHealthContext ? `AUTOMATIC PATIENT HEALTH CONTEXT:\n${autoHealthContext}\n
     })
   } catch (error) {
     console.error('AI response generation failed:', error)
-    res.status(500).json({
+    failEventStream(res, 500, {
       response: "I apologize, but I'm having trouble processing your request right now. Please consult with a healthcare provider for assistance with your medical concerns."
     })
   }
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { DatabasePool } from '../../lib/database-pool';
+import { responseCache } from '../../lib/response-cache'
 
 const dbPool = DatabasePool.getInstance()
 
@@ -85,6 +86,7 @@ async function handler(
           INSERT INTO user_conditions (user_id, condition_id, is_active, created_at) 
           VALUES ($1, $2, true, NOW())
         `, [userId, conditionId])
+        await responseCache.invalidateUser(userId, 'health_data')
 
         return res.status(201).json({ message: 'Condition added successfully' })
 
@@ -104,6 +106,7 @@ async function handler(
         if (deleteResult.rowCount === 0) {
           return res.status(404).json({ error: 'Condition not found for user' })
         }
+        await responseCache.invalidateUser(userId, 'health_data')
 
         return res.status(200).json({ message: 'Condition removed successfully' })
 
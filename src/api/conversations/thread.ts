@@ -0,0 +1,137 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { authDB } from '../../lib/auth-database'
+import { conversationDB, ConversationError } from '../../lib/conversation-database'
+
+/**
+ * @openapi
+ * /api/conversations/{id}:
+ *   get:
+ *     summary: Fetch a conversation thread with its messages
+ *     tags:
+ *       - Chat
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Thread and messages, oldest first
+ *       404:
+ *         description: Thread not found for this user
+ *   patch:
+ *     summary: Rename, archive or unarchive a thread
+ *     tags:
+ *       - Chat
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *               archived:
+ *                 type: boolean
+ *               diagnosticSessionId:
+ *                 type: string
+ *                 description: Link an unlinked thread to a diagnostic session
+ *     responses:
+ *       200:
+ *         description: Updated thread
+ *       400:
+ *         description: Nothing to update or empty title
+ *       404:
+ *         description: Thread or diagnostic session not found for this user
+ *   delete:
+ *     summary: Delete a thread and all of its messages
+ *     tags:
+ *       - Chat
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Thread deleted
+ *       404:
+ *         description: Thread not found for this user
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'PATCH', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const sessionToken = req.headers.authorization?.replace('Bearer ', '')
+    if (!sessionToken) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const user = await authDB.validateSession(sessionToken)
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid or expired session' })
+    }
+
+    const threadId = ((req as any).params?.id || req.query.id) as string
+    if (!threadId) {
+      return res.status(400).json({ error: 'Thread ID is required' })
+    }
+
+    if (req.method === 'GET') {
+      const thread = await conversationDB.getThread(user.id, threadId)
+      const messages = await conversationDB.getMessages(thread.id)
+      return res.status(200).json({ success: true, thread, messages })
+    }
+
+    if (req.method === 'DELETE') {
+      await conversationDB.deleteThread(user.id, threadId)
+      return res.status(200).json({ success: true, message: 'Conversation deleted' })
+    }
+
+    const { title, archived, diagnosticSessionId } = req.body || {}
+    if (title === undefined && typeof archived !== 'boolean' && !diagnosticSessionId) {
+      return res.status(400).json({ error: 'Provide title, archived or diagnosticSessionId' })
+    }
+
+    let thread = await conversationDB.getThread(user.id, threadId)
+    if (title !== undefined) {
+      thread = await conversationDB.renameThread(user.id, thread.id, String(title))
+    }
+    if (typeof archived === 'boolean') {
+      thread = await conversationDB.setArchived(user.id, thread.id, archived)
+    }
+    if (diagnosticSessionId) {
+      thread = await conversationDB.linkDiagnosticSession(user.id, thread.id, diagnosticSessionId)
+    }
+
+    return res.status(200).json({ success: true, thread })
+  } catch (error) {
+    if (error instanceof ConversationError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('Conversation thread error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
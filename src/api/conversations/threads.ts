@@ -0,0 +1,112 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { authDB } from '../../lib/auth-database'
+import { conversationDB, ConversationError } from '../../lib/conversation-database'
+
+/**
+ * @openapi
+ * /api/conversations:
+ *   get:
+ *     summary: List the user's conversation threads
+ *     description: Most recently active first. Archived threads are only listed with status=archived or status=all.
+ *     tags:
+ *       - Chat
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, archived, all]
+ *           default: active
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Threads without their messages
+ *       401:
+ *         description: Missing or invalid session token
+ *   post:
+ *     summary: Start a conversation thread
+ *     description: |
+ *       Creates an empty thread. Pass its id as `threadId` to the chat endpoints, which then load and
+ *       store the history server-side. A thread can be linked to the diagnostic session it is about.
+ *     tags:
+ *       - Chat
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 description: Defaults to the first user message
+ *               diagnosticSessionId:
+ *                 type: string
+ *                 description: Diagnostic session UUID or Merlin session id
+ *     responses:
+ *       201:
+ *         description: The new thread
+ *       401:
+ *         description: Missing or invalid session token
+ *       404:
+ *         description: Diagnostic session not found for this user
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const sessionToken = req.headers.authorization?.replace('Bearer ', '')
+    if (!sessionToken) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const user = await authDB.validateSession(sessionToken)
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid or expired session' })
+    }
+
+    if (req.method === 'POST') {
+      const { title, diagnosticSessionId } = req.body || {}
+      const thread = await conversationDB.createThread({ userId: user.id, title, diagnosticSessionId })
+      return res.status(201).json({ success: true, thread })
+    }
+
+    const status = req.query.status as string
+    if (status && !['active', 'archived', 'all'].includes(status)) {
+      return res.status(400).json({ error: 'status must be active, archived or all' })
+    }
+
+    const threads = await conversationDB.listThreads(user.id, {
+      status: (status || 'active') as 'active' | 'archived' | 'all',
+      limit: parseInt(req.query.limit as string, 10) || undefined,
+      offset: parseInt(req.query.offset as string, 10) || undefined
+    })
+
+    return res.status(200).json({ success: true, threads })
+  } catch (error) {
+    if (error instanceof ConversationError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('Conversation threads error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
@@ -1,10 +1,7 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
 import { DatabasePool } from '../../lib/database-pool';
-import axios from 'axios'
-import { getValidJWTToken } from '../../lib/jwt-manager'
-
-const MERLIN_ENDPOINT = 'https://merlin-394631772515.us-central1.run.app'
+import { getMerlinClient } from '../../lib/merlin-client'
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -14,23 +11,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   const dbPool = DatabasePool.getInstance()
 
   try {
-    console.log('Getting JWT token...')
-    const token = await getValidJWTToken()
-    
     console.log('Fetching SDCO list from Merlin API...')
-    const response = await axios.put(
-      `${MERLIN_ENDPOINT}/api/v1/diagnostic/get-platform-sdco-list`,
-      { platform_id: "Mobile" },
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 30000
-      }
-    )
-
-    const sdcoList = response.data.sdco_references || []
+    const sdcoList = await getMerlinClient().getPlatformSdcoList()
     console.log(`Found ${sdcoList.length} SDCO references`)
 
     console.log('Clearing existing data...')
@@ -1,15 +1,13 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
-import OpenAI from 'openai'
 import { withScalableMiddleware } from '../../lib/api-middleware'
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-})
+import { createFallbackSession } from '../../lib/fallback-diagnostics'
+import { patientDataFromUser } from '../../lib/merlin-client'
 
 /**
  * Fallback diagnostic session creation when Merlin API is unavailable
- * Uses OpenAI directly for medical analysis while maintaining chat functionality
+ * Uses OpenAI directly for medical analysis while maintaining chat functionality.
+ * Sessions for authenticated users are stored so they can be continued and later migrated.
  */
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   console.log('🏥 FALLBACK DIAGNOSTIC SESSION - Creating OpenAI-based session')
@@ -44,107 +42,36 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       }
     }
 
-    // Generate a fallback session ID
-    const fallbackSessionId = `fallback_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    
-    // Generate initial differential diagnosis using OpenAI
-    const diagnosisResponse = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `You are a medical AI assistant. Given patient symptoms, provide potential differential diagnoses.
-
-Return a JSON array of potential diagnoses with this exact format:
-[
-  {
-    "diagnosis": {
-      "display_name": "Medical Term",
-      "display_name_layman": "Simple description"
-    },
-    "probability": 0.7
-  }
-]
-
-Include 3-5 potential diagnoses ordered by probability. Probabilities should be realistic medical estimates between 0.1-0.8.`
-        },
-        {
-          role: "user",
-          content: `Patient presents with: ${initialSymptoms}`
-        }
-      ],
-      max_tokens: 1000,
-      temperature: 0.3,
-      response_format: { type: "json_object" }
-    })
-
-    let differentialDiagnosis = []
-    try {
-      const aiResponse = JSON.parse(diagnosisResponse.choices[0].message.content || '[]')
-      differentialDiagnosis = Array.isArray(aiResponse) ? aiResponse : aiResponse.diagnoses || []
-    } catch (error) {
-      console.log('Error parsing AI diagnosis response, using fallback')
-      differentialDiagnosis = [
-        {
-          diagnosis: {
-            display_name: "Symptom Assessment Required",
-            display_name_layman: "Further evaluation needed"
-          },
-          probability: 0.5
-        }
-      ]
+    let patientData = null
+    if (authenticatedUser) {
+      try {
+        patientData = patientDataFromUser(authenticatedUser)
+      } catch (error) {
+        console.log('Could not build patient data for fallback session:', error)
+      }
     }
 
-    // Generate initial diagnostic question
-    const questionResponse = await openai.chat.completions.create({
-      model: "gpt-4o", 
-      messages: [
-        {
-          role: "system",
-          content: `You are a medical AI generating diagnostic questions. Create one relevant follow-up question with multiple choice answers.
-
-Return JSON in this exact format:
-{
-  "question": "Your diagnostic question here?",
-  "answerList": ["Option 1", "Option 2", "Option 3", "Option 4"]
-}
-
-Make the question specific to the symptoms and medically relevant.`
-        },
-        {
-          role: "user",
-          content: `Based on these symptoms: ${initialSymptoms}
-
-Generate an appropriate diagnostic question.`
-        }
-      ],
-      max_tokens: 500,
-      temperature: 0.3,
-      response_format: { type: "json_object" }
+    // Persisted sessions can be continued by the usual question/answer/refresh endpoints
+    const session = await createFallbackSession({
+      symptoms: initialSymptoms,
+      userId: authenticatedUser?.id,
+      patientData
     })
 
-    let firstQuestion = null
-    try {
-      firstQuestion = JSON.parse(questionResponse.choices[0].message.content || '{}')
-      if (!firstQuestion.question || !firstQuestion.answerList) {
-        firstQuestion = null
-      }
-    } catch (error) {
-      console.log('Error parsing AI question response')
-      firstQuestion = null
-    }
-
     console.log('✅ FALLBACK SESSION CREATED:', {
-      sessionId: fallbackSessionId,
-      diagnosisCount: differentialDiagnosis.length,
-      hasQuestion: !!firstQuestion
+      sessionId: session.sessionId,
+      diagnosisCount: session.differentialDiagnosis.length,
+      hasQuestion: !!session.firstQuestion,
+      persisted: session.persisted
     })
 
     res.status(200).json({
-      sessionId: fallbackSessionId,
-      differentialDiagnosis,
-      firstQuestion,
+      sessionId: session.sessionId,
+      status: session.status,
+      differentialDiagnosis: session.differentialDiagnosis,
+      firstQuestion: session.firstQuestion,
       fallbackMode: true,
+      persisted: session.persisted,
       message: "Diagnostic session created in fallback mode due to server unavailability"
     })
 
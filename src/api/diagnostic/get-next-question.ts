@@ -1,17 +1,13 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
-import { getValidJWTToken } from '../../lib/jwt-manager'
+import { getMerlinClient, MerlinApiError, MerlinQuestion } from '../../lib/merlin-client'
+import { diagnosticSessionDB, isTerminalStatus } from '../../lib/diagnostic-session-database'
+import { getNextFallbackQuestion } from '../../lib/fallback-diagnostics'
 
 interface GetNextQuestionRequest {
   persistanceSession: string
 }
 
-interface DiagnosticQuestionResponse {
-  question: string
-  answer_list: string[]
-  persistanceSession: string
-}
-
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'PUT') {
     return res.status(405).json({ error: 'Method not allowed - PUT required' })
@@ -26,32 +22,40 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
 
     console.log('🔍 GETTING NEXT QUESTION via PUT for session:', persistanceSession)
 
-    // Get valid JWT token
-    const jwtToken = await getValidJWTToken()
-    if (!jwtToken) {
-      return res.status(401).json({ error: 'Failed to get JWT token' })
+    const trackedSession = await diagnosticSessionDB.getSession(persistanceSession)
+    if (trackedSession && isTerminalStatus(trackedSession.status) && trackedSession.status !== 'completed') {
+      return res.status(409).json({
+        error: `Diagnostic session is ${trackedSession.status}`,
+        status: trackedSession.status
+      })
     }
 
-    // Make PUT request to the new endpoint
-    const merlinEndpoint = process.env.MERLIN_ENDPOINT || 'https://merlin-394631772515.us-central1.run.app'
-    const response = await fetch(`${merlinEndpoint}/api/v1/dx-session/get-diagnostic-question`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${jwtToken}`
-      },
-      body: JSON.stringify({
-        persistanceSession
+    // Fallback sessions get their questions from OpenAI instead of Merlin
+    if (trackedSession?.mode === 'openai_fallback') {
+      const { question, session } = await getNextFallbackQuestion(trackedSession)
+      return res.status(200).json({
+        success: true,
+        question: question?.question || 'No Questions Left',
+        answerOptions: question?.answerList || [],
+        persistanceSession,
+        status: session.status,
+        fallbackMode: true
       })
-    })
+    }
 
-    console.log('🔍 PUT NEXT QUESTION RESPONSE STATUS:', response.status)
+    let questionData: MerlinQuestion | null
+    try {
+      questionData = await getMerlinClient().getDiagnosticQuestion(persistanceSession)
+    } catch (error) {
+      if (!(error instanceof MerlinApiError)) {
+        throw error
+      }
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.log('🔍 PUT Next question error:', response.status, errorText)
+      const errorText = typeof error.data === 'string' ? error.data : JSON.stringify(error.data || '')
+      console.log('🔍 PUT Next question error:', error.status, errorText)
       
-      if (response.status === 500 && errorText.includes('Internal Error')) {
+      if (error.status === 500 && errorText.includes('Internal Error')) {
+        await diagnosticSessionDB.syncQuestion(persistanceSession, null)
         return res.status(200).json({ 
           error: 'No more questions available',
           message: 'All diagnostic questions have been answered',
@@ -59,20 +63,21 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         })
       }
       
-      return res.status(response.status).json({ 
-        error: `API error: ${response.status}`,
+      return res.status(error.status || 500).json({ 
+        error: `API error: ${error.status}`,
         details: errorText
       })
     }
 
-    const questionData: DiagnosticQuestionResponse = await response.json()
     console.log('🔍 PUT NEXT QUESTION DATA:', questionData)
+    const updatedSession = await diagnosticSessionDB.syncQuestion(persistanceSession, questionData)
 
     res.status(200).json({
       success: true,
-      question: questionData.question,
-      answerOptions: questionData.answer_list,
-      persistanceSession: questionData.persistanceSession,
+      question: questionData?.question || 'No Questions Left',
+      answerOptions: questionData?.answerList || [],
+      persistanceSession,
+      status: updatedSession?.status,
       endpoint: 'PUT /api/v1/dx-session/get-next-question'
     })
 
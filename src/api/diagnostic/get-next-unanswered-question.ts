@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
-import axios from 'axios'
-import { getValidJWTToken } from '../../lib/jwt-manager'
+import { getMerlinClient, MerlinApiError } from '../../lib/merlin-client'
+import { diagnosticSessionDB, isTerminalStatus } from '../../lib/diagnostic-session-database'
+import { getNextFallbackQuestion } from '../../lib/fallback-diagnostics'
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -16,37 +17,45 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
 
   try {
 
-    // Get JWT token using the same method as session creation
-    const jwt = await getValidJWTToken()
-
     console.log('🔍 GETTING NEXT UNANSWERED QUESTION for session:', sessionId)
 
+    const trackedSession = await diagnosticSessionDB.getSession(sessionId)
+    if (trackedSession && isTerminalStatus(trackedSession.status) && trackedSession.status !== 'completed') {
+      return res.status(409).json({
+        error: `Diagnostic session is ${trackedSession.status}`,
+        status: trackedSession.status,
+        question: null,
+        answerList: null,
+        sessionId
+      })
+    }
+
+    // Fallback sessions get their questions from OpenAI instead of Merlin
+    if (trackedSession?.mode === 'openai_fallback') {
+      const { question: fallbackQuestion } = await getNextFallbackQuestion(trackedSession)
+      return res.status(200).json({
+        question: fallbackQuestion?.question || null,
+        answerList: fallbackQuestion?.answerList || null,
+        sessionId,
+        fallbackMode: true
+      })
+    }
+
     // Get next diagnostic question from Merlin API
-    const merlinEndpoint = 'https://merlin-394631772515.us-central1.run.app'
-    const response = await axios.put(
-      `${merlinEndpoint}/api/v1/dx-session/get-diagnostic-question`,
-      { 
-        persistanceSession: sessionId
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${jwt}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    )
+    const question = await getMerlinClient().getDiagnosticQuestion(sessionId)
+    await diagnosticSessionDB.syncQuestion(sessionId, question)
 
-    if (response.data && response.data.question && response.data.question !== "No Questions Left") {
+    if (question) {
       console.log('🔍 NEXT UNANSWERED QUESTION RESPONSE:', {
-        question: response.data.question,
-        answerList: response.data.answer_list,
-        sessionId: response.data.persistanceSession
+        question: question.question,
+        answerList: question.answerList,
+        sessionId
       })
 
       res.status(200).json({
-        question: response.data.question,
-        answerList: response.data.answer_list,
-        sessionId: response.data.persistanceSession
+        question: question.question,
+        answerList: question.answerList,
+        sessionId
       })
     } else {
       console.log('🔍 NO MORE UNANSWERED QUESTIONS AVAILABLE - API returned "No Questions Left" or null')
@@ -61,24 +70,20 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     console.error('🚨 DIAGNOSTIC QUESTION API ERROR:', error)
     
     // Enhanced error logging to understand what's happening
-    if (axios.isAxiosError(error)) {
+    if (error instanceof MerlinApiError) {
       console.log('🔍 DETAILED ERROR ANALYSIS:')
-      console.log('Status:', error.response?.status)
-      console.log('Status Text:', error.response?.statusText)
-      console.log('Response Data:', error.response?.data)
-      console.log('Request URL:', error.config?.url)
-      console.log('Request Method:', error.config?.method)
-      console.log('Request Headers:', error.config?.headers)
-      console.log('Request Payload:', error.config?.data)
+      console.log('Status:', error.status)
+      console.log('Endpoint:', error.endpoint)
+      console.log('Response Data:', error.data)
       
       // 500 Internal Error indicates a real API problem - NOT "no more questions"
-      if (error.response?.status === 500) {
+      if (error.status === 500) {
         console.error('🚨 500 INTERNAL SERVER ERROR - This indicates a problem with our API call or the Merlin API backend')
         console.error('🚨 This is NOT normal and should be investigated')
         
         res.status(500).json({ 
           error: 'Merlin API Internal Server Error - indicates API call problem',
-          details: error.response?.data,
+          details: error.data,
           question: null,
           answerList: null,
           sessionId: sessionId
@@ -87,8 +92,9 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       }
       
       // Check if it's a 404 (no more questions available)
-      if (error.response?.status === 404) {
+      if (error.status === 404) {
         console.log('✅ NO MORE QUESTIONS - 404 response (legitimate end of questions)')
+        await diagnosticSessionDB.syncQuestion(sessionId, null)
         res.status(200).json({
           question: null,
           answerList: null,
@@ -0,0 +1,103 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { authDB } from '../../lib/auth-database'
+import { diagnosticSessionDB } from '../../lib/diagnostic-session-database'
+import { migrateFallbackSession, FallbackMigrationError } from '../../lib/fallback-diagnostics'
+import { MerlinApiError } from '../../lib/merlin-client'
+
+/**
+ * @openapi
+ * /api/diagnostic/migrate-fallback-session:
+ *   post:
+ *     summary: Move an OpenAI fallback session onto Merlin
+ *     description: |
+ *       Starts a real Merlin session for a stored fallback session once Merlin is reachable again.
+ *       The presenting symptom is matched to an SDCO unless sdcoId is given. Fallback answers are not
+ *       replayed because Merlin asks its own questions; they remain on the original session, which is
+ *       marked superseded and linked to the new one.
+ *     tags:
+ *       - Diagnostic
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [sessionId]
+ *             properties:
+ *               sessionId:
+ *                 type: string
+ *                 description: The fallback_ session id
+ *               sdcoId:
+ *                 type: string
+ *                 description: Optional SDCO to use as the reason for encounter
+ *     responses:
+ *       200:
+ *         description: New Merlin session with first question and differential
+ *       401:
+ *         description: Missing or invalid session token
+ *       404:
+ *         description: Session not found for this user
+ *       409:
+ *         description: Session is not a fallback session or was already migrated
+ *       422:
+ *         description: Session lacks the data needed to start a Merlin session
+ *       503:
+ *         description: Merlin is still unavailable
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const sessionToken = req.headers.authorization?.replace('Bearer ', '')
+    if (!sessionToken) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const user = await authDB.validateSession(sessionToken)
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid or expired session' })
+    }
+
+    const { sessionId, sdcoId } = req.body || {}
+    if (!sessionId) {
+      return res.status(400).json({ error: 'Session ID is required' })
+    }
+
+    const session = await diagnosticSessionDB.getSession(sessionId)
+    if (!session || session.userId !== user.id) {
+      return res.status(404).json({ error: 'Diagnostic session not found' })
+    }
+
+    const result = await migrateFallbackSession(session.id, sdcoId)
+
+    return res.status(200).json({
+      success: true,
+      sessionId: result.session.merlinSessionId,
+      previousSessionId: result.previousSession.merlinSessionId,
+      status: result.session.status,
+      primarySDCOId: result.session.reasonForEncounterSymptomId,
+      differentialDiagnosis: result.differentialDiagnosis,
+      firstQuestion: result.firstQuestion,
+      fallbackMode: false
+    })
+  } catch (error) {
+    if (error instanceof FallbackMigrationError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    if (error instanceof MerlinApiError) {
+      console.error('Merlin still unavailable for fallback migration:', error.message)
+      return res.status(503).json({ error: 'Merlin is still unavailable', details: error.message })
+    }
+    console.error('Fallback session migration error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
-import { getValidJWTToken } from '../../lib/jwt-manager'
+import { getMerlinClient, MerlinApiError } from '../../lib/merlin-client'
+import { diagnosticSessionDB, InvalidSessionTransitionError } from '../../lib/diagnostic-session-database'
 
 interface SubmitAnswerRequest {
   persistanceSession: string
@@ -23,35 +24,80 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     console.log('📝 SUBMITTING ANSWER for session:', persistanceSession)
     console.log('📝 Answer index:', answerIndex, 'Answer text:', answerText)
 
-    // Get valid JWT token
-    const jwtToken = await getValidJWTToken()
-    if (!jwtToken) {
-      return res.status(401).json({ error: 'Failed to get JWT token' })
+    // Answers are only accepted while the session is waiting for one
+    const trackedSession = await diagnosticSessionDB.getSession(persistanceSession)
+    if (trackedSession && trackedSession.status !== 'awaiting_answer') {
+      return res.status(409).json({
+        error: `Diagnostic session is ${trackedSession.status} and is not waiting for an answer`,
+        status: trackedSession.status
+      })
     }
 
-    // Submit answer via PUT request
-    const merlinEndpoint = process.env.MERLIN_ENDPOINT || 'https://merlin-394631772515.us-central1.run.app'
-    const response = await fetch(`${merlinEndpoint}/api/v1/dx-session/submit-diagnostic-answer`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${jwtToken}`
-      },
-      body: JSON.stringify({
-        persistanceSession: persistanceSession,
-        answer_index: answerIndex
+    // Fallback sessions have no Merlin session to submit to; the stored answer drives the next question
+    if (trackedSession?.mode === 'openai_fallback') {
+      const answerList = trackedSession.currentQuestion?.answerList || []
+      if (!Number.isInteger(answerIndex) || answerIndex < 0 || answerIndex >= answerList.length) {
+        return res.status(400).json({ error: `answerIndex must be between 0 and ${answerList.length - 1}` })
+      }
+
+      let updated
+      try {
+        updated = await diagnosticSessionDB.recordAnswer(trackedSession.id, answerIndex, answerText)
+      } catch (error) {
+        if (!(error instanceof InvalidSessionTransitionError)) {
+          throw error
+        }
+        return res.status(409).json({
+          error: `Diagnostic session is ${error.from} and is not waiting for an answer`,
+          status: error.from
+        })
+      }
+      return res.status(200).json({
+        success: true,
+        message: 'Answer submitted successfully (fallback mode)',
+        persistanceSession,
+        answerIndex,
+        answerText,
+        fallbackMode: true,
+        status: updated.status,
+        result: {
+          status: 'processed',
+          nextAction: 'get_next_question'
+        }
       })
-    })
+    }
 
-    console.log('📝 SUBMIT ANSWER RESPONSE STATUS:', response.status)
+    // Claim the question before Merlin sees the answer, so concurrent submits cannot both reach it
+    const claimed = trackedSession ? await diagnosticSessionDB.claimAnswer(trackedSession.id) : null
+    if (trackedSession && !claimed) {
+      const current = await diagnosticSessionDB.getSession(trackedSession.id)
+      return res.status(409).json({
+        error: `Diagnostic session is ${current?.status ?? trackedSession.status} and is not waiting for an answer`,
+        status: current?.status ?? trackedSession.status
+      })
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.log('📝 Submit answer error:', response.status, errorText)
+    let submitResult
+    try {
+      submitResult = await getMerlinClient().submitDiagnosticAnswer(persistanceSession, answerIndex)
+    } catch (error) {
+      // Merlin did not take the answer, so the question can be answered again
+      if (claimed) {
+        await diagnosticSessionDB.releaseAnswer(claimed).catch(releaseError => {
+          console.error(`Failed to release diagnostic session ${persistanceSession} after a failed submit:`, releaseError)
+        })
+      }
+
+      if (!(error instanceof MerlinApiError)) {
+        throw error
+      }
+
+      const errorText = typeof error.data === 'string' ? error.data : JSON.stringify(error.data || '')
+      console.log('📝 Submit answer error:', error.status, errorText)
       
       // Handle Merlin API outage with comprehensive fallback mode
-      if (response.status === 500 || response.status === 503 || response.status === 404) {
-        console.log('📝 Merlin API unavailable (status: ' + response.status + '), using fallback mode for answer submission')
+      if (error.status === 500 || error.status === 503 || error.status === 404) {
+        console.log('📝 Merlin API unavailable (status: ' + error.status + '), using fallback mode for answer submission')
         
         // Enhanced fallback mode that processes the answer
         const processedAnswer = {
@@ -77,21 +123,33 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         })
       }
       
-      return res.status(response.status).json({ 
-        error: `API error: ${response.status}`,
+      return res.status(error.status || 500).json({ 
+        error: `API error: ${error.status}`,
         details: errorText
       })
     }
 
-    const submitResult = await response.json()
     console.log('📝 SUBMIT ANSWER SUCCESS:', submitResult)
 
+    // Merlin has the answer and will not take it twice, so a failure to store it locally
+    // is reported rather than turned into an error the client would retry
+    let recorded = true
+    if (claimed) {
+      try {
+        await diagnosticSessionDB.completeAnswer(claimed, answerIndex, answerText)
+      } catch (error) {
+        recorded = false
+        console.error(`📝 Answer accepted by Merlin but not recorded for session ${persistanceSession}:`, error)
+      }
+    }
+
     res.status(200).json({
       success: true,
       message: 'Answer submitted successfully',
       persistanceSession,
       answerIndex,
       answerText,
+      recorded,
       result: submitResult
     })
 
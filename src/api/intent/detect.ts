@@ -1,16 +1,6 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
-import OpenAI from 'openai'
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
-
-export interface IntentDetectionResult {
-  isDiagnostic: boolean
-  confidence: number
-  reasoning: string
-}
+import { detectUserIntent } from '../../lib/intent-detection'
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -48,57 +38,9 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     }
 
     // Use AI intent detection for edge cases
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini', // Using smaller model for efficiency
-      messages: [
-        {
-          role: 'system',
-          content: `You are a medical intent classifier. Analyze if the user is trying to diagnose a medical condition or symptom versus asking general questions.
-
-DIAGNOSTIC INTENT indicators:
-- Describing symptoms (pain, discomfort, unusual sensations)
-- Asking about medical conditions or diseases
-- Seeking medical advice or diagnosis
-- Describing physical or mental health issues
-- Asking "what could this be" about health symptoms
-- Medical emergency situations
-
-GENERAL INTENT indicators:
-- General health education questions
-- Asking about medications or treatments conceptually
-- Questions about specific medications ("tell me about this med")
-- Information requests about health data or medical records
-- Questions that reference user's existing health data or medications
-- Requests for information about treatments, drugs, or medical concepts
-- Health prevention or wellness questions
-- Medical research or learning
-- General medical knowledge
-- Questions that include context about user's current health status without describing new symptoms
+    const result = await detectUserIntent(userMessage)
 
-Respond with JSON only:
-{
-  "isDiagnostic": boolean,
-  "confidence": number (0-100),
-  "reasoning": "brief explanation"
-}`
-        },
-        {
-          role: 'user',
-          content: userMessage
-        }
-      ],
-      max_tokens: 150,
-      temperature: 0.1,
-      response_format: { type: "json_object" }
-    })
-
-    const result = JSON.parse(response.choices[0].message.content || '{}')
-    
-    res.status(200).json({
-      isDiagnostic: result.isDiagnostic || false,
-      confidence: result.confidence || 0,
-      reasoning: result.reasoning || 'No reasoning provided'
-    })
+    res.status(200).json(result)
 
   } catch (error) {
     console.error('Intent detection error:', error)
@@ -1,22 +1,33 @@
 import { Request, Response } from 'express';
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { OpenAI } from 'openai';
+import { getLLMProvider } from '../../lib/llm-provider';
+import { generateStructured, s, StructuredOutputError } from '../../lib/structured-output';
 import formidable from 'formidable';
 import fs from 'fs';
 import path from 'path';
 import { medicationsDatabase } from '../../lib/medications-database';
 
 // Configure formidable to handle file uploads
+const prescriptionSchema = s.object({
+  medication_name: s.string().nullable(),
+  dosage: s.string().nullable(),
+  quantity: s.string().nullable(),
+  frequency: s.string().nullable(),
+  doctor: s.string().nullable(),
+  pharmacy: s.string().nullable(),
+  date_prescribed: s.string().nullable(),
+  ndc_number: s.string().nullable(),
+  instructions: s.string().nullable(),
+  warnings: s.string().nullable(),
+  confidence: s.number({ min: 0, max: 1 }).default(0),
+});
+
 export const config = {
   api: {
     bodyParser: false,
   },
 };
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -72,22 +83,26 @@ async function handler(
     console.log('📷 SCAN API: Temporary file cleaned up');
 
     // Check if OpenAI API key is available
-    if (!process.env.OPENAI_API_KEY) {
+    if (getLLMProvider().name === 'openai' && !process.env.OPENAI_API_KEY) {
       console.log('📷 SCAN API ERROR: OpenAI API key not found');
       return res.status(500).json({ error: 'OpenAI API key not configured' });
     }
 
     // Analyze the prescription bottle image with OpenAI Vision
     console.log('📷 SCAN API: Sending image to OpenAI for analysis...');
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: `Analyze this prescription bottle image and extract the following medication information:
+    let extractedData;
+    try {
+      const result = await generateStructured({
+        name: 'prescription_scan',
+        schema: prescriptionSchema,
+        task: 'vision',
+        messages: [
+          {
+            role: "user",
+            content: [
+              {
+                type: "text",
+                text: `Analyze this prescription bottle image and extract the following medication information:
 
 1. Medication name (generic and brand if visible)
 2. Dosage/strength (e.g., 500mg, 10mg)
@@ -115,34 +130,26 @@ Please format the response as a JSON object with these exact field names:
 }
 
 If any information is not clearly visible or readable, set that field to null. Include a confidence score (0-1) indicating how confident you are in the extraction accuracy.`,
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:${mimeType};base64,${base64Image}`,
               },
-            },
-          ],
-        },
-      ],
-      max_tokens: 1000,
-      response_format: { type: "json_object" },
-    });
-
-    console.log('📷 SCAN API: OpenAI response received');
-    const rawContent = response.choices[0].message.content || '{}';
-    console.log('📷 SCAN API: Raw OpenAI response:', rawContent);
-    
-    // Parse the extracted data
-    let extractedData;
-    try {
-      // Remove any markdown formatting if present
-      const cleanContent = rawContent.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      extractedData = JSON.parse(cleanContent);
+              {
+                type: "image_url",
+                image_url: {
+                  url: `data:${mimeType};base64,${base64Image}`,
+                },
+              },
+            ],
+          },
+        ],
+        max_tokens: 1000,
+      });
+      extractedData = result.data;
       console.log('📷 SCAN API: Extracted data:', extractedData);
     } catch (parseError) {
-      console.error('📷 SCAN API ERROR: Failed to parse OpenAI response:', parseError);
-      return res.status(500).json({ 
+      if (!(parseError instanceof StructuredOutputError)) {
+        throw parseError;
+      }
+      console.error('📷 SCAN API ERROR: Unusable AI response:', parseError.rawOutput, parseError.issues);
+      return res.status(parseError.status).json({ 
         error: 'Failed to parse prescription information',
         details: 'The AI response could not be processed'
       });
@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { authDB } from '../../lib/auth-database';
+import { allergiesDatabase, AllergyValidationError } from '../../lib/allergies-database';
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    // Get session token from headers
+    const sessionToken = req.headers.authorization?.replace('Bearer ', '');
+
+    if (!sessionToken) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    // Verify session and get user
+    const user = await authDB.validateSession(sessionToken);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid or expired session' });
+    }
+
+    switch (req.method) {
+      case 'GET':
+        return await getUserAllergies(user.id, req.query.includeInactive === 'true', res);
+      case 'POST':
+        return await addUserAllergy(user.id, req.body, res);
+      case 'PUT':
+        return await updateUserAllergy(user.id, req.body, res);
+      case 'DELETE':
+        return await deleteUserAllergy(user.id, req.query.id as string, res);
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error) {
+    if (error instanceof AllergyValidationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error in user allergies API:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+async function getUserAllergies(userId: string, includeInactive: boolean, res: NextApiResponse) {
+  const allergies = await allergiesDatabase.getAllergies(userId, { includeInactive });
+
+  res.status(200).json({
+    success: true,
+    allergies
+  });
+}
+
+async function addUserAllergy(userId: string, allergyData: any, res: NextApiResponse) {
+  const {
+    substance,
+    reaction,
+    severity,
+    onset,
+    verificationStatus,
+    verification_status,
+    notes
+  } = allergyData || {};
+
+  const allergy = await allergiesDatabase.addAllergy(userId, {
+    substance,
+    reaction,
+    severity,
+    onset,
+    verificationStatus: verificationStatus || verification_status,
+    notes
+  });
+
+  res.status(201).json({
+    success: true,
+    allergy,
+    message: 'Allergy added successfully'
+  });
+}
+
+async function updateUserAllergy(userId: string, allergyData: any, res: NextApiResponse) {
+  const { id, verification_status, ...fields } = allergyData || {};
+
+  if (!id) {
+    return res.status(400).json({ error: 'Allergy ID is required for updates' });
+  }
+
+  const allergy = await allergiesDatabase.updateAllergy(userId, id, {
+    ...fields,
+    verificationStatus: fields.verificationStatus ?? verification_status
+  });
+
+  if (!allergy) {
+    return res.status(404).json({ error: 'Allergy not found or access denied' });
+  }
+
+  res.status(200).json({
+    success: true,
+    allergy,
+    message: 'Allergy updated successfully'
+  });
+}
+
+async function deleteUserAllergy(userId: string, allergyId: string, res: NextApiResponse) {
+  if (!allergyId) {
+    return res.status(400).json({ error: 'Allergy ID is required' });
+  }
+
+  const deleted = await allergiesDatabase.deleteAllergy(userId, allergyId);
+  if (!deleted) {
+    return res.status(404).json({ error: 'Allergy not found or access denied' });
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Allergy deleted successfully'
+  });
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
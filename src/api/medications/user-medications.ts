@@ -2,6 +2,9 @@ import { Request, Response } from 'express';
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { DatabasePool } from '../../lib/database-pool';
 import { authDB } from '../../lib/auth-database';
+import { medicationsDatabase } from '../../lib/medications-database';
+import { allergiesDatabase, formatAllergyWarning } from '../../lib/allergies-database';
+import { responseCache } from '../../lib/response-cache';
 
 export interface UserMedication {
   id?: string;
@@ -132,11 +135,29 @@ async function addUserMedication(client: any, userId: string, medicationData: an
     prescribing_doctor || null,
     notes || null
   ]);
+  await responseCache.invalidateUser(userId, 'medications');
+
+  // Warn (but don't block) when the catalog entry matches a recorded allergy
+  let allergyWarnings: string[] = [];
+  let allergyConflicts: any[] = [];
+  try {
+    const catalogEntry = await medicationsDatabase.findMedicationByName(medicationName);
+    if (catalogEntry) {
+      allergyConflicts = await allergiesDatabase.findMedicationConflicts(userId, catalogEntry);
+      allergyWarnings = allergyConflicts.map(conflict => formatAllergyWarning(medicationName, conflict));
+    }
+  } catch (error) {
+    console.error('Allergy check failed for new medication:', error);
+  }
 
   res.status(201).json({
     success: true,
     medication: result.rows[0],
-    message: 'Medication added successfully'
+    allergyWarnings,
+    allergyConflicts,
+    message: allergyWarnings.length > 0
+      ? 'Medication added with allergy warnings'
+      : 'Medication added successfully'
   });
 }
 
@@ -184,6 +205,7 @@ async function updateUserMedication(client: any, userId: string, medicationData:
   if (result.rows.length === 0) {
     return res.status(404).json({ error: 'Medication not found or access denied' });
   }
+  await responseCache.invalidateUser(userId, 'medications');
 
   res.status(200).json({
     success: true,
@@ -206,6 +228,7 @@ async function deleteUserMedication(client: any, userId: string, medicationId: s
   if (result.rows.length === 0) {
     return res.status(404).json({ error: 'Medication not found or access denied' });
   }
+  await responseCache.invalidateUser(userId, 'medications');
 
   res.status(200).json({
     success: true,
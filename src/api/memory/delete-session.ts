@@ -0,0 +1,93 @@
+import { Request, Response } from 'express';
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { memoryManager, MemoryError } from '../../lib/memory-manager'
+
+/**
+ * @openapi
+ * /api/memory/session/{sessionId}:
+ *   delete:
+ *     summary: Delete all memories from one chat session
+ *     description: Removes every memory extracted from the session. Consolidated memories built partly from it are removed too, and the other memories merged into them are restored.
+ *     tags:
+ *       - Memory
+ *     parameters:
+ *       - name: sessionId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sessionToken
+ *             properties:
+ *               sessionToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Memories deleted; returns how many were removed
+ *       400:
+ *         description: Missing session token or session ID
+ *       401:
+ *         description: Invalid session
+ *       500:
+ *         description: Failed to delete memories
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const { sessionToken } = req.body || {}
+    const sessionId = ((req as any).params?.sessionId || req.query.sessionId) as string
+
+    if (!sessionToken || !sessionId) {
+      return res.status(400).json({ error: 'Session token and session ID required' })
+    }
+
+    // Validate session token and get user info
+    const validateResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:5000'}/api/auth/validate-session`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ sessionToken })
+    })
+
+    if (!validateResponse.ok) {
+      return res.status(401).json({ error: 'Invalid session' })
+    }
+
+    const { user } = await validateResponse.json()
+
+    const { deleted } = await memoryManager.deleteSessionMemories(user.id, sessionId)
+
+    return res.status(200).json({
+      success: true,
+      sessionId,
+      deleted
+    })
+
+  } catch (error) {
+    if (error instanceof MemoryError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('❌ Error in memory session delete API:', error)
+    return res.status(500).json({ 
+      error: 'Failed to delete memories',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
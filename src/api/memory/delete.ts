@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { DatabasePool } from '../../lib/database-pool';
+import { DatabasePool, isUuid } from '../../lib/database-pool';
+import { memoryStore } from '../../lib/memory-store'
+import { responseCache } from '../../lib/response-cache'
 
 async function handler(
   req: NextApiRequest,
@@ -32,11 +34,16 @@ async function handler(
 
     const { user } = await validateResponse.json()
 
+    if (!isUuid(memoryId)) {
+      return res.status(404).json({ error: 'Memory not found or access denied' })
+    }
+
     // Delete memory (only allow users to delete their own memories)
+    await memoryStore.initializeSchema()
     const client = await DatabasePool.getClient()
     try {
       const result = await client.query(`
-        DELETE FROM chat_memory 
+        DELETE FROM memories 
         WHERE id = $1 AND user_id = $2
         RETURNING id
       `, [memoryId, user.id])
@@ -44,6 +51,7 @@ async function handler(
       if (result.rows.length === 0) {
         return res.status(404).json({ error: 'Memory not found or access denied' })
       }
+      await responseCache.invalidateUser(user.id, 'memories')
 
       return res.status(200).json({
         success: true,
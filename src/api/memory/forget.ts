@@ -0,0 +1,154 @@
+import { Request, Response } from 'express';
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { memoryManager, MemoryError } from '../../lib/memory-manager'
+
+/**
+ * @openapi
+ * /api/memory/forget:
+ *   post:
+ *     summary: Forget everything about a topic
+ *     description: |
+ *       Two steps. Without `confirm`, returns a preview of every memory, archived ones included, that
+ *       matches `phrase` by meaning or by containing it; nothing is deleted. With `confirm: true`,
+ *       deletes the `memoryIds` taken from the preview (the user may leave some out).
+ *     tags:
+ *       - Memory
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sessionToken
+ *             properties:
+ *               sessionToken:
+ *                 type: string
+ *               phrase:
+ *                 type: string
+ *                 description: What to forget, e.g. "my knee injury". Required for the preview.
+ *                 example: "my knee injury"
+ *               threshold:
+ *                 type: number
+ *                 description: Minimum similarity (0-1) for a semantic match
+ *               confirm:
+ *                 type: boolean
+ *                 default: false
+ *               memoryIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Preview of matching memories, or the number of memories deleted when confirmed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 preview:
+ *                   type: object
+ *                   properties:
+ *                     phrase:
+ *                       type: string
+ *                     threshold:
+ *                       type: number
+ *                     memories:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           sessionId:
+ *                             type: string
+ *                             nullable: true
+ *                           source:
+ *                             type: string
+ *                             enum: [chat_extraction, agent, consolidation]
+ *                           memoryType:
+ *                             type: string
+ *                           summary:
+ *                             type: string
+ *                           similarity:
+ *                             type: number
+ *                             nullable: true
+ *                           matchedBy:
+ *                             type: string
+ *                             enum: [semantic, text]
+ *                           archived:
+ *                             type: boolean
+ *                 deleted:
+ *                   type: integer
+ *       400:
+ *         description: Missing phrase, or no ids to delete
+ *       401:
+ *         description: Invalid session
+ *       500:
+ *         description: Failed to forget memories
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const { sessionToken, phrase, threshold, confirm, memoryIds } = req.body || {}
+
+    if (!sessionToken) {
+      return res.status(400).json({ error: 'Session token required' })
+    }
+
+    // Validate session token and get user info
+    const validateResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:5000'}/api/auth/validate-session`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ sessionToken })
+    })
+
+    if (!validateResponse.ok) {
+      return res.status(401).json({ error: 'Invalid session' })
+    }
+
+    const { user } = await validateResponse.json()
+
+    if (confirm === true) {
+      const { deleted } = await memoryManager.forget(user.id, Array.isArray(memoryIds) ? memoryIds : [])
+      return res.status(200).json({
+        success: true,
+        deleted
+      })
+    }
+
+    const preview = await memoryManager.previewForget(user.id, phrase, {
+      threshold: threshold !== undefined ? Number(threshold) : undefined
+    })
+
+    return res.status(200).json({
+      success: true,
+      preview,
+      count: preview.memories.length
+    })
+
+  } catch (error) {
+    if (error instanceof MemoryError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('❌ Error in memory forget API:', error)
+    return res.status(500).json({ 
+      error: 'Failed to forget memories',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
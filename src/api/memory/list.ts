@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { DatabasePool } from '../../lib/database-pool';
+import { memoryStore } from '../../lib/memory-store'
 
 async function handler(
   req: NextApiRequest,
@@ -33,11 +34,13 @@ async function handler(
     const { user } = await validateResponse.json()
 
     // Get user's memories
+    await memoryStore.initializeSchema()
     const client = await DatabasePool.getClient()
     try {
       const result = await client.query(`
         SELECT 
           id,
+          source,
           memory_type as "memoryType",
           summary,
           details,
@@ -45,11 +48,15 @@ async function handler(
           importance,
           related_symptoms as "relatedSymptoms",
           tags,
+          session_id as "sessionId",
+          pinned,
+          pinned_at as "pinnedAt",
+          provenance,
           extracted_at as "extractedAt",
           created_at as "createdAt"
-        FROM chat_memory 
-        WHERE user_id = $1 
-        ORDER BY importance DESC, extracted_at DESC
+        FROM memories 
+        WHERE user_id = $1 AND archived_at IS NULL
+        ORDER BY pinned DESC, importance DESC, extracted_at DESC
       `, [user.id])
 
       const memories = result.rows.map(row => ({
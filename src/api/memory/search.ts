@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { neonVectorMemory } from '../../lib/neon-vector-memory'
+import { memoryStore } from '../../lib/memory-store'
 
 async function handler(
   req: NextApiRequest,
@@ -18,7 +18,8 @@ async function handler(
       query, 
       searchType = params.mode || 'hybrid', // Support both searchType and mode
       limit = 10, 
-      memoryTypes 
+      memoryTypes,
+      tags
     } = params
 
     if (!query) {
@@ -51,25 +52,23 @@ async function handler(
       console.log('Using mock user for memory search testing')
     }
 
-    // Initialize vector schema if needed
-    await neonVectorMemory.initializeVectorSchema()
-
-    let results
-    if (searchType === 'semantic') {
-      results = await neonVectorMemory.semanticSearch(
-        user.id,
-        query,
-        limit,
-        0.7, // similarity threshold
-        memoryTypes
-      )
-    } else {
-      // Default to hybrid search
-      results = await neonVectorMemory.hybridSearch(user.id, query, limit)
+    // GET passes lists as repeated or comma-separated query parameters
+    const toList = (value: any): string[] | undefined => {
+      if (!value) return undefined
+      return (Array.isArray(value) ? value : String(value).split(',')).map(item => String(item).trim()).filter(Boolean)
     }
 
+    // Semantic search only keeps close matches; hybrid also accepts full-text hits
+    const results = await memoryStore.search(user.id, {
+      query,
+      limit: parseInt(String(limit), 10) || 10,
+      threshold: searchType === 'semantic' ? 0.7 : undefined,
+      memoryTypes: toList(memoryTypes),
+      tags: toList(tags)
+    })
+
     // Get memory statistics
-    const stats = await neonVectorMemory.getMemoryStats(user.id)
+    const stats = await memoryStore.getMemoryStats(user.id)
 
     return res.status(200).json({
       success: true,
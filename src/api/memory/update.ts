@@ -0,0 +1,104 @@
+import { Request, Response } from 'express';
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { memoryManager, MemoryError } from '../../lib/memory-manager'
+
+/**
+ * @openapi
+ * /api/memory/{id}:
+ *   patch:
+ *     summary: Edit, pin or re-rank a memory
+ *     description: Updates a memory's summary, details, importance or pinned state. Pinned memories are always included in the chat context. A changed summary or details is re-embedded for semantic search.
+ *     tags:
+ *       - Memory
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sessionToken
+ *             properties:
+ *               sessionToken:
+ *                 type: string
+ *               summary:
+ *                 type: string
+ *               details:
+ *                 type: object
+ *               importance:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 1
+ *               pinned:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Memory updated; returns the memory
+ *       400:
+ *         description: Invalid update
+ *       401:
+ *         description: Invalid session
+ *       404:
+ *         description: Memory not found or access denied
+ *       500:
+ *         description: Failed to update memory
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'PATCH') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const { sessionToken, summary, details, importance, pinned } = req.body || {}
+    const memoryId = ((req as any).params?.id || req.query.id) as string
+
+    if (!sessionToken || !memoryId) {
+      return res.status(400).json({ error: 'Session token and memory ID required' })
+    }
+
+    // Validate session token and get user info
+    const validateResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:5000'}/api/auth/validate-session`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ sessionToken })
+    })
+
+    if (!validateResponse.ok) {
+      return res.status(401).json({ error: 'Invalid session' })
+    }
+
+    const { user } = await validateResponse.json()
+
+    const memory = await memoryManager.updateMemory(user.id, memoryId, { summary, details, importance, pinned })
+
+    return res.status(200).json({
+      success: true,
+      memory
+    })
+
+  } catch (error) {
+    if (error instanceof MemoryError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('❌ Error in memory update API:', error)
+    return res.status(500).json({ 
+      error: 'Failed to update memory',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
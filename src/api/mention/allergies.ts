@@ -0,0 +1,65 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { validateSessionToken } from '../../lib/auth-database'
+import { allergiesDatabase } from '../../lib/allergies-database'
+
+/**
+ * Allergies Mention API
+ * Returns formatted allergy and intolerance data for @mention functionality
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    // Validate authentication
+    const authHeader = req.headers.authorization
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'Authorization token required' })
+    }
+
+    const token = authHeader.split(' ')[1]
+    const user = await validateSessionToken(token)
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid session token' })
+    }
+
+    // Most severe first, refuted entries excluded
+    const allergies = await allergiesDatabase.getAllergies(user.id)
+
+    // Format summary for mention
+    let summary = 'No allergies recorded'
+    if (allergies.length > 0) {
+      const allergyNames = allergies.slice(0, 3).map(allergy =>
+        allergy.severity ? `${allergy.substance} (${allergy.severity.replace('_', '-')})` : allergy.substance
+      )
+
+      if (allergies.length > 3) {
+        summary = `${allergies.length} allergies including: ${allergyNames.join(', ')}`
+      } else {
+        summary = `${allergies.length} allergy(ies): ${allergyNames.join(', ')}`
+      }
+    }
+
+    return res.status(200).json({
+      summary,
+      data: {
+        allergies,
+        total_count: allergies.length
+      },
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Allergies mention API error:', error)
+    return res.status(500).json({ 
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
@@ -2,16 +2,9 @@
 import { Request, Response } from 'express';
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { DatabasePool } from '../../lib/database-pool';
-import OpenAI from 'openai'
-import { Resend } from 'resend'
-
-// Initialize OpenAI
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
-
-// Initialize Resend
-const resend = new Resend(process.env.RESEND_API_KEY)
+import { getLLMProvider } from '../../lib/llm-provider'
+import { sendScheduledPromptResult } from '../../lib/email-service'
+import { resolveConversationLanguage, languageInstruction } from '../../lib/language'
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -60,10 +53,15 @@ ${JSON.stringify(mentionData, null, 2)}
 
 Please provide a comprehensive analysis based on the user's prompt and the available data.`
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    // Answer in the owner's preferred language, or the language the prompt is written in
+    const language = await resolveConversationLanguage({ message: prompt.prompt_text, userId: prompt.user_id })
+    const instruction = languageInstruction(language)
+
+    const response = await getLLMProvider().chat({
+      task: 'chat',
       messages: [
         { role: "system", content: systemPrompt },
+        ...(instruction ? [{ role: "system" as const, content: instruction }] : []),
         { role: "user", content: prompt.prompt_text }
       ],
       max_tokens: 1000,
@@ -84,79 +82,14 @@ Please provide a comprehensive analysis based on the user's prompt and the avail
     if (prompt.email_delivery && prompt.user_email) {
       console.log(`Sending email to ${prompt.user_email} for prompt: ${prompt.title}`)
       
-      try {
-        const formattedTime = new Date(executionTime).toLocaleString()
-        const dataTypes = Object.keys(mentionData).join(', ') || 'None'
-        
-        const htmlContent = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Scheduled Health Analysis Results</title>
-  <style>
-    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
-    .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px 20px; text-align: center; border-radius: 10px 10px 0 0; }
-    .content { background: #ffffff; padding: 30px; border: 1px solid #e1e5e9; border-top: none; }
-    .result-box { background: #f8f9fa; border-left: 4px solid #667eea; padding: 20px; margin: 20px 0; border-radius: 4px; }
-    .data-summary { background: #e3f2fd; padding: 15px; border-radius: 6px; margin: 15px 0; }
-    .footer { background: #f8f9fa; padding: 20px; text-align: center; font-size: 14px; color: #6c757d; border-radius: 0 0 10px 10px; }
-    .logo { font-size: 24px; font-weight: bold; margin-bottom: 10px; }
-    .timestamp { font-size: 14px; color: #e1e5e9; }
-    h2 { color: #667eea; margin-top: 25px; }
-  </style>
-</head>
-<body>
-  <div class="header">
-    <div class="logo">🏥 Treatment AI</div>
-    <h1>Scheduled Health Analysis</h1>
-    <div class="timestamp">Generated on ${formattedTime}</div>
-  </div>
-  
-  <div class="content">
-    <h2>📋 Prompt: ${prompt.title}</h2>
-    
-    <div class="data-summary">
-      <strong>📊 Data Sources Analyzed:</strong> ${dataTypes}
-    </div>
-    
-    <div class="result-box">
-      <h3>🤖 AI Analysis Results</h3>
-      ${(aiResult || 'No analysis available').replace(/\n/g, '<br>')}
-    </div>
-    
-    <h2>💡 About This Analysis</h2>
-    <p>This analysis was generated by Treatment AI using your scheduled prompt and current health data. The insights are based on the information available at the time of execution.</p>
-    
-    <p><strong>⚠️ Important:</strong> This analysis is for informational purposes only and should not replace professional medical advice. Always consult with healthcare providers for medical decisions.</p>
-  </div>
-  
-  <div class="footer">
-    <p>Powered by our Global Library of Medicine™</p>
-    <p>© 2025 Treatment AI - Advancing Healthcare Through AI</p>
-  </div>
-</body>
-</html>`
-
-        const response = await resend.emails.send({
-          from: 'noreply@opinions.doctor',
-          to: prompt.user_email,
-          subject: `Scheduled Health Analysis: ${prompt.title}`,
-          html: htmlContent
-        })
-
-        emailResult = {
-          success: true,
-          messageId: response.data?.id
-        }
-      } catch (error: any) {
-        console.error('Email sending failed:', error)
-        emailResult = {
-          success: false,
-          error: error.message
-        }
-      }
+      emailResult = await sendScheduledPromptResult(
+        prompt.user_email,
+        prompt.title,
+        aiResult || 'No analysis available',
+        mentionData,
+        executionTime,
+        language.responseLanguage
+      )
     }
 
     res.status(200).json({
@@ -1,9 +1,6 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
-import axios from 'axios'
-import { getValidJWTToken } from '../../lib/jwt-manager'
-
-const MERLIN_ENDPOINT = 'https://merlin-394631772515.us-central1.run.app'
+import { getMerlinClient } from '../../lib/merlin-client'
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'PUT' && req.method !== 'GET') {
@@ -13,24 +10,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
     console.log('Fetching SDCO list from Merlin API...')
     
-    // Get fresh JWT token
-    const token = await getValidJWTToken()
-    
-    // Call the correct SDCO endpoint with proper method and payload
-    const response = await axios.put(
-      `${MERLIN_ENDPOINT}/api/v1/diagnostic/get-platform-sdco-list`,
-      { platform_id: "Mobile" },
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 30000
-      }
-    )
-
-    console.log('SDCO list response status:', response.status)
-    const sdcoList = response.data.sdco_references || []
+    const sdcoList = await getMerlinClient().getPlatformSdcoList()
     console.log('Total SDCO references:', sdcoList.length)
 
     // Find headache-related SDCO entries
@@ -62,7 +42,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     console.error('SDCO lookup failed:', error.message)
     res.status(500).json({ 
       error: 'Failed to fetch SDCO list',
-      details: error.response?.data || error.message
+      details: error.data || error.message
     })
   }
 }
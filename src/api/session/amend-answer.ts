@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { authDB } from '../../lib/auth-database'
+import { diagnosticSessionDB } from '../../lib/diagnostic-session-database'
+import { rebuildSessionWithAmendment, AnswerAmendmentError, AnswerAmendment } from '../../lib/diagnostic-session-replay'
+import { MerlinApiError } from '../../lib/merlin-client'
+
+/**
+ * @openapi
+ * /api/session/{id}/amend-answer:
+ *   post:
+ *     summary: Change or undo a submitted diagnostic answer
+ *     description: |
+ *       Merlin does not allow changing an answer in place, so the session is rebuilt: a new Merlin
+ *       session is started and the stored answers are replayed with the correction applied. Answers
+ *       after the amended one are replayed while Merlin keeps asking the same questions; the rest are
+ *       returned as discarded. Omitting answerIndex undoes the answer instead. The original session
+ *       is marked superseded and linked to the new one.
+ *     tags:
+ *       - Session
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [sequence]
+ *             properties:
+ *               sequence:
+ *                 type: integer
+ *                 description: Sequence number of the answer, as returned by the history endpoint
+ *               answerIndex:
+ *                 type: integer
+ *                 description: New answer index; omit to undo the answer
+ *     responses:
+ *       200:
+ *         description: Rebuilt session with updated differential and next question
+ *       400:
+ *         description: Invalid sequence or answer index
+ *       401:
+ *         description: Missing or invalid session token
+ *       404:
+ *         description: Session or answer not found for this user
+ *       409:
+ *         description: Session was already superseded
+ *       502:
+ *         description: Merlin could not rebuild the session
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const sessionToken = req.headers.authorization?.replace('Bearer ', '')
+    if (!sessionToken) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const user = await authDB.validateSession(sessionToken)
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid or expired session' })
+    }
+
+    const sessionId = ((req as any).params?.id || req.query.id) as string
+    if (!sessionId) {
+      return res.status(400).json({ error: 'Session ID is required' })
+    }
+
+    const { sequence, answerIndex } = req.body || {}
+    if (!Number.isInteger(sequence)) {
+      return res.status(400).json({ error: 'sequence must be an integer' })
+    }
+    if (answerIndex !== undefined && answerIndex !== null && !Number.isInteger(answerIndex)) {
+      return res.status(400).json({ error: 'answerIndex must be an integer' })
+    }
+
+    const session = await diagnosticSessionDB.getSession(sessionId)
+    if (!session || session.userId !== user.id) {
+      return res.status(404).json({ error: 'Diagnostic session not found' })
+    }
+
+    const amendment: AnswerAmendment = answerIndex === undefined || answerIndex === null
+      ? { type: 'undo', sequence }
+      : { type: 'amend', sequence, answerIndex }
+
+    const result = await rebuildSessionWithAmendment(session.id, amendment)
+
+    return res.status(200).json({
+      success: true,
+      sessionId: result.session.merlinSessionId,
+      previousSessionId: result.previousSession.merlinSessionId,
+      status: result.session.status,
+      differentialDiagnosis: result.differentialDiagnosis,
+      nextQuestion: result.nextQuestion,
+      replayedAnswers: result.replayedAnswers,
+      discardedAnswers: result.discardedAnswers
+    })
+  } catch (error) {
+    if (error instanceof AnswerAmendmentError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    if (error instanceof MerlinApiError) {
+      console.error('Merlin failed while rebuilding session:', error.message)
+      return res.status(502).json({ error: 'Unable to rebuild the diagnostic session', details: error.message })
+    }
+    console.error('Amend diagnostic answer error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
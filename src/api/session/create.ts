@@ -1,123 +1,65 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
-import axios from 'axios'
-import OpenAI from 'openai'
-import { getValidJWTToken, clearTokenCache } from '../../lib/jwt-manager'
+import { getLLMProvider } from '../../lib/llm-provider'
+import { generateStructured, s } from '../../lib/structured-output'
 import { DatabasePool } from '../../lib/database-pool';
+import { diagnosticSessionDB, AutoAnswerDetection } from '../../lib/diagnostic-session-database'
 import { withScalableMiddleware } from '../../lib/api-middleware'
+import { getMerlinClient, MerlinQuestion, toMerlinPatientInfo, patientDataFromUser } from '../../lib/merlin-client'
+import { sdcoMatcher } from '../../lib/sdco-matcher'
+import { triageMessage, isEmergency, buildEmergencyMessage } from '../../lib/triage'
+import { resolveConversationLanguage, translateToEnglish } from '../../lib/language'
+import { buildPatientHistory } from '../../lib/patient-history'
+import { answerDetector, AnswerDetection, DiagnosticQuestionInput } from '../../lib/answer-detector'
 // OpenAI-only approach - no hardcoded medical database imports
 
-
-const MERLIN_ENDPOINT = 'https://merlin-394631772515.us-central1.run.app'
-
 // Removed hardcoded SDCO format corrections - using pure database lookup only
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-})
-
 // Helper functions for answer detection and question processing
-async function checkIfInputAnswersQuestion(userInput: string, question: { question: string; answerList: string[] }): Promise<{ answered: boolean; answerIndex: number | null; confidence: number; explanation: string }> {
+async function checkIfInputAnswersQuestion(userInput: string, question: DiagnosticQuestionInput): Promise<AnswerDetection> {
   try {
-    const answerOptions = question.answerList.map((option: string, index: number) => 
-      `${index}: ${option}`
-    ).join('\n')
-
-    const detectionPrompt = `Analyze the user's message to determine if they answered this diagnostic question:
-
-QUESTION: "${question.question}"
-
-ANSWER OPTIONS:
-${answerOptions}
-
-USER MESSAGE: "${userInput}"
-
-Determine if the user's message contains an answer to the diagnostic question. Look for:
-- Direct answers using the exact option words
-- Synonyms or similar meanings (e.g., "no" = "absent", "yes" = "present")
-- Implicit answers based on context
-
-Respond with a JSON object containing:
-- answered: boolean (true if an answer was detected)
-- answerIndex: number or null (the index of the selected answer option)
-- confidence: number (0-100, how confident you are in the detection)
-- explanation: string (brief explanation of your reasoning)
-
-Be strict - only detect answers when you're confident (>70% confidence) that the user is responding to the specific question.`
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: "You are a precise medical question answer detector. Always respond with valid JSON only." },
-        { role: "user", content: detectionPrompt }
-      ],
-      max_tokens: 150,
-      temperature: 0
-    })
-
-    const responseText = response.choices[0]?.message?.content?.trim()
-    
-    if (!responseText) {
-      throw new Error('No response from OpenAI')
-    }
-
-    // Parse the JSON response (handle markdown code blocks)
-    const cleanedResponse = responseText.replace(/```json\n?|```\n?/g, '').trim()
-    const result = JSON.parse(cleanedResponse)
-    
-    return result
+    return await answerDetector.detect(userInput, question)
   } catch (error) {
     console.error('Answer detection failed:', error)
-    return { answered: false, answerIndex: null, confidence: 0, explanation: 'Error analyzing response' }
+    return { answered: false, answerIndex: null, confidence: 0, explanation: 'Error analyzing response', source: 'llm' }
   }
 }
 
-async function submitDiagnosticAnswer(sessionId: string, answerIndex: number, token: string): Promise<boolean> {
+async function submitDiagnosticAnswer(sessionId: string, answerIndex: number): Promise<boolean> {
   try {
-    const response = await axios.put(`${MERLIN_ENDPOINT}/api/v1/dx-session/submit-diagnostic-answer`, {
-      persistanceSession: sessionId,
-      answer_index: answerIndex,
-      platform_id: "Mobile"
-    }, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      }
-    })
-    
-    return response.status === 200
+    await getMerlinClient().submitDiagnosticAnswer(sessionId, answerIndex)
+    return true
   } catch (error) {
     console.error('Failed to submit diagnostic answer:', error)
     return false
   }
 }
 
-async function getNextUnansweredQuestion(sessionId: string, token: string): Promise<{ question: string; answerList: string[] } | null> {
+async function getNextUnansweredQuestion(sessionId: string): Promise<MerlinQuestion | null> {
   try {
-    const response = await axios.put(`${MERLIN_ENDPOINT}/api/v1/dx-session/get-diagnostic-question`, {
-      persistanceSession: sessionId
-    }, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      }
-    })
-    
-    if (response.status === 200 && response.data?.question && response.data.question !== "No Questions Left") {
-      return {
-        question: response.data.question,
-        answerList: response.data.answer_list || []
-      }
-    }
-    
-    return null
+    return await getMerlinClient().getDiagnosticQuestion(sessionId)
   } catch (error: any) {
-    console.log('🔍 Error getting next question:', error?.response?.status || error.message)
-    console.log('🔍 Full error details:', error?.response?.data || error.message)
+    console.log('🔍 Error getting next question:', error?.status || error.message)
+    console.log('🔍 Full error details:', error?.data || error.message)
     return null
   }
 }
 
+interface AutoAnsweredQuestion extends AutoAnswerDetection {
+  question: string
+  answerIndex: number
+  answerText: string
+}
+
+// Audit failures must never block the diagnostic flow
+async function auditAutoAnswer(sessionId: string, question: MerlinQuestion, answerIndex: number, detection: AutoAnswerDetection): Promise<void> {
+  try {
+    await diagnosticSessionDB.recordAutoAnswer(sessionId, question, answerIndex, detection)
+  } catch (error) {
+    console.error('Failed to record auto-detected answer:', error)
+  }
+}
+
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   console.log('🚀 SESSION CREATE - OPTIMIZED FOR SPEED')
   const sessionStartTime = Date.now()
@@ -127,7 +69,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    const { patientData, initialSymptoms, userInput, userEmail, sessionToken, testMode } = req.body
+    const { patientData, initialSymptoms, userInput, userEmail, sessionToken, testMode, selectedSdcoId, offeredSdcoIds } = req.body
     
     // Handle both API formats for backward compatibility
     const symptoms = initialSymptoms || userInput
@@ -158,6 +100,14 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       }
     }
     
+    // REQUIRE authenticated user data - no hardcoded fallbacks.
+    // Checked before triage, matching or clarification so nothing is computed or returned unauthenticated
+    if (!authenticatedUser) {
+      return res.status(401).json({ 
+        error: 'Authentication required. Please log in to create a diagnostic session.' 
+      })
+    }
+    
     console.log('*** EXTRACTING REQUEST DATA ***')
     console.log('Patient data:', patient)
     console.log('Initial symptoms:', symptoms)
@@ -166,15 +116,28 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       return res.status(400).json({ error: 'Missing symptoms or user input' })
     }
 
-    // PERFORMANCE OPTIMIZATION: Run JWT token and symptom extraction in parallel
-    console.log('🚀 PARALLEL API OPTIMIZATION: Starting JWT and symptom extraction simultaneously')
-    
-    const [token, allSymptoms] = await Promise.all([
-      getValidJWTToken(),
-      extractAllSymptoms(symptoms)
-    ])
+    // Red-flag triage before anything else - emergencies never enter the Q&A flow.
+    // The rules are English, so symptoms in other languages are also checked in translation.
+    const language = await resolveConversationLanguage({
+      message: symptoms,
+      userId: authenticatedUser?.id,
+      requested: req.body.language
+    })
+    const triage = await triageMessage(symptoms, {
+      englishMessage: await translateToEnglish(symptoms, language.detectedLanguage)
+    })
+    if (isEmergency(triage)) {
+      console.log('🚨 EMERGENCY TRIAGE: Skipping diagnostic session creation')
+      return res.status(200).json({
+        emergency: true,
+        triage,
+        response: buildEmergencyMessage(triage, language.responseLanguage)
+      })
+    }
+
+    // JWT handling lives in the Merlin client, so only symptom extraction is needed up front
+    const allSymptoms = await extractAllSymptoms(symptoms)
 
-    console.log('✅ PARALLEL COMPLETION: JWT token and symptom extraction completed')
     console.log('All symptoms extracted by OpenAI:', allSymptoms)
     
     // Extract primary symptom for session creation
@@ -187,11 +150,42 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     console.log('Primary symptom for SDCO matching:', primarySymptom)
     console.log('Full user symptoms input:', symptoms)
     try {
-      sdcoId = await findMatchingSDCO(primarySymptom)
+      if (selectedSdcoId) {
+        // The user answered a clarification prompt - trust their pick and learn from it
+        const reference = await sdcoMatcher.getSdcoReference(selectedSdcoId)
+        if (!reference) {
+          return res.status(400).json({ error: `Unknown SDCO ID: ${selectedSdcoId}` })
+        }
+        sdcoId = reference.sdcoId
+        try {
+          await sdcoMatcher.recordSelection({
+            symptom: primarySymptom,
+            sdcoId,
+            userId: authenticatedUser?.id,
+            offeredSdcoIds: Array.isArray(offeredSdcoIds) ? offeredSdcoIds : []
+          })
+        } catch (selectionError) {
+          console.error('Failed to record SDCO selection:', selectionError)
+        }
+      } else {
+        const match = await sdcoMatcher.rankCandidates(primarySymptom)
+
+        // Close scores mean we'd be guessing - ask the user before starting a Merlin session
+        if (match.ambiguous && match.clarification) {
+          console.log('❓ Ambiguous SDCO match, asking for clarification:', match.clarification.prompt)
+          return res.status(200).json({
+            triage,
+            clarificationRequired: true,
+            clarification: match.clarification,
+            candidates: match.candidates
+          })
+        }
+
+        sdcoId = match.candidates[0]?.sdcoId || await getDatabaseGeneralSymptomFallback()
+      }
       console.log('=== SDCO MATCHING COMPLETE ===')
       console.log('🎯 CRITICAL: Final matched SDCO ID:', sdcoId)
       console.log('🎯 CRITICAL: For symptoms:', symptoms)
-      console.log('Expected: Should be diarrhea/gastritis-related for runny stool symptoms')
       
       // Validate SDCO medical relevance for debugging
       if (symptoms && symptoms.toLowerCase().includes('stool') || symptoms && symptoms.toLowerCase().includes('diarrhea')) {
@@ -212,113 +206,36 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       throw new Error(`Invalid medical term mapping for symptom "${primarySymptom}"`)
     }
     
-    // REQUIRE authenticated user data - no hardcoded fallbacks
-    if (!authenticatedUser) {
-      return res.status(401).json({ 
-        error: 'Authentication required. Please log in to create a diagnostic session.' 
-      })
-    }
-    
-    const finalPatientData = {
-      firstName: authenticatedUser.firstName,
-      lastName: authenticatedUser.lastName,
-      dateOfBirth: formatDateForAPI(authenticatedUser.dateOfBirth), // Convert YYYY-MM-DD to MM/DD/YYYY
-      sex: authenticatedUser.genderAtBirth === 'male' ? 'Male' : 
-           authenticatedUser.genderAtBirth === 'female' ? 'Female' : 'Other',
-      email: authenticatedUser.email
-    }
-
-    // Helper function to convert date format
-    function formatDateForAPI(dateString: string): string {
-      try {
-        const date = new Date(dateString)
-        const month = (date.getMonth() + 1).toString().padStart(2, '0')
-        const day = date.getDate().toString().padStart(2, '0')
-        const year = date.getFullYear()
-        return `${month}/${day}/${year}`
-      } catch (error) {
-        console.error('Date formatting error for:', dateString)
-        throw new Error('Invalid date format provided by authenticated user')
-      }
-    }
+    // Convert YYYY-MM-DD to MM/DD/YYYY and map gender to Merlin's sex values
+    // Known medications and conditions go into patient_info so Merlin accounts for them
+    const patientHistory = await buildPatientHistory(authenticatedUser.id)
+    const finalPatientData = { ...patientDataFromUser(authenticatedUser), history: patientHistory.history }
 
     const sessionPayload = {
-      platform_id: "Mobile",
-      patient_info: {
-        first_name: finalPatientData.firstName,
-        last_name: finalPatientData.lastName,
-        date_of_birth: finalPatientData.dateOfBirth,
-        sex_at_birth: finalPatientData.sex.charAt(0).toLowerCase(),
-        comments: [],
-        allergy_list: [],
-        medication_list: [],
-        risk_factor_list: [],
-        problem_list: []
-      },
+      patient_info: toMerlinPatientInfo(finalPatientData),
       reason_for_encounter: sdcoId
     }
 
-    // Session creation with validated SDCO ID using correct start-new-session endpoint
-
-    // Use PUT request to correct Merlin endpoint as per working examples from replit.md history
-    const response = await axios.put(
-      `${MERLIN_ENDPOINT}/api/v1/diagnostic/start-new-session`,
-      sessionPayload,
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 15000
-      }
-    )
-
-    // Check response status
-
-    // Handle different response statuses
-    if (response.status !== 200) {
-      throw new Error(`Session creation failed with status ${response.status}: ${response.data}`)
-    }
-
-    // The Streamlit app shows the response has persistanceSession field
-    const sessionId = response.data.persistanceSession || response.data.session_id
-
-    if (!sessionId) {
-      throw new Error('Session creation succeeded but no session ID returned')
-    }
+    // Session creation with validated SDCO ID using the start-new-session endpoint
+    const { sessionId } = await getMerlinClient().startNewSession(sessionPayload)
 
     // Store session in our database
-    const client = await DatabasePool.getClient()
+    let sessionStored = false
     try {
-      await client.query(`
-        INSERT INTO diagnostic_sessions (
-          user_id, merlin_session_id, patient_data, reason_for_encounter, 
-          reason_for_encounter_symptom_id, platform_id, status
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
-      `, [
-        authenticatedUser.id,
-        sessionId,
-        JSON.stringify(finalPatientData),
-        Array.isArray(allSymptoms) ? allSymptoms.join(', ') : symptoms,
-        sdcoId,
-        'Mobile',
-        'active'
-      ])
-
-      // Store session symptoms
-      for (let i = 0; i < allSymptoms.length; i++) {
-        await client.query(`
-          INSERT INTO session_symptoms (session_id, symptom_text, sdco_id, processing_order)
-          SELECT id, $2, $3, $4 FROM diagnostic_sessions WHERE merlin_session_id = $1
-        `, [sessionId, allSymptoms[i], i === 0 ? sdcoId : null, i + 1])
-      }
-
+      await diagnosticSessionDB.createSession({
+        userId: authenticatedUser.id,
+        merlinSessionId: sessionId,
+        patientData: finalPatientData,
+        reasonForEncounter: Array.isArray(allSymptoms) ? allSymptoms.join(', ') : symptoms,
+        reasonForEncounterSymptomId: sdcoId,
+        platformId: 'Mobile',
+        symptoms: allSymptoms.map((symptom: string, i: number) => ({ text: symptom, sdcoId: i === 0 ? sdcoId : null }))
+      })
+      sessionStored = true
       console.log('✅ Session stored in database:', sessionId)
     } catch (dbError) {
       console.error('Failed to store session in database:', dbError)
       // Continue anyway since Merlin session was created successfully
-    } finally {
-      client.release()
     }
     
     // PERFORMANCE OPTIMIZATION: Run secondary symptoms and initial data fetching in parallel
@@ -327,12 +244,12 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     const [, diagnosis, firstQuestion] = await Promise.all([
       // Process secondary symptoms if multiple were extracted
       allSymptoms.length > 1 
-        ? processSecondarySymptoms(sessionId, allSymptoms.slice(1), token)
+        ? processSecondarySymptoms(sessionId, allSymptoms.slice(1))
         : Promise.resolve(),
       // Get differential diagnosis 
-      getDifferentialDiagnosis(sessionId, token),
+      getDifferentialDiagnosis(sessionId),
       // Get first diagnostic question
-      getFirstDiagnosticQuestion(sessionId, token)
+      getFirstDiagnosticQuestion(sessionId)
     ])
     
     console.log('✅ PARALLEL COMPLETION: Secondary symptoms, diagnosis, and question completed')
@@ -340,17 +257,43 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     // Recursively process all auto-answerable questions
     let processedFirstQuestion = firstQuestion
     let updatedDiagnosis = diagnosis
+    let autoAnsweredQuestions: AutoAnsweredQuestion[] = []
     
     if (firstQuestion?.question && firstQuestion?.answerList) {
-      const result = await processQuestionsRecursively(sessionId, symptoms, firstQuestion, diagnosis, token)
+      const result = await processQuestionsRecursively(sessionId, symptoms, firstQuestion, diagnosis)
       processedFirstQuestion = result.nextQuestion
       updatedDiagnosis = result.updatedDiagnosis
+      autoAnsweredQuestions = result.autoAnswered
+    }
+
+    // Pending question → awaiting_answer, nothing left to ask → completed
+    let sessionStatus = 'active'
+    if (sessionStored) {
+      try {
+        const stored = await diagnosticSessionDB.applyQuestion(sessionId, processedFirstQuestion, updatedDiagnosis, {
+          event: 'session_created',
+          detail: {
+            symptoms: allSymptoms,
+            autoAnswered: autoAnsweredQuestions.map(answered => ({ question: answered.question, answerText: answered.answerText }))
+          }
+        })
+        sessionStatus = stored.status
+      } catch (dbError) {
+        console.error('Failed to update session state:', dbError)
+      }
     }
     
     res.status(200).json({
       sessionId,
+      status: sessionStatus,
+      triage,
       differentialDiagnosis: updatedDiagnosis,
       firstQuestion: processedFirstQuestion,
+      autoAnsweredQuestions,
+      patientHistory: {
+        mapped: patientHistory.mapped,
+        unmapped: patientHistory.unmapped
+      },
       total_symptoms_processed: allSymptoms.length
     })
   } catch (error) {
@@ -381,7 +324,9 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
             sessionId: fallbackData.sessionId,
             differentialDiagnosis: fallbackData.differentialDiagnosis,
             firstQuestion: fallbackData.firstQuestion,
+            status: fallbackData.status,
             fallbackMode: true,
+            persisted: fallbackData.persisted,
             total_symptoms_processed: 1
           })
         }
@@ -402,122 +347,73 @@ async function processQuestionsRecursively(
   userInput: string, 
   currentQuestion: any, 
   currentDiagnosis: any, 
-  token: string,
   maxIterations = 10
-): Promise<{ nextQuestion: any; updatedDiagnosis: any }> {
+): Promise<{ nextQuestion: any; updatedDiagnosis: any; autoAnswered: AutoAnsweredQuestion[] }> {
   let iteration = 0
   let question = currentQuestion
   let diagnosis = currentDiagnosis
+  const autoAnswered: AutoAnsweredQuestion[] = []
   
   while (question && iteration < maxIterations) {
     try {
       // Check if user input answers current question
       const answerCheck = await checkIfInputAnswersQuestion(userInput, question)
       
-      if (answerCheck.answered && answerCheck.answerIndex !== null && answerCheck.confidence > 70) {
+      if (answerCheck.answered && answerCheck.answerIndex !== null) {
         // Submit the answer automatically
-        const submitSuccess = await submitDiagnosticAnswer(sessionId, answerCheck.answerIndex, token)
+        const submitSuccess = await submitDiagnosticAnswer(sessionId, answerCheck.answerIndex)
         
         if (submitSuccess) {
+          // Audit and clients keep the 0-100 confidence scale
+          const detection = { confidence: Math.round(answerCheck.confidence * 100), explanation: answerCheck.explanation }
+          await auditAutoAnswer(sessionId, question, answerCheck.answerIndex, detection)
+          autoAnswered.push({
+            question: question.question,
+            answerIndex: answerCheck.answerIndex,
+            answerText: question.answerList[answerCheck.answerIndex],
+            ...detection
+          })
+
           // Refresh differential diagnosis after auto-answer
-          diagnosis = await getDifferentialDiagnosis(sessionId, token)
+          diagnosis = await getDifferentialDiagnosis(sessionId)
           
           // Get next question
           try {
-            const nextQuestion = await getNextUnansweredQuestion(sessionId, token)
+            const nextQuestion = await getNextUnansweredQuestion(sessionId)
             
             if (nextQuestion) {
               question = nextQuestion
               iteration++
               continue // Continue loop to check if this question can also be auto-answered
             } else {
-              return { nextQuestion: null, updatedDiagnosis: diagnosis }
+              return { nextQuestion: null, updatedDiagnosis: diagnosis, autoAnswered }
             }
           } catch (error) {
             // Treat as end of questions - known Merlin API issue after answer submission
-            return { nextQuestion: null, updatedDiagnosis: diagnosis }
+            return { nextQuestion: null, updatedDiagnosis: diagnosis, autoAnswered }
           }
         } else {
-          return { nextQuestion: question, updatedDiagnosis: diagnosis }
+          return { nextQuestion: question, updatedDiagnosis: diagnosis, autoAnswered }
         }
       } else {
         // Return this question for manual user input
-        return { nextQuestion: question, updatedDiagnosis: diagnosis }
+        return { nextQuestion: question, updatedDiagnosis: diagnosis, autoAnswered }
       }
     } catch (error) {
       console.log('🎯 ERROR PROCESSING QUESTION:', error)
       // Return current question on error
-      return { nextQuestion: question, updatedDiagnosis: diagnosis }
+      return { nextQuestion: question, updatedDiagnosis: diagnosis, autoAnswered }
     }
   }
   
   console.log('🎯 MAX ITERATIONS REACHED - Returning current state')
-  return { nextQuestion: question, updatedDiagnosis: diagnosis }
-}
-
-async function generateMedicalSynonyms(symptom: string): Promise<string[]> {
-  console.log('*** GENERATING MEDICAL SYNONYMS FOR:', symptom)
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `Generate medical synonyms and related terms for the given symptom to improve diagnostic matching.
-
-Return a JSON array of 5-8 related medical terms that could help match this symptom in a medical database:
-- Include the standardized medical term
-- Include common colloquial expressions
-- Include related symptoms that often occur together
-- Include anatomical variations (if applicable)
-- Include both singular and plural forms when relevant
-
-Examples:
-"runny nose" → ["rhinorrhea", "nasal discharge", "nasal congestion", "runny nose", "stuffy nose", "sinus drainage", "postnasal drip"]
-"stomach pain" → ["abdominal pain", "gastric pain", "epigastric pain", "belly pain", "stomach ache", "gastralgia", "dyspepsia"]
-"diarrhea" → ["loose stools", "watery stools", "liquid stools", "gastroenteritis", "bowel urgency", "frequent bowel movements", "runny stools"]
-"chest pain" → ["thoracic pain", "cardiac pain", "angina", "chest discomfort", "precordial pain", "retrosternal pain", "chest tightness"]
-
-Return ONLY a valid JSON array of strings, no additional text.`
-        },
-        {
-          role: "user",
-          content: symptom
-        }
-      ],
-      max_tokens: 200,
-      temperature: 0.3
-    })
-
-    const content = response.choices[0]?.message?.content?.trim()
-    if (!content) {
-      return []
-    }
-
-    try {
-      const synonyms = JSON.parse(content)
-      if (Array.isArray(synonyms)) {
-        return synonyms.filter(term => typeof term === 'string' && term.length > 0)
-      }
-    } catch (parseError) {
-      // Fallback: extract terms from brackets or quotes
-      const matches = content.match(/"([^"]+)"/g)
-      if (matches) {
-        return matches.map(match => match.replace(/"/g, '')).slice(0, 8)
-      }
-    }
-
-    return []
-  } catch (error) {
-    console.error('Medical synonym generation failed:', error)
-    return []
-  }
+  return { nextQuestion: question, updatedDiagnosis: diagnosis, autoAnswered }
 }
 
 async function extractPrimarySymptom(symptoms: string): Promise<string> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await getLLMProvider().chat({
+      task: 'analysis',
       messages: [
         {
           role: "system",
@@ -558,13 +454,18 @@ Examples:
 
 async function extractAllSymptoms(symptoms: string): Promise<string[]> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const { data } = await generateStructured({
+      name: 'symptom_extraction',
+      schema: s.object({
+        symptoms: s.array(s.string({ minLength: 1 }))
+      }),
+      task: 'analysis',
       messages: [
         {
           role: "system",
-          content: `Extract ALL individual symptoms from the patient's description as a JSON array.
+          content: `Extract ALL individual symptoms from the patient's description as a JSON object with a "symptoms" array.
 IMPORTANT: Correct any spelling errors and use standardized medical terminology.
+The description may be in any language; always return the symptoms as English medical terms ("me duele la cabeza" → "headache").
 
 Common symptoms to standardize:
 - abdominal pain, stomach pain, belly pain → "abdominal pain"
@@ -581,12 +482,12 @@ Common symptoms to standardize:
 - diarrhea, loose stools → "diarrhea"
 
 Examples with spelling corrections:
-"I have diarhhea" → ["diarrhea"]
-"My stomache hurts" → ["abdominal pain"]
-"I have a hedache" → ["headache"]
-"I'm coughing alot" → ["cough"]
+"I have diarhhea" → {"symptoms": ["diarrhea"]}
+"My stomache hurts" → {"symptoms": ["abdominal pain"]}
+"I have a hedache" → {"symptoms": ["headache"]}
+"I'm coughing alot" → {"symptoms": ["cough"]}
 
-Return only a JSON array of standardized symptom strings with correct spelling.`
+Return only a JSON object whose "symptoms" array holds standardized symptom strings with correct spelling.`
         },
         {
           role: "user", 
@@ -597,20 +498,11 @@ Return only a JSON array of standardized symptom strings with correct spelling.`
       temperature: 0.1
     })
 
-    const content = response.choices[0]?.message?.content?.trim()
-    if (!content) {
-      console.log('No content from OpenAI, using input directly:', symptoms)
-      return [symptoms]
-    }
-    
-    try {
-      const parsed = JSON.parse(content)
-      return Array.isArray(parsed) ? parsed : [symptoms]
-    } catch {
-      // If JSON parsing fails, fallback to primary symptom
-      console.log('JSON parsing failed, using input directly:', symptoms)
+    if (data.symptoms.length === 0) {
+      console.log('No symptoms extracted, using input directly:', symptoms)
       return [symptoms]
     }
+    return data.symptoms
   } catch (error) {
     console.error('All symptoms extraction failed:', error)
     // Ensure we always return at least the original input or a fallback
@@ -621,37 +513,11 @@ Return only a JSON array of standardized symptom strings with correct spelling.`
 // Removed old findMatchingSDCOWithSearch function - now using OpenAI-only approach
 
 async function findMatchingSDCO(symptom: string): Promise<string> {
-  // Handle undefined or empty input
-  if (!symptom || symptom.trim() === '') {
-    throw new Error('No symptom provided for SDCO matching')
-  }
-  
-  // Step 1: Use OpenAI to generate medical synonyms and standardized terms
-  const aiGeneratedTerms = await generateMedicalSynonyms(symptom)
-  
-  // Step 2: Search each AI-generated term against SDCO documents via vector search
-  const searchTerms = [
-    symptom, // Include original symptom first
-    ...aiGeneratedTerms
-  ].filter((term, index, array) => array.indexOf(term) === index) // Remove duplicates
-  
-  for (const searchTerm of searchTerms) {
-    try {
-      // Use internal API call instead of HTTP request for performance
-      const { FixedVectorSearchManager } = await import('../../lib/fixed-vector-search-manager')
-      const searchManager = new FixedVectorSearchManager(process.env.DATABASE_URL!)
-      const searchResults = await searchManager.searchSymptoms(searchTerm, 3)
-      
-      console.log(`*** VECTOR SEARCH FOR: ${searchTerm}`)
-      console.log(`*** FOUND ${searchResults.length} matches`)
-      if (searchResults.length > 0) {
-        console.log(`*** BEST MATCH: ${searchResults[0].sdco_id} (${searchResults[0].display_name})`)
-        return searchResults[0].sdco_id
-      }
-    } catch (error) {
-      console.log(`*** VECTOR SEARCH FAILED FOR: ${searchTerm}`, error)
-      // Continue to next search term
-    }
+  // Secondary symptoms only need the best candidate - clarification is reserved for the primary symptom
+  const match = await sdcoMatcher.rankCandidates(symptom, 3)
+  if (match.candidates.length > 0) {
+    console.log(`*** BEST MATCH: ${match.candidates[0].sdcoId} (${match.candidates[0].displayName})`)
+    return match.candidates[0].sdcoId
   }
   
   // Final attempt: Use database-driven general symptom fallback
@@ -698,24 +564,26 @@ async function getDatabaseGeneralSymptomFallback(): Promise<string> {
   }
 }
 
-async function processSecondarySymptoms(sessionId: string, symptoms: string[], jwtToken: string): Promise<void> {
+async function processSecondarySymptoms(sessionId: string, symptoms: string[]): Promise<void> {
   try {
     // Find SDCO IDs for all secondary symptoms
-    const sdcoIds: string[] = []
+    const matched: { text: string; sdcoId: string }[] = []
     for (const symptom of symptoms) {
       const sdcoId = await findMatchingSDCO(symptom)
       if (sdcoId && sdcoId !== 'abdominal_pain@C0000737') { // Avoid duplicate primary symptom
-        sdcoIds.push(sdcoId)
+        matched.push({ text: symptom, sdcoId })
       }
     }
     
-    if (sdcoIds.length > 0) {
-      // Add symptoms to queue using the symptom queue API
-      await axios.post(`${process.env.NEXTAUTH_URL || 'https://treatmentglm.replit.app'}/api/symptoms/queue`, {
-        sessionId,
-        sdcoIds,
-        jwtToken
-      })
+    if (matched.length > 0) {
+      await getMerlinClient().addSymptomsToQueue(sessionId, matched.map(symptom => symptom.sdcoId))
+
+      // Keep the queued SDCO IDs so the session can be rebuilt later
+      try {
+        await diagnosticSessionDB.setSymptomSdcoIds(sessionId, matched)
+      } catch (dbError) {
+        console.error('Failed to record secondary symptom SDCO IDs:', dbError)
+      }
     }
   } catch (error) {
     console.error('Failed to process secondary symptoms:', error)
@@ -723,29 +591,11 @@ async function processSecondarySymptoms(sessionId: string, symptoms: string[], j
   }
 }
 
-async function getDifferentialDiagnosis(sessionId: string, jwtToken: string): Promise<any[]> {
+async function getDifferentialDiagnosis(sessionId: string): Promise<any[]> {
   try {
-    const response = await axios.put(
-      `${MERLIN_ENDPOINT}/api/v1/dx-session/get-differential-diagnosis`,
-      { 
-        persistanceSession: sessionId,
-        platform_id: "Mobile"
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${jwtToken}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    )
-
-    console.log('Differential diagnosis response:', response.data)
-    
-    // Extract diagnoses and keep original structure for DifferentialDiagnosis component
-    const diagnoses = response.data.differential_diagnosis || []
+    // Diagnoses keep their original structure for the DifferentialDiagnosis component
+    const diagnoses = await getMerlinClient().getDifferentialDiagnosis(sessionId)
     console.log('Raw differential diagnosis count:', diagnoses.length)
-    
-    // Return the diagnoses in their original format with diagnosis.display_name structure
     return diagnoses
   } catch (error) {
     console.error('Differential diagnosis retrieval failed:', error)
@@ -753,41 +603,22 @@ async function getDifferentialDiagnosis(sessionId: string, jwtToken: string): Pr
   }
 }
 
-async function getFirstDiagnosticQuestion(sessionId: string, jwtToken: string): Promise<{ question: string; answerList: string[] } | null> {
+async function getFirstDiagnosticQuestion(sessionId: string): Promise<MerlinQuestion | null> {
   try {
     console.log(`🔍 GETTING FIRST DIAGNOSTIC QUESTION for session: ${sessionId}`)
     
-    const response = await axios.put(
-      `${MERLIN_ENDPOINT}/api/v1/dx-session/get-diagnostic-question`,
-      { 
-        persistanceSession: sessionId
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${jwtToken}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    )
-
-    console.log(`🔍 FIRST QUESTION RESPONSE:`, response.data)
-    
-    if (response.data.question && response.data.question !== "No Questions Left") {
-      return {
-        question: response.data.question,
-        answerList: response.data.answer_list || []
-      }
+    const question = await getMerlinClient().getDiagnosticQuestion(sessionId)
+    if (!question) {
+      console.log('🔍 No first diagnostic question available')
     }
-    
-    console.log('🔍 No first diagnostic question available')
-    return null
+    return question
   } catch (error: any) {
-    if (error?.response?.status === 500) {
+    if (error?.status === 500) {
       console.log('⚠️ KNOWN ISSUE: Merlin API diagnostic question endpoint returning 500 Internal Error')
       console.log('⚠️ This is a server-side issue documented in replit.md - diagnostic workflow will continue without questions')
     } else {
-      console.error('🔍 First diagnostic question retrieval failed:', error?.response?.status || error.message)
-      console.error('🔍 Full error details:', error?.response?.data || error.message)
+      console.error('🔍 First diagnostic question retrieval failed:', error?.status || error.message)
+      console.error('🔍 Full error details:', error?.data || error.message)
     }
     
     // Return null but system continues functioning - known Merlin API server-side issue
@@ -796,7 +627,7 @@ async function getFirstDiagnosticQuestion(sessionId: string, jwtToken: string):
 }
 
 // Export with rate limiting protection
-export default withScalableMiddleware('SESSION_CREATE', {
+export const handlerWithMiddleware = withScalableMiddleware('SESSION_CREATE', {
   requireSession: false,
   requireUserContext: false
 })(handler)
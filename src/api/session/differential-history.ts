@@ -0,0 +1,90 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { authDB } from '../../lib/auth-database'
+import { diagnosticSessionDB } from '../../lib/diagnostic-session-database'
+import { computeDifferentialDelta } from '../../lib/differential-deltas'
+
+/**
+ * @openapi
+ * /api/session/{id}/differential-history:
+ *   get:
+ *     summary: Differential diagnosis snapshots of a session with per-step deltas
+ *     description: |
+ *       Returns every stored differential for the session in order, each with the event that produced
+ *       it (session created, answer submitted, symptom added, answer amended, session migrated or a plain
+ *       refresh) and a delta against the previous snapshot listing the conditions that rose, fell, entered
+ *       or left the top N.
+ *     tags:
+ *       - Session
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: topN
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 5
+ *     responses:
+ *       200:
+ *         description: Snapshot series with deltas
+ *       401:
+ *         description: Missing or invalid session token
+ *       404:
+ *         description: Session not found for this user
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const sessionToken = req.headers.authorization?.replace('Bearer ', '')
+    if (!sessionToken) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const user = await authDB.validateSession(sessionToken)
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid or expired session' })
+    }
+
+    const sessionId = ((req as any).params?.id || req.query.id) as string
+    if (!sessionId) {
+      return res.status(400).json({ error: 'Session ID is required' })
+    }
+
+    const session = await diagnosticSessionDB.getSession(sessionId)
+    if (!session || session.userId !== user.id) {
+      return res.status(404).json({ error: 'Diagnostic session not found' })
+    }
+
+    const requestedTopN = parseInt(req.query.topN as string, 10)
+    const topN = Number.isInteger(requestedTopN) && requestedTopN > 0 ? Math.min(requestedTopN, 20) : 5
+
+    const snapshots = await diagnosticSessionDB.getDifferentialSnapshots(session.id)
+
+    return res.status(200).json({
+      success: true,
+      sessionId: session.merlinSessionId,
+      status: session.status,
+      topN,
+      snapshots: snapshots.map((snapshot, index) => ({
+        ...snapshot,
+        delta: index === 0 ? null : computeDifferentialDelta(snapshots[index - 1].differential, snapshot.differential, topN)
+      }))
+    })
+  } catch (error) {
+    console.error('Get differential history error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
@@ -0,0 +1,81 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { authDB } from '../../lib/auth-database'
+import { diagnosticSessionDB } from '../../lib/diagnostic-session-database'
+
+/**
+ * @openapi
+ * /api/session/{id}/history:
+ *   get:
+ *     summary: List the diagnostic questions and answers of a session
+ *     description: |
+ *       Returns every diagnostic question shown in the session in order, with the answer submitted
+ *       for it and whether that answer was chosen by the user or auto-detected from what they wrote.
+ *       Auto-detected answers include the detector's confidence (0-100) and explanation.
+ *     tags:
+ *       - Session
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Question and answer history
+ *       401:
+ *         description: Missing or invalid session token
+ *       404:
+ *         description: Session not found for this user
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const sessionToken = req.headers.authorization?.replace('Bearer ', '')
+    if (!sessionToken) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const user = await authDB.validateSession(sessionToken)
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid or expired session' })
+    }
+
+    const sessionId = ((req as any).params?.id || req.query.id) as string
+    if (!sessionId) {
+      return res.status(400).json({ error: 'Session ID is required' })
+    }
+
+    const session = await diagnosticSessionDB.getSession(sessionId)
+    if (!session || session.userId !== user.id) {
+      return res.status(404).json({ error: 'Diagnostic session not found' })
+    }
+
+    const history = await diagnosticSessionDB.getQuestionHistory(session.id)
+
+    return res.status(200).json({
+      success: true,
+      sessionId: session.merlinSessionId,
+      status: session.status,
+      history,
+      summary: {
+        total: history.length,
+        userAnswered: history.filter(entry => entry.answerSource === 'user').length,
+        autoAnswered: history.filter(entry => entry.answerSource === 'auto_detected').length,
+        pending: history.filter(entry => !entry.answeredAt).length
+      }
+    })
+  } catch (error) {
+    console.error('Get diagnostic Q&A history error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { getValidJWTToken } from '../../lib/jwt-manager'
+import { getMerlinClient, MerlinApiError } from '../../lib/merlin-client'
+import { diagnosticSessionDB } from '../../lib/diagnostic-session-database'
+import { isFallbackSessionId, refreshFallbackDifferential } from '../../lib/fallback-diagnostics'
 
 interface RefreshDiagnosisRequest {
   sessionId: string
@@ -26,47 +28,47 @@ async function handler(
       return res.status(400).json({ error: 'Session ID is required' })
     }
 
-    // Get JWT token
-    const token = await getValidJWTToken()
-
-    if (!token) {
-      return res.status(401).json({ error: 'Authentication failed' })
+    // Fallback sessions re-estimate the differential with OpenAI from the stored answers
+    if (isFallbackSessionId(sessionId)) {
+      const trackedSession = await diagnosticSessionDB.getSession(sessionId)
+      if (!trackedSession) {
+        return res.status(404).json({ error: 'Fallback session was not stored and cannot be refreshed' })
+      }
+      const differential = await refreshFallbackDifferential(trackedSession)
+      return res.status(200).json({
+        differentialDiagnosis: differential.filter((item: any) => item.probability > 0.05),
+        sessionId
+      })
     }
 
     // Call Merlin API to get updated differential diagnosis
-    const MERLIN_ENDPOINT = 'https://merlin-394631772515.us-central1.run.app'
-    const merlinResponse = await fetch(
-      `${MERLIN_ENDPOINT}/api/v1/dx-session/get-differential-diagnosis`,
-      {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          persistanceSession: sessionId,
-          platform_id: "Mobile"
-        })
+    let differential
+    try {
+      differential = await getMerlinClient().getDifferentialDiagnosis(sessionId)
+    } catch (error) {
+      if (error instanceof MerlinApiError) {
+        console.error('Merlin API error:', error.status, error.data)
+        return res.status(500).json({ error: 'Failed to refresh differential diagnosis' })
       }
-    )
-
-    if (!merlinResponse.ok) {
-      console.error('Merlin API error:', merlinResponse.status, await merlinResponse.text())
-      return res.status(500).json({ error: 'Failed to refresh differential diagnosis' })
+      throw error
     }
 
-    const data = await merlinResponse.json()
-
     // Filter and format differential diagnosis (same logic as session creation)
-    const filteredDiagnosis = (data.differential_diagnosis || [])
+    const filteredDiagnosis = differential
       .filter((item: any) => item.probability > 0.05) // Only show conditions with >5% probability
       .sort((a: any, b: any) => b.probability - a.probability) // Sort by probability descending
 
     console.log(`Refreshed differential diagnosis: ${filteredDiagnosis.length} conditions`)
 
+    try {
+      await diagnosticSessionDB.updateDifferential(sessionId, filteredDiagnosis)
+    } catch (dbError) {
+      console.error('Failed to store refreshed differential:', dbError)
+    }
+
     return res.status(200).json({
       differentialDiagnosis: filteredDiagnosis,
-      sessionId: data.persistanceSession || sessionId
+      sessionId
     })
 
   } catch (error) {
@@ -0,0 +1,87 @@
+import { Request, Response } from 'express';
+import { NextApiRequest, NextApiResponse } from 'next'
+import { authDB } from '../../lib/auth-database'
+import { diagnosticSessionDB } from '../../lib/diagnostic-session-database'
+
+/**
+ * @openapi
+ * /api/session/{id}:
+ *   get:
+ *     summary: Get the full current state of a diagnostic session
+ *     description: |
+ *       Returns everything needed to resume a diagnostic session on any device: lifecycle status,
+ *       symptoms, the pending diagnostic question, the latest differential diagnosis and the
+ *       answers given so far. The id may be either our session id or the Merlin persistanceSession id.
+ *     tags:
+ *       - Session
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Current session state
+ *       401:
+ *         description: Missing or invalid session token
+ *       404:
+ *         description: Session not found for this user
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const sessionToken = req.headers.authorization?.replace('Bearer ', '')
+    if (!sessionToken) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const user = await authDB.validateSession(sessionToken)
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid or expired session' })
+    }
+
+    const sessionId = ((req as any).params?.id || req.query.id) as string
+    if (!sessionId) {
+      return res.status(400).json({ error: 'Session ID is required' })
+    }
+
+    const state = await diagnosticSessionDB.getSessionState(sessionId)
+    if (!state || state.userId !== user.id) {
+      return res.status(404).json({ error: 'Diagnostic session not found' })
+    }
+
+    return res.status(200).json({
+      success: true,
+      session: {
+        id: state.id,
+        sessionId: state.merlinSessionId,
+        status: state.status,
+        mode: state.mode,
+        reasonForEncounter: state.reasonForEncounter,
+        primarySDCOId: state.reasonForEncounterSymptomId,
+        symptoms: state.symptoms,
+        currentQuestion: state.currentQuestion,
+        differentialDiagnosis: state.latestDifferential,
+        answers: state.answers.filter(answer => answer.answeredAt),
+        createdAt: state.createdAt,
+        lastActivityAt: state.lastActivityAt,
+        endedAt: state.endedAt,
+        supersedesSessionId: state.supersedesSessionId,
+        supersededBySessionId: state.supersededBySessionId
+      }
+    })
+  } catch (error) {
+    console.error('Get diagnostic session state error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
+
+export default async function expressAdapter(req: Request, res: Response) {
+  return await handler(req as any, res as any);
+}
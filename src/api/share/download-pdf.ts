@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
 import { jsPDF } from 'jspdf'
+import { authDB } from '../../lib/auth-database'
+import { conversationDB, ConversationError } from '../../lib/conversation-database'
 
 interface ChatMessage {
   id: string
@@ -11,6 +13,7 @@ interface ChatMessage {
 
 interface PDFRequest {
   messages: ChatMessage[]
+  threadId?: string
   sessionId?: string
   title: string
 }
@@ -24,10 +27,31 @@ async function handler(
   }
 
   try {
-    const { messages, sessionId, title }: PDFRequest = req.body
+    const { threadId }: PDFRequest = req.body
+    let { messages, sessionId, title }: PDFRequest = req.body
+
+    // A stored thread can be shared instead of a client-supplied message array
+    if (threadId) {
+      const authToken = req.headers.authorization?.replace('Bearer ', '')
+      const threadOwner = authToken ? await authDB.validateSession(authToken) : null
+      if (!threadOwner) {
+        return res.status(401).json({ error: 'Authentication required to share a conversation thread' })
+      }
+      try {
+        const shared = await conversationDB.getThreadForSharing(threadOwner.id, threadId)
+        messages = shared.messages
+        title = title || shared.thread.title
+        sessionId = sessionId || shared.thread.diagnosticSessionId || undefined
+      } catch (error) {
+        if (error instanceof ConversationError) {
+          return res.status(error.status).json({ error: error.message })
+        }
+        throw error
+      }
+    }
 
     if (!messages || !Array.isArray(messages)) {
-      return res.status(400).json({ error: 'Messages are required' })
+      return res.status(400).json({ error: 'Messages or threadId are required' })
     }
 
     // Create new PDF document
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
 import { DatabasePool } from '../../lib/database-pool';
+import { authDB } from '../../lib/auth-database'
+import { conversationDB, ConversationError } from '../../lib/conversation-database'
 
 const dbPool = DatabasePool.getInstance()
 
@@ -14,6 +16,7 @@ interface ChatMessage {
 interface InternalShareRequest {
   linkedAccountId: string
   messages: ChatMessage[]
+  threadId?: string
   sessionId?: string
   title: string
 }
@@ -27,10 +30,31 @@ async function handler(
   }
 
   try {
-    const { linkedAccountId, messages, sessionId, title }: InternalShareRequest = req.body
+    const { linkedAccountId, threadId }: InternalShareRequest = req.body
+    let { messages, sessionId, title }: InternalShareRequest = req.body
+
+    // A stored thread can be shared instead of a client-supplied message array
+    if (threadId) {
+      const authToken = req.headers.authorization?.replace('Bearer ', '')
+      const threadOwner = authToken ? await authDB.validateSession(authToken) : null
+      if (!threadOwner) {
+        return res.status(401).json({ error: 'Authentication required to share a conversation thread' })
+      }
+      try {
+        const shared = await conversationDB.getThreadForSharing(threadOwner.id, threadId)
+        messages = shared.messages
+        title = title || shared.thread.title
+        sessionId = sessionId || shared.thread.diagnosticSessionId || undefined
+      } catch (error) {
+        if (error instanceof ConversationError) {
+          return res.status(error.status).json({ error: error.message })
+        }
+        throw error
+      }
+    }
 
     if (!linkedAccountId || !messages || !Array.isArray(messages)) {
-      return res.status(400).json({ error: 'Linked account ID and messages are required' })
+      return res.status(400).json({ error: 'Linked account ID and messages or threadId are required' })
     }
 
     // Get current user info
@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
 import multer from 'multer'
-import { OpenAI } from 'openai'
+import { getLLMProvider } from '../../lib/llm-provider'
+import { authDB } from '../../lib/auth-database'
+import { normalizeLanguage, getPreferredLanguage } from '../../lib/language'
 
 // Configure multer for handling file uploads
 const upload = multer({
@@ -11,11 +13,6 @@ const upload = multer({
   },
 })
 
-// Create OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
-
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' })
@@ -40,16 +37,23 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       type: file.mimetype || 'audio/wav'
     })
 
-    // Transcribe using OpenAI Whisper
-    const transcription = await openai.audio.transcriptions.create({
+    // Use the language selected in the form, else the user's preferred language;
+    // without either the model detects it from the audio
+    let language = normalizeLanguage((req as any).body?.language)
+    if (!language && req.headers.authorization?.startsWith('Bearer ')) {
+      const user = await authDB.validateSession(req.headers.authorization.substring(7)).catch(() => null)
+      language = await getPreferredLanguage(user?.id)
+    }
+
+    // Transcribe with the configured transcription model
+    const transcription = await getLLMProvider().transcribe({
       file: audioFile,
-      model: 'whisper-1',
-      language: 'en', // English language
-      response_format: 'text',
+      language: language || undefined
     })
 
     return res.status(200).json({ 
-      text: transcription,
+      text: transcription.text,
+      language: normalizeLanguage(transcription.language) || transcription.language,
       success: true 
     })
 
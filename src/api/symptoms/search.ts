@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
 import { FixedVectorSearchManager } from '../../lib/fixed-vector-search-manager'
+import { HybridSearchExplanation } from '../../lib/hybrid-search'
+import { translateToEnglish } from '../../lib/language'
 import { withScalableMiddleware } from '../../lib/api-middleware'
 
 interface SDCOResult {
@@ -12,6 +14,7 @@ interface SDCOResult {
   categories: string[]
   relevance_score: number
   match_type: string
+  explanation: HybridSearchExplanation
 }
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -34,7 +37,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     console.log('Enhanced vector search request:', { symptom, confidence_threshold, limit })
 
     const vectorSearch = new FixedVectorSearchManager(databaseUrl)
-    const searchResults = await vectorSearch.searchSymptoms(symptom, limit)
+    // SDCO terms are English; symptoms described in other languages are translated first
+    const searchResults = await vectorSearch.searchSymptoms(await translateToEnglish(String(symptom)), limit)
     
     // Convert to expected format and filter by confidence
     const results: SDCOResult[] = searchResults
@@ -47,7 +51,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         definition_layman: result.body_system,
         categories: [],
         relevance_score: result.relevance_score,
-        match_type: 'fixed_942_document_search'
+        match_type: 'hybrid_search',
+        explanation: result.explanation
       }))
     
     console.log('Enhanced vector search results:', results.length)
@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import { NextApiRequest, NextApiResponse } from 'next'
 import multer from 'multer'
-import { OpenAI } from 'openai'
+import { getLLMProvider } from '../../lib/llm-provider'
 import pdfParse from 'pdf-parse'
 import mammoth from 'mammoth'
 import { promisify } from 'util'
@@ -34,11 +34,6 @@ const upload = multer({
 
 const uploadMiddleware = promisify(upload.single('file'))
 
-// Initialize OpenAI
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!
-})
-
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' })
@@ -61,8 +56,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       const base64Image = file.buffer.toString('base64')
       const imageDataUrl = `data:${file.mimetype};base64,${base64Image}`
       
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const response = await getLLMProvider().chat({
+        task: 'vision',
         messages: [
           {
             role: "user",
@@ -91,8 +86,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         const pdfData = await pdfParse(file.buffer)
         const extractedText = pdfData.text.slice(0, 4000) // Limit text length
         
-        const response = await openai.chat.completions.create({
-          model: "gpt-4o",
+        const response = await getLLMProvider().chat({
+          task: 'analysis',
           messages: [
             {
               role: "system",
@@ -117,8 +112,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         const result = await mammoth.extractRawText({ buffer: file.buffer })
         const extractedText = result.value.slice(0, 4000) // Limit text length
         
-        const response = await openai.chat.completions.create({
-          model: "gpt-4o", 
+        const response = await getLLMProvider().chat({
+          task: 'analysis',
           messages: [
             {
               role: "system",
@@ -1,65 +1,17 @@
 import { Request, Response } from 'express';
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { DatabasePool } from '../../lib/database-pool';
+import { getMerlinClient } from '../../lib/merlin-client'
 
 const dbPool = DatabasePool.getInstance()
 
-async function getJWTToken(): Promise<string> {
-  const response = await fetch(`${process.env.NEXTAUTH_URL || 'https://treatmentglm.replit.app'}/api/auth/jwt`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    }
-  })
-
-  if (!response.ok) {
-    throw new Error(`JWT token request failed: ${response.status}`)
-  }
-
-  const data = await response.json()
-  return data.access_token
-}
-
-async function fetchSDCOHeaders(jwtToken: string): Promise<any[]> {
-  const response = await fetch('https://merlin-394631772515.us-central1.run.app/api/v1/diagnostic/get-platform-sdco-headers', {
-    method: 'PUT',
-    headers: {
-      'Authorization': `Bearer ${jwtToken}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      platform_id: 'Mobile'
-    })
-  })
-
-  if (!response.ok) {
-    throw new Error(`SDCO headers API request failed: ${response.status}`)
-  }
-
-  const data = await response.json()
-  return data.documents || []
-}
-
-async function fetchFullSDCODocument(jwtToken: string, sdcoId: string): Promise<any> {
-  const response = await fetch('https://merlin-394631772515.us-central1.run.app/api/v1/diagnostic/get-one-sdco', {
-    method: 'PUT',
-    headers: {
-      'Authorization': `Bearer ${jwtToken}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      platform_id: 'Mobile',
-      sdco_id: sdcoId
-    })
-  })
-
-  if (!response.ok) {
-    console.warn(`Failed to fetch SDCO document ${sdcoId}: ${response.status}`)
+async function fetchFullSDCODocument(sdcoId: string): Promise<any> {
+  try {
+    return await getMerlinClient().getOneSdco(sdcoId)
+  } catch (error: any) {
+    console.warn(`Failed to fetch SDCO document ${sdcoId}: ${error.status || error.message}`)
     return null
   }
-
-  const data = await response.json()
-  return data.document || null
 }
 
 function extractComprehensiveContent(document: any): {
@@ -282,12 +234,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       FOR EACH ROW EXECUTE FUNCTION update_enhanced_sdco_tsvector();
     `)
 
-    // Get JWT token
-    const jwtToken = await getJWTToken()
-    console.log('JWT token obtained successfully')
-
     // Fetch all SDCO headers first
-    const sdcoHeaders = await fetchSDCOHeaders(jwtToken)
+    const sdcoHeaders = await getMerlinClient().getPlatformSdcoHeaders()
     console.log(`Found ${sdcoHeaders.length} SDCO headers`)
 
     const sdcosToProcess = limit ? sdcoHeaders.slice(0, limit) : sdcoHeaders
@@ -303,7 +251,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         console.log(`Processing ${processedCount + 1}/${sdcosToProcess.length}: ${header.id}`)
         
         // Fetch full SDCO document
-        const fullDocument = await fetchFullSDCODocument(jwtToken, header.id)
+        const fullDocument = await fetchFullSDCODocument(header.id)
         
         if (fullDocument) {
           // Extract comprehensive content
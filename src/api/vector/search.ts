@@ -1,37 +1,45 @@
 import { Request, Response } from 'express';
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { EnhancedVectorSearch } from '../../lib/enhanced-vector-search'
+import { HybridSearchError } from '../../lib/hybrid-search'
+import { translateToEnglish } from '../../lib/language'
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
-  const { query, sdco_id, limit = 5, body_system, content_types } = req.body
+  const { query, sdco_id, limit = 5, body_system, content_types, weights } = req.body
 
   if (!query || typeof query !== 'string') {
     return res.status(400).json({ error: 'Query parameter required' })
   }
+  if (content_types !== undefined && (!Array.isArray(content_types) || content_types.some(type => typeof type !== 'string'))) {
+    return res.status(400).json({ error: 'content_types must be an array of strings' })
+  }
+  if (weights !== undefined && (typeof weights !== 'object' || weights === null || Array.isArray(weights))) {
+    return res.status(400).json({ error: 'weights must be an object with lexical and/or semantic' })
+  }
 
   try {
-    console.log(`Performing enhanced vector search for: "${query}"`)
+    // SDCO documents are English, so queries in other languages are translated first
+    const englishQuery = await translateToEnglish(query)
+    console.log(`Performing hybrid SDCO search for: "${englishQuery}"`)
     
     const vectorSearch = new EnhancedVectorSearch(process.env.DATABASE_URL!)
     
-    // Get comprehensive SDCO document search results
+    // Full-text and vector results fused by rank, each with an explanation of the match
     const searchResults = await vectorSearch.searchSDCODocuments(
-      query,
+      englishQuery,
       limit,
       body_system,
-      content_types
+      content_types,
+      weights
     )
     
-    // Get contextual information for OpenAI integration
-    const contextualInfo = await vectorSearch.getContextualSDCOInformation(
-      query,
-      sdco_id,
-      2000 // Max tokens for context
-    )
+    // Get contextual information for OpenAI integration, with the chunks it was built from
+    const sources = await vectorSearch.getContextualSDCOSources(englishQuery, 2000) // Max tokens for context
+    const contextualInfo = vectorSearch.formatContextualInformation(englishQuery, sources)
     
     console.log(`Found ${searchResults.length} relevant SDCO documents`)
     
@@ -39,16 +47,23 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       success: true,
       results: searchResults,
       contextual_information: contextualInfo,
+      sources,
       search_metadata: {
         query,
+        english_query: englishQuery,
         sdco_id,
         body_system,
+        content_types,
+        weights,
         result_count: searchResults.length,
         timestamp: new Date().toISOString()
       }
     })
     
   } catch (error) {
+    if (error instanceof HybridSearchError) {
+      return res.status(error.status).json({ success: false, error: error.message })
+    }
     console.error('Error in enhanced vector search:', error)
     return res.status(500).json({
       success: false,
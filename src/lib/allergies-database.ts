@@ -0,0 +1,294 @@
+/**
+ * User Allergies Database
+ * Allergies and intolerances recorded per user. Drug allergies are linked to their
+ * medications_master entry when the substance is in the catalog, which is what new
+ * medications are checked against and what Merlin receives as allergy_list.
+ */
+
+import { DatabasePool } from './database-pool'
+import { medicationsDatabase, MedicationEntry } from './medications-database'
+import { responseCache } from './response-cache'
+
+export const ALLERGY_SEVERITIES = ['mild', 'moderate', 'severe', 'life_threatening'] as const
+export type AllergySeverity = typeof ALLERGY_SEVERITIES[number]
+
+export const ALLERGY_VERIFICATION_STATUSES = ['unconfirmed', 'confirmed', 'refuted', 'entered_in_error'] as const
+export type AllergyVerificationStatus = typeof ALLERGY_VERIFICATION_STATUSES[number]
+
+// Refuted or mistaken entries are kept for history but never warned on
+const INACTIVE_VERIFICATION_STATUSES: AllergyVerificationStatus[] = ['refuted', 'entered_in_error']
+
+export interface UserAllergy {
+  id: string
+  userId: string
+  substance: string
+  medicationId: string | null
+  reaction: string | null
+  severity: AllergySeverity | null
+  onset: string | null
+  verificationStatus: AllergyVerificationStatus
+  notes: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface UserAllergyInput {
+  substance: string
+  reaction?: string | null
+  severity?: AllergySeverity | null
+  onset?: string | null
+  verificationStatus?: AllergyVerificationStatus
+  notes?: string | null
+}
+
+export interface AllergyConflict {
+  allergyId: string
+  substance: string
+  severity: AllergySeverity | null
+  reaction: string | null
+  // Which catalog field of the medication matched the allergy
+  matchedOn: 'catalog_id' | 'name' | 'generic_name' | 'brand_name' | 'therapeutic_class'
+  matchedValue: string
+}
+
+export class AllergyValidationError extends Error {
+  status: number
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'AllergyValidationError'
+    this.status = 400
+  }
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+// "penicillin" matches "Penicillin antibiotics"; very short substances must match exactly
+function termMatches(substance: string, term: string | null | undefined): boolean {
+  if (!term) return false
+  const a = normalize(substance)
+  const b = normalize(term)
+  if (!a || !b) return false
+  if (a === b) return true
+  return a.length >= 4 && new RegExp(`\\b${a.replace(/ /g, '\\s')}`).test(b)
+}
+
+function validateInput(input: Partial<UserAllergyInput>, requireSubstance: boolean): void {
+  if (requireSubstance && !input.substance?.trim()) {
+    throw new AllergyValidationError('substance is required')
+  }
+  if (input.severity && !ALLERGY_SEVERITIES.includes(input.severity)) {
+    throw new AllergyValidationError(`severity must be one of: ${ALLERGY_SEVERITIES.join(', ')}`)
+  }
+  if (input.verificationStatus && !ALLERGY_VERIFICATION_STATUSES.includes(input.verificationStatus)) {
+    throw new AllergyValidationError(`verificationStatus must be one of: ${ALLERGY_VERIFICATION_STATUSES.join(', ')}`)
+  }
+}
+
+class AllergiesDatabase {
+  private schemaReady: Promise<void> | null = null
+
+  /**
+   * Create tables once per process; later calls reuse the same promise
+   */
+  async initializeSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.createSchema().catch(error => {
+        this.schemaReady = null
+        throw error
+      })
+    }
+    return this.schemaReady
+  }
+
+  private async createSchema(): Promise<void> {
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS user_allergies (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          substance VARCHAR(255) NOT NULL,
+          medication_id VARCHAR(255),
+          reaction TEXT,
+          severity VARCHAR(30),
+          onset VARCHAR(100),
+          verification_status VARCHAR(30) NOT NULL DEFAULT 'unconfirmed',
+          notes TEXT,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_user_allergies_user
+        ON user_allergies(user_id)
+      `)
+    } finally {
+      client.release()
+    }
+  }
+
+  async getAllergies(userId: string, options: { includeInactive?: boolean } = {}): Promise<UserAllergy[]> {
+    await this.initializeSchema()
+    const result = await DatabasePool.query(`
+      SELECT * FROM user_allergies
+      WHERE user_id = $1 ${options.includeInactive ? '' : 'AND verification_status <> ALL($2)'}
+      ORDER BY
+        CASE severity WHEN 'life_threatening' THEN 1 WHEN 'severe' THEN 2 WHEN 'moderate' THEN 3 ELSE 4 END,
+        substance ASC
+    `, options.includeInactive ? [userId] : [userId, INACTIVE_VERIFICATION_STATUSES])
+    return result.rows.map(row => this.mapRowToAllergy(row))
+  }
+
+  async addAllergy(userId: string, input: UserAllergyInput): Promise<UserAllergy> {
+    validateInput(input, true)
+    await this.initializeSchema()
+
+    const substance = input.substance.trim()
+    const medication = await medicationsDatabase.findMedicationByName(substance)
+
+    const result = await DatabasePool.query(`
+      INSERT INTO user_allergies (
+        user_id, substance, medication_id, reaction, severity, onset, verification_status, notes
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `, [
+      userId,
+      substance,
+      medication?.id || null,
+      input.reaction || null,
+      input.severity || null,
+      input.onset || null,
+      input.verificationStatus || 'unconfirmed',
+      input.notes || null
+    ])
+    await responseCache.invalidateUser(userId, 'health_data')
+    return this.mapRowToAllergy(result.rows[0])
+  }
+
+  /**
+   * Update the given fields only. Returns null when the allergy does not belong to the user.
+   */
+  async updateAllergy(userId: string, allergyId: string, input: Partial<UserAllergyInput>): Promise<UserAllergy | null> {
+    validateInput(input, false)
+    if (input.substance !== undefined && !input.substance.trim()) {
+      throw new AllergyValidationError('substance cannot be empty')
+    }
+    await this.initializeSchema()
+
+    const updates: string[] = []
+    const values: any[] = [allergyId, userId]
+    const set = (column: string, value: any) => {
+      values.push(value)
+      updates.push(`${column} = $${values.length}`)
+    }
+
+    if (input.substance !== undefined) {
+      const substance = input.substance.trim()
+      const medication = await medicationsDatabase.findMedicationByName(substance)
+      set('substance', substance)
+      set('medication_id', medication?.id || null)
+    }
+    if (input.reaction !== undefined) set('reaction', input.reaction || null)
+    if (input.severity !== undefined) set('severity', input.severity || null)
+    if (input.onset !== undefined) set('onset', input.onset || null)
+    if (input.verificationStatus !== undefined) set('verification_status', input.verificationStatus)
+    if (input.notes !== undefined) set('notes', input.notes || null)
+
+    if (updates.length === 0) {
+      throw new AllergyValidationError('No fields to update')
+    }
+
+    const result = await DatabasePool.query(`
+      UPDATE user_allergies
+      SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND user_id = $2
+      RETURNING *
+    `, values)
+    if (!result.rows[0]) return null
+    await responseCache.invalidateUser(userId, 'health_data')
+    return this.mapRowToAllergy(result.rows[0])
+  }
+
+  async deleteAllergy(userId: string, allergyId: string): Promise<boolean> {
+    await this.initializeSchema()
+    const result = await DatabasePool.query(
+      'DELETE FROM user_allergies WHERE id = $1 AND user_id = $2',
+      [allergyId, userId]
+    )
+    const deleted = (result.rowCount ?? 0) > 0
+    if (deleted) {
+      await responseCache.invalidateUser(userId, 'health_data')
+    }
+    return deleted
+  }
+
+  /**
+   * Recorded allergies that a catalog medication may trigger
+   */
+  async findMedicationConflicts(userId: string, medication: MedicationEntry): Promise<AllergyConflict[]> {
+    const allergies = await this.getAllergies(userId)
+    const conflicts: AllergyConflict[] = []
+
+    for (const allergy of allergies) {
+      const base = {
+        allergyId: allergy.id,
+        substance: allergy.substance,
+        severity: allergy.severity,
+        reaction: allergy.reaction
+      }
+
+      if (allergy.medicationId && allergy.medicationId === medication.id) {
+        conflicts.push({ ...base, matchedOn: 'catalog_id', matchedValue: medication.name })
+        continue
+      }
+
+      const brand = (medication.brand_names || []).find(name => termMatches(allergy.substance, name))
+      if (termMatches(allergy.substance, medication.name)) {
+        conflicts.push({ ...base, matchedOn: 'name', matchedValue: medication.name })
+      } else if (termMatches(allergy.substance, medication.generic_name)) {
+        conflicts.push({ ...base, matchedOn: 'generic_name', matchedValue: medication.generic_name! })
+      } else if (brand) {
+        conflicts.push({ ...base, matchedOn: 'brand_name', matchedValue: brand })
+      } else if (termMatches(allergy.substance, medication.therapeutic_class)) {
+        conflicts.push({ ...base, matchedOn: 'therapeutic_class', matchedValue: medication.therapeutic_class! })
+      }
+    }
+
+    if (conflicts.length > 0) {
+      console.log(`⚠️ ${medication.name} matches ${conflicts.length} recorded allergy(ies) for user ${userId}`)
+    }
+    return conflicts
+  }
+
+  private mapRowToAllergy(row: any): UserAllergy {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      substance: row.substance,
+      medicationId: row.medication_id,
+      reaction: row.reaction,
+      severity: row.severity,
+      onset: row.onset,
+      verificationStatus: row.verification_status,
+      notes: row.notes,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }
+  }
+}
+
+export const allergiesDatabase = new AllergiesDatabase()
+
+/**
+ * One-line warning per conflict, shown to the user when a medication is added
+ */
+export function formatAllergyWarning(medicationName: string, conflict: AllergyConflict): string {
+  const severity = conflict.severity ? ` (${conflict.severity.replace('_', '-')})` : ''
+  const reaction = conflict.reaction ? `, reaction: ${conflict.reaction}` : ''
+  return `${medicationName} may conflict with your recorded allergy to ${conflict.substance}${severity}${reaction}. Check with your doctor or pharmacist before taking it.`
+}
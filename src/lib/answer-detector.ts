@@ -0,0 +1,233 @@
+/**
+ * Answer Detector
+ * Decides whether a user message answers pending diagnostic questions. Obvious
+ * replies (yes/no, "absent", "not sure", the option text itself) are resolved by
+ * rules without a model call; everything else goes to one LLM call, which can
+ * cover several pending questions at once.
+ */
+
+import { generateStructured, s } from './structured-output'
+
+export interface DiagnosticQuestionInput {
+  question: string
+  answerList: string[]
+}
+
+export interface AnswerDetection {
+  // True only when an answer was found with at least the configured confidence
+  answered: boolean
+  answerIndex: number | null
+  // 0-1
+  confidence: number
+  explanation: string
+  source: 'rule' | 'llm'
+}
+
+export interface AnswerDetectorConfig {
+  // Minimum confidence for a detection to count as answered
+  threshold: number
+  // Confidence assigned to rule matches
+  ruleConfidence: number
+  // Longer messages skip the rules, they usually say more than a bare answer
+  ruleMaxWords: number
+  llmEnabled: boolean
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '')
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+function resolveDefaultConfig(): AnswerDetectorConfig {
+  return {
+    threshold: readNumberEnv('ANSWER_DETECTION_THRESHOLD', 0.7),
+    ruleConfidence: readNumberEnv('ANSWER_DETECTION_RULE_CONFIDENCE', 0.95),
+    ruleMaxWords: readNumberEnv('ANSWER_DETECTION_RULE_MAX_WORDS', 6),
+    llmEnabled: process.env.ANSWER_DETECTION_LLM_ENABLED !== 'false'
+  }
+}
+
+type AnswerPolarity = 'positive' | 'negative' | 'unknown'
+
+// Option texts, as Merlin words them, grouped by what they mean
+const OPTION_POLARITY: Record<AnswerPolarity, RegExp> = {
+  positive: /^(yes|present|true|have it|i have)$/,
+  negative: /^(no|absent|false|none|never)$/,
+  unknown: /^(don t know|do not know|unknown|not sure|unsure)$/
+}
+
+// Whole-message replies; checked in this order so "not sure" is not read as a "no"
+const REPLY_POLARITY: [AnswerPolarity, RegExp][] = [
+  ['unknown', /^(i )?(don t|do not|dont) know$|^(i m |i am )?(not sure|unsure)$|^no idea$|^maybe$|^(i )?can t (tell|say)$/],
+  ['negative', /^(no|nope|nah|n|not really|none|never|i don t|i do not|i haven t|i have not|it s absent|absent|not at all|no i don t|no i haven t)$/],
+  ['positive', /^(yes|yeah|yep|yup|y|ya|sure|correct|right|i do|i have|i did|it is|yes i do|yes i have|present|definitely|absolutely)$/]
+]
+
+const NEGATION = /\b(no|not|never|don t|doesn t|didn t|isn t|wasn t|haven t|without)\b/
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[’']/g, ' ').replace(/[^a-z0-9]+/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+function optionPolarity(option: string): AnswerPolarity | null {
+  const text = normalize(option)
+  for (const [polarity, pattern] of Object.entries(OPTION_POLARITY) as [AnswerPolarity, RegExp][]) {
+    if (pattern.test(text)) return polarity
+  }
+  return null
+}
+
+const llmDetectionSchema = s.object({
+  answers: s.array(s.object({
+    questionNumber: s.number({ integer: true, min: 1 }),
+    answered: s.boolean(),
+    answerIndex: s.number({ integer: true, min: 0 }).nullable(),
+    confidence: s.number({ min: 0, max: 1 }),
+    explanation: s.string().default('')
+  }))
+})
+
+export class AnswerDetector {
+  private config: AnswerDetectorConfig
+
+  constructor(config: Partial<AnswerDetectorConfig> = {}) {
+    this.config = { ...resolveDefaultConfig(), ...config }
+  }
+
+  getConfig(): Readonly<AnswerDetectorConfig> {
+    return this.config
+  }
+
+  async detect(message: string, question: DiagnosticQuestionInput, options: { threshold?: number } = {}): Promise<AnswerDetection> {
+    const [result] = await this.detectMany(message, [question], options)
+    return result
+  }
+
+  /**
+   * Check one message against several pending questions. Results are in the same
+   * order as the questions; at most one LLM call is made for the whole batch.
+   */
+  async detectMany(message: string, questions: DiagnosticQuestionInput[], options: { threshold?: number } = {}): Promise<AnswerDetection[]> {
+    const threshold = options.threshold ?? this.config.threshold
+    const results: (AnswerDetection | null)[] = questions.map(question =>
+      this.detectByRules(message, question, questions.length === 1)
+    )
+
+    const pending = questions
+      .map((question, index) => ({ question, index }))
+      .filter(({ index }) => !results[index])
+
+    if (pending.length > 0) {
+      if (this.config.llmEnabled) {
+        const llmResults = await this.detectWithLLM(message, pending.map(item => item.question))
+        pending.forEach((item, position) => { results[item.index] = llmResults[position] })
+      } else {
+        pending.forEach(item => {
+          results[item.index] = { answered: false, answerIndex: null, confidence: 0, explanation: 'No rule matched', source: 'rule' }
+        })
+      }
+    }
+
+    return results.map(result => ({ ...result!, answered: result!.answered && result!.confidence >= threshold }))
+  }
+
+  /**
+   * Deterministic match for short, unambiguous replies. A bare "yes" or "no" is only
+   * trusted when a single question is pending.
+   */
+  detectByRules(message: string, question: DiagnosticQuestionInput, allowBareReplies = true): AnswerDetection | null {
+    const text = normalize(message || '')
+    if (!text || text.split(' ').length > this.config.ruleMaxWords) {
+      return null
+    }
+    const options = question.answerList.map(normalize)
+
+    const exact = options.indexOf(text)
+    if (exact !== -1) {
+      return this.ruleMatch(exact, `Reply is the option "${question.answerList[exact]}"`)
+    }
+
+    if (allowBareReplies) {
+      const reply = REPLY_POLARITY.find(([, pattern]) => pattern.test(text))
+      if (reply) {
+        const index = question.answerList.findIndex(option => optionPolarity(option) === reply[0])
+        if (index !== -1) {
+          return this.ruleMatch(index, `"${message.trim()}" reads as ${reply[0]}, option "${question.answerList[index]}"`)
+        }
+      }
+    }
+
+    // "it's moderate" picks the one option it names; negations are left to the LLM
+    if (!NEGATION.test(text)) {
+      const named = options
+        .map((option, index) => ({ option, index }))
+        .filter(({ option }) => option.length > 2 && new RegExp(`\\b${option}\\b`).test(text))
+      if (named.length === 1) {
+        return this.ruleMatch(named[0].index, `Reply names the option "${question.answerList[named[0].index]}"`)
+      }
+    }
+
+    return null
+  }
+
+  private ruleMatch(answerIndex: number, explanation: string): AnswerDetection {
+    return { answered: true, answerIndex, confidence: this.config.ruleConfidence, explanation, source: 'rule' }
+  }
+
+  private async detectWithLLM(message: string, questions: DiagnosticQuestionInput[]): Promise<AnswerDetection[]> {
+    const questionBlock = questions.map((question, index) =>
+      `QUESTION ${index + 1}: "${question.question}"\n${question.answerList.map((option, optionIndex) => `  ${optionIndex}: ${option}`).join('\n')}`
+    ).join('\n\n')
+
+    const { data } = await generateStructured({
+      name: 'answer_detection',
+      schema: llmDetectionSchema.refine(
+        result => result.answers.every(answer =>
+          answer.questionNumber <= questions.length &&
+          (answer.answerIndex === null || answer.answerIndex < questions[answer.questionNumber - 1].answerList.length) &&
+          (!answer.answered || answer.answerIndex !== null)
+        ),
+        'each answer needs a valid questionNumber, and answerIndex must be one of that question\'s options when answered is true'
+      ),
+      task: 'analysis',
+      messages: [
+        {
+          role: 'system',
+          content: `You decide whether a patient's message answers pending diagnostic questions.
+
+For each question, look for:
+- Direct answers using the option words
+- Synonyms or similar meanings (e.g. "no" = "absent", "yes" = "present")
+- Implicit answers from context ("my throat is really sore" answers "Have you had a sore throat?")
+
+Only mark a question as answered when the message clearly addresses that specific question. A message about a different symptom does not answer it.
+
+Respond with JSON: {"answers": [{"questionNumber": 1, "answered": true, "answerIndex": 0, "confidence": 0.9, "explanation": "brief reason"}]}
+Include one entry per question. confidence is between 0 and 1; answerIndex is null when answered is false.`
+        },
+        {
+          role: 'user',
+          content: `${questionBlock}\n\nPATIENT MESSAGE: "${message}"`
+        }
+      ],
+      max_tokens: 150 + questions.length * 80,
+      temperature: 0
+    })
+
+    return questions.map((_, index) => {
+      const answer = data.answers.find(entry => entry.questionNumber === index + 1)
+      if (!answer) {
+        return { answered: false, answerIndex: null, confidence: 0, explanation: 'Question not addressed', source: 'llm' as const }
+      }
+      return {
+        answered: answer.answered,
+        answerIndex: answer.answered ? answer.answerIndex : null,
+        confidence: answer.confidence,
+        explanation: answer.explanation,
+        source: 'llm' as const
+      }
+    })
+  }
+}
+
+export const answerDetector = new AnswerDetector()
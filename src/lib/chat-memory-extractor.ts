@@ -1,12 +1,14 @@
 import { Pool } from 'pg'
-import OpenAI from 'openai'
+import { generateStructured, s, Infer } from './structured-output'
 import { conversationChunker, ConversationChunk } from './conversation-chunker'
-import { neonVectorMemory } from './neon-vector-memory'
+import { memoryStore, Memory } from './memory-store'
 
 /**
  * Chat Memory Extractor - Automatically extracts important details from chat history
  * Uses AI to identify and store key medical information, symptoms, medications, 
- * lifestyle factors, and user preferences for future sessions
+ * lifestyle factors, and user preferences for future sessions.
+ * Memories are kept in the shared memory store (see memory-store.ts); this class
+ * keeps the per-type user_chat_context rollup.
  */
 
 export interface ChatMemoryEntry {
@@ -14,7 +16,7 @@ export interface ChatMemoryEntry {
   userId: string
   sessionId: string
   extractedAt: Date
-  memoryType: 'symptom' | 'medication' | 'lifestyle' | 'preference' | 'medical_history' | 'concern' | 'follow_up'
+  memoryType: typeof MEMORY_TYPES[number]
   summary: string
   details: any
   confidence: number
@@ -24,6 +26,23 @@ export interface ChatMemoryEntry {
   sourceMessages: string[]
 }
 
+const MEMORY_TYPES = ['symptom', 'medication', 'lifestyle', 'preference', 'medical_history', 'concern', 'follow_up'] as const
+
+const extractedMemoriesSchema = s.object({
+  memories: s.array(s.object({
+    type: s.enum(MEMORY_TYPES),
+    summary: s.string({ minLength: 1 }),
+    details: s.any().default({}),
+    confidence: s.number({ min: 0, max: 1 }),
+    importance: s.number({ min: 0, max: 1 }),
+    symptoms: s.array(s.string()).default([]),
+    tags: s.array(s.string()).default([]),
+    sourceMessages: s.array(s.string()).default([])
+  }))
+})
+
+type ExtractedMemory = Infer<typeof extractedMemoriesSchema>['memories'][number]
+
 export interface ChatContext {
   previousSymptoms: string[]
   currentMedications: string[]
@@ -37,48 +56,24 @@ export interface ChatContext {
 
 class ChatMemoryExtractor {
   private pool: Pool
-  private openai: OpenAI
 
   constructor() {
     this.pool = new Pool({
       connectionString: process.env.DATABASE_URL,
       ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
     })
-    
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
   }
 
   /**
    * Initialize chat memory database schema
    */
   async initializeSchema(): Promise<void> {
+    await memoryStore.initializeSchema()
     const client = await this.pool.connect()
     
     try {
       await client.query('BEGIN')
 
-      // Create chat_memory table
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS chat_memory (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-          session_id VARCHAR(255) NOT NULL,
-          extracted_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-          memory_type VARCHAR(50) NOT NULL,
-          summary TEXT NOT NULL,
-          details JSONB NOT NULL,
-          confidence DECIMAL(3,2) DEFAULT 0.8,
-          importance DECIMAL(3,2) DEFAULT 0.5,
-          related_symptoms TEXT[] DEFAULT '{}',
-          tags TEXT[] DEFAULT '{}',
-          source_messages TEXT[] DEFAULT '{}',
-          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-          updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-        )
-      `)
-
       // Create user_chat_context table for quick context retrieval
       await client.query(`
         CREATE TABLE IF NOT EXISTS user_chat_context (
@@ -94,11 +89,6 @@ class ChatMemoryExtractor {
 
       // Create indexes for performance
       await client.query(`
-        CREATE INDEX IF NOT EXISTS idx_chat_memory_user_id ON chat_memory(user_id);
-        CREATE INDEX IF NOT EXISTS idx_chat_memory_session_id ON chat_memory(session_id);
-        CREATE INDEX IF NOT EXISTS idx_chat_memory_type ON chat_memory(user_id, memory_type);
-        CREATE INDEX IF NOT EXISTS idx_chat_memory_importance ON chat_memory(user_id, importance DESC);
-        CREATE INDEX IF NOT EXISTS idx_chat_memory_date ON chat_memory(user_id, extracted_at DESC);
         CREATE INDEX IF NOT EXISTS idx_user_chat_context_user_type ON user_chat_context(user_id, context_type);
       `)
 
@@ -131,9 +121,6 @@ class ChatMemoryExtractor {
         return []
       }
 
-      // Initialize vector memory schema
-      await neonVectorMemory.initializeVectorSchema()
-
       // Use intelligent chunking for large conversations
       const chunks = conversationChunker.adaptiveChunk(conversationMessages)
       
@@ -173,11 +160,7 @@ class ChatMemoryExtractor {
             chunkMemoryEntries.push(memoryEntry)
           }
 
-          // Store in both traditional and vector memory systems
-          await Promise.all([
-            this.storeChunkMemories(chunkMemoryEntries),
-            neonVectorMemory.batchStoreMemories(userId, sessionId, extractedData)
-          ])
+          await this.storeChunkMemories(chunkMemoryEntries)
 
           allMemoryEntries.push(...chunkMemoryEntries)
           processedChunks++
@@ -205,22 +188,36 @@ class ChatMemoryExtractor {
   }
 
   /**
-   * Store chunk memories in batch
+   * Store chunk memories in batch, filling in the ids they were stored under
    */
   private async storeChunkMemories(entries: ChatMemoryEntry[]): Promise<void> {
-    for (const entry of entries) {
-      try {
-        await this.storeMemoryEntry(entry)
-      } catch (error) {
-        console.error('❌ Error storing chunk memory:', error)
-      }
+    try {
+      const stored = await memoryStore.addMemories(entries.map(entry => ({
+        userId: entry.userId,
+        sessionId: entry.sessionId,
+        source: 'chat_extraction',
+        memoryType: entry.memoryType,
+        summary: entry.summary,
+        details: entry.details,
+        confidence: entry.confidence,
+        importance: entry.importance,
+        relatedSymptoms: entry.relatedSymptoms,
+        tags: entry.tags,
+        sourceMessages: entry.sourceMessages,
+        extractedAt: entry.extractedAt
+      })))
+      stored.forEach((memory, index) => {
+        entries[index].id = memory.id
+      })
+    } catch (error) {
+      console.error('❌ Error storing chunk memories:', error)
     }
   }
 
   /**
    * Use OpenAI to extract key information from conversation
    */
-  private async extractKeyInformation(messages: any[]): Promise<any[]> {
+  private async extractKeyInformation(messages: any[]): Promise<ExtractedMemory[]> {
     const conversationText = messages.map(msg => 
       `${msg.role.toUpperCase()}: ${msg.content}`
     ).join('\n\n')
@@ -242,7 +239,7 @@ Extract the following types of information if present:
 7. FOLLOW_UP - Items that need follow-up or monitoring
 
 For each extracted item, provide:
-- type: one of the categories above
+- type: one of symptom, medication, medical_history, lifestyle, preference, concern, follow_up
 - summary: brief description (max 50 words)
 - details: structured data with specific information
 - confidence: 0.0-1.0 how confident you are this is accurate
@@ -251,11 +248,11 @@ For each extracted item, provide:
 - tags: array of relevant tags
 - sourceMessages: array of key phrases from the conversation
 
-Return as JSON array. Only include items that are medically relevant and would be useful for future sessions.
-If no important information is found, return an empty array.
+Return a JSON object with a "memories" array. Only include items that are medically relevant and would be useful for future sessions.
+If no important information is found, return an empty "memories" array.
 
 Example response:
-[
+{"memories": [
   {
     "type": "symptom",
     "summary": "Recurring headaches for 2 weeks",
@@ -272,12 +269,14 @@ Example response:
     "tags": ["neurological", "recurring"],
     "sourceMessages": ["I've been having headaches every day for two weeks"]
   }
-]
+]}
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o',
+      const { data } = await generateStructured({
+        name: 'memory_extraction',
+        schema: extractedMemoriesSchema,
+        task: 'analysis',
         messages: [
           {
             role: 'system',
@@ -292,57 +291,13 @@ Example response:
         max_tokens: 2000
       })
 
-      const extractedText = response.choices[0]?.message?.content || '[]'
-      
-      // Parse JSON response
-      try {
-        const extracted = JSON.parse(extractedText)
-        return Array.isArray(extracted) ? extracted : []
-      } catch (parseError) {
-        console.error('❌ Error parsing OpenAI extraction response:', parseError)
-        return []
-      }
+      return data.memories
     } catch (error) {
       console.error('❌ Error calling OpenAI for extraction:', error)
       return []
     }
   }
 
-  /**
-   * Store memory entry in database
-   */
-  private async storeMemoryEntry(entry: ChatMemoryEntry): Promise<string> {
-    const client = await this.pool.connect()
-    
-    try {
-      const result = await client.query(`
-        INSERT INTO chat_memory (
-          user_id, session_id, memory_type, summary, details, 
-          confidence, importance, related_symptoms, tags, source_messages
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-        RETURNING id
-      `, [
-        entry.userId,
-        entry.sessionId,
-        entry.memoryType,
-        entry.summary,
-        JSON.stringify(entry.details),
-        entry.confidence,
-        entry.importance,
-        entry.relatedSymptoms,
-        entry.tags,
-        entry.sourceMessages
-      ])
-
-      return result.rows[0].id
-    } catch (error) {
-      console.error('❌ Error storing memory entry:', error)
-      throw error
-    } finally {
-      client.release()
-    }
-  }
-
   /**
    * Update user context with new memory entries
    */
@@ -464,13 +419,39 @@ Example response:
   }
 
   /**
-   * Generate contextual summary for AI responses using vector search
+   * Memories the user pinned, most important first
+   */
+  async getPinnedMemories(userId: string): Promise<Pick<Memory, 'id' | 'memoryType' | 'summary' | 'importance'>[]> {
+    const pinned = await memoryStore.getPinnedMemories(userId)
+    return pinned.map(memory => ({
+      id: memory.id,
+      memoryType: memory.memoryType,
+      summary: memory.summary,
+      importance: memory.importance
+    }))
+  }
+
+  /**
+   * Generate contextual summary for AI responses using vector search.
+   * Pinned memories always come first, whatever the query.
    */
   async generateContextualSummary(userId: string, currentQuery?: string): Promise<string> {
+    const pinned = await this.getPinnedMemories(userId).catch(error => {
+      console.error('❌ Error loading pinned memories:', error)
+      return []
+    })
+    const pinnedSummary = pinned.length > 0
+      ? `**Pinned Memories:**\n${pinned.map(memory => `• ${memory.summary}`).join('\n')}`
+      : ''
+    const summary = await this.generateUnpinnedSummary(userId, currentQuery)
+    return [pinnedSummary, summary].filter(Boolean).join('\n\n')
+  }
+
+  private async generateUnpinnedSummary(userId: string, currentQuery?: string): Promise<string> {
     try {
       // Use vector search for more relevant context if query provided
       if (currentQuery) {
-        return await neonVectorMemory.getContextualMemories(userId, currentQuery)
+        return await memoryStore.getContextualMemories(userId, currentQuery)
       }
 
       // Fallback to traditional context
@@ -518,7 +499,7 @@ Example response:
    */
   async getSemanticContext(userId: string, query: string, symptoms: string[] = []): Promise<string> {
     try {
-      return await neonVectorMemory.getContextualMemories(userId, query, symptoms)
+      return await memoryStore.getContextualMemories(userId, query, symptoms)
     } catch (error) {
       console.error('❌ Error getting semantic context:', error)
       return ''
@@ -0,0 +1,103 @@
+/**
+ * Source Citations
+ * Retrieved chunks are numbered before they go into the prompt, the model cites
+ * them inline as [1], [2], ... and the response lists them as `sources`, so
+ * clients can render "based on" references. Markers that point at nothing the
+ * model was given are removed from the text.
+ */
+
+export type SourceKind = 'sdco' | 'insight'
+
+/**
+ * A retrieved piece of context and where it came from
+ */
+export interface SourceChunk {
+  kind: SourceKind
+  sdcoId: string | null
+  // Row id in enhanced_sdco_documents, or the insight id
+  documentId: string | null
+  // SDCO category the chunk was indexed under (symptom, treatment, ...)
+  contentType: string | null
+  displayName: string
+  laymanName: string | null
+  // Short passage clients show next to the reference
+  excerpt: string
+  // Text given to the model
+  content: string
+  similarity: number | null
+}
+
+export interface NumberedSource extends SourceChunk {
+  // Number used in the inline [n] markers
+  marker: number
+}
+
+/**
+ * A source as returned to clients
+ */
+export interface ChatSource extends Omit<NumberedSource, 'content'> {
+  // Whether the final answer refers to it
+  cited: boolean
+}
+
+const EXCERPT_LENGTH = 280
+// Leading spaces are matched so a dropped marker does not leave a gap before punctuation
+const MARKER_PATTERN = /([ \t]*)\[(\d{1,2})\]/g
+
+export function excerptText(text: string, maxLength: number = EXCERPT_LENGTH): string {
+  const clean = (text || '').replace(/\s+/g, ' ').trim()
+  if (clean.length <= maxLength) return clean
+  const cut = clean.slice(0, maxLength)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${cut.slice(0, lastSpace > maxLength * 0.6 ? lastSpace : maxLength).trimEnd()}…`
+}
+
+/**
+ * Give chunks their marker numbers, in order, starting after `offset`
+ */
+export function numberSources(chunks: SourceChunk[], offset: number = 0): NumberedSource[] {
+  return chunks.map((chunk, index) => ({ ...chunk, marker: offset + index + 1 }))
+}
+
+/**
+ * Source block for the system prompt, one numbered line per chunk
+ */
+export function formatSourcesForPrompt(sources: NumberedSource[]): string {
+  return sources
+    .map(source => {
+      const name = source.laymanName && source.laymanName !== source.displayName
+        ? `${source.displayName} (${source.laymanName})`
+        : source.displayName
+      const type = source.contentType ? ` [${source.contentType}]` : ''
+      return `[${source.marker}] ${name}${type}: ${source.content}`
+    })
+    .join('\n')
+}
+
+/**
+ * System message asking the model to cite the numbered sources, null when there are none
+ */
+export function citationInstruction(sources: NumberedSource[]): string | null {
+  if (sources.length === 0) return null
+  return `The Global Library of Medicine information above is numbered [1] to [${sources.length}]. When a sentence relies on one of those sources, put its marker at the end of the sentence, before the full stop, e.g. "Fatigue is common with anemia [2].". Only use these markers, never invent other numbers, and do not add a reference list at the end.`
+}
+
+/**
+ * Drop markers that do not match a source and flag the sources the text cites
+ */
+export function resolveCitations(text: string, sources: NumberedSource[]): { text: string; sources: ChatSource[] } {
+  const known = new Set(sources.map(source => source.marker))
+  const cited = new Set<number>()
+
+  const resolved = text.replace(MARKER_PATTERN, (marker, _space: string, number: string) => {
+    const value = parseInt(number, 10)
+    if (!known.has(value)) return ''
+    cited.add(value)
+    return marker
+  })
+
+  return {
+    text: resolved,
+    sources: sources.map(({ content, ...source }) => ({ ...source, cited: cited.has(source.marker) }))
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { DatabasePool } from './database-pool';
+import { getMerlinClient } from './merlin-client'
 
 export interface ConditionEntry {
   id: string
@@ -138,33 +139,14 @@ class ConditionsDatabase {
   }
 
   /**
-   * Fetch all conditions from Merlin API using JWT authentication
+   * Fetch all conditions from Merlin API
    */
   private async fetchAllConditionsFromMerlin(): Promise<ConditionEntry[]> {
     console.log('📡 Fetching all conditions from Merlin API...')
     
     try {
-      // Get JWT token first
-      const jwtToken = await this.getJWTToken()
-      
-      // Use correct Merlin endpoint
-      const merlinUrl = 'https://merlin-394631772515.us-central1.run.app'
-      
-      // Fetch conditions from Merlin conditions list (using correct endpoint from working codebase)
-      const response = await fetch(`${merlinUrl}/api/v1/caring/get-condition-list`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${jwtToken}`,
-          'Content-Type': 'application/json'
-        }
-      })
-
-      if (!response.ok) {
-        throw new Error(`Merlin API error: ${response.status} ${response.statusText}`)
-      }
-
-      const data = await response.json()
-      const conditions = data.conditions || []
+      // Fetch conditions from Merlin conditions list
+      const conditions = await getMerlinClient().getConditionList()
       console.log(`📋 Fetched ${conditions.length} conditions from Merlin API`)
       
       // Transform Merlin API response to our format, filtering out invalid entries
@@ -196,48 +178,6 @@ class ConditionsDatabase {
     }
   }
 
-  /**
-   * Get JWT token for Merlin API authentication
-   */
-  private async getJWTToken(): Promise<string> {
-    const UMA_API_URL = 'https://uma-394631772515.us-central1.run.app'
-    const UMA_API_KEY = process.env.UMA_API_KEY
-    
-    if (!UMA_API_KEY) {
-      throw new Error('UMA_API_KEY environment variable not found')
-    }
-
-    try {
-      const response = await fetch(`${UMA_API_URL}/get-token`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `basic ${UMA_API_KEY}`,
-          'Cache-Control': 'no-store',
-          'Pragma': 'no-cache',
-          'Expires': '0'
-        }
-      })
-
-      if (!response.ok) {
-        throw new Error(`JWT authentication failed: ${response.status} ${response.statusText}`)
-      }
-
-      const data = await response.json()
-      const token = data.token
-      
-      if (!token) {
-        throw new Error('No JWT token received from UMA API')
-      }
-
-      console.log('✅ JWT token obtained for Merlin API access')
-      return token
-
-    } catch (error) {
-      console.error('Error getting JWT token:', error)
-      throw error
-    }
-  }
-
   /**
    * Insert a single condition into the database
    */
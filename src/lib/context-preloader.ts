@@ -13,6 +13,7 @@ export interface PreloadedContextData {
     healthTimeline: any
     vitals: any
     conditions: any
+    allergies: any
   }
   automaticHealthContext: string
   healthContext: string
@@ -66,6 +67,10 @@ export class ContextPreloader {
         mentionService.fetchMentionData('conditions').catch(err => {
           console.warn('Failed to preload conditions:', err)
           return null
+        }),
+        mentionService.fetchMentionData('allergies').catch(err => {
+          console.warn('Failed to preload allergies:', err)
+          return null
         })
       ]
 
@@ -88,7 +93,8 @@ export class ContextPreloader {
         labResults,
         healthTimeline,
         vitals,
-        conditions
+        conditions,
+        allergies
       ] = await Promise.all(mentionContextPromises)
 
       const [automaticHealthContext, healthContext] = await Promise.all(contextPromises)
@@ -101,7 +107,8 @@ export class ContextPreloader {
           labResults,
           healthTimeline,
           vitals,
-          conditions
+          conditions,
+          allergies
         },
         automaticHealthContext,
         healthContext,
@@ -0,0 +1,395 @@
+/**
+ * Conversation Threads Database
+ * Server-side chat history. A thread belongs to one user, optionally links to the
+ * diagnostic session it was about, and holds the ordered user/assistant messages the
+ * chat endpoints load instead of trusting a client-supplied conversationHistory.
+ */
+
+import { DatabasePool, isUuid } from './database-pool'
+import { diagnosticSessionDB } from './diagnostic-session-database'
+
+export type ConversationRole = 'user' | 'assistant'
+export type ConversationThreadStatus = 'active' | 'archived'
+
+// Messages sent back to the model as history; older ones are dropped
+export const DEFAULT_HISTORY_LIMIT = parseInt(process.env.CONVERSATION_HISTORY_LIMIT || '20', 10)
+
+export interface ConversationThread {
+  id: string
+  userId: string
+  title: string
+  status: ConversationThreadStatus
+  diagnosticSessionId: string | null
+  messageCount: number
+  createdAt: Date
+  updatedAt: Date
+  lastMessageAt: Date | null
+  archivedAt: Date | null
+}
+
+export interface ConversationMessage {
+  id: string
+  threadId: string
+  role: ConversationRole
+  content: string
+  metadata: Record<string, any> | null
+  createdAt: Date
+}
+
+export interface ConversationMessageInput {
+  role: ConversationRole
+  content: string
+  metadata?: Record<string, any> | null
+}
+
+export class ConversationError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'ConversationError'
+    this.status = status
+  }
+}
+
+const DEFAULT_THREAD_TITLE = 'New conversation'
+const MAX_TITLE_LENGTH = 200
+
+function titleFromMessage(content: string): string {
+  const firstLine = content.trim().split('\n')[0]
+  return firstLine.length > 60 ? `${firstLine.slice(0, 57).trimEnd()}...` : firstLine
+}
+
+class ConversationDatabase {
+  private schemaReady: Promise<void> | null = null
+
+  /**
+   * Create tables once per process; later calls reuse the same promise
+   */
+  async initializeSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.createSchema().catch(error => {
+        this.schemaReady = null
+        throw error
+      })
+    }
+    return this.schemaReady
+  }
+
+  private async createSchema(): Promise<void> {
+    // Threads reference diagnostic_sessions, so that schema has to exist first
+    await diagnosticSessionDB.initializeSchema()
+
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS conversation_threads (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          title VARCHAR(${MAX_TITLE_LENGTH}) NOT NULL DEFAULT '${DEFAULT_THREAD_TITLE}',
+          status VARCHAR(20) NOT NULL DEFAULT 'active',
+          diagnostic_session_id UUID REFERENCES diagnostic_sessions(id) ON DELETE SET NULL,
+          message_count INTEGER NOT NULL DEFAULT 0,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          last_message_at TIMESTAMP WITH TIME ZONE,
+          archived_at TIMESTAMP WITH TIME ZONE
+        )
+      `)
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS conversation_messages (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          thread_id UUID NOT NULL REFERENCES conversation_threads(id) ON DELETE CASCADE,
+          role VARCHAR(20) NOT NULL,
+          content TEXT NOT NULL,
+          metadata JSONB,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT clock_timestamp()
+        )
+      `)
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_conversation_threads_user
+        ON conversation_threads(user_id, status, last_message_at DESC NULLS LAST)
+      `)
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_conversation_messages_thread
+        ON conversation_messages(thread_id, created_at)
+      `)
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * Start a thread. diagnosticSessionId may be our UUID or the Merlin session id.
+   */
+  async createThread(data: {
+    userId: string
+    title?: string | null
+    diagnosticSessionId?: string | null
+  }): Promise<ConversationThread> {
+    await this.initializeSchema()
+
+    const diagnosticSessionUuid = data.diagnosticSessionId
+      ? await this.resolveDiagnosticSession(data.userId, data.diagnosticSessionId)
+      : null
+
+    const result = await DatabasePool.query(`
+      INSERT INTO conversation_threads (user_id, title, diagnostic_session_id)
+      VALUES ($1, $2, $3)
+      RETURNING *
+    `, [data.userId, this.normalizeTitle(data.title) || DEFAULT_THREAD_TITLE, diagnosticSessionUuid])
+
+    return this.mapRowToThread(result.rows[0])
+  }
+
+  async listThreads(userId: string, options: {
+    status?: ConversationThreadStatus | 'all'
+    limit?: number
+    offset?: number
+  } = {}): Promise<ConversationThread[]> {
+    await this.initializeSchema()
+
+    const status = options.status || 'active'
+    const result = await DatabasePool.query(`
+      SELECT * FROM conversation_threads
+      WHERE user_id = $1 AND ($2::text = 'all' OR status = $2::text)
+      ORDER BY COALESCE(last_message_at, created_at) DESC
+      LIMIT $3 OFFSET $4
+    `, [userId, status, Math.min(options.limit || 50, 200), options.offset || 0])
+
+    return result.rows.map(row => this.mapRowToThread(row))
+  }
+
+  /**
+   * Thread owned by the user, or a 404 ConversationError
+   */
+  async getThread(userId: string, threadId: string): Promise<ConversationThread> {
+    await this.initializeSchema()
+    if (!isUuid(threadId)) {
+      throw new ConversationError('Conversation thread not found', 404)
+    }
+
+    const result = await DatabasePool.query(`
+      SELECT * FROM conversation_threads
+      WHERE id = $1 AND user_id = $2
+    `, [threadId, userId])
+
+    if (result.rows.length === 0) {
+      throw new ConversationError('Conversation thread not found', 404)
+    }
+    return this.mapRowToThread(result.rows[0])
+  }
+
+  async getMessages(threadId: string, options: { limit?: number } = {}): Promise<ConversationMessage[]> {
+    await this.initializeSchema()
+
+    // With a limit, keep the most recent messages but still return them oldest first
+    const result = options.limit
+      ? await DatabasePool.query(`
+          SELECT * FROM (
+            SELECT * FROM conversation_messages
+            WHERE thread_id = $1
+            ORDER BY created_at DESC
+            LIMIT $2
+          ) recent
+          ORDER BY created_at ASC
+        `, [threadId, options.limit])
+      : await DatabasePool.query(`
+          SELECT * FROM conversation_messages
+          WHERE thread_id = $1
+          ORDER BY created_at ASC
+        `, [threadId])
+
+    return result.rows.map(row => this.mapRowToMessage(row))
+  }
+
+  /**
+   * Recent messages in the { role, content } shape the chat endpoints send to OpenAI
+   */
+  async getHistory(userId: string, threadId: string, limit: number = DEFAULT_HISTORY_LIMIT): Promise<{
+    thread: ConversationThread
+    history: Array<{ role: ConversationRole; content: string }>
+  }> {
+    const thread = await this.getThread(userId, threadId)
+    const messages = await this.getMessages(thread.id, { limit })
+    return {
+      thread,
+      history: messages.map(message => ({ role: message.role, content: message.content }))
+    }
+  }
+
+  /**
+   * Thread and its full transcript in the shape the share endpoints render
+   */
+  async getThreadForSharing(userId: string, threadId: string): Promise<{
+    thread: ConversationThread
+    messages: ReturnType<typeof toShareMessages>
+  }> {
+    const thread = await this.getThread(userId, threadId)
+    const messages = await this.getMessages(thread.id)
+    return { thread, messages: toShareMessages(messages) }
+  }
+
+  /**
+   * Append messages in order. The first user message names a thread that still has the default title.
+   */
+  async appendMessages(threadId: string, messages: ConversationMessageInput[]): Promise<ConversationMessage[]> {
+    const valid = messages.filter(message => message.content?.trim())
+    if (valid.length === 0) return []
+    await this.initializeSchema()
+
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query('BEGIN')
+
+      const stored: ConversationMessage[] = []
+      for (const message of valid) {
+        const result = await client.query(`
+          INSERT INTO conversation_messages (thread_id, role, content, metadata)
+          VALUES ($1, $2, $3, $4)
+          RETURNING *
+        `, [threadId, message.role, message.content, message.metadata ? JSON.stringify(message.metadata) : null])
+        stored.push(this.mapRowToMessage(result.rows[0]))
+      }
+
+      const firstUserMessage = valid.find(message => message.role === 'user')
+      await client.query(`
+        UPDATE conversation_threads
+        SET message_count = message_count + $2,
+            last_message_at = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP,
+            title = CASE WHEN title = $3 AND $4::text IS NOT NULL THEN $4::text ELSE title END
+        WHERE id = $1
+      `, [threadId, stored.length, DEFAULT_THREAD_TITLE, firstUserMessage ? titleFromMessage(firstUserMessage.content) : null])
+
+      await client.query('COMMIT')
+      return stored
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  async renameThread(userId: string, threadId: string, title: string): Promise<ConversationThread> {
+    const normalized = this.normalizeTitle(title)
+    if (!normalized) {
+      throw new ConversationError('title cannot be empty')
+    }
+    return this.updateThread(userId, threadId, 'title = $3', [normalized])
+  }
+
+  async setArchived(userId: string, threadId: string, archived: boolean): Promise<ConversationThread> {
+    return archived
+      ? this.updateThread(userId, threadId, `status = 'archived', archived_at = CURRENT_TIMESTAMP`)
+      : this.updateThread(userId, threadId, `status = 'active', archived_at = NULL`)
+  }
+
+  /**
+   * Link an unlinked thread to the diagnostic session it is about. Existing links are kept.
+   */
+  async linkDiagnosticSession(userId: string, threadId: string, diagnosticSessionId: string): Promise<ConversationThread> {
+    const sessionUuid = await this.resolveDiagnosticSession(userId, diagnosticSessionId)
+    return this.updateThread(
+      userId,
+      threadId,
+      'diagnostic_session_id = COALESCE(diagnostic_session_id, $3)',
+      [sessionUuid]
+    )
+  }
+
+  async deleteThread(userId: string, threadId: string): Promise<void> {
+    await this.initializeSchema()
+    if (!isUuid(threadId)) {
+      throw new ConversationError('Conversation thread not found', 404)
+    }
+
+    const result = await DatabasePool.query(
+      'DELETE FROM conversation_threads WHERE id = $1 AND user_id = $2',
+      [threadId, userId]
+    )
+    if ((result.rowCount ?? 0) === 0) {
+      throw new ConversationError('Conversation thread not found', 404)
+    }
+  }
+
+  private async updateThread(userId: string, threadId: string, assignments: string, values: any[] = []): Promise<ConversationThread> {
+    await this.initializeSchema()
+    if (!isUuid(threadId)) {
+      throw new ConversationError('Conversation thread not found', 404)
+    }
+
+    const result = await DatabasePool.query(`
+      UPDATE conversation_threads
+      SET ${assignments}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND user_id = $2
+      RETURNING *
+    `, [threadId, userId, ...values])
+
+    if (result.rows.length === 0) {
+      throw new ConversationError('Conversation thread not found', 404)
+    }
+    return this.mapRowToThread(result.rows[0])
+  }
+
+  private async resolveDiagnosticSession(userId: string, diagnosticSessionId: string): Promise<string> {
+    const session = await diagnosticSessionDB.getSession(diagnosticSessionId)
+    if (!session || session.userId !== userId) {
+      throw new ConversationError('Diagnostic session not found', 404)
+    }
+    return session.id
+  }
+
+  private normalizeTitle(title: string | null | undefined): string {
+    return (title || '').trim().slice(0, MAX_TITLE_LENGTH)
+  }
+
+  private mapRowToThread(row: any): ConversationThread {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      title: row.title,
+      status: row.status,
+      diagnosticSessionId: row.diagnostic_session_id,
+      messageCount: row.message_count,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      lastMessageAt: row.last_message_at,
+      archivedAt: row.archived_at
+    }
+  }
+
+  private mapRowToMessage(row: any): ConversationMessage {
+    return {
+      id: row.id,
+      threadId: row.thread_id,
+      role: row.role,
+      content: row.content,
+      metadata: row.metadata,
+      createdAt: row.created_at
+    }
+  }
+}
+
+export const conversationDB = new ConversationDatabase()
+
+/**
+ * Thread messages in the { id, content, sender, timestamp } shape the share endpoints use
+ */
+export function toShareMessages(messages: ConversationMessage[]): Array<{
+  id: string
+  content: string
+  sender: 'user' | 'assistant'
+  timestamp: Date
+}> {
+  return messages.map(message => ({
+    id: message.id,
+    content: message.content,
+    sender: message.role,
+    timestamp: message.createdAt
+  }))
+}
@@ -35,4 +35,14 @@ export class DatabasePool {
   }
 }
 
-export const pool = DatabasePool.getInstance();
\ No newline at end of file
+export const pool = DatabasePool.getInstance();
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a value can be compared with a UUID column without a cast error. Check it
+ * before looking rows up by id so the query can use `id = $1` (and the primary key
+ * index) instead of `id::text = $1`, which scans the table.
+ */
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
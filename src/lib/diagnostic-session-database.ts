@@ -0,0 +1,894 @@
+/**
+ * Diagnostic Session Database
+ * Server-side record of each Merlin diagnostic session and its lifecycle:
+ * active → awaiting_answer → completed / abandoned / expired,
+ * plus superseded when a session is rebuilt after an answer is amended
+ */
+
+import { DatabasePool, isUuid } from './database-pool';
+import type { MerlinQuestion } from './merlin-client'
+
+export type DiagnosticSessionStatus = 'active' | 'awaiting_answer' | 'completed' | 'abandoned' | 'expired' | 'superseded'
+
+// Ended sessions can only be superseded by a rebuilt session
+const ALLOWED_TRANSITIONS: Record<DiagnosticSessionStatus, DiagnosticSessionStatus[]> = {
+  active: ['awaiting_answer', 'completed', 'abandoned', 'expired', 'superseded'],
+  awaiting_answer: ['active', 'awaiting_answer', 'completed', 'abandoned', 'expired', 'superseded'],
+  completed: ['superseded'],
+  abandoned: ['superseded'],
+  expired: ['superseded'],
+  superseded: []
+}
+
+// openai_fallback sessions are driven by OpenAI while Merlin is unavailable
+export type DiagnosticSessionMode = 'merlin' | 'openai_fallback'
+
+const ENDED_STATUSES: DiagnosticSessionStatus[] = ['completed', 'abandoned', 'expired', 'superseded']
+
+const STALE_SESSION_HOURS = parseInt(process.env.DIAGNOSTIC_SESSION_STALE_HOURS || '24', 10)
+const MAX_SESSION_AGE_DAYS = parseInt(process.env.DIAGNOSTIC_SESSION_MAX_AGE_DAYS || '7', 10)
+
+export interface DiagnosticSessionRecord {
+  id: string
+  userId: string
+  merlinSessionId: string
+  mode: DiagnosticSessionMode
+  status: DiagnosticSessionStatus
+  reasonForEncounter: string
+  reasonForEncounterSymptomId: string | null
+  patientData: any
+  currentQuestion: MerlinQuestion | null
+  latestDifferential: any[]
+  supersedesSessionId: string | null
+  supersededBySessionId: string | null
+  createdAt: Date
+  updatedAt: Date
+  lastActivityAt: Date
+  endedAt?: Date | null
+}
+
+export type AnswerSource = 'user' | 'auto_detected'
+
+export interface AutoAnswerDetection {
+  confidence: number
+  explanation: string
+}
+
+export interface DiagnosticSessionAnswer {
+  sequence: number
+  question: string
+  answerList: string[]
+  answerIndex: number | null
+  answerText: string | null
+  answerSource: AnswerSource | null
+  autoConfidence: number | null
+  autoExplanation: string | null
+  askedAt: Date
+  answeredAt: Date | null
+}
+
+export type DifferentialTriggerEvent =
+  | 'session_created'
+  | 'answer_submitted'
+  | 'symptom_added'
+  | 'answer_amended'
+  | 'session_migrated'
+  | 'refresh'
+
+export interface DifferentialTrigger {
+  event: DifferentialTriggerEvent
+  detail?: any
+}
+
+export interface DifferentialSnapshot {
+  sequence: number
+  triggerEvent: DifferentialTriggerEvent
+  triggerDetail: any
+  differential: any[]
+  createdAt: Date
+}
+
+export interface DiagnosticSessionState extends DiagnosticSessionRecord {
+  symptoms: { symptomText: string; sdcoId: string | null; processingOrder: number }[]
+  answers: DiagnosticSessionAnswer[]
+}
+
+export class InvalidSessionTransitionError extends Error {
+  from: DiagnosticSessionStatus
+  to: DiagnosticSessionStatus
+
+  constructor(from: DiagnosticSessionStatus, to: DiagnosticSessionStatus) {
+    super(`Diagnostic session cannot move from '${from}' to '${to}'`)
+    this.name = 'InvalidSessionTransitionError'
+    this.from = from
+    this.to = to
+  }
+}
+
+export function isTerminalStatus(status: DiagnosticSessionStatus): boolean {
+  return ENDED_STATUSES.includes(status)
+}
+
+/**
+ * Condition matching $1 as our UUID or the Merlin session id. Merlin ids can look
+ * like UUIDs too, so a UUID is tried against both; each side uses its own index.
+ */
+function sessionIdMatch(sessionId: string): string {
+  return isUuid(sessionId) ? '(id = $1::uuid OR merlin_session_id = $1)' : 'merlin_session_id = $1'
+}
+
+export function canTransition(from: DiagnosticSessionStatus, to: DiagnosticSessionStatus): boolean {
+  return ALLOWED_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+class DiagnosticSessionDatabase {
+  private schemaReady: Promise<void> | null = null
+
+  /**
+   * Create tables once per process; later calls reuse the same promise
+   */
+  async initializeSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.createSchema().catch(error => {
+        this.schemaReady = null
+        throw error
+      })
+    }
+    return this.schemaReady
+  }
+
+  private async createSchema(): Promise<void> {
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS diagnostic_sessions (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          merlin_session_id VARCHAR(255) UNIQUE NOT NULL,
+          patient_data JSONB,
+          reason_for_encounter TEXT,
+          reason_for_encounter_symptom_id VARCHAR(255),
+          platform_id VARCHAR(50) DEFAULT 'Mobile',
+          status VARCHAR(30) NOT NULL DEFAULT 'active',
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+
+      // Lifecycle columns added to the original table definition
+      await client.query(`
+        ALTER TABLE diagnostic_sessions
+          ADD COLUMN IF NOT EXISTS current_question JSONB,
+          ADD COLUMN IF NOT EXISTS latest_differential JSONB DEFAULT '[]',
+          ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          ADD COLUMN IF NOT EXISTS ended_at TIMESTAMP WITH TIME ZONE
+      `)
+
+      await client.query(`
+        ALTER TABLE diagnostic_sessions
+          ADD COLUMN IF NOT EXISTS mode VARCHAR(20) NOT NULL DEFAULT 'merlin'
+      `)
+
+      // Amending an answer rebuilds the session; both sides keep a link for audit
+      await client.query(`
+        ALTER TABLE diagnostic_sessions
+          ADD COLUMN IF NOT EXISTS supersedes_session_id UUID REFERENCES diagnostic_sessions(id) ON DELETE SET NULL,
+          ADD COLUMN IF NOT EXISTS superseded_by_session_id UUID REFERENCES diagnostic_sessions(id) ON DELETE SET NULL
+      `)
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_diagnostic_sessions_user
+        ON diagnostic_sessions(user_id, created_at DESC)
+      `)
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_diagnostic_sessions_status_activity
+        ON diagnostic_sessions(status, last_activity_at)
+      `)
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS session_symptoms (
+          id SERIAL PRIMARY KEY,
+          session_id UUID NOT NULL REFERENCES diagnostic_sessions(id) ON DELETE CASCADE,
+          symptom_text TEXT NOT NULL,
+          sdco_id VARCHAR(255),
+          processing_order INTEGER DEFAULT 1,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS diagnostic_session_qa (
+          id SERIAL PRIMARY KEY,
+          session_id UUID NOT NULL REFERENCES diagnostic_sessions(id) ON DELETE CASCADE,
+          sequence INTEGER NOT NULL,
+          question TEXT NOT NULL,
+          answer_list JSONB NOT NULL DEFAULT '[]',
+          answer_index INTEGER,
+          answer_text TEXT,
+          asked_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          answered_at TIMESTAMP WITH TIME ZONE,
+          UNIQUE (session_id, sequence)
+        )
+      `)
+
+      // Audit columns: who chose each answer, and why when it was auto-detected
+      await client.query(`
+        ALTER TABLE diagnostic_session_qa
+          ADD COLUMN IF NOT EXISTS answer_source VARCHAR(20),
+          ADD COLUMN IF NOT EXISTS auto_confidence INTEGER,
+          ADD COLUMN IF NOT EXISTS auto_explanation TEXT
+      `)
+
+      // Every differential we receive, with what caused it, so changes can be explained later
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS diagnostic_differential_snapshots (
+          id SERIAL PRIMARY KEY,
+          session_id UUID NOT NULL REFERENCES diagnostic_sessions(id) ON DELETE CASCADE,
+          sequence INTEGER NOT NULL,
+          trigger_event VARCHAR(30) NOT NULL,
+          trigger_detail JSONB,
+          differential JSONB NOT NULL DEFAULT '[]',
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (session_id, sequence)
+        )
+      `)
+    } finally {
+      client.release()
+    }
+    console.log('✅ Diagnostic session schema initialized')
+  }
+
+  async createSession(data: {
+    userId: string
+    merlinSessionId: string
+    patientData: any
+    reasonForEncounter: string
+    reasonForEncounterSymptomId: string | null
+    platformId?: string
+    mode?: DiagnosticSessionMode
+    symptoms: { text: string; sdcoId: string | null }[]
+    supersedesSessionId?: string
+  }): Promise<string> {
+    await this.initializeSchema()
+
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query('BEGIN')
+
+      const result = await client.query(`
+        INSERT INTO diagnostic_sessions (
+          user_id, merlin_session_id, patient_data, reason_for_encounter,
+          reason_for_encounter_symptom_id, platform_id, status, supersedes_session_id, mode
+        ) VALUES ($1, $2, $3, $4, $5, $6, 'active', $7, $8)
+        RETURNING id
+      `, [
+        data.userId,
+        data.merlinSessionId,
+        JSON.stringify(data.patientData),
+        data.reasonForEncounter,
+        data.reasonForEncounterSymptomId,
+        data.platformId || 'Mobile',
+        data.supersedesSessionId || null,
+        data.mode || 'merlin'
+      ])
+
+      const sessionId = result.rows[0].id
+
+      for (let i = 0; i < data.symptoms.length; i++) {
+        await client.query(`
+          INSERT INTO session_symptoms (session_id, symptom_text, sdco_id, processing_order)
+          VALUES ($1, $2, $3, $4)
+        `, [sessionId, data.symptoms[i].text, data.symptoms[i].sdcoId, i + 1])
+      }
+
+      await client.query('COMMIT')
+      return sessionId
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * Look up a session by our UUID or by the Merlin persistanceSession id
+   */
+  async getSession(sessionId: string): Promise<DiagnosticSessionRecord | null> {
+    await this.initializeSchema()
+
+    const result = await DatabasePool.query(`
+      SELECT * FROM diagnostic_sessions
+      WHERE ${sessionIdMatch(sessionId)}
+      LIMIT 1
+    `, [sessionId])
+
+    return result.rows.length > 0 ? this.mapRowToSession(result.rows[0]) : null
+  }
+
+  async getSessionState(sessionId: string): Promise<DiagnosticSessionState | null> {
+    const session = await this.getSession(sessionId)
+    if (!session) return null
+
+    const [symptoms, answers] = await Promise.all([
+      DatabasePool.query(`
+        SELECT symptom_text, sdco_id, processing_order
+        FROM session_symptoms
+        WHERE session_id = $1
+        ORDER BY processing_order
+      `, [session.id]),
+      DatabasePool.query(`
+        SELECT * FROM diagnostic_session_qa
+        WHERE session_id = $1
+        ORDER BY sequence
+      `, [session.id])
+    ])
+
+    return {
+      ...session,
+      symptoms: symptoms.rows.map(row => ({
+        symptomText: row.symptom_text,
+        sdcoId: row.sdco_id,
+        processingOrder: row.processing_order
+      })),
+      answers: answers.rows.map(row => this.mapRowToAnswer(row))
+    }
+  }
+
+  /**
+   * Move a session to a new state, enforcing the lifecycle transitions.
+   * Setting a question puts the session in awaiting_answer and records the question as asked.
+   * The update only applies while the session still has the status that was checked, so a
+   * concurrent change makes this throw instead of being overwritten.
+   */
+  async transition(
+    sessionId: string,
+    to: DiagnosticSessionStatus,
+    updates: { currentQuestion?: MerlinQuestion | null; latestDifferential?: any[] } = {}
+  ): Promise<DiagnosticSessionRecord> {
+    const session = await this.getSession(sessionId)
+    if (!session) {
+      throw new Error(`Diagnostic session ${sessionId} not found`)
+    }
+
+    if (session.status !== to && !canTransition(session.status, to)) {
+      throw new InvalidSessionTransitionError(session.status, to)
+    }
+    if (session.status === to && isTerminalStatus(to)) {
+      throw new InvalidSessionTransitionError(session.status, to)
+    }
+
+    const isTerminal = isTerminalStatus(to)
+    const currentQuestion = updates.currentQuestion !== undefined
+      ? updates.currentQuestion
+      : (to === 'awaiting_answer' ? session.currentQuestion : null)
+
+    const result = await DatabasePool.query(`
+      UPDATE diagnostic_sessions
+      SET status = $2,
+          current_question = $3,
+          latest_differential = COALESCE($4, latest_differential),
+          updated_at = CURRENT_TIMESTAMP,
+          last_activity_at = CURRENT_TIMESTAMP,
+          ended_at = CASE WHEN $5 THEN COALESCE(ended_at, CURRENT_TIMESTAMP) ELSE ended_at END
+      WHERE id = $1 AND status = $6
+      RETURNING *
+    `, [
+      session.id,
+      to,
+      currentQuestion ? JSON.stringify(currentQuestion) : null,
+      updates.latestDifferential ? JSON.stringify(updates.latestDifferential) : null,
+      isTerminal,
+      session.status
+    ])
+
+    if (result.rows.length === 0) {
+      const current = await this.getSession(session.id)
+      throw new InvalidSessionTransitionError(current?.status ?? session.status, to)
+    }
+
+    if (to === 'awaiting_answer' && currentQuestion && updates.currentQuestion !== undefined) {
+      await this.recordQuestion(session.id, currentQuestion)
+    }
+
+    console.log(`🔄 Diagnostic session ${session.merlinSessionId}: ${session.status} → ${to}`)
+    return this.mapRowToSession(result.rows[0])
+  }
+
+  /**
+   * Apply the state implied by the latest Merlin question: a pending question
+   * means awaiting_answer, no question left means the session is completed.
+   * A differential passed along is also stored as a snapshot.
+   */
+  async applyQuestion(
+    sessionId: string,
+    question: MerlinQuestion | null,
+    latestDifferential?: any[],
+    trigger?: DifferentialTrigger
+  ): Promise<DiagnosticSessionRecord> {
+    const session = question
+      ? await this.transition(sessionId, 'awaiting_answer', { currentQuestion: question, latestDifferential })
+      : await this.transition(sessionId, 'completed', { currentQuestion: null, latestDifferential })
+
+    if (latestDifferential) {
+      await this.recordDifferentialSnapshot(session.id, latestDifferential, trigger)
+    }
+    return session
+  }
+
+  /**
+   * Same as applyQuestion, but a no-op for sessions we don't track or that have already ended
+   */
+  async syncQuestion(sessionId: string, question: MerlinQuestion | null, latestDifferential?: any[]): Promise<DiagnosticSessionRecord | null> {
+    const session = await this.getSession(sessionId)
+    if (!session || isTerminalStatus(session.status)) {
+      return session
+    }
+    return this.applyQuestion(session.id, question, latestDifferential)
+  }
+
+  /**
+   * Store a refreshed differential without changing state, and snapshot it.
+   * Completed sessions still accept the final differential after the last answer.
+   */
+  async updateDifferential(sessionId: string, latestDifferential: any[], trigger?: DifferentialTrigger): Promise<void> {
+    await this.initializeSchema()
+    const result = await DatabasePool.query(`
+      UPDATE diagnostic_sessions
+      SET latest_differential = $2,
+          updated_at = CURRENT_TIMESTAMP,
+          last_activity_at = CURRENT_TIMESTAMP
+      WHERE ${sessionIdMatch(sessionId)}
+        AND status IN ('active', 'awaiting_answer', 'completed')
+      RETURNING id
+    `, [sessionId, JSON.stringify(latestDifferential)])
+
+    if (result.rows.length > 0) {
+      await this.recordDifferentialSnapshot(result.rows[0].id, latestDifferential, trigger)
+    }
+  }
+
+  /**
+   * Append a differential snapshot. Without an explicit trigger, the cause is worked out
+   * from what changed since the previous snapshot: new answers, new symptoms, or nothing
+   * (a plain refresh, which is skipped when the differential is unchanged).
+   */
+  async recordDifferentialSnapshot(sessionUuid: string, differential: any[], trigger?: DifferentialTrigger): Promise<void> {
+    const last = await DatabasePool.query(`
+      SELECT sequence, differential, created_at
+      FROM diagnostic_differential_snapshots
+      WHERE session_id = $1
+      ORDER BY sequence DESC
+      LIMIT 1
+    `, [sessionUuid])
+    const previous = last.rows[0]
+
+    const resolved = trigger || await this.inferDifferentialTrigger(sessionUuid, previous?.created_at || null)
+    if (resolved.event === 'refresh' && previous && JSON.stringify(previous.differential) === JSON.stringify(differential)) {
+      return
+    }
+
+    await DatabasePool.query(`
+      INSERT INTO diagnostic_differential_snapshots (session_id, sequence, trigger_event, trigger_detail, differential)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (session_id, sequence) DO NOTHING
+    `, [
+      sessionUuid,
+      (previous?.sequence || 0) + 1,
+      resolved.event,
+      resolved.detail !== undefined ? JSON.stringify(resolved.detail) : null,
+      JSON.stringify(differential)
+    ])
+  }
+
+  async getDifferentialSnapshots(sessionId: string): Promise<DifferentialSnapshot[]> {
+    const session = await this.getSession(sessionId)
+    if (!session) return []
+
+    const result = await DatabasePool.query(`
+      SELECT * FROM diagnostic_differential_snapshots
+      WHERE session_id = $1
+      ORDER BY sequence
+    `, [session.id])
+
+    return result.rows.map(row => ({
+      sequence: row.sequence,
+      triggerEvent: row.trigger_event,
+      triggerDetail: row.trigger_detail,
+      differential: row.differential || [],
+      createdAt: row.created_at
+    }))
+  }
+
+  async addSymptoms(sessionId: string, symptoms: { text: string; sdcoId: string | null }[]): Promise<void> {
+    const session = await this.getSession(sessionId)
+    if (!session) return
+
+    await DatabasePool.query(`
+      INSERT INTO session_symptoms (session_id, symptom_text, sdco_id, processing_order)
+      SELECT $1::uuid, symptom.text, symptom.sdco_id,
+             (SELECT COALESCE(MAX(processing_order), 0) FROM session_symptoms WHERE session_id = $1) + symptom.ord
+      FROM jsonb_to_recordset($2::jsonb) WITH ORDINALITY AS symptom(text TEXT, sdco_id TEXT, ord BIGINT)
+    `, [session.id, JSON.stringify(symptoms.map(symptom => ({ text: symptom.text, sdco_id: symptom.sdcoId })))])
+  }
+
+  /**
+   * Fill in the SDCO IDs matched for symptoms that were stored without one
+   */
+  async setSymptomSdcoIds(sessionId: string, symptoms: { text: string; sdcoId: string }[]): Promise<void> {
+    const session = await this.getSession(sessionId)
+    if (!session) return
+
+    for (const symptom of symptoms) {
+      await DatabasePool.query(`
+        UPDATE session_symptoms
+        SET sdco_id = $3
+        WHERE session_id = $1 AND symptom_text = $2 AND sdco_id IS NULL
+      `, [session.id, symptom.text, symptom.sdcoId])
+    }
+  }
+
+  /**
+   * Record the user's answer to the pending question and move back to active
+   * while Merlin works out the next question
+   */
+  async recordAnswer(sessionId: string, answerIndex: number, answerText?: string): Promise<DiagnosticSessionRecord> {
+    const session = await this.getSession(sessionId)
+    if (!session) {
+      throw new Error(`Diagnostic session ${sessionId} not found`)
+    }
+
+    const claimed = await this.claimAnswer(session.id)
+    if (!claimed) {
+      const current = await this.getSession(session.id)
+      throw new InvalidSessionTransitionError(current?.status ?? session.status, 'active')
+    }
+    return this.completeAnswer(claimed, answerIndex, answerText)
+  }
+
+  /**
+   * Claim the pending question for an answer by moving the session from awaiting_answer
+   * to active, as long as it is still waiting. Returns null when a concurrent submit or
+   * state change got there first. The question stays on the record until completeAnswer,
+   * so releaseAnswer can hand it back unchanged.
+   */
+  async claimAnswer(sessionId: string): Promise<DiagnosticSessionRecord | null> {
+    const result = await DatabasePool.query(`
+      UPDATE diagnostic_sessions
+      SET status = 'active',
+          updated_at = CURRENT_TIMESTAMP,
+          last_activity_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status = 'awaiting_answer'
+      RETURNING *
+    `, [sessionId])
+
+    return result.rows.length > 0 ? this.mapRowToSession(result.rows[0]) : null
+  }
+
+  /**
+   * Give back a claimed question whose answer was not accepted, so it can be answered again
+   */
+  async releaseAnswer(claimed: DiagnosticSessionRecord): Promise<void> {
+    await DatabasePool.query(`
+      UPDATE diagnostic_sessions
+      SET status = 'awaiting_answer',
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status = 'active'
+    `, [claimed.id])
+  }
+
+  /**
+   * Store the answer for a claimed question and clear the question from the session.
+   * A next question applied in the meantime is left alone.
+   */
+  async completeAnswer(claimed: DiagnosticSessionRecord, answerIndex: number, answerText?: string): Promise<DiagnosticSessionRecord> {
+    const answerList = claimed.currentQuestion?.answerList || []
+    await this.fillPendingAnswer(claimed.id, answerIndex, answerText || answerList[answerIndex] || null, 'user')
+
+    const result = await DatabasePool.query(`
+      UPDATE diagnostic_sessions
+      SET current_question = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status = 'active'
+      RETURNING *
+    `, [claimed.id])
+
+    console.log(`🔄 Diagnostic session ${claimed.merlinSessionId}: awaiting_answer → active`)
+    return result.rows.length > 0 ? this.mapRowToSession(result.rows[0]) : { ...claimed, currentQuestion: null }
+  }
+
+  /**
+   * Record an answer submitted on the user's behalf because their own words
+   * already answered the question. Does not change the session state.
+   */
+  async recordAutoAnswer(
+    sessionId: string,
+    question: MerlinQuestion,
+    answerIndex: number,
+    detection: AutoAnswerDetection
+  ): Promise<void> {
+    await this.recordAnsweredQuestion(sessionId, question, answerIndex, 'auto_detected', detection)
+  }
+
+  /**
+   * Record a question together with the answer already submitted to Merlin.
+   * Does not change the session state.
+   */
+  async recordAnsweredQuestion(
+    sessionId: string,
+    question: MerlinQuestion,
+    answerIndex: number,
+    source: AnswerSource,
+    detection?: AutoAnswerDetection
+  ): Promise<void> {
+    const session = await this.getSession(sessionId)
+    if (!session) return
+
+    await this.recordQuestion(session.id, question)
+    await this.fillPendingAnswer(
+      session.id,
+      answerIndex,
+      question.answerList[answerIndex] || null,
+      source,
+      detection
+    )
+  }
+
+  /**
+   * Claim a session that is about to be rebuilt by marking it superseded, as long as it
+   * still has the status the caller read. Returns null when a concurrent rebuild or state
+   * change got there first. Claiming before the replacement is started means only one
+   * rebuild can run per session, and no answers reach it in the meantime.
+   */
+  async claimForSupersede(sessionId: string, expectedStatus: DiagnosticSessionStatus): Promise<DiagnosticSessionRecord | null> {
+    if (!canTransition(expectedStatus, 'superseded')) {
+      return null
+    }
+
+    const result = await DatabasePool.query(`
+      UPDATE diagnostic_sessions
+      SET status = 'superseded',
+          updated_at = CURRENT_TIMESTAMP,
+          ended_at = COALESCE(ended_at, CURRENT_TIMESTAMP)
+      WHERE id = $1 AND status = $2
+      RETURNING *
+    `, [sessionId, expectedStatus])
+
+    return result.rows.length > 0 ? this.mapRowToSession(result.rows[0]) : null
+  }
+
+  /**
+   * Give back a claimed session whose rebuild failed, restoring the state it had before
+   */
+  async releaseSupersede(previous: DiagnosticSessionRecord): Promise<void> {
+    await DatabasePool.query(`
+      UPDATE diagnostic_sessions
+      SET status = $2,
+          current_question = $3,
+          ended_at = $4,
+          superseded_by_session_id = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status = 'superseded'
+    `, [
+      previous.id,
+      previous.status,
+      previous.currentQuestion ? JSON.stringify(previous.currentQuestion) : null,
+      previous.endedAt || null
+    ])
+  }
+
+  /**
+   * Link a claimed session to the rebuilt session that replaces it
+   */
+  async markSuperseded(sessionId: string, replacementSessionId: string): Promise<DiagnosticSessionRecord> {
+    const result = await DatabasePool.query(`
+      UPDATE diagnostic_sessions
+      SET superseded_by_session_id = $2,
+          current_question = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status = 'superseded'
+      RETURNING *
+    `, [sessionId, replacementSessionId])
+
+    if (result.rows.length === 0) {
+      throw new Error(`Diagnostic session ${sessionId} was not claimed for superseding`)
+    }
+    return this.mapRowToSession(result.rows[0])
+  }
+
+  /**
+   * Record that a question was shown or checked. Repeated calls for the
+   * same still-unanswered question do not create duplicate rows.
+   */
+  async recordQuestion(sessionId: string, question: MerlinQuestion): Promise<void> {
+    const session = await this.getSession(sessionId)
+    if (!session) return
+
+    await DatabasePool.query(`
+      INSERT INTO diagnostic_session_qa (session_id, sequence, question, answer_list)
+      SELECT $1::uuid, COALESCE(MAX(sequence), 0) + 1, $2, $3::jsonb
+      FROM diagnostic_session_qa
+      WHERE session_id = $1
+      HAVING NOT EXISTS (
+        SELECT 1 FROM diagnostic_session_qa
+        WHERE session_id = $1 AND answered_at IS NULL AND question = $2
+      )
+    `, [session.id, question.question, JSON.stringify(question.answerList)])
+  }
+
+  /**
+   * Full question/answer history for a session, oldest first
+   */
+  async getQuestionHistory(sessionId: string): Promise<DiagnosticSessionAnswer[]> {
+    const session = await this.getSession(sessionId)
+    if (!session) return []
+
+    const result = await DatabasePool.query(`
+      SELECT * FROM diagnostic_session_qa
+      WHERE session_id = $1
+      ORDER BY sequence
+    `, [session.id])
+
+    return result.rows.map(row => this.mapRowToAnswer(row))
+  }
+
+  /**
+   * Mark stale in-flight sessions abandoned and very old ones expired.
+   * Returns how many sessions were swept into each state.
+   */
+  async sweepStaleSessions(
+    staleHours: number = STALE_SESSION_HOURS,
+    maxAgeDays: number = MAX_SESSION_AGE_DAYS
+  ): Promise<{ abandoned: number; expired: number }> {
+    await this.initializeSchema()
+
+    const expired = await DatabasePool.query(`
+      UPDATE diagnostic_sessions
+      SET status = 'expired', current_question = NULL,
+          updated_at = CURRENT_TIMESTAMP, ended_at = CURRENT_TIMESTAMP
+      WHERE status IN ('active', 'awaiting_answer')
+        AND created_at < NOW() - ($1 || ' days')::interval
+    `, [maxAgeDays])
+
+    const abandoned = await DatabasePool.query(`
+      UPDATE diagnostic_sessions
+      SET status = 'abandoned', current_question = NULL,
+          updated_at = CURRENT_TIMESTAMP, ended_at = CURRENT_TIMESTAMP
+      WHERE status IN ('active', 'awaiting_answer')
+        AND last_activity_at < NOW() - ($1 || ' hours')::interval
+    `, [staleHours])
+
+    return { abandoned: abandoned.rowCount || 0, expired: expired.rowCount || 0 }
+  }
+
+  private async inferDifferentialTrigger(sessionUuid: string, since: Date | null): Promise<DifferentialTrigger> {
+    const [answers, symptoms] = await Promise.all([
+      DatabasePool.query(`
+        SELECT sequence, question, answer_index, answer_text, answer_source
+        FROM diagnostic_session_qa
+        WHERE session_id = $1 AND answered_at IS NOT NULL
+          AND ($2::timestamptz IS NULL OR answered_at > $2)
+        ORDER BY sequence
+      `, [sessionUuid, since]),
+      DatabasePool.query(`
+        SELECT symptom_text, sdco_id
+        FROM session_symptoms
+        WHERE session_id = $1 AND ($2::timestamptz IS NULL OR created_at > $2)
+        ORDER BY processing_order
+      `, [sessionUuid, since])
+    ])
+
+    if (answers.rows.length > 0) {
+      return {
+        event: 'answer_submitted',
+        detail: {
+          answers: answers.rows.map(row => ({
+            sequence: row.sequence,
+            question: row.question,
+            answerIndex: row.answer_index,
+            answerText: row.answer_text,
+            answerSource: row.answer_source
+          }))
+        }
+      }
+    }
+    if (since && symptoms.rows.length > 0) {
+      return {
+        event: 'symptom_added',
+        detail: { symptoms: symptoms.rows.map(row => ({ text: row.symptom_text, sdcoId: row.sdco_id })) }
+      }
+    }
+    return { event: 'refresh' }
+  }
+
+  private async fillPendingAnswer(
+    sessionUuid: string,
+    answerIndex: number,
+    answerText: string | null,
+    source: AnswerSource,
+    detection?: AutoAnswerDetection
+  ): Promise<void> {
+    await DatabasePool.query(`
+      UPDATE diagnostic_session_qa
+      SET answer_index = $2,
+          answer_text = $3,
+          answer_source = $4,
+          auto_confidence = $5,
+          auto_explanation = $6,
+          answered_at = CURRENT_TIMESTAMP
+      WHERE id = (
+        SELECT id FROM diagnostic_session_qa
+        WHERE session_id = $1 AND answered_at IS NULL
+        ORDER BY sequence DESC
+        LIMIT 1
+      )
+    `, [
+      sessionUuid,
+      answerIndex,
+      answerText,
+      source,
+      detection ? Math.round(detection.confidence) : null,
+      detection?.explanation || null
+    ])
+  }
+
+  private mapRowToSession(row: any): DiagnosticSessionRecord {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      merlinSessionId: row.merlin_session_id,
+      mode: row.mode || 'merlin',
+      status: row.status,
+      reasonForEncounter: row.reason_for_encounter,
+      reasonForEncounterSymptomId: row.reason_for_encounter_symptom_id,
+      patientData: row.patient_data,
+      currentQuestion: row.current_question || null,
+      latestDifferential: row.latest_differential || [],
+      supersedesSessionId: row.supersedes_session_id || null,
+      supersededBySessionId: row.superseded_by_session_id || null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      lastActivityAt: row.last_activity_at,
+      endedAt: row.ended_at
+    }
+  }
+
+  private mapRowToAnswer(row: any): DiagnosticSessionAnswer {
+    return {
+      sequence: row.sequence,
+      question: row.question,
+      answerList: row.answer_list || [],
+      answerIndex: row.answer_index,
+      answerText: row.answer_text,
+      answerSource: row.answer_source,
+      autoConfidence: row.auto_confidence,
+      autoExplanation: row.auto_explanation,
+      askedAt: row.asked_at,
+      answeredAt: row.answered_at
+    }
+  }
+}
+
+let sweeperTimer: NodeJS.Timeout | null = null
+
+/**
+ * Periodically mark stale diagnostic sessions abandoned (and very old ones expired)
+ */
+export function startDiagnosticSessionSweeper(intervalMs: number = 15 * 60 * 1000): void {
+  if (sweeperTimer) return
+
+  sweeperTimer = setInterval(async () => {
+    try {
+      const { abandoned, expired } = await diagnosticSessionDB.sweepStaleSessions()
+      if (abandoned > 0 || expired > 0) {
+        console.log(`🧹 Diagnostic session sweep: ${abandoned} abandoned, ${expired} expired`)
+      }
+    } catch (error) {
+      console.error('Diagnostic session sweep failed:', error)
+    }
+  }, intervalMs)
+  sweeperTimer.unref()
+}
+
+export const diagnosticSessionDB = new DiagnosticSessionDatabase()
@@ -0,0 +1,177 @@
+/**
+ * Diagnostic Session Replay
+ * Merlin cannot change an answer once submitted, so amending or undoing an answer
+ * rebuilds the session: a new Merlin session is started and the stored answers are
+ * replayed with the correction applied. The old session is kept and linked for audit.
+ * It is claimed (marked superseded) before the rebuild starts and handed back if the
+ * rebuild fails, so each session is rebuilt at most once.
+ */
+
+import { getMerlinClient, MerlinQuestion, toMerlinPatientInfo } from './merlin-client'
+import {
+  diagnosticSessionDB,
+  DiagnosticSessionAnswer,
+  DiagnosticSessionRecord
+} from './diagnostic-session-database'
+
+export type AnswerAmendment =
+  | { type: 'amend'; sequence: number; answerIndex: number }
+  | { type: 'undo'; sequence: number }
+
+export interface ReplayResult {
+  session: DiagnosticSessionRecord
+  previousSession: DiagnosticSessionRecord
+  nextQuestion: MerlinQuestion | null
+  differentialDiagnosis: any[]
+  replayedAnswers: number
+  // Answers after the amended one that no longer apply because Merlin asked something different
+  discardedAnswers: DiagnosticSessionAnswer[]
+}
+
+export class AnswerAmendmentError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'AnswerAmendmentError'
+    this.status = status
+  }
+}
+
+/**
+ * Rebuild a diagnostic session with one answer changed or removed
+ */
+export async function rebuildSessionWithAmendment(
+  sessionId: string,
+  amendment: AnswerAmendment
+): Promise<ReplayResult> {
+  const previous = await diagnosticSessionDB.getSessionState(sessionId)
+  if (!previous) {
+    throw new AnswerAmendmentError('Diagnostic session not found', 404)
+  }
+  if (previous.status === 'superseded') {
+    throw new AnswerAmendmentError('This session was already replaced by an amended session', 409)
+  }
+  if (previous.mode !== 'merlin' || !previous.reasonForEncounterSymptomId) {
+    throw new AnswerAmendmentError('Only Merlin sessions can be rebuilt; migrate the fallback session first', 409)
+  }
+
+  const answered = previous.answers.filter(answer => answer.answeredAt && answer.answerIndex !== null)
+  const target = answered.find(answer => answer.sequence === amendment.sequence)
+  if (!target) {
+    throw new AnswerAmendmentError(`No submitted answer with sequence ${amendment.sequence}`, 404)
+  }
+  if (amendment.type === 'amend') {
+    if (amendment.answerIndex < 0 || amendment.answerIndex >= target.answerList.length) {
+      throw new AnswerAmendmentError(`answerIndex must be between 0 and ${target.answerList.length - 1}`)
+    }
+    if (amendment.answerIndex === target.answerIndex) {
+      throw new AnswerAmendmentError('The new answer is the same as the submitted one')
+    }
+  }
+
+  // Claim the session first so a concurrent amendment cannot start a second rebuild
+  const claimed = await diagnosticSessionDB.claimForSupersede(previous.id, previous.status)
+  if (!claimed) {
+    throw new AnswerAmendmentError('The session changed while it was being amended; reload it and try again', 409)
+  }
+
+  const merlin = getMerlinClient()
+  let newSessionId: string | null = null
+  try {
+    const { sessionId: merlinSessionId } = await merlin.startNewSession({
+      patient_info: toMerlinPatientInfo(previous.patientData),
+      reason_for_encounter: previous.reasonForEncounterSymptomId!
+    })
+
+    const queuedSdcoIds = previous.symptoms
+      .map(symptom => symptom.sdcoId)
+      .filter((sdcoId): sdcoId is string => !!sdcoId && sdcoId !== previous.reasonForEncounterSymptomId)
+    if (queuedSdcoIds.length > 0) {
+      await merlin.addSymptomsToQueue(merlinSessionId, queuedSdcoIds)
+    }
+
+    newSessionId = await diagnosticSessionDB.createSession({
+      userId: previous.userId,
+      merlinSessionId,
+      patientData: previous.patientData,
+      reasonForEncounter: previous.reasonForEncounter,
+      reasonForEncounterSymptomId: previous.reasonForEncounterSymptomId,
+      symptoms: previous.symptoms.map(symptom => ({ text: symptom.symptomText, sdcoId: symptom.sdcoId })),
+      supersedesSessionId: previous.id
+    })
+    const previousSession = await diagnosticSessionDB.markSuperseded(previous.id, newSessionId)
+
+    // Undo replays everything before the removed answer; amend keeps going while
+    // Merlin asks the same questions as before
+    const toReplay = amendment.type === 'undo'
+      ? answered.filter(answer => answer.sequence < target.sequence)
+      : answered
+
+    let replayed = 0
+    let nextQuestion = await merlin.getDiagnosticQuestion(merlinSessionId)
+
+    while (nextQuestion && replayed < toReplay.length) {
+      const stored = toReplay[replayed]
+      if (stored.question !== nextQuestion.question) {
+        console.log(`🔀 Replay diverged at sequence ${stored.sequence}: Merlin asked "${nextQuestion.question}"`)
+        break
+      }
+
+      const isAmended = amendment.type === 'amend' && stored.sequence === target.sequence
+      const answerIndex = isAmended ? amendment.answerIndex : stored.answerIndex!
+      if (answerIndex >= nextQuestion.answerList.length) {
+        break
+      }
+
+      await merlin.submitDiagnosticAnswer(merlinSessionId, answerIndex)
+
+      const detection = !isAmended && stored.answerSource === 'auto_detected'
+        ? { confidence: stored.autoConfidence ?? 0, explanation: stored.autoExplanation || '' }
+        : undefined
+      await diagnosticSessionDB.recordAnsweredQuestion(
+        newSessionId,
+        nextQuestion,
+        answerIndex,
+        detection ? 'auto_detected' : 'user',
+        detection
+      )
+
+      replayed++
+      nextQuestion = await merlin.getDiagnosticQuestion(merlinSessionId)
+    }
+
+    const replayedSequences = new Set(toReplay.slice(0, replayed).map(answer => answer.sequence))
+    const discardedAnswers = answered.filter(answer =>
+      answer.sequence >= target.sequence && !replayedSequences.has(answer.sequence)
+    )
+
+    const differentialDiagnosis = await merlin.getDifferentialDiagnosis(merlinSessionId)
+    const session = await diagnosticSessionDB.applyQuestion(newSessionId, nextQuestion, differentialDiagnosis, {
+      event: 'answer_amended',
+      detail: { ...amendment, previousSessionId: previous.merlinSessionId, replayedAnswers: replayed }
+    })
+
+    console.log(`✏️ Rebuilt diagnostic session ${previous.merlinSessionId} → ${merlinSessionId} (${amendment.type} #${amendment.sequence}, ${replayed} replayed, ${discardedAnswers.length} discarded)`)
+
+    return {
+      session,
+      previousSession,
+      nextQuestion,
+      differentialDiagnosis,
+      replayedAnswers: replayed,
+      discardedAnswers
+    }
+  } catch (error) {
+    // The half-built session is ended and the original handed back, so the user can carry on or retry
+    if (newSessionId) {
+      await diagnosticSessionDB.transition(newSessionId, 'abandoned').catch(abandonError => {
+        console.error(`Failed to abandon rebuilt session ${newSessionId}:`, abandonError)
+      })
+    }
+    await diagnosticSessionDB.releaseSupersede(previous).catch(releaseError => {
+      console.error(`Failed to release diagnostic session ${previous.merlinSessionId} after a failed rebuild:`, releaseError)
+    })
+    throw error
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Differential Deltas
+ * Compares two differential diagnosis snapshots to explain what an answer or new
+ * symptom changed: which conditions rose, fell, entered or left the top N.
+ */
+
+export interface ConditionChange {
+  condition: string
+  conditionLayman: string | null
+  previousProbability: number | null
+  probability: number | null
+  change: number
+  previousRank: number | null
+  rank: number | null
+}
+
+export interface DifferentialDelta {
+  rose: ConditionChange[]
+  fell: ConditionChange[]
+  enteredTopN: ConditionChange[]
+  leftTopN: ConditionChange[]
+}
+
+// Merlin probabilities jitter slightly between calls; ignore moves smaller than this
+const DEFAULT_MIN_CHANGE = 0.01
+
+interface RankedCondition {
+  name: string
+  layman: string | null
+  probability: number
+  rank: number
+}
+
+function rankConditions(differential: any[]): Map<string, RankedCondition> {
+  const ranked = new Map<string, RankedCondition>()
+  ;[...(differential || [])]
+    .filter(item => item?.diagnosis?.display_name)
+    .sort((a, b) => (b.probability || 0) - (a.probability || 0))
+    .forEach((item, index) => {
+      const name = item.diagnosis.display_name
+      if (!ranked.has(name)) {
+        ranked.set(name, {
+          name,
+          layman: item.diagnosis.display_name_layman || null,
+          probability: item.probability || 0,
+          rank: index + 1
+        })
+      }
+    })
+  return ranked
+}
+
+export function computeDifferentialDelta(
+  previous: any[],
+  current: any[],
+  topN: number = 5,
+  minChange: number = DEFAULT_MIN_CHANGE
+): DifferentialDelta {
+  const before = rankConditions(previous)
+  const after = rankConditions(current)
+  const delta: DifferentialDelta = { rose: [], fell: [], enteredTopN: [], leftTopN: [] }
+
+  const names = new Set([...before.keys(), ...after.keys()])
+  for (const name of names) {
+    const prev = before.get(name)
+    const next = after.get(name)
+    const change: ConditionChange = {
+      condition: name,
+      conditionLayman: next?.layman ?? prev?.layman ?? null,
+      previousProbability: prev?.probability ?? null,
+      probability: next?.probability ?? null,
+      change: Math.round(((next?.probability || 0) - (prev?.probability || 0)) * 1000) / 1000,
+      previousRank: prev?.rank ?? null,
+      rank: next?.rank ?? null
+    }
+
+    if (change.change >= minChange) delta.rose.push(change)
+    if (change.change <= -minChange) delta.fell.push(change)
+
+    const wasInTop = !!prev && prev.rank <= topN
+    const isInTop = !!next && next.rank <= topN
+    if (isInTop && !wasInTop) delta.enteredTopN.push(change)
+    if (wasInTop && !isInTop) delta.leftTopN.push(change)
+  }
+
+  delta.rose.sort((a, b) => b.change - a.change)
+  delta.fell.sort((a, b) => a.change - b.change)
+  delta.enteredTopN.sort((a, b) => (a.rank || 0) - (b.rank || 0))
+  delta.leftTopN.sort((a, b) => (a.previousRank || 0) - (b.previousRank || 0))
+  return delta
+}
@@ -1,5 +1,6 @@
 // Email service for sending scheduled prompt results
 import { Resend } from 'resend'
+import { getEmailStrings } from './email-translations'
 
 const resend = new Resend(process.env.RESEND_API_KEY)
 
@@ -13,22 +14,24 @@ export interface EmailData {
 export async function sendOTPEmail(
   userEmail: string,
   otpCode: string,
-  type: 'signup' | 'login' | 'verification'
+  type: 'signup' | 'login' | 'verification',
+  language?: string | null
 ): Promise<{ success: boolean; messageId?: string; error?: string }> {
   try {
+    const { language: lang, strings } = getEmailStrings(language)
     const response = await resend.emails.send({
       from: 'noreply@opinions.doctor',
       to: userEmail,
-      subject: `Your ${type} verification code`,
+      subject: strings.otp.subject(type),
       html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2>🏥 Treatment AI Verification</h2>
-          <p>Your verification code is:</p>
+        <div lang="${lang}" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>🏥 ${strings.otp.heading}</h2>
+          <p>${strings.otp.intro}</p>
           <div style="background: #f5f5f5; padding: 20px; text-align: center; font-size: 24px; font-weight: bold; margin: 20px 0;">
             ${otpCode}
           </div>
-          <p>This code will expire in 10 minutes.</p>
-          <p>If you didn't request this code, please ignore this email.</p>
+          <p>${strings.otp.expiry}</p>
+          <p>${strings.otp.ignore}</p>
         </div>
       `,
     })
@@ -51,16 +54,18 @@ export async function sendScheduledPromptResult(
   promptTitle: string,
   aiResult: string,
   mentionedData: any,
-  executionTime: string
+  executionTime: string,
+  language?: string | null
 ): Promise<{ success: boolean; messageId?: string; error?: string }> {
   try {
-    const htmlContent = generateResultEmail(promptTitle, aiResult, mentionedData, executionTime)
-    const textContent = generateTextEmail(promptTitle, aiResult, executionTime)
+    const { strings } = getEmailStrings(language)
+    const htmlContent = generateResultEmail(promptTitle, aiResult, mentionedData, executionTime, language)
+    const textContent = generateTextEmail(promptTitle, aiResult, executionTime, language)
 
     const response = await resend.emails.send({
       from: 'noreply@opinions.doctor',
       to: userEmail,
-      subject: `Scheduled Health Analysis: ${promptTitle}`,
+      subject: strings.scheduledResult.subject(promptTitle),
       html: htmlContent,
       text: textContent
     })
@@ -82,16 +87,18 @@ export async function sendPromptShareNotification(
   recipientEmail: string,
   senderEmail: string,
   promptTitle: string,
-  shareUrl: string
+  shareUrl: string,
+  language?: string | null
 ): Promise<{ success: boolean; messageId?: string; error?: string }> {
   try {
-    const htmlContent = generateShareNotificationEmail(senderEmail, promptTitle, shareUrl)
-    const textContent = `${senderEmail} has shared a scheduled prompt "${promptTitle}" with you. Access it at: ${shareUrl}`
+    const { strings } = getEmailStrings(language)
+    const htmlContent = generateShareNotificationEmail(senderEmail, promptTitle, shareUrl, language)
+    const textContent = strings.promptShare.text(senderEmail, promptTitle, shareUrl)
 
     const response = await resend.emails.send({
       from: 'noreply@opinions.doctor',
       to: recipientEmail,
-      subject: `Shared Health Prompt: ${promptTitle}`,
+      subject: strings.promptShare.subject(promptTitle),
       html: htmlContent,
       text: textContent
     })
@@ -109,22 +116,64 @@ export async function sendPromptShareNotification(
   }
 }
 
+export interface SharedChatMessage {
+  content: string
+  sender: 'user' | 'assistant'
+  timestamp: Date | string
+}
+
+export async function sendChatShareEmail(
+  recipientEmail: string,
+  share: {
+    friendName: string
+    senderEmail: string
+    title: string
+    personalMessage?: string
+    messages: SharedChatMessage[]
+  },
+  language?: string | null
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  try {
+    const { strings } = getEmailStrings(language)
+    const response = await resend.emails.send({
+      from: 'noreply@opinions.doctor',
+      to: recipientEmail,
+      subject: strings.chatShare.subject(share.title),
+      html: generateChatShareEmail(share, language)
+    })
+
+    return {
+      success: true,
+      messageId: response.data?.id
+    }
+  } catch (error: any) {
+    console.error('Chat share email failed:', error)
+    return {
+      success: false,
+      error: error.message
+    }
+  }
+}
+
 function generateResultEmail(
   promptTitle: string,
   aiResult: string,
   mentionedData: any,
-  executionTime: string
+  executionTime: string,
+  language?: string | null
 ): string {
-  const formattedTime = new Date(executionTime).toLocaleString()
-  const dataTypes = Object.keys(mentionedData).join(', ') || 'None'
+  const { language: lang, locale, strings } = getEmailStrings(language)
+  const text = strings.scheduledResult
+  const formattedTime = new Date(executionTime).toLocaleString(locale)
+  const dataTypes = Object.keys(mentionedData).join(', ') || text.none
 
   return `
 <!DOCTYPE html>
-<html>
+<html lang="${lang}">
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Scheduled Health Analysis Results</title>
+  <title>${text.title}</title>
   <style>
     body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
     .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px 20px; text-align: center; border-radius: 10px 10px 0 0; }
@@ -141,55 +190,137 @@ function generateResultEmail(
 <body>
   <div class="header">
     <div class="logo">🏥 Treatment AI</div>
-    <h1>Scheduled Health Analysis</h1>
-    <div class="timestamp">Generated on ${formattedTime}</div>
+    <h1>${text.title}</h1>
+    <div class="timestamp">${text.generatedOn(formattedTime)}</div>
   </div>
   
   <div class="content">
-    <h2>📋 Prompt: ${promptTitle}</h2>
+    <h2>📋 ${text.prompt}: ${promptTitle}</h2>
     
     <div class="data-summary">
-      <strong>📊 Data Sources Analyzed:</strong> ${dataTypes}
+      <strong>📊 ${text.dataSources}:</strong> ${dataTypes}
     </div>
     
     <div class="result-box">
-      <h3>🤖 AI Analysis Results</h3>
+      <h3>🤖 ${text.results}</h3>
       ${aiResult.replace(/\n/g, '<br>')}
     </div>
     
-    <h2>💡 About This Analysis</h2>
-    <p>This analysis was generated by Treatment AI using your scheduled prompt and current health data. The insights are based on the information available at the time of execution.</p>
+    <h2>💡 ${text.aboutHeading}</h2>
+    <p>${text.aboutBody}</p>
     
-    <p><strong>⚠️ Important:</strong> This analysis is for informational purposes only and should not replace professional medical advice. Always consult with healthcare providers for medical decisions.</p>
+    <p><strong>⚠️ ${text.important}:</strong> ${text.disclaimer}</p>
   </div>
   
   <div class="footer">
-    <p>Powered by our Global Library of Medicine™</p>
-    <p>© 2025 Treatment AI - Advancing Healthcare Through AI</p>
+    <p>${strings.poweredBy}</p>
+    <p>© 2025 Treatment AI - ${text.tagline}</p>
   </div>
 </body>
 </html>`
 }
 
-function generateTextEmail(promptTitle: string, aiResult: string, executionTime: string): string {
-  const formattedTime = new Date(executionTime).toLocaleString()
+function generateTextEmail(promptTitle: string, aiResult: string, executionTime: string, language?: string | null): string {
+  const { locale, strings } = getEmailStrings(language)
+  const text = strings.scheduledResult
+  const formattedTime = new Date(executionTime).toLocaleString(locale)
   
   return `
-TREATMENT AI - SCHEDULED HEALTH ANALYSIS
-Generated on ${formattedTime}
+TREATMENT AI - ${text.title.toUpperCase()}
+${text.generatedOn(formattedTime)}
 
-PROMPT: ${promptTitle}
+${text.prompt.toUpperCase()}: ${promptTitle}
 
-AI ANALYSIS RESULTS:
+${text.results.toUpperCase()}:
 ${aiResult}
 
-IMPORTANT: This analysis is for informational purposes only and should not replace professional medical advice. Always consult with healthcare providers for medical decisions.
+${text.important.toUpperCase()}: ${text.disclaimer}
 
-Powered by our Global Library of Medicine™
+${strings.poweredBy}
 © 2025 Treatment AI
 `
 }
 
+function generateChatShareEmail(
+  share: {
+    friendName: string
+    senderEmail: string
+    title: string
+    personalMessage?: string
+    messages: SharedChatMessage[]
+  },
+  language?: string | null
+): string {
+  const { language: lang, locale, strings } = getEmailStrings(language)
+  const text = strings.chatShare
+
+  const formattedMessages = share.messages.map(msg => {
+    const timestamp = new Date(msg.timestamp).toLocaleString(locale)
+    const sender = msg.sender === 'user' ? text.patient : text.assistant
+    
+    // Clean up message content
+    const cleanContent = msg.content
+      .replace(/#{1,6}\s/g, '') // Remove markdown headers
+      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>') // Convert bold markdown to HTML
+      .replace(/\*(.*?)\*/g, '<em>$1</em>') // Convert italic markdown to HTML
+      .replace(/\n/g, '<br>') // Convert newlines to HTML breaks
+    
+    return `
+        <div style="margin-bottom: 20px; padding: 15px; background-color: ${msg.sender === 'user' ? '#f0f9ff' : '#f8fafc'}; border-radius: 8px; border-left: 4px solid ${msg.sender === 'user' ? '#3b82f6' : '#10b981'};">
+          <div style="font-weight: bold; color: #374151; margin-bottom: 5px;">${sender}</div>
+          <div style="font-size: 12px; color: #6b7280; margin-bottom: 10px;">${timestamp}</div>
+          <div style="color: #111827; line-height: 1.5;">${cleanContent}</div>
+        </div>
+      `
+  }).join('')
+
+  return `
+      <!DOCTYPE html>
+      <html lang="${lang}">
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${text.title}</title>
+      </head>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 800px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px; padding: 20px; background-color: #f0f9ff; border-radius: 10px;">
+          <h1 style="color: #059669; margin: 0; font-size: 24px;">${text.title}</h1>
+          <p style="color: #6b7280; margin: 10px 0 0 0; font-size: 14px;">${text.sharedBy(share.senderEmail)}</p>
+          <p style="color: #6b7280; margin: 5px 0 0 0; font-size: 12px;">${text.generatedOn(new Date().toLocaleString(locale))}</p>
+        </div>
+        
+        <div style="margin-bottom: 20px; padding: 15px; background-color: #fef3c7; border-radius: 8px; border-left: 4px solid #f59e0b;">
+          <h3 style="color: #92400e; margin: 0 0 10px 0; font-size: 16px;">${text.greeting(share.friendName)}</h3>
+          <p style="color: #92400e; margin: 0; font-size: 14px;">
+            ${text.intro}
+            ${share.personalMessage ? `<br><br><strong>${text.personalMessage}:</strong><br>${share.personalMessage.replace(/\n/g, '<br>')}` : ''}
+          </p>
+        </div>
+        
+        <div style="margin-bottom: 20px;">
+          <h2 style="color: #374151; border-bottom: 2px solid #e5e7eb; padding-bottom: 10px;">${text.messages(share.messages.length)}</h2>
+        </div>
+        
+        <div style="margin-bottom: 30px;">
+          ${formattedMessages}
+        </div>
+        
+        <div style="text-align: center; padding: 20px; background-color: #f8fafc; border-radius: 10px; margin-top: 30px;">
+          <p style="color: #6b7280; margin: 0; font-size: 12px;">
+            ${text.generatedBy}
+          </p>
+          <p style="color: #6b7280; margin: 10px 0 0 0; font-size: 12px;">
+            <strong>${text.disclaimerLabel}:</strong> ${text.disclaimer}
+          </p>
+          <p style="color: #ef4444; margin: 10px 0 0 0; font-size: 12px;">
+            <strong>${text.privacyLabel}:</strong> ${text.privacy(share.senderEmail)}
+          </p>
+        </div>
+      </body>
+      </html>
+    `
+}
+
 export async function sendPasswordResetEmail(email: string, resetToken: string, userName: string, isSetup: boolean = false): Promise<boolean> {
   try {
     // Validate API key
@@ -289,15 +420,19 @@ export async function sendPasswordResetEmail(email: string, resetToken: string,
 function generateShareNotificationEmail(
   senderEmail: string,
   promptTitle: string,
-  shareUrl: string
+  shareUrl: string,
+  language?: string | null
 ): string {
+  const { language: lang, strings } = getEmailStrings(language)
+  const text = strings.promptShare
+
   return `
 <!DOCTYPE html>
-<html>
+<html lang="${lang}">
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Shared Health Prompt</title>
+  <title>${text.title}</title>
   <style>
     body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
     .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px 20px; text-align: center; border-radius: 10px 10px 0 0; }
@@ -308,24 +443,24 @@ function generateShareNotificationEmail(
 </head>
 <body>
   <div class="header">
-    <h1>🤝 Shared Health Prompt</h1>
+    <h1>🤝 ${text.title}</h1>
   </div>
   
   <div class="content">
-    <p><strong>${senderEmail}</strong> has shared a scheduled health prompt with you:</p>
+    <p>${text.intro(senderEmail)}</p>
     <h2>📋 "${promptTitle}"</h2>
     
-    <p>You can now access and manage this shared prompt through your Treatment AI dashboard.</p>
+    <p>${text.access}</p>
     
     <div style="text-align: center;">
-      <a href="${shareUrl}" class="cta-button">Access Shared Prompt</a>
+      <a href="${shareUrl}" class="cta-button">${text.cta}</a>
     </div>
     
-    <p><em>This shared prompt will execute automatically according to its schedule and send results to both you and the original creator (if permissions allow).</em></p>
+    <p><em>${text.note}</em></p>
   </div>
   
   <div class="footer">
-    <p>Powered by our Global Library of Medicine™</p>
+    <p>${strings.poweredBy}</p>
     <p>© 2025 Treatment AI</p>
   </div>
 </body>
@@ -335,6 +470,9 @@ function generateShareNotificationEmail(
 // Create service instance for export
 const emailService = {
   sendOTPEmail,
+  sendScheduledPromptResult,
+  sendPromptShareNotification,
+  sendChatShareEmail,
   sendPasswordResetEmail
 }
 
@@ -0,0 +1,397 @@
+/**
+ * Email Translations
+ * Strings for the transactional emails in email-service.ts. Languages without a
+ * translation here fall back to English.
+ */
+
+import { DEFAULT_LANGUAGE, LanguageCode, languageLocale, normalizeLanguage } from './language'
+
+export type OTPEmailType = 'signup' | 'login' | 'verification'
+
+export interface EmailStrings {
+  otp: {
+    subject: (type: OTPEmailType) => string
+    heading: string
+    intro: string
+    expiry: string
+    ignore: string
+  }
+  scheduledResult: {
+    subject: (promptTitle: string) => string
+    title: string
+    generatedOn: (time: string) => string
+    prompt: string
+    dataSources: string
+    none: string
+    results: string
+    aboutHeading: string
+    aboutBody: string
+    important: string
+    disclaimer: string
+    tagline: string
+  }
+  promptShare: {
+    subject: (promptTitle: string) => string
+    title: string
+    intro: (senderEmail: string) => string
+    access: string
+    cta: string
+    note: string
+    text: (senderEmail: string, promptTitle: string, shareUrl: string) => string
+  }
+  chatShare: {
+    subject: (title: string) => string
+    title: string
+    sharedBy: (senderEmail: string) => string
+    generatedOn: (time: string) => string
+    greeting: (friendName: string) => string
+    intro: string
+    personalMessage: string
+    messages: (count: number) => string
+    patient: string
+    assistant: string
+    generatedBy: string
+    disclaimerLabel: string
+    disclaimer: string
+    privacyLabel: string
+    privacy: (senderEmail: string) => string
+  }
+  poweredBy: string
+}
+
+const en: EmailStrings = {
+  otp: {
+    subject: type => `Your ${type} verification code`,
+    heading: 'Treatment AI Verification',
+    intro: 'Your verification code is:',
+    expiry: 'This code will expire in 10 minutes.',
+    ignore: "If you didn't request this code, please ignore this email."
+  },
+  scheduledResult: {
+    subject: promptTitle => `Scheduled Health Analysis: ${promptTitle}`,
+    title: 'Scheduled Health Analysis',
+    generatedOn: time => `Generated on ${time}`,
+    prompt: 'Prompt',
+    dataSources: 'Data Sources Analyzed',
+    none: 'None',
+    results: 'AI Analysis Results',
+    aboutHeading: 'About This Analysis',
+    aboutBody: 'This analysis was generated by Treatment AI using your scheduled prompt and current health data. The insights are based on the information available at the time of execution.',
+    important: 'Important',
+    disclaimer: 'This analysis is for informational purposes only and should not replace professional medical advice. Always consult with healthcare providers for medical decisions.',
+    tagline: 'Advancing Healthcare Through AI'
+  },
+  promptShare: {
+    subject: promptTitle => `Shared Health Prompt: ${promptTitle}`,
+    title: 'Shared Health Prompt',
+    intro: senderEmail => `<strong>${senderEmail}</strong> has shared a scheduled health prompt with you:`,
+    access: 'You can now access and manage this shared prompt through your Treatment AI dashboard.',
+    cta: 'Access Shared Prompt',
+    note: 'This shared prompt will execute automatically according to its schedule and send results to both you and the original creator (if permissions allow).',
+    text: (senderEmail, promptTitle, shareUrl) => `${senderEmail} has shared a scheduled prompt "${promptTitle}" with you. Access it at: ${shareUrl}`
+  },
+  chatShare: {
+    subject: title => title ? `Treatment AI Chat Session: ${title}` : 'Treatment AI Chat Session',
+    title: 'Treatment AI Chat Session',
+    sharedBy: senderEmail => `Shared by ${senderEmail}`,
+    generatedOn: time => `Generated on ${time}`,
+    greeting: friendName => `Hello ${friendName}!`,
+    intro: 'Someone has shared a Treatment AI chat session with you.',
+    personalMessage: 'Personal Message',
+    messages: count => `Chat Messages (${count} total)`,
+    patient: 'Patient',
+    assistant: 'Treatment AI',
+    generatedBy: 'This email was generated by Treatment AI. For questions or support, please contact your healthcare provider.',
+    disclaimerLabel: 'Medical Disclaimer',
+    disclaimer: 'This chat session is for informational purposes only and should not replace professional medical advice.',
+    privacyLabel: 'Privacy Notice',
+    privacy: senderEmail => `This medical information was shared with you by ${senderEmail}. Please handle this information confidentially.`
+  },
+  poweredBy: 'Powered by our Global Library of Medicine™'
+}
+
+const es: EmailStrings = {
+  otp: {
+    subject: type => ({
+      signup: 'Tu código de verificación para registrarte',
+      login: 'Tu código de verificación para iniciar sesión',
+      verification: 'Tu código de verificación'
+    })[type],
+    heading: 'Verificación de Treatment AI',
+    intro: 'Tu código de verificación es:',
+    expiry: 'Este código caduca en 10 minutos.',
+    ignore: 'Si no solicitaste este código, ignora este correo.'
+  },
+  scheduledResult: {
+    subject: promptTitle => `Análisis de salud programado: ${promptTitle}`,
+    title: 'Análisis de salud programado',
+    generatedOn: time => `Generado el ${time}`,
+    prompt: 'Consulta',
+    dataSources: 'Fuentes de datos analizadas',
+    none: 'Ninguna',
+    results: 'Resultados del análisis de IA',
+    aboutHeading: 'Sobre este análisis',
+    aboutBody: 'Treatment AI generó este análisis a partir de tu consulta programada y tus datos de salud actuales. Las conclusiones se basan en la información disponible en el momento de la ejecución.',
+    important: 'Importante',
+    disclaimer: 'Este análisis es solo informativo y no sustituye el consejo médico profesional. Consulta siempre a un profesional de la salud antes de tomar decisiones médicas.',
+    tagline: 'Impulsando la atención médica con IA'
+  },
+  promptShare: {
+    subject: promptTitle => `Consulta de salud compartida: ${promptTitle}`,
+    title: 'Consulta de salud compartida',
+    intro: senderEmail => `<strong>${senderEmail}</strong> ha compartido contigo una consulta de salud programada:`,
+    access: 'Ya puedes acceder a esta consulta compartida y gestionarla desde tu panel de Treatment AI.',
+    cta: 'Abrir consulta compartida',
+    note: 'Esta consulta compartida se ejecutará automáticamente según su programación y enviará los resultados a ti y a su creador (si los permisos lo permiten).',
+    text: (senderEmail, promptTitle, shareUrl) => `${senderEmail} ha compartido contigo la consulta programada "${promptTitle}". Ábrela en: ${shareUrl}`
+  },
+  chatShare: {
+    subject: title => title ? `Conversación de Treatment AI: ${title}` : 'Conversación de Treatment AI',
+    title: 'Conversación de Treatment AI',
+    sharedBy: senderEmail => `Compartida por ${senderEmail}`,
+    generatedOn: time => `Generada el ${time}`,
+    greeting: friendName => `¡Hola, ${friendName}!`,
+    intro: 'Alguien ha compartido contigo una conversación de Treatment AI.',
+    personalMessage: 'Mensaje personal',
+    messages: count => `Mensajes de la conversación (${count} en total)`,
+    patient: 'Paciente',
+    assistant: 'Treatment AI',
+    generatedBy: 'Este correo fue generado por Treatment AI. Si tienes preguntas, consulta a tu profesional de la salud.',
+    disclaimerLabel: 'Aviso médico',
+    disclaimer: 'Esta conversación es solo informativa y no sustituye el consejo médico profesional.',
+    privacyLabel: 'Aviso de privacidad',
+    privacy: senderEmail => `${senderEmail} ha compartido contigo esta información médica. Trátala de forma confidencial.`
+  },
+  poweredBy: 'Con la tecnología de nuestra Global Library of Medicine™'
+}
+
+const fr: EmailStrings = {
+  otp: {
+    subject: type => ({
+      signup: "Votre code de vérification d'inscription",
+      login: 'Votre code de vérification de connexion',
+      verification: 'Votre code de vérification'
+    })[type],
+    heading: 'Vérification Treatment AI',
+    intro: 'Votre code de vérification est :',
+    expiry: 'Ce code expire dans 10 minutes.',
+    ignore: "Si vous n'avez pas demandé ce code, ignorez cet e-mail."
+  },
+  scheduledResult: {
+    subject: promptTitle => `Analyse de santé programmée : ${promptTitle}`,
+    title: 'Analyse de santé programmée',
+    generatedOn: time => `Générée le ${time}`,
+    prompt: 'Demande',
+    dataSources: 'Sources de données analysées',
+    none: 'Aucune',
+    results: "Résultats de l'analyse IA",
+    aboutHeading: 'À propos de cette analyse',
+    aboutBody: "Cette analyse a été générée par Treatment AI à partir de votre demande programmée et de vos données de santé actuelles. Elle repose sur les informations disponibles au moment de l'exécution.",
+    important: 'Important',
+    disclaimer: "Cette analyse est fournie à titre informatif et ne remplace pas l'avis d'un professionnel de santé. Consultez toujours un professionnel de santé avant toute décision médicale.",
+    tagline: "Faire progresser la santé grâce à l'IA"
+  },
+  promptShare: {
+    subject: promptTitle => `Demande de santé partagée : ${promptTitle}`,
+    title: 'Demande de santé partagée',
+    intro: senderEmail => `<strong>${senderEmail}</strong> a partagé avec vous une demande de santé programmée :`,
+    access: 'Vous pouvez désormais consulter et gérer cette demande partagée depuis votre tableau de bord Treatment AI.',
+    cta: 'Ouvrir la demande partagée',
+    note: "Cette demande partagée s'exécutera automatiquement selon sa programmation et enverra les résultats à vous et à son créateur (si les autorisations le permettent).",
+    text: (senderEmail, promptTitle, shareUrl) => `${senderEmail} a partagé avec vous la demande programmée « ${promptTitle} ». Ouvrez-la ici : ${shareUrl}`
+  },
+  chatShare: {
+    subject: title => title ? `Conversation Treatment AI : ${title}` : 'Conversation Treatment AI ',
+    title: 'Conversation Treatment AI',
+    sharedBy: senderEmail => `Partagée par ${senderEmail}`,
+    generatedOn: time => `Générée le ${time}`,
+    greeting: friendName => `Bonjour ${friendName} !`,
+    intro: "Quelqu'un a partagé avec vous une conversation Treatment AI.",
+    personalMessage: 'Message personnel',
+    messages: count => `Messages de la conversation (${count} au total)`,
+    patient: 'Patient',
+    assistant: 'Treatment AI',
+    generatedBy: 'Cet e-mail a été généré par Treatment AI. Pour toute question, adressez-vous à votre professionnel de santé.',
+    disclaimerLabel: 'Avertissement médical',
+    disclaimer: "Cette conversation est fournie à titre informatif et ne remplace pas l'avis d'un professionnel de santé.",
+    privacyLabel: 'Confidentialité',
+    privacy: senderEmail => `Ces informations médicales vous ont été partagées par ${senderEmail}. Merci de les traiter de façon confidentielle.`
+  },
+  poweredBy: 'Propulsé par notre Global Library of Medicine™'
+}
+
+const de: EmailStrings = {
+  otp: {
+    subject: type => ({
+      signup: 'Ihr Bestätigungscode für die Registrierung',
+      login: 'Ihr Bestätigungscode für die Anmeldung',
+      verification: 'Ihr Bestätigungscode'
+    })[type],
+    heading: 'Treatment AI Bestätigung',
+    intro: 'Ihr Bestätigungscode lautet:',
+    expiry: 'Dieser Code läuft in 10 Minuten ab.',
+    ignore: 'Wenn Sie diesen Code nicht angefordert haben, ignorieren Sie diese E-Mail bitte.'
+  },
+  scheduledResult: {
+    subject: promptTitle => `Geplante Gesundheitsanalyse: ${promptTitle}`,
+    title: 'Geplante Gesundheitsanalyse',
+    generatedOn: time => `Erstellt am ${time}`,
+    prompt: 'Anfrage',
+    dataSources: 'Ausgewertete Datenquellen',
+    none: 'Keine',
+    results: 'Ergebnisse der KI-Analyse',
+    aboutHeading: 'Über diese Analyse',
+    aboutBody: 'Diese Analyse wurde von Treatment AI auf Grundlage Ihrer geplanten Anfrage und Ihrer aktuellen Gesundheitsdaten erstellt. Sie beruht auf den Informationen, die zum Zeitpunkt der Ausführung verfügbar waren.',
+    important: 'Wichtig',
+    disclaimer: 'Diese Analyse dient nur zur Information und ersetzt keine ärztliche Beratung. Wenden Sie sich bei medizinischen Entscheidungen immer an medizinisches Fachpersonal.',
+    tagline: 'Gesundheitsversorgung mit KI voranbringen'
+  },
+  promptShare: {
+    subject: promptTitle => `Geteilte Gesundheitsanfrage: ${promptTitle}`,
+    title: 'Geteilte Gesundheitsanfrage',
+    intro: senderEmail => `<strong>${senderEmail}</strong> hat eine geplante Gesundheitsanfrage mit Ihnen geteilt:`,
+    access: 'Sie können diese geteilte Anfrage jetzt in Ihrem Treatment AI Dashboard aufrufen und verwalten.',
+    cta: 'Geteilte Anfrage öffnen',
+    note: 'Diese geteilte Anfrage wird automatisch nach Zeitplan ausgeführt und sendet die Ergebnisse an Sie und die ursprüngliche Person (sofern die Berechtigungen es erlauben).',
+    text: (senderEmail, promptTitle, shareUrl) => `${senderEmail} hat die geplante Anfrage „${promptTitle}“ mit Ihnen geteilt. Öffnen Sie sie unter: ${shareUrl}`
+  },
+  chatShare: {
+    subject: title => title ? `Treatment AI Chatverlauf: ${title}` : 'Treatment AI Chatverlauf',
+    title: 'Treatment AI Chatverlauf',
+    sharedBy: senderEmail => `Geteilt von ${senderEmail}`,
+    generatedOn: time => `Erstellt am ${time}`,
+    greeting: friendName => `Hallo ${friendName}!`,
+    intro: 'Jemand hat einen Treatment AI Chatverlauf mit Ihnen geteilt.',
+    personalMessage: 'Persönliche Nachricht',
+    messages: count => `Chatnachrichten (${count} insgesamt)`,
+    patient: 'Patient',
+    assistant: 'Treatment AI',
+    generatedBy: 'Diese E-Mail wurde von Treatment AI erstellt. Bei Fragen wenden Sie sich bitte an Ihre Ärztin oder Ihren Arzt.',
+    disclaimerLabel: 'Medizinischer Hinweis',
+    disclaimer: 'Dieser Chatverlauf dient nur zur Information und ersetzt keine ärztliche Beratung.',
+    privacyLabel: 'Datenschutzhinweis',
+    privacy: senderEmail => `Diese medizinischen Informationen wurden von ${senderEmail} mit Ihnen geteilt. Bitte behandeln Sie sie vertraulich.`
+  },
+  poweredBy: 'Unterstützt von unserer Global Library of Medicine™'
+}
+
+const pt: EmailStrings = {
+  otp: {
+    subject: type => ({
+      signup: 'Seu código de verificação de cadastro',
+      login: 'Seu código de verificação de login',
+      verification: 'Seu código de verificação'
+    })[type],
+    heading: 'Verificação Treatment AI',
+    intro: 'Seu código de verificação é:',
+    expiry: 'Este código expira em 10 minutos.',
+    ignore: 'Se você não solicitou este código, ignore este e-mail.'
+  },
+  scheduledResult: {
+    subject: promptTitle => `Análise de saúde agendada: ${promptTitle}`,
+    title: 'Análise de saúde agendada',
+    generatedOn: time => `Gerada em ${time}`,
+    prompt: 'Pergunta',
+    dataSources: 'Fontes de dados analisadas',
+    none: 'Nenhuma',
+    results: 'Resultados da análise de IA',
+    aboutHeading: 'Sobre esta análise',
+    aboutBody: 'Esta análise foi gerada pela Treatment AI a partir da sua pergunta agendada e dos seus dados de saúde atuais. As conclusões se baseiam nas informações disponíveis no momento da execução.',
+    important: 'Importante',
+    disclaimer: 'Esta análise é apenas informativa e não substitui a orientação médica profissional. Consulte sempre um profissional de saúde antes de tomar decisões médicas.',
+    tagline: 'Impulsionando a saúde com IA'
+  },
+  promptShare: {
+    subject: promptTitle => `Pergunta de saúde compartilhada: ${promptTitle}`,
+    title: 'Pergunta de saúde compartilhada',
+    intro: senderEmail => `<strong>${senderEmail}</strong> compartilhou com você uma pergunta de saúde agendada:`,
+    access: 'Agora você pode acessar e gerenciar esta pergunta compartilhada no seu painel da Treatment AI.',
+    cta: 'Abrir pergunta compartilhada',
+    note: 'Esta pergunta compartilhada será executada automaticamente conforme o agendamento e enviará os resultados para você e para quem a criou (se as permissões permitirem).',
+    text: (senderEmail, promptTitle, shareUrl) => `${senderEmail} compartilhou com você a pergunta agendada "${promptTitle}". Acesse em: ${shareUrl}`
+  },
+  chatShare: {
+    subject: title => title ? `Conversa da Treatment AI: ${title}` : 'Conversa da Treatment AI',
+    title: 'Conversa da Treatment AI',
+    sharedBy: senderEmail => `Compartilhada por ${senderEmail}`,
+    generatedOn: time => `Gerada em ${time}`,
+    greeting: friendName => `Olá, ${friendName}!`,
+    intro: 'Alguém compartilhou uma conversa da Treatment AI com você.',
+    personalMessage: 'Mensagem pessoal',
+    messages: count => `Mensagens da conversa (${count} no total)`,
+    patient: 'Paciente',
+    assistant: 'Treatment AI',
+    generatedBy: 'Este e-mail foi gerado pela Treatment AI. Em caso de dúvidas, procure seu profissional de saúde.',
+    disclaimerLabel: 'Aviso médico',
+    disclaimer: 'Esta conversa é apenas informativa e não substitui a orientação médica profissional.',
+    privacyLabel: 'Aviso de privacidade',
+    privacy: senderEmail => `Estas informações médicas foram compartilhadas com você por ${senderEmail}. Trate-as de forma confidencial.`
+  },
+  poweredBy: 'Com a tecnologia da nossa Global Library of Medicine™'
+}
+
+const it: EmailStrings = {
+  otp: {
+    subject: type => ({
+      signup: 'Il tuo codice di verifica per la registrazione',
+      login: "Il tuo codice di verifica per l'accesso",
+      verification: 'Il tuo codice di verifica'
+    })[type],
+    heading: 'Verifica Treatment AI',
+    intro: 'Il tuo codice di verifica è:',
+    expiry: 'Questo codice scade tra 10 minuti.',
+    ignore: 'Se non hai richiesto questo codice, ignora questa email.'
+  },
+  scheduledResult: {
+    subject: promptTitle => `Analisi della salute programmata: ${promptTitle}`,
+    title: 'Analisi della salute programmata',
+    generatedOn: time => `Generata il ${time}`,
+    prompt: 'Richiesta',
+    dataSources: 'Fonti di dati analizzate',
+    none: 'Nessuna',
+    results: "Risultati dell'analisi IA",
+    aboutHeading: 'Informazioni su questa analisi',
+    aboutBody: "Questa analisi è stata generata da Treatment AI a partire dalla tua richiesta programmata e dai tuoi dati di salute attuali. Si basa sulle informazioni disponibili al momento dell'esecuzione.",
+    important: 'Importante',
+    disclaimer: 'Questa analisi ha solo scopo informativo e non sostituisce il parere medico professionale. Rivolgiti sempre a un professionista sanitario per le decisioni mediche.',
+    tagline: "Far progredire la sanità con l'IA"
+  },
+  promptShare: {
+    subject: promptTitle => `Richiesta di salute condivisa: ${promptTitle}`,
+    title: 'Richiesta di salute condivisa',
+    intro: senderEmail => `<strong>${senderEmail}</strong> ha condiviso con te una richiesta di salute programmata:`,
+    access: 'Ora puoi consultare e gestire questa richiesta condivisa dalla tua dashboard di Treatment AI.',
+    cta: 'Apri la richiesta condivisa',
+    note: 'Questa richiesta condivisa verrà eseguita automaticamente secondo la sua pianificazione e invierà i risultati a te e a chi l\'ha creata (se le autorizzazioni lo consentono).',
+    text: (senderEmail, promptTitle, shareUrl) => `${senderEmail} ha condiviso con te la richiesta programmata "${promptTitle}". Aprila qui: ${shareUrl}`
+  },
+  chatShare: {
+    subject: title => title ? `Conversazione Treatment AI: ${title}` : 'Conversazione Treatment AI',
+    title: 'Conversazione Treatment AI',
+    sharedBy: senderEmail => `Condivisa da ${senderEmail}`,
+    generatedOn: time => `Generata il ${time}`,
+    greeting: friendName => `Ciao ${friendName}!`,
+    intro: 'Qualcuno ha condiviso con te una conversazione di Treatment AI.',
+    personalMessage: 'Messaggio personale',
+    messages: count => `Messaggi della conversazione (${count} in totale)`,
+    patient: 'Paziente',
+    assistant: 'Treatment AI',
+    generatedBy: 'Questa email è stata generata da Treatment AI. Per domande, rivolgiti al tuo medico.',
+    disclaimerLabel: 'Avvertenza medica',
+    disclaimer: 'Questa conversazione ha solo scopo informativo e non sostituisce il parere medico professionale.',
+    privacyLabel: 'Informativa sulla privacy',
+    privacy: senderEmail => `Queste informazioni mediche ti sono state condivise da ${senderEmail}. Trattale in modo riservato.`
+  },
+  poweredBy: 'Basato sulla nostra Global Library of Medicine™'
+}
+
+const EMAIL_STRINGS: Partial<Record<LanguageCode, EmailStrings>> = { en, es, fr, de, pt, it }
+
+/**
+ * Strings and date locale for an email. Accepts any value normalizeLanguage does.
+ */
+export function getEmailStrings(language?: unknown): { language: LanguageCode; locale: string; strings: EmailStrings } {
+  const requested = normalizeLanguage(language)
+  const resolved = requested && EMAIL_STRINGS[requested] ? requested : DEFAULT_LANGUAGE
+  return { language: resolved, locale: languageLocale(resolved), strings: EMAIL_STRINGS[resolved]! }
+}
@@ -0,0 +1,1189 @@
+/**
+ * Embedding Index
+ * Keeps every embedded table usable when the embedding model changes.
+ *
+ * Each embedded table ("target") has one active vector column. Every vector
+ * column has `<column>_model` and `<column>_dimensions` beside it, recording
+ * per row which model produced the embedding. When the configured model
+ * (LLM_MODEL_EMBEDDING, LLM_EMBEDDING_DIMENSIONS) no longer matches a target's
+ * active column, a migration:
+ *
+ * 1. adds a vector column sized for the new model,
+ * 2. re-embeds the rows into it in batches, saving a cursor after each batch so
+ *    a restart or a pause picks up where it stopped,
+ * 3. switches the target to the new column in one transaction once no row is
+ *    missing its new embedding.
+ *
+ * Until the switch, writers embed with both models and readers search both
+ * columns (the new one where a row has it, the old one otherwise), each with a
+ * query embedding from the matching model. The old column is kept after the
+ * switch and is no longer written.
+ *
+ * Embeddings stored before models were recorded are taken to come from the
+ * default model (text-embedding-ada-002, 1536 dimensions), which the original
+ * columns were sized for.
+ */
+
+import { DatabasePool, isUuid } from './database-pool'
+import { getLLMProvider, getEmbeddingModelConfig, EmbeddingModelConfig, DEFAULT_EMBEDDING_MODEL } from './llm-provider'
+
+export type EmbeddingTarget = 'memories' | 'sdco_documents' | 'enhanced_sdco_documents'
+
+export type EmbeddingMigrationStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled'
+
+export type EmbeddingMigrationAction = 'pause' | 'resume' | 'cancel'
+
+export interface EmbeddingColumn extends EmbeddingModelConfig {
+  column: string
+}
+
+/**
+ * Where a target's embeddings are read from and written to. `next` is set while a
+ * migration fills a new column.
+ */
+export interface EmbeddingPlan {
+  target: EmbeddingTarget
+  active: EmbeddingColumn
+  next: EmbeddingColumn | null
+  migrationId: string | null
+}
+
+/**
+ * Embeddings of the same texts, one entry per column the target uses
+ */
+export interface EmbeddedColumn {
+  column: EmbeddingColumn
+  embeddings: number[][]
+}
+
+/**
+ * SQL for comparing rows with a query text, built for the target's current plan
+ */
+export interface EmbeddingQuery {
+  // Cosine similarity to the query; NULL for rows without a usable embedding
+  similarity: string
+  // Cosine distance for ORDER BY; uses the vector index when no migration is running
+  distance: string
+  // True for rows that have a usable embedding
+  hasEmbedding: string
+}
+
+export interface EmbeddingMigration {
+  id: string
+  target: EmbeddingTarget
+  from: EmbeddingColumn
+  to: EmbeddingColumn
+  status: EmbeddingMigrationStatus
+  totalRows: number
+  embeddedRows: number
+  // 0-100
+  progress: number
+  passes: number
+  cursor: string | null
+  error: string | null
+  createdAt: Date
+  startedAt: Date | null
+  updatedAt: Date
+  completedAt: Date | null
+}
+
+export interface EmbeddingTargetStatus {
+  target: EmbeddingTarget
+  table: string
+  available: boolean
+  active: EmbeddingColumn | null
+  next: EmbeddingColumn | null
+  migrationId: string | null
+  // Whether the active column matches the configured model
+  upToDate: boolean
+  rows: number
+  embeddedRows: number
+}
+
+export interface EmbeddingIndexConfig {
+  // Start a migration on its own when the configured model changes
+  autoMigrate: boolean
+  batchSize: number
+  // Pause between batches, to stay under embedding rate limits
+  batchDelayMs: number
+  // How long a process keeps a target's plan before reading it again
+  planRefreshMs: number
+}
+
+export class EmbeddingMigrationError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'EmbeddingMigrationError'
+    this.status = status
+  }
+}
+
+interface TargetDefinition {
+  table: string
+  // Column the table was created with
+  baseColumn: string
+  // SQL for the text a row's embedding is computed from
+  text: string
+}
+
+const TARGETS: Record<EmbeddingTarget, TargetDefinition> = {
+  memories: {
+    table: 'memories',
+    baseColumn: 'embedding',
+    text: 'content'
+  },
+  sdco_documents: {
+    table: 'sdco_documents',
+    baseColumn: 'vector_embedding',
+    text: `COALESCE(NULLIF(combined_text, ''), NULLIF(TRIM(CONCAT_WS(' ', medical_term, layman_term, description)), ''))`
+  },
+  enhanced_sdco_documents: {
+    table: 'enhanced_sdco_documents',
+    baseColumn: 'embedding',
+    text: `NULLIF(enhanced_content, '')`
+  }
+}
+
+export const EMBEDDING_TARGETS = Object.keys(TARGETS) as EmbeddingTarget[]
+
+// How often the scheduler checks for model changes and unfinished migrations
+const CHECK_INTERVAL_MS = 5 * 60 * 1000
+// A pass that ends with rows still missing the new embedding starts over; new rows
+// written by instances that have not seen the migration yet are picked up that way
+const MAX_PASSES = 5
+const MAX_BATCH_ATTEMPTS = 3
+// Rows the model rejected are left out of batches for this long, then tried again
+const SKIPPED_ROW_RETRY_HOURS = 24
+// pgvector cannot index wider vectors
+const MAX_INDEXED_DIMENSIONS = 2000
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '')
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+function resolveDefaultConfig(): EmbeddingIndexConfig {
+  return {
+    autoMigrate: process.env.EMBEDDING_MIGRATION_AUTO !== 'false',
+    batchSize: readNumberEnv('EMBEDDING_MIGRATION_BATCH_SIZE', 100),
+    batchDelayMs: readNumberEnv('EMBEDDING_MIGRATION_BATCH_DELAY_MS', 200),
+    planRefreshMs: readNumberEnv('EMBEDDING_PLAN_REFRESH_MS', 30 * 1000)
+  }
+}
+
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`
+}
+
+function sameModel(a: EmbeddingModelConfig, b: EmbeddingModelConfig): boolean {
+  return a.model === b.model && a.dimensions === b.dimensions
+}
+
+function modelColumn(column: string): string {
+  return `${column}_model`
+}
+
+function dimensionsColumn(column: string): string {
+  return `${column}_dimensions`
+}
+
+/**
+ * Vector column for a model. The default model keeps the column the table was
+ * created with; others get their own, e.g. embedding_text_embedding_3_large_3072.
+ */
+function columnFor(definition: TargetDefinition, model: EmbeddingModelConfig): string {
+  if (sameModel(model, DEFAULT_EMBEDDING_MODEL)) {
+    return definition.baseColumn
+  }
+  const slug = `${model.model}_${model.dimensions}`.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+  // Leaves room for the _dimensions suffix within the 63 character identifier limit
+  return `${definition.baseColumn}_${slug}`.slice(0, 50)
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * SQL condition for rows of a target that still need an embedding in `column`,
+ * leaving out rows the model recently rejected
+ */
+function missingEmbedding(target: EmbeddingTarget, column: string): string {
+  const { table, text } = TARGETS[target]
+  return `${table}.${column} IS NULL AND ${text} IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM embedding_skipped_rows skipped
+      WHERE skipped.target = '${target}' AND skipped.column_name = '${column}'
+        AND skipped.row_id = ${table}.id::text
+        AND skipped.skipped_at > CURRENT_TIMESTAMP - INTERVAL '${SKIPPED_ROW_RETRY_HOURS} hours'
+    )`
+}
+
+export class EmbeddingIndex {
+  private config: EmbeddingIndexConfig
+  private schemaReady: Promise<void> | null = null
+  private targetsReady = new Map<EmbeddingTarget, Promise<boolean>>()
+  private plans = new Map<EmbeddingTarget, { plan: EmbeddingPlan; loadedAt: number }>()
+  private intervalId: NodeJS.Timeout | null = null
+  private activeMigrationId: string | null = null
+  private lastCheckAt: Date | null = null
+
+  constructor(config: Partial<EmbeddingIndexConfig> = {}) {
+    this.config = { ...resolveDefaultConfig(), ...config }
+  }
+
+  getConfig(): Readonly<EmbeddingIndexConfig> {
+    return this.config
+  }
+
+  async initializeSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.createSchema().catch(error => {
+        this.schemaReady = null
+        throw error
+      })
+    }
+    return this.schemaReady
+  }
+
+  private async createSchema(): Promise<void> {
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS embedding_targets (
+          target VARCHAR(50) PRIMARY KEY,
+          active_column VARCHAR(63) NOT NULL,
+          active_model VARCHAR(100) NOT NULL,
+          active_dimensions INTEGER NOT NULL,
+          migration_id UUID,
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS embedding_migrations (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          target VARCHAR(50) NOT NULL,
+          from_column VARCHAR(63) NOT NULL,
+          from_model VARCHAR(100) NOT NULL,
+          from_dimensions INTEGER NOT NULL,
+          to_column VARCHAR(63) NOT NULL,
+          to_model VARCHAR(100) NOT NULL,
+          to_dimensions INTEGER NOT NULL,
+          status VARCHAR(20) NOT NULL DEFAULT 'pending',
+          total_rows INTEGER NOT NULL DEFAULT 0,
+          embedded_rows INTEGER NOT NULL DEFAULT 0,
+          passes INTEGER NOT NULL DEFAULT 0,
+          cursor TEXT,
+          error TEXT,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          started_at TIMESTAMP WITH TIME ZONE,
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          completed_at TIMESTAMP WITH TIME ZONE
+        )
+      `)
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_embedding_migrations_target
+        ON embedding_migrations(target, created_at DESC)
+      `)
+
+      // Rows whose text the model rejected, so one bad row does not stop every later batch
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS embedding_skipped_rows (
+          target VARCHAR(50) NOT NULL,
+          column_name VARCHAR(63) NOT NULL,
+          row_id TEXT NOT NULL,
+          error TEXT,
+          skipped_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (target, column_name, row_id)
+        )
+      `)
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * Record a target on first use: add the model columns beside its original vector
+   * column and label existing embeddings with the default model. Resolves to false
+   * when the table does not exist in this database.
+   */
+  private ensureTarget(target: EmbeddingTarget): Promise<boolean> {
+    let ready = this.targetsReady.get(target)
+    if (!ready) {
+      ready = this.registerTarget(target)
+        .then(registered => {
+          // The table may be created later in this process
+          if (!registered) this.targetsReady.delete(target)
+          return registered
+        })
+        .catch(error => {
+          this.targetsReady.delete(target)
+          throw error
+        })
+      this.targetsReady.set(target, ready)
+    }
+    return ready
+  }
+
+  private async registerTarget(target: EmbeddingTarget): Promise<boolean> {
+    await this.initializeSchema()
+    const definition = TARGETS[target]
+    const { baseColumn, table } = definition
+
+    const exists = await DatabasePool.query(`
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = current_schema() AND table_name = $1 AND column_name = $2
+    `, [table, baseColumn])
+    if (exists.rows.length === 0) {
+      return false
+    }
+
+    await DatabasePool.query(`
+      ALTER TABLE ${table}
+      ADD COLUMN IF NOT EXISTS ${modelColumn(baseColumn)} VARCHAR(100),
+      ADD COLUMN IF NOT EXISTS ${dimensionsColumn(baseColumn)} INTEGER
+    `)
+    await DatabasePool.query(`
+      UPDATE ${table}
+      SET ${modelColumn(baseColumn)} = $1, ${dimensionsColumn(baseColumn)} = vector_dims(${baseColumn})
+      WHERE ${baseColumn} IS NOT NULL AND ${modelColumn(baseColumn)} IS NULL
+    `, [DEFAULT_EMBEDDING_MODEL.model])
+    await DatabasePool.query(`
+      INSERT INTO embedding_targets (target, active_column, active_model, active_dimensions)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (target) DO NOTHING
+    `, [target, baseColumn, DEFAULT_EMBEDDING_MODEL.model, DEFAULT_EMBEDDING_MODEL.dimensions])
+    return true
+  }
+
+  /**
+   * The target's columns, read again after `planRefreshMs` so every instance follows
+   * a migration's start and cutover. A table that does not exist gets its original
+   * column, so callers fail (and handle it) as they would without the index.
+   */
+  async getPlan(target: EmbeddingTarget): Promise<EmbeddingPlan> {
+    const cached = this.plans.get(target)
+    if (cached && Date.now() - cached.loadedAt < this.config.planRefreshMs) {
+      return cached.plan
+    }
+
+    if (!(await this.ensureTarget(target))) {
+      return {
+        target,
+        active: { column: TARGETS[target].baseColumn, ...DEFAULT_EMBEDDING_MODEL },
+        next: null,
+        migrationId: null
+      }
+    }
+
+    const result = await DatabasePool.query(`
+      SELECT t.*, m.to_column, m.to_model, m.to_dimensions
+      FROM embedding_targets t
+      LEFT JOIN embedding_migrations m ON m.id = t.migration_id
+      WHERE t.target = $1
+    `, [target])
+    const row = result.rows[0]
+    const plan: EmbeddingPlan = {
+      target,
+      active: { column: row.active_column, model: row.active_model, dimensions: row.active_dimensions },
+      next: row.migration_id
+        ? { column: row.to_column, model: row.to_model, dimensions: row.to_dimensions }
+        : null,
+      migrationId: row.migration_id || null
+    }
+    this.plans.set(target, { plan, loadedAt: Date.now() })
+    return plan
+  }
+
+  private async embedWith(column: EmbeddingColumn, texts: string[]): Promise<number[][]> {
+    const { embeddings } = await getLLMProvider().embed({
+      input: texts,
+      model: column.model,
+      dimensions: column.dimensions
+    })
+    if (embeddings.some(embedding => embedding.length !== column.dimensions)) {
+      throw new Error(`Embedding model ${column.model} did not return ${column.dimensions} dimensions`)
+    }
+    return embeddings
+  }
+
+  /**
+   * Embed texts for every column the target uses: the active one, and the new one
+   * while a migration runs. A migration's missing rows are filled by the job, so one
+   * model failing is tolerated as long as the other succeeds.
+   */
+  async embed(target: EmbeddingTarget, texts: string[]): Promise<EmbeddedColumn[]> {
+    const plan = await this.getPlan(target)
+    const columns = plan.next ? [plan.active, plan.next] : [plan.active]
+    const results = await Promise.allSettled(columns.map(column => this.embedWith(column, texts)))
+
+    const embedded: EmbeddedColumn[] = []
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        embedded.push({ column: columns[index], embeddings: result.value })
+      } else {
+        console.error(`❌ Error embedding ${target} with ${columns[index].model}:`, result.reason)
+      }
+    })
+    if (embedded.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason
+    }
+    return embedded
+  }
+
+  /**
+   * Column names and placeholders for storing the `index`-th embedding of each column,
+   * with its model and size. Values are pushed onto `params`.
+   */
+  columnValues(embedded: EmbeddedColumn[], index: number, params: any[]): { columns: string[]; placeholders: string[] } {
+    const columns: string[] = []
+    const placeholders: string[] = []
+    for (const { column, embeddings } of embedded) {
+      params.push(toVectorLiteral(embeddings[index]), column.model, column.dimensions)
+      columns.push(column.column, modelColumn(column.column), dimensionsColumn(column.column))
+      placeholders.push(`$${params.length - 2}::vector`, `$${params.length - 1}`, `$${params.length}`)
+    }
+    return { columns, placeholders }
+  }
+
+  /**
+   * `SET` assignments for storing the `index`-th embedding of each column
+   */
+  assignments(embedded: EmbeddedColumn[], index: number, params: any[]): string {
+    const { columns, placeholders } = this.columnValues(embedded, index, params)
+    return columns.map((column, position) => `${column} = ${placeholders[position]}`).join(', ')
+  }
+
+  /**
+   * Embed a query text and build the similarity SQL for it. Values are pushed onto
+   * `params`; `alias` qualifies the vector columns.
+   */
+  async buildQuery(target: EmbeddingTarget, text: string, params: any[], alias: string = ''): Promise<EmbeddingQuery> {
+    return this.queryFor(await this.embed(target, [text]), 0, params, alias)
+  }
+
+  /**
+   * Similarity SQL for the `index`-th text of an `embed` result. While a migration
+   * runs, rows that already have the new embedding are compared with the new model's
+   * query embedding and the others with the old model's; that comparison cannot use
+   * the vector index.
+   */
+  queryFor(embedded: EmbeddedColumn[], index: number, params: any[], alias: string = ''): EmbeddingQuery {
+    const prefix = alias ? `${alias}.` : ''
+    const columns = embedded.map(({ column, embeddings }) => {
+      params.push(toVectorLiteral(embeddings[index]))
+      const name = `${prefix}${column.column}`
+      return { name, distance: `(${name} <=> $${params.length}::vector)` }
+    })
+
+    if (columns.length === 1) {
+      const [{ name, distance }] = columns
+      return { similarity: `(1 - ${distance})`, distance, hasEmbedding: `${name} IS NOT NULL` }
+    }
+
+    const [active, next] = columns
+    const distance = `(CASE WHEN ${next.name} IS NOT NULL THEN ${next.distance} ELSE ${active.distance} END)`
+    return {
+      similarity: `(1 - ${distance})`,
+      distance,
+      hasEmbedding: `(${next.name} IS NOT NULL OR ${active.name} IS NOT NULL)`
+    }
+  }
+
+  /**
+   * Embed rows that have no embedding in the active column (and, during a migration,
+   * leave the new column to the job). Returns how many rows were embedded. Rows the
+   * model rejects are set aside and tried again after SKIPPED_ROW_RETRY_HOURS.
+   */
+  async backfill(target: EmbeddingTarget, maxRows: number = 5000): Promise<number> {
+    if (!(await this.ensureTarget(target))) {
+      return 0
+    }
+    const plan = await this.getPlan(target)
+    const idType = await this.idType(target)
+    let backfilled = 0
+    let processed = 0
+
+    while (processed < maxRows) {
+      try {
+        const batch = await this.fillBatch(target, plan.active, idType, null)
+        if (batch.count === 0) break
+        processed += batch.count
+        backfilled += batch.embedded
+      } catch (error) {
+        console.error(`❌ Error backfilling ${target} embeddings:`, error)
+        break
+      }
+    }
+
+    if (backfilled > 0) {
+      console.log(`✅ Embedded ${backfilled} ${target} rows`)
+    }
+    return backfilled
+  }
+
+  private async idType(target: EmbeddingTarget): Promise<string> {
+    const result = await DatabasePool.query(`
+      SELECT format_type(atttypid, atttypmod) AS type
+      FROM pg_attribute
+      WHERE attrelid = $1::regclass AND attname = 'id'
+    `, [TARGETS[target].table])
+    return result.rows[0]?.type || 'text'
+  }
+
+  /**
+   * Embed one batch of rows missing `column`, after `cursor` when given, in id order.
+   * `count` is how many rows the batch read, `embedded` how many of them got an embedding.
+   */
+  private async fillBatch(
+    target: EmbeddingTarget,
+    column: EmbeddingColumn,
+    idType: string,
+    cursor: string | null
+  ): Promise<{ count: number; embedded: number; lastId: string | null }> {
+    const { table, text } = TARGETS[target]
+    const params: any[] = []
+    let after = ''
+    if (cursor !== null) {
+      params.push(cursor)
+      after = `AND id > $1::${idType}`
+    }
+
+    const batch = await DatabasePool.query(`
+      SELECT id::text AS id, ${text} AS text
+      FROM ${table}
+      WHERE ${missingEmbedding(target, column.column)} ${after}
+      ORDER BY id
+      LIMIT ${Math.max(1, Math.floor(this.config.batchSize))}
+    `, params)
+    if (batch.rows.length === 0) {
+      return { count: 0, embedded: 0, lastId: null }
+    }
+
+    const ids: string[] = batch.rows.map(row => row.id)
+    const texts = batch.rows.map(row => String(row.text).replace(/\n/g, ' ').trim())
+    let embeddings: (number[] | null)[] | null = null
+    for (let attempt = 1; !embeddings; attempt++) {
+      try {
+        embeddings = await this.embedWith(column, texts)
+      } catch (error) {
+        if (attempt < MAX_BATCH_ATTEMPTS) {
+          await sleep(1000 * 2 ** attempt)
+          continue
+        }
+        embeddings = await this.embedEach(target, column, ids, texts)
+        // Nothing embedding on its own points at the provider rather than the texts
+        if (embeddings.every(embedding => embedding === null)) throw error
+      }
+    }
+
+    const embeddedIds = ids.filter((_, index) => embeddings![index] !== null)
+    const vectors = embeddings.filter((embedding): embedding is number[] => embedding !== null)
+    await DatabasePool.query(`
+      UPDATE ${table}
+      SET ${column.column} = batch.embedding::vector,
+          ${modelColumn(column.column)} = $3,
+          ${dimensionsColumn(column.column)} = $4
+      FROM unnest($1::${idType}[], $2::text[]) AS batch(id, embedding)
+      WHERE ${table}.id = batch.id
+    `, [embeddedIds, vectors.map(toVectorLiteral), column.model, column.dimensions])
+
+    return { count: ids.length, embedded: embeddedIds.length, lastId: ids[ids.length - 1] }
+  }
+
+  /**
+   * Embed texts one at a time after their batch failed. Rows the model rejects are
+   * recorded in embedding_skipped_rows and come back as null.
+   */
+  private async embedEach(target: EmbeddingTarget, column: EmbeddingColumn, ids: string[], texts: string[]): Promise<(number[] | null)[]> {
+    const embeddings: (number[] | null)[] = []
+    const skipped: { id: string; error: string }[] = []
+    for (let index = 0; index < texts.length; index++) {
+      try {
+        embeddings.push((await this.embedWith(column, [texts[index]]))[0])
+      } catch (error) {
+        embeddings.push(null)
+        skipped.push({ id: ids[index], error: error instanceof Error ? error.message : 'Unknown error' })
+      }
+    }
+
+    if (skipped.length > 0 && skipped.length < texts.length) {
+      await DatabasePool.query(`
+        INSERT INTO embedding_skipped_rows (target, column_name, row_id, error)
+        SELECT $1, $2, skipped.id, skipped.error
+        FROM unnest($3::text[], $4::text[]) AS skipped(id, error)
+        ON CONFLICT (target, column_name, row_id) DO UPDATE SET error = EXCLUDED.error, skipped_at = CURRENT_TIMESTAMP
+      `, [target, column.column, skipped.map(row => row.id), skipped.map(row => row.error)])
+      console.log(`⚠️ Skipped ${skipped.length} ${target} rows that ${column.model} could not embed`)
+    }
+    return embeddings
+  }
+
+  /**
+   * Check every 5 minutes whether the configured model changed and whether a
+   * migration is waiting to be run or resumed
+   */
+  start(): void {
+    if (this.intervalId) {
+      console.log('⚠️ Embedding migration scheduler is already running')
+      return
+    }
+
+    console.log('🚀 Starting embedding migration scheduler')
+    this.intervalId = setInterval(() => this.runIfDue(), CHECK_INTERVAL_MS)
+    this.runIfDue()
+  }
+
+  stop(): void {
+    if (!this.intervalId) {
+      console.log('⚠️ Embedding migration scheduler is not running')
+      return
+    }
+
+    console.log('🛑 Stopping embedding migration scheduler')
+    clearInterval(this.intervalId)
+    this.intervalId = null
+  }
+
+  getStatus() {
+    let configured: EmbeddingModelConfig | null = null
+    let configError: string | null = null
+    try {
+      configured = getEmbeddingModelConfig()
+    } catch (error) {
+      configError = error instanceof Error ? error.message : 'Unknown error'
+    }
+    return {
+      configured,
+      configError,
+      autoMigrate: this.config.autoMigrate,
+      schedulerRunning: this.intervalId !== null,
+      activeMigrationId: this.activeMigrationId,
+      lastCheckAt: this.lastCheckAt
+    }
+  }
+
+  private async runIfDue(): Promise<void> {
+    this.lastCheckAt = new Date()
+    if (this.activeMigrationId) return
+
+    try {
+      if (this.config.autoMigrate) {
+        await this.createMigrations({ auto: true })
+      }
+      await this.runPending()
+    } catch (error) {
+      if (error instanceof EmbeddingMigrationError && error.status === 409) {
+        console.log(`⏭️ Skipping embedding migration check: ${error.message}`)
+      } else {
+        console.error('❌ Error in embedding migration check:', error)
+      }
+    }
+
+    await this.backfillAll().catch(error => console.error('❌ Error backfilling embeddings:', error))
+  }
+
+  /**
+   * Embed rows still missing from the active column of every target, e.g. memories
+   * moved over by the legacy migration or written while the provider was down.
+   * One instance at a time does this.
+   */
+  private async backfillAll(): Promise<void> {
+    const lockClient = await DatabasePool.getClient()
+    try {
+      const locked = await lockClient.query(`SELECT pg_try_advisory_lock(hashtext('embedding_backfill')) AS locked`)
+      if (!locked.rows[0].locked) return
+
+      try {
+        for (const target of EMBEDDING_TARGETS) {
+          const backfilled = await this.backfill(target)
+          if (backfilled > 0) {
+            console.log(`🧬 Backfilled ${backfilled} ${target} embeddings`)
+          }
+        }
+      } finally {
+        await lockClient.query(`SELECT pg_advisory_unlock(hashtext('embedding_backfill'))`).catch(() => undefined)
+      }
+    } finally {
+      lockClient.release()
+    }
+  }
+
+  /**
+   * Create a migration to the configured model for each target that is not on it
+   * and has none running. With `auto`, a target whose last migration to that model
+   * was cancelled is left alone.
+   */
+  async createMigrations(options: { target?: EmbeddingTarget; auto?: boolean } = {}): Promise<EmbeddingMigration[]> {
+    await this.initializeSchema()
+    const configured = getEmbeddingModelConfig()
+    const created: EmbeddingMigration[] = []
+
+    for (const target of options.target ? [options.target] : EMBEDDING_TARGETS) {
+      if (!(await this.ensureTarget(target))) continue
+      const state = await DatabasePool.query('SELECT * FROM embedding_targets WHERE target = $1', [target])
+      const row = state.rows[0]
+      if (row.migration_id) continue
+      if (sameModel({ model: row.active_model, dimensions: row.active_dimensions }, configured)) continue
+
+      if (options.auto) {
+        const last = await DatabasePool.query(`
+          SELECT status FROM embedding_migrations
+          WHERE target = $1 AND to_model = $2 AND to_dimensions = $3
+          ORDER BY created_at DESC
+          LIMIT 1
+        `, [target, configured.model, configured.dimensions])
+        if (last.rows[0]?.status === 'cancelled') continue
+      }
+
+      created.push(await this.createMigration(target, { column: row.active_column, model: row.active_model, dimensions: row.active_dimensions }, configured))
+    }
+    return created
+  }
+
+  private async createMigration(target: EmbeddingTarget, from: EmbeddingColumn, model: EmbeddingModelConfig): Promise<EmbeddingMigration> {
+    const { table } = TARGETS[target]
+    const to: EmbeddingColumn = { column: columnFor(TARGETS[target], model), ...model }
+
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query('BEGIN')
+      // Serialized with dropping a cancelled migration's column, which may be this one
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`embedding_column:${table}`])
+      await client.query(`
+        ALTER TABLE ${table}
+        ADD COLUMN IF NOT EXISTS ${to.column} vector(${to.dimensions}),
+        ADD COLUMN IF NOT EXISTS ${modelColumn(to.column)} VARCHAR(100),
+        ADD COLUMN IF NOT EXISTS ${dimensionsColumn(to.column)} INTEGER
+      `)
+      // A column left from an earlier model switch is stale; re-embed it from scratch
+      await client.query(`
+        UPDATE ${table}
+        SET ${to.column} = NULL, ${modelColumn(to.column)} = NULL, ${dimensionsColumn(to.column)} = NULL
+        WHERE ${to.column} IS NOT NULL
+      `)
+      await client.query('DELETE FROM embedding_skipped_rows WHERE target = $1 AND column_name = $2', [target, to.column])
+
+      const result = await client.query(`
+        INSERT INTO embedding_migrations (
+          target, from_column, from_model, from_dimensions, to_column, to_model, to_dimensions, total_rows
+        )
+        SELECT $1, $2, $3, $4, $5, $6, $7, COUNT(*) FILTER (WHERE ${TARGETS[target].text} IS NOT NULL)
+        FROM ${table}
+        RETURNING *
+      `, [target, from.column, from.model, from.dimensions, to.column, to.model, to.dimensions])
+      const updated = await client.query(`
+        UPDATE embedding_targets SET migration_id = $2, updated_at = CURRENT_TIMESTAMP
+        WHERE target = $1 AND migration_id IS NULL
+      `, [target, result.rows[0].id])
+      if (updated.rowCount === 0) {
+        throw new EmbeddingMigrationError(`A migration is already open for ${target}`, 409)
+      }
+      await client.query('COMMIT')
+
+      this.plans.delete(target)
+      console.log(`🧬 Embedding migration for ${target}: ${from.model} (${from.dimensions}) → ${to.model} (${to.dimensions})`)
+      return this.mapRowToMigration(result.rows[0])
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * Create migrations where needed and run every pending one in the background
+   */
+  async startMigrations(options: { target?: EmbeddingTarget } = {}): Promise<EmbeddingMigration[]> {
+    if (this.activeMigrationId) {
+      throw new EmbeddingMigrationError('An embedding migration is already running', 409)
+    }
+    await this.createMigrations(options)
+    const pending = await this.listMigrations({ statuses: ['pending', 'running'], target: options.target })
+    this.runInBackground()
+    return pending.migrations
+  }
+
+  private runInBackground(): void {
+    // Failures are recorded on the migration; a busy lock means another instance runs it
+    this.runPending().catch(error => {
+      if (error instanceof EmbeddingMigrationError) {
+        console.log(`⏭️ Embedding migrations not started here: ${error.message}`)
+        return
+      }
+      console.error('❌ Error running embedding migrations:', error)
+    })
+  }
+
+  /**
+   * Run pending migrations one after another. 'running' ones are resumed, since a
+   * migration only stays 'running' when its process stopped mid-way.
+   */
+  private async runPending(): Promise<void> {
+    if (this.activeMigrationId) return
+
+    // One job at a time across instances; the lock is held by this client until it ends
+    const lockClient = await DatabasePool.getClient()
+    try {
+      const lock = await lockClient.query(`SELECT pg_try_advisory_lock(hashtext('embedding_migration')) AS locked`)
+      if (!lock.rows[0]?.locked) {
+        throw new EmbeddingMigrationError('An embedding migration is running on another instance', 409)
+      }
+
+      try {
+        for (;;) {
+          const next = await DatabasePool.query(`
+            SELECT * FROM embedding_migrations
+            WHERE status IN ('pending', 'running')
+            ORDER BY created_at
+            LIMIT 1
+          `)
+          if (next.rows.length === 0) break
+          this.activeMigrationId = next.rows[0].id
+          const migration = await this.runMigration(this.mapRowToMigration(next.rows[0]))
+          if (migration.status === 'running') break
+        }
+      } finally {
+        this.activeMigrationId = null
+        await lockClient.query(`SELECT pg_advisory_unlock(hashtext('embedding_migration'))`).catch(() => undefined)
+      }
+    } finally {
+      lockClient.release()
+    }
+  }
+
+  private async runMigration(migration: EmbeddingMigration): Promise<EmbeddingMigration> {
+    const { target, to } = migration
+    const { table } = TARGETS[target]
+    console.log(`🧬 Embedding migration ${migration.id} (${target}) ${migration.cursor ? 'resumed' : 'started'}`)
+
+    try {
+      await DatabasePool.query(`
+        UPDATE embedding_migrations
+        SET status = 'running', error = NULL, started_at = COALESCE(started_at, CURRENT_TIMESTAMP), updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [migration.id])
+      const idType = await this.idType(target)
+      let cursor = migration.cursor
+      let passes = migration.passes
+
+      while (passes < MAX_PASSES) {
+        for (;;) {
+          const status = await DatabasePool.query('SELECT status FROM embedding_migrations WHERE id = $1', [migration.id])
+          if (status.rows[0]?.status !== 'running') {
+            console.log(`⏸️ Embedding migration ${migration.id} stopped (${status.rows[0]?.status})`)
+            return this.getMigration(migration.id)
+          }
+
+          const batch = await this.fillBatch(target, to, idType, cursor)
+          if (batch.count === 0) break
+
+          cursor = batch.lastId
+          await DatabasePool.query(`
+            UPDATE embedding_migrations
+            SET cursor = $2, embedded_rows = embedded_rows + $3, updated_at = CURRENT_TIMESTAMP
+            WHERE id = $1
+          `, [migration.id, cursor, batch.embedded])
+          if (this.config.batchDelayMs > 0) {
+            await sleep(this.config.batchDelayMs)
+          }
+        }
+
+        passes++
+        cursor = null
+        await DatabasePool.query(`
+          UPDATE embedding_migrations SET cursor = NULL, passes = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1
+        `, [migration.id, passes])
+
+        // Instances keep an old plan for up to planRefreshMs; wait until they all write both columns
+        const startedAt = (await this.getMigration(migration.id)).startedAt
+        const settleMs = this.config.planRefreshMs * 2 - (Date.now() - new Date(startedAt || Date.now()).getTime())
+        if (settleMs > 0) {
+          await sleep(settleMs)
+        }
+
+        if (await this.cutover(migration)) {
+          await this.createVectorIndex(table, to)
+          return this.getMigration(migration.id)
+        }
+      }
+
+      const remaining = await DatabasePool.query(`
+        SELECT COUNT(*)::int AS count FROM ${table} WHERE ${missingEmbedding(target, to.column)}
+      `)
+      throw new Error(`${remaining.rows[0]?.count ?? 0} rows are still missing the new embedding after ${MAX_PASSES} passes`)
+    } catch (error) {
+      console.error(`❌ Embedding migration ${migration.id} failed:`, error)
+      await DatabasePool.query(`
+        UPDATE embedding_migrations SET status = 'failed', error = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1
+      `, [migration.id, error instanceof Error ? error.message : 'Unknown error'])
+      return this.getMigration(migration.id)
+    }
+  }
+
+  /**
+   * Switch the target to the new column if no row is missing its new embedding, apart
+   * from rows the new model rejected. Writes to the table wait while the check and the
+   * switch run; reads carry on.
+   */
+  private async cutover(migration: EmbeddingMigration): Promise<boolean> {
+    const { target, to } = migration
+    const { table } = TARGETS[target]
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query('BEGIN')
+      await client.query(`LOCK TABLE ${table} IN SHARE MODE`)
+
+      const remaining = await client.query(`
+        SELECT COUNT(*)::int AS count FROM ${table} WHERE ${missingEmbedding(target, to.column)}
+      `)
+      if (remaining.rows[0].count > 0) {
+        await client.query('ROLLBACK')
+        console.log(`🔁 Embedding migration ${migration.id}: ${remaining.rows[0].count} rows arrived during the pass, running another`)
+        return false
+      }
+
+      await client.query(`
+        UPDATE embedding_targets
+        SET active_column = $2, active_model = $3, active_dimensions = $4, migration_id = NULL, updated_at = CURRENT_TIMESTAMP
+        WHERE target = $1
+      `, [target, to.column, to.model, to.dimensions])
+      await client.query(`
+        UPDATE embedding_migrations
+        SET status = 'completed', embedded_rows = total_rows, completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [migration.id])
+      await client.query('COMMIT')
+
+      this.plans.delete(target)
+      console.log(`✅ Embedding migration ${migration.id}: ${target} now reads ${to.column} (${to.model})`)
+      return true
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  private async createVectorIndex(table: string, column: EmbeddingColumn): Promise<void> {
+    if (column.dimensions > MAX_INDEXED_DIMENSIONS) {
+      console.log(`⚠️ ${table}.${column.column} has ${column.dimensions} dimensions; pgvector cannot index it, searches will scan`)
+      return
+    }
+    const indexName = `idx_${table}_${column.column}`.slice(0, 63)
+    try {
+      await DatabasePool.query(`
+        CREATE INDEX CONCURRENTLY IF NOT EXISTS ${indexName}
+        ON ${table} USING hnsw (${column.column} vector_cosine_ops)
+      `)
+    } catch (error) {
+      console.error(`❌ Error indexing ${table}.${column.column}:`, error)
+    }
+  }
+
+  /**
+   * Pause (stop after the current batch, resumable), resume, or cancel a migration.
+   * Cancelling leaves the target on its current column and drops the new one.
+   */
+  async updateMigration(migrationId: string, action: EmbeddingMigrationAction): Promise<EmbeddingMigration> {
+    const migration = await this.getMigration(migrationId)
+    const allowed: Record<EmbeddingMigrationAction, EmbeddingMigrationStatus[]> = {
+      pause: ['pending', 'running'],
+      resume: ['paused', 'failed'],
+      cancel: ['pending', 'running', 'paused', 'failed']
+    }
+    if (!allowed[action]) {
+      throw new EmbeddingMigrationError(`Unknown action: ${action}`)
+    }
+    if (!allowed[action].includes(migration.status)) {
+      throw new EmbeddingMigrationError(`Cannot ${action} a ${migration.status} migration`, 409)
+    }
+
+    if (action === 'pause') {
+      await DatabasePool.query(`UPDATE embedding_migrations SET status = 'paused', updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [migrationId])
+    } else if (action === 'resume') {
+      await DatabasePool.query(`UPDATE embedding_migrations SET status = 'pending', error = NULL, passes = 0, updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [migrationId])
+      this.runInBackground()
+    } else {
+      const client = await DatabasePool.getClient()
+      try {
+        await client.query('BEGIN')
+        await client.query(`UPDATE embedding_migrations SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [migrationId])
+        await client.query('UPDATE embedding_targets SET migration_id = NULL, updated_at = CURRENT_TIMESTAMP WHERE target = $1 AND migration_id = $2', [migration.target, migrationId])
+        await client.query('COMMIT')
+      } catch (error) {
+        await client.query('ROLLBACK')
+        throw error
+      } finally {
+        client.release()
+      }
+      this.plans.delete(migration.target)
+
+      // Writers on other instances may still fill it until their plan refreshes
+      if (migration.to.column !== TARGETS[migration.target].baseColumn) {
+        setTimeout(() => {
+          this.dropCancelledColumn(migration)
+            .catch(error => console.error('❌ Error dropping cancelled embedding column:', error))
+        }, this.config.planRefreshMs * 2).unref()
+      }
+    }
+
+    return this.getMigration(migrationId)
+  }
+
+  /**
+   * Drop the column a cancelled migration was filling, unless a newer migration to
+   * the same model reuses it or the target switched to it in the meantime
+   */
+  private async dropCancelledColumn(migration: EmbeddingMigration): Promise<void> {
+    const { table } = TARGETS[migration.target]
+    const column = migration.to.column
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query('BEGIN')
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`embedding_column:${table}`])
+      const inUse = await client.query(`
+        SELECT 1 FROM embedding_migrations
+        WHERE target = $1 AND to_column = $2 AND status IN ('pending', 'running', 'paused', 'failed')
+        UNION ALL
+        SELECT 1 FROM embedding_targets WHERE target = $1 AND active_column = $2
+        LIMIT 1
+      `, [migration.target, column])
+      if (inUse.rows.length > 0) {
+        await client.query('ROLLBACK')
+        console.log(`⏭️ Keeping ${table}.${column}: it is used again since migration ${migration.id} was cancelled`)
+        return
+      }
+
+      await client.query(`
+        ALTER TABLE ${table}
+        DROP COLUMN IF EXISTS ${column},
+        DROP COLUMN IF EXISTS ${modelColumn(column)},
+        DROP COLUMN IF EXISTS ${dimensionsColumn(column)}
+      `)
+      await client.query('DELETE FROM embedding_skipped_rows WHERE target = $1 AND column_name = $2', [migration.target, column])
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  async getMigration(migrationId: string): Promise<EmbeddingMigration> {
+    await this.initializeSchema()
+    const result = isUuid(migrationId)
+      ? await DatabasePool.query('SELECT * FROM embedding_migrations WHERE id = $1', [migrationId])
+      : { rows: [] }
+    if (result.rows.length === 0) {
+      throw new EmbeddingMigrationError('Embedding migration not found', 404)
+    }
+    return this.mapRowToMigration(result.rows[0])
+  }
+
+  async listMigrations(filters: {
+    target?: EmbeddingTarget
+    statuses?: EmbeddingMigrationStatus[]
+    limit?: number
+    offset?: number
+  } = {}): Promise<{ migrations: EmbeddingMigration[]; total: number }> {
+    await this.initializeSchema()
+    const conditions: string[] = []
+    const params: any[] = []
+
+    if (filters.target) {
+      params.push(filters.target)
+      conditions.push(`target = $${params.length}`)
+    }
+    if (filters.statuses && filters.statuses.length > 0) {
+      params.push(filters.statuses)
+      conditions.push(`status = ANY($${params.length})`)
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const countResult = await DatabasePool.query(`SELECT COUNT(*)::int AS total FROM embedding_migrations ${where}`, params)
+    const result = await DatabasePool.query(`
+      SELECT * FROM embedding_migrations
+      ${where}
+      ORDER BY created_at DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+    `, [...params, filters.limit ?? 20, filters.offset ?? 0])
+
+    return {
+      migrations: result.rows.map(row => this.mapRowToMigration(row)),
+      total: countResult.rows[0]?.total ?? 0
+    }
+  }
+
+  /**
+   * Each target's columns and how many of its rows are embedded in the active column
+   */
+  async getTargetStatuses(): Promise<EmbeddingTargetStatus[]> {
+    let configured: EmbeddingModelConfig | null = null
+    try {
+      configured = getEmbeddingModelConfig()
+    } catch {
+      // Reported by getStatus
+    }
+
+    const statuses: EmbeddingTargetStatus[] = []
+    for (const target of EMBEDDING_TARGETS) {
+      const { table, text } = TARGETS[target]
+      if (!(await this.ensureTarget(target))) {
+        statuses.push({ target, table, available: false, active: null, next: null, migrationId: null, upToDate: false, rows: 0, embeddedRows: 0 })
+        continue
+      }
+
+      this.plans.delete(target)
+      const plan = await this.getPlan(target)
+      const counts = await DatabasePool.query(`
+        SELECT COUNT(*) FILTER (WHERE ${text} IS NOT NULL)::int AS rows,
+          COUNT(${plan.active.column})::int AS embedded
+        FROM ${table}
+      `)
+      statuses.push({
+        target,
+        table,
+        available: true,
+        active: plan.active,
+        next: plan.next,
+        migrationId: plan.migrationId,
+        upToDate: configured !== null && sameModel(plan.active, configured),
+        rows: counts.rows[0]?.rows ?? 0,
+        embeddedRows: counts.rows[0]?.embedded ?? 0
+      })
+    }
+    return statuses
+  }
+
+  private mapRowToMigration(row: any): EmbeddingMigration {
+    const totalRows = row.total_rows || 0
+    const embeddedRows = Math.min(row.embedded_rows || 0, totalRows)
+    return {
+      id: row.id,
+      target: row.target,
+      from: { column: row.from_column, model: row.from_model, dimensions: row.from_dimensions },
+      to: { column: row.to_column, model: row.to_model, dimensions: row.to_dimensions },
+      status: row.status,
+      totalRows,
+      embeddedRows,
+      progress: row.status === 'completed' ? 100 : totalRows > 0 ? Math.round((embeddedRows / totalRows) * 1000) / 10 : 0,
+      passes: row.passes || 0,
+      cursor: row.cursor || null,
+      error: row.error || null,
+      createdAt: row.created_at,
+      startedAt: row.started_at || null,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at || null
+    }
+  }
+}
+
+export const embeddingIndex = new EmbeddingIndex()
@@ -1,5 +1,8 @@
 import { Pool } from 'pg'
-import { OpenAI } from 'openai'
+import { getLLMProvider } from './llm-provider'
+import { embeddingIndex, EmbeddedColumn } from './embedding-index'
+import { hybridSearch, HybridSearchError, HybridSearchResult, HybridSearchExplanation, HybridSearchWeights } from './hybrid-search'
+import { SourceChunk, excerptText } from './citations'
 
 export interface EnhancedSDCODocument {
   id: string
@@ -8,7 +11,8 @@ export interface EnhancedSDCODocument {
   layman_term: string
   category: string
   enhanced_content: string
-  embedding: number[]
+  // Not returned by searches
+  embedding?: number[]
   synonyms: string[]
   related_terms: string[]
   severity_level: string
@@ -20,21 +24,17 @@ export interface SearchResult {
   document: EnhancedSDCODocument
   similarity: number
   relevance_score: number
+  explanation?: HybridSearchExplanation
 }
 
 export class EnhancedVectorSearch {
   private pool: Pool
-  private openai: OpenAI
 
   constructor(connectionString: string) {
     this.pool = new Pool({
       connectionString,
       ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
     })
-    
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    })
   }
 
   async initializeEnhancedSDCOStorage(): Promise<void> {
@@ -49,6 +49,8 @@ export class EnhancedVectorSearch {
         category VARCHAR(200),
         enhanced_content TEXT,
         embedding vector(1536),
+        embedding_model VARCHAR(100),
+        embedding_dimensions INTEGER,
         synonyms TEXT[],
         related_terms TEXT[],
         severity_level VARCHAR(50),
@@ -74,7 +76,7 @@ export class EnhancedVectorSearch {
       
       for (const sdco of sdcoData) {
         const enhancedContent = await this.generateEnhancedContent(sdco)
-        const embedding = await this.generateEmbedding(enhancedContent)
+        const embedded = await this.generateEmbeddings(enhancedContent)
         
         await this.storeEnhancedDocument({
           sdco_id: sdco.id,
@@ -82,12 +84,11 @@ export class EnhancedVectorSearch {
           layman_term: sdco.layman_term,
           category: sdco.category,
           enhanced_content: enhancedContent,
-          embedding,
           synonyms: sdco.synonyms || [],
           related_terms: sdco.related_terms || [],
           severity_level: sdco.severity_level || 'unknown',
           body_system: sdco.body_system || 'general'
-        })
+        }, embedded)
       }
     } catch (error) {
       console.error('Error populating enhanced SDCO documents:', error)
@@ -100,52 +101,35 @@ export class EnhancedVectorSearch {
     return []
   }
 
+  /**
+   * Hybrid full-text and semantic search, optionally filtered by body system and
+   * content type (category)
+   */
   async searchSDCODocuments(
     query: string,
     limit: number = 5,
     body_system?: string,
-    content_types?: string[]
+    content_types?: string[],
+    weights?: Partial<HybridSearchWeights>
   ): Promise<SearchResult[]> {
     try {
-      const queryEmbedding = await this.generateEmbedding(query)
-      
-      let whereClause = ''
-      const params: any[] = [queryEmbedding, limit]
-      
-      if (body_system) {
-        whereClause += ' AND body_system = $' + (params.length + 1)
-        params.push(body_system)
-      }
-      
-      const searchQuery = `
-        SELECT *, embedding <=> $1 as distance
-        FROM enhanced_sdco_documents
-        WHERE 1=1 ${whereClause}
-        ORDER BY embedding <=> $1
-        LIMIT $2
-      `
-      
-      const result = await this.pool.query(searchQuery, params)
+      const { results } = await hybridSearch.search({
+        corpus: 'enhanced_sdco_documents',
+        query,
+        limit,
+        bodySystems: body_system ? [body_system] : undefined,
+        contentTypes: content_types,
+        weights
+      })
       
-      return result.rows.map(row => ({
-        document: {
-          id: row.id,
-          sdco_id: row.sdco_id,
-          medical_term: row.medical_term,
-          layman_term: row.layman_term,
-          category: row.category,
-          enhanced_content: row.enhanced_content,
-          embedding: row.embedding,
-          synonyms: row.synonyms || [],
-          related_terms: row.related_terms || [],
-          severity_level: row.severity_level,
-          body_system: row.body_system,
-          last_updated: row.last_updated
-        },
-        similarity: 1 - row.distance,
-        relevance_score: this.calculateRelevanceScore(1 - row.distance, row)
-      }))
+      return results.map(result => {
+        const searchResult = this.mapHybridResult(result)
+        searchResult.relevance_score = this.calculateRelevanceScore(result.score, searchResult.document)
+        return searchResult
+      })
     } catch (error) {
+      // Invalid weights or filters are the caller's to report
+      if (error instanceof HybridSearchError && error.status === 400) throw error
       console.error('Error in searchSDCODocuments:', error)
       return []
     }
@@ -157,32 +141,60 @@ export class EnhancedVectorSearch {
     maxTokens: number = 2000
   ): Promise<string> {
     try {
-      const searchResults = await this.searchSDCODocuments(query, 5)
-      
-      if (searchResults.length === 0) {
-        return 'No relevant medical information found.'
-      }
-      
-      let contextInfo = `Relevant medical information for "${query}":\n\n`
-      let tokenCount = 0
-      
-      for (const result of searchResults) {
-        const doc = result.document
-        const snippet = `${doc.medical_term} (${doc.layman_term}): ${doc.enhanced_content || doc.category}\n`
-        
-        if (tokenCount + snippet.length > maxTokens) break
-        
-        contextInfo += snippet
-        tokenCount += snippet.length
-      }
-      
-      return contextInfo
+      const sources = await this.getContextualSDCOSources(query, maxTokens)
+      return this.formatContextualInformation(query, sources)
     } catch (error) {
       console.error('Error in getContextualSDCOInformation:', error)
       return 'Error retrieving medical context information.'
     }
   }
 
+  formatContextualInformation(query: string, sources: SourceChunk[]): string {
+    if (sources.length === 0) {
+      return 'No relevant medical information found.'
+    }
+
+    let contextInfo = `Relevant medical information for "${query}":\n\n`
+    for (const source of sources) {
+      contextInfo += `${source.displayName} (${source.laymanName}): ${source.content}\n`
+    }
+
+    return contextInfo
+  }
+
+  /**
+   * The same context as getContextualSDCOInformation, one chunk per document with the
+   * SDCO id, document id and category it came from, so answers can cite it
+   */
+  async getContextualSDCOSources(query: string, maxTokens: number = 2000): Promise<SourceChunk[]> {
+    const searchResults = await this.searchSDCODocuments(query, 5)
+    const sources: SourceChunk[] = []
+    let tokenCount = 0
+
+    for (const result of searchResults) {
+      const doc = result.document
+      const content = doc.enhanced_content || doc.category || ''
+      const snippetLength = doc.medical_term.length + (doc.layman_term || '').length + content.length + 5
+
+      if (tokenCount + snippetLength > maxTokens) break
+
+      sources.push({
+        kind: 'sdco',
+        sdcoId: doc.sdco_id,
+        documentId: String(doc.id),
+        contentType: doc.category || null,
+        displayName: doc.medical_term,
+        laymanName: doc.layman_term || null,
+        excerpt: excerptText(content),
+        content,
+        similarity: result.similarity
+      })
+      tokenCount += snippetLength
+    }
+
+    return sources
+  }
+
   private calculateRelevanceScore(similarity: number, row: any): number {
     // Base relevance on similarity score with some adjustments
     let score = similarity
@@ -196,8 +208,8 @@ export class EnhancedVectorSearch {
 
   private async generateEnhancedContent(sdco: any): Promise<string> {
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o',
+      const response = await getLLMProvider().chat({
+        task: 'analysis',
         messages: [{
           role: 'system',
           content: 'Generate enhanced medical content for symptom classification.'
@@ -215,77 +227,75 @@ export class EnhancedVectorSearch {
     }
   }
 
-  private async generateEmbedding(text: string): Promise<number[]> {
+  // Null when embedding fails; the document is stored and embedded by the next backfill
+  private async generateEmbeddings(text: string): Promise<EmbeddedColumn[] | null> {
     try {
-      const response = await this.openai.embeddings.create({
-        model: 'text-embedding-ada-002',
-        input: text
-      })
-
-      return response.data[0].embedding
+      return await embeddingIndex.embed('enhanced_sdco_documents', [text])
     } catch (error) {
       console.error('Error generating embedding:', error)
-      return []
+      return null
     }
   }
 
-  private async storeEnhancedDocument(doc: Omit<EnhancedSDCODocument, 'id' | 'last_updated'>): Promise<void> {
-    await this.pool.query(`
-      INSERT INTO enhanced_sdco_documents 
-      (sdco_id, medical_term, layman_term, category, enhanced_content, embedding, synonyms, related_terms, severity_level, body_system)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-      ON CONFLICT (sdco_id) DO UPDATE SET
-        medical_term = EXCLUDED.medical_term,
-        layman_term = EXCLUDED.layman_term,
-        enhanced_content = EXCLUDED.enhanced_content,
-        embedding = EXCLUDED.embedding,
-        last_updated = CURRENT_TIMESTAMP
-    `, [
+  private async storeEnhancedDocument(
+    doc: Omit<EnhancedSDCODocument, 'id' | 'last_updated' | 'embedding'>,
+    embedded: EmbeddedColumn[] | null
+  ): Promise<void> {
+    const params: any[] = [
       doc.sdco_id,
       doc.medical_term,
       doc.layman_term,
       doc.category,
       doc.enhanced_content,
-      JSON.stringify(doc.embedding),
       doc.synonyms,
       doc.related_terms,
       doc.severity_level,
       doc.body_system
-    ])
+    ]
+    const vectors = embedded ? embeddingIndex.columnValues(embedded, 0, params) : { columns: [], placeholders: [] }
+
+    await this.pool.query(`
+      INSERT INTO enhanced_sdco_documents 
+      (sdco_id, medical_term, layman_term, category, enhanced_content, synonyms, related_terms, severity_level, body_system${vectors.columns.map(column => `, ${column}`).join('')})
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9${vectors.placeholders.map(placeholder => `, ${placeholder}`).join('')})
+      ON CONFLICT (sdco_id) DO UPDATE SET
+        medical_term = EXCLUDED.medical_term,
+        layman_term = EXCLUDED.layman_term,
+        enhanced_content = EXCLUDED.enhanced_content,
+        ${vectors.columns.map(column => `${column} = EXCLUDED.${column},`).join('\n        ')}
+        last_updated = CURRENT_TIMESTAMP
+    `, params)
   }
 
-  async semanticSearch(query: string, limit: number = 10): Promise<SearchResult[]> {
+  async semanticSearch(query: string, limit: number = 10, weights?: Partial<HybridSearchWeights>): Promise<SearchResult[]> {
     try {
-      const queryEmbedding = await this.generateEmbedding(query)
-      
-      const result = await this.pool.query(`
-        SELECT *, (embedding <=> $1::vector) as distance
-        FROM enhanced_sdco_documents
-        ORDER BY distance
-        LIMIT $2
-      `, [JSON.stringify(queryEmbedding), limit])
-
-      return result.rows.map(row => ({
-        document: {
-          id: row.id,
-          sdco_id: row.sdco_id,
-          medical_term: row.medical_term,
-          layman_term: row.layman_term,
-          category: row.category,
-          enhanced_content: row.enhanced_content,
-          embedding: row.embedding,
-          synonyms: row.synonyms,
-          related_terms: row.related_terms,
-          severity_level: row.severity_level,
-          body_system: row.body_system,
-          last_updated: row.last_updated
-        },
-        similarity: 1 - row.distance,
-        relevance_score: (1 - row.distance) * 100
-      }))
+      const { results } = await hybridSearch.search({ corpus: 'enhanced_sdco_documents', query, limit, weights })
+      return results.map(result => this.mapHybridResult(result))
     } catch (error) {
       console.error('Error performing semantic search:', error)
       return []
     }
   }
+
+  private mapHybridResult(result: HybridSearchResult): SearchResult {
+    const row = result.document
+    return {
+      document: {
+        id: row.id,
+        sdco_id: row.sdco_id,
+        medical_term: result.medicalTerm,
+        layman_term: result.laymanTerm || '',
+        category: row.category,
+        enhanced_content: row.enhanced_content,
+        synonyms: row.synonyms || [],
+        related_terms: row.related_terms || [],
+        severity_level: row.severity_level,
+        body_system: row.body_system,
+        last_updated: row.last_updated
+      },
+      similarity: result.explanation.semantic?.similarity ?? 0,
+      relevance_score: result.score * 100,
+      explanation: result.explanation
+    }
+  }
 }
\ No newline at end of file
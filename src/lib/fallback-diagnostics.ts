@@ -0,0 +1,343 @@
+/**
+ * Fallback Diagnostics
+ * OpenAI-driven diagnostic sessions used while Merlin is unavailable. Sessions are stored
+ * in diagnostic_sessions with mode 'openai_fallback' so the usual question, answer and
+ * refresh endpoints can continue them, and can be migrated into a real Merlin session
+ * once Merlin is healthy again.
+ */
+
+import { generateStructured, s, StructuredOutputError } from './structured-output'
+import { getModelForTask } from './llm-provider'
+import { promptRegistry } from './prompt-registry'
+import { getMerlinClient, MerlinQuestion, toMerlinPatientInfo } from './merlin-client'
+import {
+  diagnosticSessionDB,
+  DiagnosticSessionAnswer,
+  DiagnosticSessionRecord
+} from './diagnostic-session-database'
+import { sdcoMatcher } from './sdco-matcher'
+
+export const FALLBACK_SESSION_PREFIX = 'fallback_'
+const MAX_FALLBACK_QUESTIONS = parseInt(process.env.FALLBACK_MAX_QUESTIONS || '8', 10)
+
+const differentialSchema = s.object({
+  diagnoses: s.array(s.object({
+    diagnosis: s.object({
+      display_name: s.string({ minLength: 1 }),
+      display_name_layman: s.string().optional()
+    }),
+    probability: s.number({ min: 0, max: 1 })
+  }))
+})
+
+const questionSchema = s.object({
+  question: s.string().optional(),
+  answerList: s.array(s.string()).optional(),
+  done: s.boolean().default(false)
+}).refine(
+  result => result.done || (!!result.question?.trim() && (result.answerList?.length ?? 0) > 0),
+  'either a question with a non-empty answerList or done: true is required'
+)
+
+export class FallbackMigrationError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'FallbackMigrationError'
+    this.status = status
+  }
+}
+
+export function isFallbackSessionId(sessionId: string): boolean {
+  return typeof sessionId === 'string' && sessionId.startsWith(FALLBACK_SESSION_PREFIX)
+}
+
+function formatAnswers(answers: DiagnosticSessionAnswer[]): string {
+  const answered = answers.filter(answer => answer.answeredAt)
+  if (answered.length === 0) return ''
+  return answered
+    .map(answer => `Q: ${answer.question}\nA: ${answer.answerText ?? answer.answerList[answer.answerIndex ?? -1] ?? 'unknown'}`)
+    .join('\n')
+}
+
+/**
+ * Estimate a differential from the presenting symptoms and any answers so far
+ */
+export async function generateFallbackDifferential(
+  symptoms: string,
+  answers: DiagnosticSessionAnswer[] = [],
+  options: { userId?: string | null } = {}
+): Promise<any[]> {
+  const answeredQuestions = formatAnswers(answers)
+  const systemPrompt = await promptRegistry.render('fallback_differential_system', {}, { assignmentKey: options.userId })
+
+  try {
+    const startTime = Date.now()
+    const { data, usage } = await generateStructured({
+      name: 'fallback_differential',
+      schema: differentialSchema,
+      task: 'analysis',
+      messages: [
+        {
+          role: "system",
+          content: systemPrompt.content
+        },
+        {
+          role: "user",
+          content: `Patient presents with: ${symptoms}${answeredQuestions ? `\n\nAnswers to follow-up questions:\n${answeredQuestions}` : ''}`
+        }
+      ],
+      max_tokens: 1000,
+      temperature: 0.3
+    })
+    await promptRegistry.recordUsage(systemPrompt, {
+      userId: options.userId,
+      endpoint: 'fallback-diagnostics:differential',
+      model: getModelForTask('analysis'),
+      usage,
+      latencyMs: Date.now() - startTime
+    })
+
+    return [...data.diagnoses].sort((a, b) => b.probability - a.probability)
+  } catch (error) {
+    if (!(error instanceof StructuredOutputError)) {
+      throw error
+    }
+    console.log('Unusable AI diagnosis response, using fallback')
+    return [
+      {
+        diagnosis: {
+          display_name: "Symptom Assessment Required",
+          display_name_layman: "Further evaluation needed"
+        },
+        probability: 0.5
+      }
+    ]
+  }
+}
+
+/**
+ * Generate the next follow-up question, or null once enough has been asked
+ */
+export async function generateFallbackQuestion(
+  symptoms: string,
+  answers: DiagnosticSessionAnswer[] = [],
+  options: { userId?: string | null } = {}
+): Promise<MerlinQuestion | null> {
+  const answered = answers.filter(answer => answer.answeredAt)
+  if (answered.length >= MAX_FALLBACK_QUESTIONS) {
+    return null
+  }
+
+  const answeredQuestions = formatAnswers(answers)
+  const systemPrompt = await promptRegistry.render('fallback_question_system', {}, { assignmentKey: options.userId })
+
+  try {
+    const startTime = Date.now()
+    const { data: question, usage } = await generateStructured({
+      name: 'fallback_question',
+      schema: questionSchema,
+      task: 'analysis',
+      messages: [
+        {
+          role: "system",
+          content: systemPrompt.content
+        },
+        {
+          role: "user",
+          content: `Based on these symptoms: ${symptoms}
+${answeredQuestions ? `\nQuestions already answered:\n${answeredQuestions}\n` : ''}
+Generate an appropriate diagnostic question.`
+        }
+      ],
+      max_tokens: 500,
+      temperature: 0.3
+    })
+    await promptRegistry.recordUsage(systemPrompt, {
+      userId: options.userId,
+      endpoint: 'fallback-diagnostics:question',
+      model: getModelForTask('analysis'),
+      usage,
+      latencyMs: Date.now() - startTime
+    })
+
+    if (question.done || !question.question || !question.answerList) {
+      return null
+    }
+    return { question: question.question, answerList: question.answerList }
+  } catch (error) {
+    if (!(error instanceof StructuredOutputError)) {
+      throw error
+    }
+    console.log('Unusable AI question response')
+    return null
+  }
+}
+
+/**
+ * Start a fallback session. Sessions are only persisted for authenticated users.
+ */
+export async function createFallbackSession(data: {
+  symptoms: string
+  userId?: string | null
+  patientData?: any
+}): Promise<{
+  sessionId: string
+  differentialDiagnosis: any[]
+  firstQuestion: MerlinQuestion | null
+  status: string | null
+  persisted: boolean
+}> {
+  const sessionId = `${FALLBACK_SESSION_PREFIX}${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+  const [differentialDiagnosis, firstQuestion] = await Promise.all([
+    generateFallbackDifferential(data.symptoms, [], { userId: data.userId }),
+    generateFallbackQuestion(data.symptoms, [], { userId: data.userId })
+  ])
+
+  let status: string | null = null
+  let persisted = false
+  if (data.userId) {
+    try {
+      const id = await diagnosticSessionDB.createSession({
+        userId: data.userId,
+        merlinSessionId: sessionId,
+        patientData: data.patientData || null,
+        reasonForEncounter: data.symptoms,
+        reasonForEncounterSymptomId: null,
+        mode: 'openai_fallback',
+        symptoms: [{ text: data.symptoms, sdcoId: null }]
+      })
+      const stored = await diagnosticSessionDB.applyQuestion(id, firstQuestion, differentialDiagnosis, {
+        event: 'session_created',
+        detail: { symptoms: [data.symptoms], mode: 'openai_fallback' }
+      })
+      status = stored.status
+      persisted = true
+    } catch (dbError) {
+      console.error('Failed to store fallback session:', dbError)
+    }
+  }
+
+  return { sessionId, differentialDiagnosis, firstQuestion, status, persisted }
+}
+
+/**
+ * Current pending question for a fallback session, generating a new one if needed
+ */
+export async function getNextFallbackQuestion(session: DiagnosticSessionRecord): Promise<{
+  question: MerlinQuestion | null
+  session: DiagnosticSessionRecord
+}> {
+  if (session.status === 'awaiting_answer' && session.currentQuestion) {
+    return { question: session.currentQuestion, session }
+  }
+  if (session.status === 'completed') {
+    return { question: null, session }
+  }
+
+  const history = await diagnosticSessionDB.getQuestionHistory(session.id)
+  const question = await generateFallbackQuestion(session.reasonForEncounter, history, { userId: session.userId })
+  const updated = await diagnosticSessionDB.applyQuestion(session.id, question)
+  return { question, session: updated }
+}
+
+/**
+ * Re-estimate the differential for a fallback session from everything answered so far
+ */
+export async function refreshFallbackDifferential(session: DiagnosticSessionRecord): Promise<any[]> {
+  const history = await diagnosticSessionDB.getQuestionHistory(session.id)
+  const differential = await generateFallbackDifferential(session.reasonForEncounter, history, { userId: session.userId })
+  await diagnosticSessionDB.updateDifferential(session.id, differential)
+  return differential
+}
+
+/**
+ * Move a fallback session onto a fresh Merlin session. Fallback answers cannot be replayed
+ * because Merlin asks its own questions, so they stay on the superseded session for audit.
+ */
+export async function migrateFallbackSession(sessionId: string, sdcoId?: string): Promise<{
+  session: DiagnosticSessionRecord
+  previousSession: DiagnosticSessionRecord
+  firstQuestion: MerlinQuestion | null
+  differentialDiagnosis: any[]
+}> {
+  const previous = await diagnosticSessionDB.getSessionState(sessionId)
+  if (!previous) {
+    throw new FallbackMigrationError('Diagnostic session not found', 404)
+  }
+  if (previous.mode !== 'openai_fallback') {
+    throw new FallbackMigrationError('Only fallback sessions can be migrated to Merlin', 409)
+  }
+  if (previous.status === 'superseded') {
+    throw new FallbackMigrationError('This fallback session was already migrated', 409)
+  }
+  if (!previous.patientData?.firstName || !previous.patientData?.dateOfBirth) {
+    throw new FallbackMigrationError('Fallback session has no patient data to start a Merlin session with', 422)
+  }
+
+  let reasonForEncounterSymptomId = sdcoId
+  if (!reasonForEncounterSymptomId) {
+    const match = await sdcoMatcher.rankCandidates(previous.reasonForEncounter)
+    reasonForEncounterSymptomId = match.candidates[0]?.sdcoId
+  }
+  if (!reasonForEncounterSymptomId) {
+    throw new FallbackMigrationError('Could not match the presenting symptom to an SDCO; pass sdcoId explicitly', 422)
+  }
+
+  // Claim the session first so a concurrent migration cannot start a second Merlin session
+  const claimed = await diagnosticSessionDB.claimForSupersede(previous.id, previous.status)
+  if (!claimed) {
+    throw new FallbackMigrationError('The fallback session changed while it was being migrated; reload it and try again', 409)
+  }
+
+  const merlin = getMerlinClient()
+  let newSessionId: string | null = null
+  try {
+    const { sessionId: merlinSessionId } = await merlin.startNewSession({
+      patient_info: toMerlinPatientInfo(previous.patientData),
+      reason_for_encounter: reasonForEncounterSymptomId
+    })
+
+    newSessionId = await diagnosticSessionDB.createSession({
+      userId: previous.userId,
+      merlinSessionId,
+      patientData: previous.patientData,
+      reasonForEncounter: previous.reasonForEncounter,
+      reasonForEncounterSymptomId,
+      mode: 'merlin',
+      symptoms: previous.symptoms.map((symptom, index) => ({
+        text: symptom.symptomText,
+        sdcoId: index === 0 ? reasonForEncounterSymptomId! : symptom.sdcoId
+      })),
+      supersedesSessionId: previous.id
+    })
+    const previousSession = await diagnosticSessionDB.markSuperseded(previous.id, newSessionId)
+
+    const [firstQuestion, differentialDiagnosis] = await Promise.all([
+      merlin.getDiagnosticQuestion(merlinSessionId),
+      merlin.getDifferentialDiagnosis(merlinSessionId)
+    ])
+
+    const session = await diagnosticSessionDB.applyQuestion(newSessionId, firstQuestion, differentialDiagnosis, {
+      event: 'session_migrated',
+      detail: { previousSessionId: previous.merlinSessionId, sdcoId: reasonForEncounterSymptomId }
+    })
+
+    console.log(`🔁 Migrated fallback session ${previous.merlinSessionId} → Merlin session ${merlinSessionId}`)
+
+    return { session, previousSession, firstQuestion, differentialDiagnosis }
+  } catch (error) {
+    // The fallback session stays usable when the migration fails
+    if (newSessionId) {
+      await diagnosticSessionDB.transition(newSessionId, 'abandoned').catch(abandonError => {
+        console.error(`Failed to abandon migrated session ${newSessionId}:`, abandonError)
+      })
+    }
+    await diagnosticSessionDB.releaseSupersede(previous).catch(releaseError => {
+      console.error(`Failed to release fallback session ${previous.merlinSessionId} after a failed migration:`, releaseError)
+    })
+    throw error
+  }
+}
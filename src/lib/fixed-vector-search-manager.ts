@@ -3,6 +3,7 @@
  */
 
 import { DatabasePool } from './database-pool';
+import { hybridSearch, HybridSearchWeights } from './hybrid-search';
 
 export interface VectorSearchStatus {
   exists: boolean
@@ -54,65 +55,33 @@ export class FixedVectorSearchManager {
   }
 
   /**
-   * Search through all 942 SDCO documents for throat-related symptoms
+   * Search all SDCO documents by full text (with medical synonyms) and embedding
+   * similarity, fused by rank. Each result carries an explanation of why it matched.
    */
-  async searchSymptoms(symptom: string, limit: number = 10): Promise<any[]> {
-    const client = await DatabasePool.getClient()
-    
+  async searchSymptoms(symptom: string, limit: number = 10, weights?: Partial<HybridSearchWeights>): Promise<any[]> {
     try {
       console.log(`Searching ${symptom} across 942 SDCO documents...`)
 
-      // Search across all text fields in sdco_documents table
-      const searchQuery = `
-        SELECT 
-          sdco_id,
-          medical_term,
-          layman_term,
-          description,
-          definition,
-          definition_layman,
-          category,
-          combined_text,
-          CASE 
-            WHEN LOWER(medical_term) ILIKE $1 THEN 1.0
-            WHEN LOWER(layman_term) ILIKE $1 THEN 0.9
-            WHEN LOWER(definition_layman) ILIKE $1 THEN 0.8
-            WHEN LOWER(description) ILIKE $1 THEN 0.7
-            WHEN LOWER(combined_text) ILIKE $1 THEN 0.5
-            ELSE 0.3
-          END as relevance_score
-        FROM sdco_documents
-        WHERE 
-          LOWER(medical_term) ILIKE $1
-          OR LOWER(layman_term) ILIKE $1
-          OR LOWER(description) ILIKE $1
-          OR LOWER(definition_layman) ILIKE $1
-          OR LOWER(combined_text) ILIKE $1
-        ORDER BY relevance_score DESC, medical_term
-        LIMIT $2
-      `
-
-      const searchPattern = `%${symptom.toLowerCase()}%`
-      const result = await client.query(searchQuery, [searchPattern, limit])
-
-      console.log(`Found ${result.rows.length} matches for "${symptom}"`)
+      const { results } = await hybridSearch.search({ corpus: 'sdco_documents', query: symptom, limit, weights })
+
+      console.log(`Found ${results.length} matches for "${symptom}"`)
       
-      return result.rows.map(row => ({
-        sdco_id: row.sdco_id,
-        display_name: row.medical_term,
-        display_name_layman: row.layman_term,
-        relevance_score: parseFloat(row.relevance_score || 0),
-        matched_content: row.combined_text,
-        body_system: row.category,
-        definition: row.definition,
-        definition_layman: row.definition_layman
+      return results.map(result => ({
+        sdco_id: result.sdcoId,
+        display_name: result.medicalTerm,
+        display_name_layman: result.laymanTerm,
+        relevance_score: result.score,
+        lexical_score: result.explanation.lexical?.score ?? 0,
+        matched_content: result.document.combined_text,
+        body_system: result.contentType,
+        definition: result.document.definition,
+        definition_layman: result.document.definition_layman,
+        explanation: result.explanation
       }))
 
     } catch (error) {
       console.error('Error searching SDCO documents:', error)
       return []
-    } finally {
-      client.release()
     }
   }
 
@@ -1,4 +1,5 @@
 import { DatabasePool } from './database-pool';
+import { allergiesDatabase } from './allergies-database';
 
 export interface HealthContextData {
   medications: {
@@ -12,6 +13,12 @@ export interface HealthContextData {
       is_active: boolean
     }>
   }
+  allergies: Array<{
+    substance: string
+    reaction: string | null
+    severity: string | null
+    verification_status: string
+  }>
   labs: {
     total_count: number
     latest: {
@@ -88,6 +95,19 @@ async function fetchUserHealthData(userId: string): Promise<HealthContextData> {
       is_active: med.is_active
     }))
 
+    // Get recorded allergies (refuted entries excluded) - never block the rest of the context
+    const allergies = await allergiesDatabase.getAllergies(userId)
+      .then(rows => rows.map(allergy => ({
+        substance: allergy.substance,
+        reaction: allergy.reaction,
+        severity: allergy.severity,
+        verification_status: allergy.verificationStatus
+      })))
+      .catch(error => {
+        console.error('🏥 Error fetching allergies for health context:', error)
+        return []
+      })
+
     // Get latest lab results (sample data for now - replace with real lab data when available)
     const labs = {
       total_count: 1,
@@ -145,6 +165,7 @@ async function fetchUserHealthData(userId: string): Promise<HealthContextData> {
         total_count: medications.length,
         current: medications
       },
+      allergies,
       labs,
       wearables: {
         connections: wearableConnections,
@@ -185,6 +206,22 @@ function formatHealthContextForAI(healthData: HealthContextData): string {
   }
   sections.push('')
 
+  // Allergies - all listed, they matter for any medication advice
+  sections.push(`**Allergies:**`)
+  if (healthData.allergies.length > 0) {
+    healthData.allergies.forEach(allergy => {
+      const details = [
+        allergy.severity ? allergy.severity.replace('_', '-') : null,
+        allergy.reaction ? `reaction: ${allergy.reaction}` : null,
+        allergy.verification_status === 'unconfirmed' ? 'unconfirmed' : null
+      ].filter(Boolean)
+      sections.push(`- ${allergy.substance}${details.length > 0 ? ` (${details.join(', ')})` : ''}`)
+    })
+  } else {
+    sections.push(`No known allergies recorded`)
+  }
+  sections.push('')
+
   // Latest Lab Results - match exact format from Health Check tiles  
   sections.push(`**Latest Lab Results:**`)
   sections.push(`${healthData.labs.total_count} total lab results`)
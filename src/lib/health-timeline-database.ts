@@ -1,4 +1,5 @@
 import { Pool } from 'pg'
+import { responseCache } from './response-cache'
 
 interface HealthTimelineEntry {
   id?: string
@@ -105,6 +106,7 @@ class HealthTimelineDatabase {
         entry.fullChatHistory ? JSON.stringify(entry.fullChatHistory) : null
       ])
 
+      await responseCache.invalidateUser(entry.userId, 'health_data')
       return result.rows[0].id
     } catch (error) {
       console.error('Error saving health timeline entry:', error)
@@ -208,7 +210,11 @@ class HealthTimelineDatabase {
         WHERE id = $1 AND user_id = $2
       `, [entryId, userId])
 
-      return (result.rowCount || 0) > 0
+      const deleted = (result.rowCount || 0) > 0
+      if (deleted) {
+        await responseCache.invalidateUser(userId, 'health_data')
+      }
+      return deleted
     } catch (error) {
       console.error('Error deleting health timeline entry:', error)
       throw error
@@ -267,7 +273,11 @@ class HealthTimelineDatabase {
         WHERE id = $1 AND user_id = $2
       `, [entryId, userId, ...values])
 
-      return (result.rowCount || 0) > 0
+      const updated = (result.rowCount || 0) > 0
+      if (updated) {
+        await responseCache.invalidateUser(userId, 'health_data')
+      }
+      return updated
     } catch (error) {
       console.error('Error updating health timeline entry:', error)
       throw error
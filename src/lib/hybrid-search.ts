@@ -0,0 +1,677 @@
+/**
+ * Hybrid SDCO Search
+ * Ranks SDCO documents by two retrievers at once and fuses their rankings:
+ *
+ * - Full-text: a weighted tsvector per document (medical term highest, then the
+ *   layman term, definitions, and the remaining text), queried with the user's
+ *   words plus medical synonyms, so "dysuria" finds the document titled Dysuria
+ *   even when looser wording sits closer in embedding space.
+ * - Semantic: pgvector similarity on the table's active embedding column (see
+ *   embedding-index).
+ *
+ * The two rankings are combined by reciprocal rank fusion: a document scores
+ * weight / (k + rank) for each list it appears in. Weights can be tuned per call,
+ * results can be filtered by content type (the SDCO category) and body system,
+ * and every result explains which terms and fields matched and where it ranked.
+ *
+ * The full-text column is a stored generated column, so adding it rewrites the table
+ * under an exclusive lock. It is built by an admin job (POST /api/admin/search-index)
+ * rather than on a search; until then a corpus is searched semantically only.
+ *
+ * Synonyms live in the medical_synonyms table and expand the query rather than the
+ * index: Postgres synonym dictionaries need a file on the database server, which
+ * managed Postgres does not allow. The table is seeded with common layman/medical
+ * pairs and can be extended with SQL.
+ */
+
+import { DatabasePool } from './database-pool'
+import { embeddingIndex, EmbeddingQuery } from './embedding-index'
+
+export type HybridSearchCorpus = 'sdco_documents' | 'enhanced_sdco_documents'
+
+export interface HybridSearchWeights {
+  lexical: number
+  semantic: number
+}
+
+export interface HybridSearchConfig {
+  weights: HybridSearchWeights
+  // Reciprocal rank fusion constant; higher values flatten the gap between ranks
+  rrfK: number
+  // Documents each retriever contributes before fusion
+  candidates: number
+}
+
+export interface HybridSearchOptions {
+  query: string
+  corpus?: HybridSearchCorpus
+  limit?: number
+  weights?: Partial<HybridSearchWeights>
+  // SDCO categories, e.g. symptom, condition
+  contentTypes?: string[]
+  bodySystems?: string[]
+}
+
+export interface HybridSearchExplanation {
+  lexical: {
+    rank: number
+    // ts_rank capped at 1; a single match in the medical term scores about 0.6
+    score: number
+    matchedTerms: string[]
+    matchedFields: string[]
+  } | null
+  semantic: {
+    rank: number
+    similarity: number
+  } | null
+  // Each retriever's share of the fused score
+  contributions: HybridSearchWeights
+  summary: string
+}
+
+export interface HybridSearchResult {
+  id: string
+  sdcoId: string
+  medicalTerm: string
+  laymanTerm: string | null
+  contentType: string | null
+  bodySystem: string | null
+  // Every column except vectors
+  document: Record<string, any>
+  // Fused score, 0-1: 1 is first in every weighted list
+  score: number
+  explanation: HybridSearchExplanation
+}
+
+export interface HybridSearchResponse {
+  query: string
+  corpus: HybridSearchCorpus
+  weights: HybridSearchWeights
+  // Synonyms added to the full-text query
+  synonyms: string[]
+  // False when the query could not be embedded; results are full-text only
+  semantic: boolean
+  // False when the corpus has no full-text index yet; results are semantic only
+  lexical: boolean
+  results: HybridSearchResult[]
+}
+
+export interface FullTextIndexStatus {
+  corpus: HybridSearchCorpus
+  // False when the table does not exist
+  exists: boolean
+  indexed: boolean
+}
+
+export class HybridSearchError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'HybridSearchError'
+    this.status = status
+  }
+}
+
+type FieldWeight = 'A' | 'B' | 'C' | 'D'
+
+interface CorpusDefinition {
+  // Fields indexed for full-text search; the ones missing from the table are skipped
+  fields: { column: string; weight: FieldWeight }[]
+  titleColumns: string[]
+  laymanColumns: string[]
+  contentTypeColumn: string
+  bodySystemColumn: string | null
+}
+
+const CORPORA: Record<HybridSearchCorpus, CorpusDefinition> = {
+  sdco_documents: {
+    fields: [
+      { column: 'medical_term', weight: 'A' },
+      { column: 'layman_term', weight: 'B' },
+      { column: 'definition', weight: 'C' },
+      { column: 'definition_layman', weight: 'C' },
+      { column: 'description', weight: 'C' },
+      { column: 'combined_text', weight: 'D' }
+    ],
+    titleColumns: ['medical_term'],
+    laymanColumns: ['layman_term'],
+    contentTypeColumn: 'category',
+    bodySystemColumn: null
+  },
+  // The table has been created with two layouts (medical_term or display_name); both are covered
+  enhanced_sdco_documents: {
+    fields: [
+      { column: 'medical_term', weight: 'A' },
+      { column: 'display_name', weight: 'A' },
+      { column: 'layman_term', weight: 'B' },
+      { column: 'display_name_layman', weight: 'B' },
+      { column: 'definition', weight: 'C' },
+      { column: 'definition_layman', weight: 'C' },
+      { column: 'description', weight: 'C' },
+      { column: 'enhanced_content', weight: 'C' },
+      { column: 'full_content_text', weight: 'D' }
+    ],
+    titleColumns: ['medical_term', 'display_name'],
+    laymanColumns: ['layman_term', 'display_name_layman'],
+    contentTypeColumn: 'category',
+    bodySystemColumn: 'body_system'
+  }
+}
+
+const FIELD_LABELS: Record<FieldWeight, string> = {
+  A: 'medical term',
+  B: 'layman term',
+  C: 'definition',
+  D: 'full text'
+}
+
+// Each group is interchangeable; layman wording first where there is one
+const SEED_SYNONYMS: string[][] = [
+  ['painful urination', 'burning urination', 'dysuria'],
+  ['frequent urination', 'pollakiuria'],
+  ['blood in urine', 'hematuria'],
+  ['sore throat', 'throat pain', 'pharyngitis'],
+  ['hoarse voice', 'hoarseness', 'dysphonia'],
+  ['difficulty swallowing', 'trouble swallowing', 'dysphagia'],
+  ['painful swallowing', 'odynophagia'],
+  ['runny nose', 'rhinorrhea'],
+  ['stuffy nose', 'blocked nose', 'nasal congestion'],
+  ['nosebleed', 'epistaxis'],
+  ['shortness of breath', 'breathlessness', 'dyspnea'],
+  ['coughing up blood', 'hemoptysis'],
+  ['chest pain', 'thoracic pain'],
+  ['racing heart', 'heart palpitations', 'palpitations'],
+  ['fast heart rate', 'tachycardia'],
+  ['slow heart rate', 'bradycardia'],
+  ['high blood pressure', 'hypertension'],
+  ['low blood pressure', 'hypotension'],
+  ['fainting', 'passing out', 'syncope'],
+  ['dizziness', 'lightheadedness'],
+  ['spinning sensation', 'vertigo'],
+  ['headache', 'head pain', 'cephalalgia'],
+  ['migraine', 'migraine headache'],
+  ['ringing in the ears', 'tinnitus'],
+  ['earache', 'ear pain', 'otalgia'],
+  ['pink eye', 'conjunctivitis'],
+  ['blurred vision', 'blurry vision'],
+  ['double vision', 'diplopia'],
+  ['heartburn', 'acid reflux', 'gastroesophageal reflux'],
+  ['indigestion', 'dyspepsia'],
+  ['nausea', 'feeling sick', 'queasiness'],
+  ['vomiting', 'throwing up', 'emesis'],
+  ['diarrhea', 'loose stools'],
+  ['constipation', 'hard stools'],
+  ['bloating', 'abdominal distension'],
+  ['stomach ache', 'stomach pain', 'abdominal pain'],
+  ['blood in stool', 'rectal bleeding', 'hematochezia'],
+  ['black stool', 'melena'],
+  ['yellow skin', 'jaundice'],
+  ['itching', 'itchy skin', 'pruritus'],
+  ['rash', 'skin rash', 'exanthem'],
+  ['hives', 'urticaria'],
+  ['excessive sweating', 'hyperhidrosis'],
+  ['hair loss', 'alopecia'],
+  ['joint pain', 'arthralgia'],
+  ['muscle pain', 'muscle ache', 'myalgia'],
+  ['back pain', 'lumbago', 'dorsalgia'],
+  ['pins and needles', 'tingling', 'paresthesia'],
+  ['weakness', 'asthenia'],
+  ['tiredness', 'exhaustion', 'fatigue'],
+  ['fever', 'high temperature', 'pyrexia'],
+  ['chills', 'shivering', 'rigors'],
+  ['swelling', 'fluid retention', 'edema'],
+  ['trouble sleeping', 'sleeplessness', 'insomnia'],
+  ['excessive sleepiness', 'hypersomnia'],
+  ['loss of appetite', 'anorexia'],
+  ['excessive thirst', 'polydipsia'],
+  ['low blood sugar', 'hypoglycemia'],
+  ['high blood sugar', 'hyperglycemia'],
+  ['anxiety', 'nervousness'],
+  ['low mood', 'depression'],
+  ['memory loss', 'forgetfulness', 'amnesia'],
+  ['confusion', 'disorientation'],
+  ['seizure', 'convulsion'],
+  ['tremor', 'shaking'],
+  ['common cold', 'upper respiratory infection'],
+  ['flu', 'influenza'],
+  ['bladder infection', 'urinary tract infection', 'cystitis'],
+  ['kidney stones', 'nephrolithiasis'],
+  ['painful periods', 'period pain', 'dysmenorrhea'],
+  ['heavy periods', 'menorrhagia'],
+  ['missed periods', 'amenorrhea']
+]
+
+// How long a process keeps the synonyms table before reading it again
+const SYNONYM_REFRESH_MS = 5 * 60 * 1000
+const MAX_SYNONYMS = 20
+const MAX_LIMIT = 100
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '')
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+function resolveDefaultConfig(): HybridSearchConfig {
+  return {
+    weights: {
+      lexical: readNumberEnv('HYBRID_SEARCH_LEXICAL_WEIGHT', 1),
+      semantic: readNumberEnv('HYBRID_SEARCH_SEMANTIC_WEIGHT', 1)
+    },
+    rrfK: readNumberEnv('HYBRID_SEARCH_RRF_K', 60),
+    candidates: readNumberEnv('HYBRID_SEARCH_CANDIDATES', 50)
+  }
+}
+
+/**
+ * Lowercase words separated by single spaces, so phrases can be matched on word boundaries
+ */
+function normalizeText(text: string): string {
+  return (text || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+export class HybridSearch {
+  private config: HybridSearchConfig
+  private schemaReady: Promise<void> | null = null
+  private corporaReady = new Map<HybridSearchCorpus, Promise<Set<string> | null>>()
+  private synonyms: { groups: Map<string, string[]>; loadedAt: number } | null = null
+
+  constructor(config: Partial<HybridSearchConfig> = {}) {
+    this.config = { ...resolveDefaultConfig(), ...config }
+  }
+
+  async initializeSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.createSchema().catch(error => {
+        this.schemaReady = null
+        throw error
+      })
+    }
+    return this.schemaReady
+  }
+
+  private async createSchema(): Promise<void> {
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS medical_synonyms (
+          term TEXT NOT NULL,
+          synonym TEXT NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (term, synonym)
+        )
+      `)
+
+      const pairs = SEED_SYNONYMS.flatMap(group =>
+        group.flatMap(term => group.filter(other => other !== term).map(synonym => [term, synonym]))
+      )
+      await client.query(`
+        INSERT INTO medical_synonyms (term, synonym)
+        SELECT * FROM unnest($1::text[], $2::text[])
+        ON CONFLICT DO NOTHING
+      `, [pairs.map(pair => pair[0]), pairs.map(pair => pair[1])])
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * The corpus table's columns, or null when the table does not exist. Read again
+   * until the full-text column is there, since it is added by the admin job.
+   */
+  private loadCorpus(corpus: HybridSearchCorpus): Promise<Set<string> | null> {
+    let ready = this.corporaReady.get(corpus)
+    if (!ready) {
+      ready = this.readColumns(corpus)
+        .then(columns => {
+          // The table or its full-text column may be created later in this process
+          if (!columns || !columns.has('search_tsvector')) this.corporaReady.delete(corpus)
+          return columns
+        })
+        .catch(error => {
+          this.corporaReady.delete(corpus)
+          throw error
+        })
+      this.corporaReady.set(corpus, ready)
+    }
+    return ready
+  }
+
+  private async readColumns(corpus: HybridSearchCorpus): Promise<Set<string> | null> {
+    const result = await DatabasePool.query(`
+      SELECT column_name FROM information_schema.columns
+      WHERE table_schema = current_schema() AND table_name = $1
+    `, [corpus])
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    const columns = new Set<string>(result.rows.map(row => row.column_name))
+    if (!CORPORA[corpus].fields.some(field => columns.has(field.column))) {
+      throw new HybridSearchError(`${corpus} has none of the searchable columns`, 500)
+    }
+    return columns
+  }
+
+  async getFullTextIndexStatus(): Promise<FullTextIndexStatus[]> {
+    const statuses: FullTextIndexStatus[] = []
+    for (const corpus of Object.keys(CORPORA) as HybridSearchCorpus[]) {
+      const columns = await this.readColumns(corpus)
+      statuses.push({ corpus, exists: columns !== null, indexed: !!columns?.has('search_tsvector') })
+    }
+    return statuses
+  }
+
+  /**
+   * Add the weighted full-text column and its GIN index to a corpus table. Adding the
+   * column rewrites the table and blocks its reads and writes meanwhile, so this runs
+   * from the admin job, not from a search. The index is built without blocking writes.
+   */
+  async buildFullTextIndex(corpus: HybridSearchCorpus): Promise<FullTextIndexStatus> {
+    const columns = await this.readColumns(corpus)
+    if (!columns) {
+      return { corpus, exists: false, indexed: false }
+    }
+
+    if (!columns.has('search_tsvector')) {
+      const document = CORPORA[corpus].fields
+        .filter(field => columns.has(field.column))
+        .map(field => `setweight(to_tsvector('english', COALESCE(${field.column}::text, '')), '${field.weight}')`)
+        .join(' || ')
+      console.log(`🔎 Adding the full-text column to ${corpus}`)
+      await DatabasePool.query(`
+        ALTER TABLE ${corpus}
+        ADD COLUMN IF NOT EXISTS search_tsvector tsvector GENERATED ALWAYS AS (${document}) STORED
+      `)
+    }
+    await DatabasePool.query(`CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_${corpus}_search_tsvector ON ${corpus} USING gin (search_tsvector)`)
+    this.corporaReady.delete(corpus)
+    return { corpus, exists: true, indexed: true }
+  }
+
+  private async loadSynonyms(): Promise<Map<string, string[]>> {
+    if (this.synonyms && Date.now() - this.synonyms.loadedAt < SYNONYM_REFRESH_MS) {
+      return this.synonyms.groups
+    }
+
+    await this.initializeSchema()
+    const result = await DatabasePool.query('SELECT term, synonym FROM medical_synonyms')
+    const groups = new Map<string, string[]>()
+    for (const row of result.rows) {
+      const term = normalizeText(row.term)
+      const synonym = normalizeText(row.synonym)
+      if (!term || !synonym) continue
+      groups.set(term, [...(groups.get(term) || []), synonym])
+    }
+    this.synonyms = { groups, loadedAt: Date.now() }
+    return groups
+  }
+
+  /**
+   * Synonyms of every known term the query contains, as whole words
+   */
+  private async expandQuery(query: string): Promise<string[]> {
+    const normalized = ` ${normalizeText(query)} `
+    const groups = await this.loadSynonyms()
+    const synonyms = new Set<string>()
+
+    for (const [term, alternatives] of groups) {
+      if (!normalized.includes(` ${term} `)) continue
+      for (const alternative of alternatives) {
+        if (!normalized.includes(` ${alternative} `)) synonyms.add(alternative)
+      }
+    }
+    return Array.from(synonyms).slice(0, MAX_SYNONYMS)
+  }
+
+  private resolveWeights(weights: Partial<HybridSearchWeights> = {}): HybridSearchWeights {
+    const resolved = { ...this.config.weights }
+    for (const key of ['lexical', 'semantic'] as const) {
+      if (weights[key] === undefined) continue
+      const value = Number(weights[key])
+      if (!Number.isFinite(value) || value < 0) {
+        throw new HybridSearchError(`weights.${key} must be a non-negative number`)
+      }
+      resolved[key] = value
+    }
+    if (resolved.lexical === 0 && resolved.semantic === 0) {
+      throw new HybridSearchError('At least one of weights.lexical and weights.semantic must be above 0')
+    }
+    return resolved
+  }
+
+  /**
+   * Full-text and semantic search over one SDCO table, fused by reciprocal rank.
+   * A retriever with weight 0 is skipped. When the query cannot be embedded the
+   * results are full-text only.
+   */
+  async search(options: HybridSearchOptions): Promise<HybridSearchResponse> {
+    const query = (options.query || '').trim()
+    if (!query) {
+      throw new HybridSearchError('query is required')
+    }
+    const corpus = options.corpus ?? 'sdco_documents'
+    const definition = CORPORA[corpus]
+    if (!definition) {
+      throw new HybridSearchError(`corpus must be one of: ${Object.keys(CORPORA).join(', ')}`)
+    }
+    const limit = Math.min(Math.max(Math.floor(options.limit ?? 10), 1), MAX_LIMIT)
+    const candidates = Math.max(Math.floor(this.config.candidates), limit)
+
+    const columns = await this.loadCorpus(corpus)
+    if (!columns) {
+      throw new HybridSearchError(`${corpus} does not exist`, 503)
+    }
+
+    const requested = this.resolveWeights(options.weights)
+    const lexicalReady = columns.has('search_tsvector')
+    const weights = lexicalReady ? requested : { ...requested, lexical: 0 }
+    if (!lexicalReady && requested.lexical > 0) {
+      if (requested.semantic === 0) {
+        throw new HybridSearchError(`${corpus} has no full-text index yet; build it with POST /api/admin/search-index`, 503)
+      }
+      console.log(`⚠️ ${corpus} has no full-text index yet, searching semantically only`)
+    }
+
+    // Column SQL for the first of `names` the table has, NULL when it has none
+    const pick = (names: (string | null)[]) => {
+      const present = names.filter((name): name is string => name !== null && columns.has(name))
+      if (present.length === 0) return 'NULL'
+      return present.length === 1 ? `d.${present[0]}` : `COALESCE(${present.map(name => `d.${name}`).join(', ')})`
+    }
+    const contentTypeColumn = pick([definition.contentTypeColumn])
+    const bodySystemColumn = pick([definition.bodySystemColumn])
+
+    const params: any[] = []
+    const filters: string[] = []
+    const contentTypes = (options.contentTypes || []).map(value => String(value).toLowerCase())
+    if (contentTypes.length > 0) {
+      if (contentTypeColumn === 'NULL') {
+        throw new HybridSearchError(`${corpus} cannot be filtered by content type`)
+      }
+      params.push(contentTypes)
+      filters.push(`LOWER(${contentTypeColumn}) = ANY($${params.length}::text[])`)
+    }
+    const bodySystems = (options.bodySystems || []).map(value => String(value).toLowerCase())
+    if (bodySystems.length > 0) {
+      if (bodySystemColumn === 'NULL') {
+        throw new HybridSearchError(`${corpus} cannot be filtered by body system`)
+      }
+      params.push(bodySystems)
+      filters.push(`LOWER(${bodySystemColumn}) = ANY($${params.length}::text[])`)
+    }
+    const where = filters.map(filter => `AND ${filter}`).join(' ')
+
+    // Full-text query: any of the query's words, or any synonym phrase
+    const words = Array.from(new Set(normalizeText(query).split(' ').filter(Boolean)))
+    const synonyms = weights.lexical > 0 ? await this.expandQuery(query) : []
+    const terms = [...words, ...synonyms]
+    let tsquery = 'NULL::tsquery'
+    if (weights.lexical > 0 && terms.length > 0) {
+      params.push(words.join(' | '))
+      const parts = words.length > 0 ? [`to_tsquery('english', $${params.length})`] : []
+      for (const synonym of synonyms) {
+        params.push(synonym)
+        parts.push(`phraseto_tsquery('english', $${params.length})`)
+      }
+      tsquery = parts.join(' || ')
+    }
+    // Only referenced by the query when there is a full-text index
+    let termsParam = `'{}'::text[]`
+    if (lexicalReady) {
+      params.push(terms)
+      termsParam = `$${params.length}::text[]`
+    }
+
+    let similar: EmbeddingQuery | null = null
+    if (weights.semantic > 0) {
+      try {
+        const { active } = await embeddingIndex.getPlan(corpus)
+        // Tables created without embeddings are searched by full text alone
+        if (columns.has(active.column)) {
+          similar = await embeddingIndex.buildQuery(corpus, query, params, 'd')
+        }
+      } catch (error) {
+        console.error(`❌ Semantic part of hybrid search on ${corpus} failed, using full-text only:`, error)
+      }
+    }
+
+    params.push(weights.lexical, weights.semantic, this.config.rrfK)
+    const [lexicalWeight, semanticWeight, rrfK] = [params.length - 2, params.length - 1, params.length].map(index => `$${index}::float`)
+
+    const fields = definition.fields.filter(field => columns.has(field.column))
+    const matchedFields = fields
+      .map(field => `CASE WHEN to_tsvector('english', COALESCE(d.${field.column}::text, '')) @@ search.q THEN '${field.column}' END`)
+      .join(', ')
+    const result = await DatabasePool.query(`
+      WITH search AS (
+        SELECT ${tsquery} AS q
+      ),
+      lexical AS (
+        ${lexicalReady
+          ? `SELECT id, text_rank, ROW_NUMBER() OVER (ORDER BY text_rank DESC, id) AS rank
+        FROM (
+          SELECT d.id, LEAST(ts_rank(d.search_tsvector, search.q), 1) AS text_rank
+          FROM ${corpus} d, search
+          WHERE search.q IS NOT NULL AND d.search_tsvector @@ search.q ${where}
+          ORDER BY text_rank DESC, d.id
+          LIMIT ${candidates}
+        ) ranked`
+          : `SELECT d.id, NULL::float AS text_rank, NULL::bigint AS rank FROM ${corpus} d WHERE false`}
+      ),
+      semantic AS (
+        ${similar
+          ? `SELECT id, similarity, ROW_NUMBER() OVER (ORDER BY distance, id) AS rank
+        FROM (
+          SELECT d.id, ${similar.similarity} AS similarity, ${similar.distance} AS distance
+          FROM ${corpus} d
+          WHERE ${similar.hasEmbedding} ${where}
+          ORDER BY ${similar.distance}
+          LIMIT ${candidates}
+        ) ranked`
+          : `SELECT d.id, NULL::float AS similarity, NULL::bigint AS rank FROM ${corpus} d WHERE false`}
+      ),
+      fused AS (
+        SELECT COALESCE(lexical.id, semantic.id) AS id,
+          lexical.rank AS lexical_rank, lexical.text_rank,
+          semantic.rank AS semantic_rank, semantic.similarity,
+          COALESCE(${lexicalWeight} / (${rrfK} + lexical.rank), 0) AS lexical_score,
+          COALESCE(${semanticWeight} / (${rrfK} + semantic.rank), 0) AS semantic_score
+        FROM lexical
+        FULL OUTER JOIN semantic ON semantic.id = lexical.id
+      )
+      SELECT fused.*,
+        d.sdco_id,
+        ${pick(definition.titleColumns)} AS title,
+        ${pick(definition.laymanColumns)} AS layman,
+        ${contentTypeColumn} AS content_type,
+        ${bodySystemColumn} AS body_system,
+        to_jsonb(d) - ARRAY(
+          SELECT attname::text FROM pg_attribute
+          WHERE attrelid = '${corpus}'::regclass AND format_type(atttypid, NULL) IN ('vector', 'tsvector')
+        ) AS document,
+        ${lexicalReady
+          ? `CASE WHEN fused.lexical_rank IS NULL THEN '{}'::text[] ELSE ARRAY(
+          SELECT term FROM unnest(${termsParam}) AS term
+          WHERE d.search_tsvector @@ phraseto_tsquery('english', term)
+        ) END`
+          : `'{}'::text[]`} AS matched_terms,
+        CASE WHEN fused.lexical_rank IS NULL THEN '{}'::text[] ELSE ARRAY_REMOVE(ARRAY[${matchedFields}], NULL) END AS matched_fields
+      FROM fused
+      JOIN ${corpus} d ON d.id = fused.id
+      CROSS JOIN search
+      ORDER BY fused.lexical_score + fused.semantic_score DESC, fused.lexical_rank NULLS LAST
+      LIMIT ${limit}
+    `, params)
+
+    // The best possible score: first place in every list that has a weight
+    const maxScore = (weights.lexical + (similar ? weights.semantic : 0)) / (this.config.rrfK + 1)
+
+    return {
+      query,
+      corpus,
+      weights,
+      synonyms,
+      semantic: similar !== null,
+      lexical: lexicalReady,
+      results: result.rows.map(row => this.mapRowToResult(row, fields, maxScore))
+    }
+  }
+
+  private mapRowToResult(row: any, fields: CorpusDefinition['fields'], maxScore: number): HybridSearchResult {
+    const lexicalScore = parseFloat(row.lexical_score) || 0
+    const semanticScore = parseFloat(row.semantic_score) || 0
+    const total = lexicalScore + semanticScore
+
+    const lexical: HybridSearchExplanation['lexical'] = row.lexical_rank === null ? null : {
+      rank: parseInt(row.lexical_rank, 10),
+      score: round(parseFloat(row.text_rank) || 0),
+      matchedTerms: row.matched_terms || [],
+      matchedFields: row.matched_fields || []
+    }
+    const semantic = row.semantic_rank === null ? null : {
+      rank: parseInt(row.semantic_rank, 10),
+      similarity: round(parseFloat(row.similarity) || 0)
+    }
+
+    const reasons: string[] = []
+    if (lexical) {
+      const labels = new Set<string>()
+      for (const field of fields) {
+        if (lexical.matchedFields.includes(field.column)) labels.add(FIELD_LABELS[field.weight])
+      }
+      const terms = lexical.matchedTerms.length > 0 ? ` for ${lexical.matchedTerms.map(term => `"${term}"`).join(', ')}` : ''
+      reasons.push(`full-text match${terms}${labels.size > 0 ? ` in the ${Array.from(labels).join(', ')}` : ''} (rank ${lexical.rank})`)
+    }
+    if (semantic) {
+      reasons.push(`semantic similarity ${semantic.similarity.toFixed(2)} (rank ${semantic.rank})`)
+    }
+    const summary = reasons.join('; ')
+
+    return {
+      id: String(row.id),
+      sdcoId: row.sdco_id,
+      medicalTerm: row.title,
+      laymanTerm: row.layman || null,
+      contentType: row.content_type || null,
+      bodySystem: row.body_system || null,
+      document: row.document || {},
+      score: maxScore > 0 ? round(Math.min(total / maxScore, 1)) : 0,
+      explanation: {
+        lexical,
+        semantic,
+        contributions: {
+          lexical: total > 0 ? round(lexicalScore / total) : 0,
+          semantic: total > 0 ? round(semanticScore / total) : 0
+        },
+        summary: summary.charAt(0).toUpperCase() + summary.slice(1)
+      }
+    }
+  }
+}
+
+export const hybridSearch = new HybridSearch()
@@ -1,45 +1,27 @@
-import OpenAI from 'openai'
+import { generateStructured, s, Infer } from './structured-output'
+import { getModelForTask } from './llm-provider'
+import { promptRegistry } from './prompt-registry'
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+export const intentDetectionSchema = s.object({
+  isDiagnostic: s.boolean(),
+  confidence: s.number({ min: 0, max: 100 }),
+  reasoning: s.string().default('No reasoning provided')
 })
 
-export interface IntentDetectionResult {
-  isDiagnostic: boolean
-  confidence: number
-  reasoning: string
-}
+export type IntentDetectionResult = Infer<typeof intentDetectionSchema>
 
-export async function detectUserIntent(userMessage: string): Promise<IntentDetectionResult> {
+export async function detectUserIntent(userMessage: string, options: { userId?: string | null } = {}): Promise<IntentDetectionResult> {
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini', // Using smaller model for efficiency
+    const systemPrompt = await promptRegistry.render('intent_detection_system', {}, { assignmentKey: options.userId })
+    const startTime = Date.now()
+    const { data, usage } = await generateStructured({
+      name: 'intent_detection',
+      schema: intentDetectionSchema,
+      task: 'classification',
       messages: [
         {
           role: 'system',
-          content: `You are a medical intent classifier. Analyze if the user is trying to diagnose a medical condition or symptom versus asking general questions.
-
-DIAGNOSTIC INTENT indicators:
-- Describing symptoms (pain, discomfort, unusual sensations)
-- Asking about medical conditions or diseases
-- Seeking medical advice or diagnosis
-- Describing physical or mental health issues
-- Asking "what could this be" about health symptoms
-- Medical emergency situations
-
-GENERAL INTENT indicators:
-- General health education questions
-- Asking about medications or treatments conceptually
-- Health prevention or wellness questions
-- Medical research or learning
-- General medical knowledge
-
-Respond with JSON only:
-{
-  "isDiagnostic": boolean,
-  "confidence": number (0-100),
-  "reasoning": "brief explanation"
-}`
+          content: systemPrompt.content
         },
         {
           role: 'user',
@@ -47,17 +29,17 @@ Respond with JSON only:
         }
       ],
       max_tokens: 150,
-      temperature: 0.1,
-      response_format: { type: "json_object" }
+      temperature: 0.1
+    })
+    await promptRegistry.recordUsage(systemPrompt, {
+      userId: options.userId,
+      endpoint: 'intent-detection',
+      model: getModelForTask('classification'),
+      usage,
+      latencyMs: Date.now() - startTime
     })
 
-    const result = JSON.parse(response.choices[0].message.content || '{}')
-    
-    return {
-      isDiagnostic: result.isDiagnostic || false,
-      confidence: result.confidence || 0,
-      reasoning: result.reasoning || 'No reasoning provided'
-    }
+    return data
   } catch (error) {
     console.error('Intent detection error:', error)
     // Conservative fallback - assume general intent on error
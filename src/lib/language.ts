@@ -0,0 +1,345 @@
+/**
+ * Language Handling
+ * Detects the language of incoming messages and decides which language to answer
+ * in: an explicit request wins, then the user's preferred_language, then the
+ * language the user is writing in. Clinical matching (SDCO, Merlin) stays on
+ * English canonical terms, so text headed there goes through translateToEnglish.
+ */
+
+import { generateStructured, s } from './structured-output'
+import { getLLMProvider } from './llm-provider'
+import { userAgentProfileManager } from './user-agent-profile'
+
+export type LanguageCode = 'en' | 'es' | 'fr' | 'de' | 'pt' | 'it' | 'nl' | 'ru' | 'ar' | 'hi' | 'zh' | 'ja' | 'ko'
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en'
+
+// Stored as preferred_language when the user wants answers in whatever language they write in
+export const AUTO_LANGUAGE = 'auto'
+
+export const SUPPORTED_LANGUAGES: Record<LanguageCode, { name: string; nativeName: string; locale: string }> = {
+  en: { name: 'English', nativeName: 'English', locale: 'en-US' },
+  es: { name: 'Spanish', nativeName: 'Español', locale: 'es-ES' },
+  fr: { name: 'French', nativeName: 'Français', locale: 'fr-FR' },
+  de: { name: 'German', nativeName: 'Deutsch', locale: 'de-DE' },
+  pt: { name: 'Portuguese', nativeName: 'Português', locale: 'pt-BR' },
+  it: { name: 'Italian', nativeName: 'Italiano', locale: 'it-IT' },
+  nl: { name: 'Dutch', nativeName: 'Nederlands', locale: 'nl-NL' },
+  ru: { name: 'Russian', nativeName: 'Русский', locale: 'ru-RU' },
+  ar: { name: 'Arabic', nativeName: 'العربية', locale: 'ar' },
+  hi: { name: 'Hindi', nativeName: 'हिन्दी', locale: 'hi-IN' },
+  zh: { name: 'Chinese', nativeName: '中文', locale: 'zh-CN' },
+  ja: { name: 'Japanese', nativeName: '日本語', locale: 'ja-JP' },
+  ko: { name: 'Korean', nativeName: '한국어', locale: 'ko-KR' }
+}
+
+const LANGUAGE_CODES = Object.keys(SUPPORTED_LANGUAGES) as LanguageCode[]
+
+export function isLanguageCode(value: string): value is LanguageCode {
+  return Object.prototype.hasOwnProperty.call(SUPPORTED_LANGUAGES, value)
+}
+
+/**
+ * Map "es", "es-MX", "Spanish" or "español" to a supported code. Returns null for
+ * unsupported values and for "auto".
+ */
+export function normalizeLanguage(value: unknown): LanguageCode | null {
+  if (typeof value !== 'string') return null
+  const text = value.trim().toLowerCase()
+  if (!text || text === AUTO_LANGUAGE) return null
+
+  const base = text.split(/[-_]/)[0]
+  if (isLanguageCode(base)) return base
+
+  const named = LANGUAGE_CODES.find(code =>
+    SUPPORTED_LANGUAGES[code].name.toLowerCase() === text ||
+    SUPPORTED_LANGUAGES[code].nativeName.toLowerCase() === text
+  )
+  return named || null
+}
+
+export function languageName(code: LanguageCode): string {
+  return SUPPORTED_LANGUAGES[code].name
+}
+
+export function languageLocale(code: LanguageCode): string {
+  return SUPPORTED_LANGUAGES[code].locale
+}
+
+/**
+ * First supported language in an Accept-Language header, honouring q-values
+ */
+export function parseAcceptLanguage(header: unknown): LanguageCode | null {
+  if (typeof header !== 'string' || !header) return null
+  const ranked = header.split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';')
+      const q = params.map(param => param.trim()).find(param => param.startsWith('q='))
+      return { tag, q: q ? parseFloat(q.slice(2)) || 0 : 1 }
+    })
+    .sort((a, b) => b.q - a.q)
+
+  for (const { tag } of ranked) {
+    const code = normalizeLanguage(tag)
+    if (code) return code
+  }
+  return null
+}
+
+export interface LanguageDetection {
+  // null when the text is too short or too mixed to tell
+  language: LanguageCode | null
+  // 0-1
+  confidence: number
+  source: 'script' | 'words' | 'llm' | 'none'
+}
+
+export interface LanguageDetectorConfig {
+  llmEnabled: boolean
+  // Shorter texts are not sent to the LLM; a couple of words rarely identify a language
+  llmMinLength: number
+  minConfidence: number
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '')
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+function resolveDefaultConfig(): LanguageDetectorConfig {
+  return {
+    llmEnabled: process.env.LANGUAGE_DETECTION_LLM_ENABLED !== 'false',
+    llmMinLength: readNumberEnv('LANGUAGE_DETECTION_LLM_MIN_LENGTH', 12),
+    minConfidence: readNumberEnv('LANGUAGE_DETECTION_MIN_CONFIDENCE', 0.6)
+  }
+}
+
+// Languages with their own script are identified from the characters alone
+const SCRIPT_PATTERNS: [LanguageCode, RegExp][] = [
+  ['ko', /[\uac00-\ud7af\u1100-\u11ff]/g],
+  ['ja', /[\u3040-\u30ff]/g],
+  ['zh', /[\u4e00-\u9fff]/g],
+  ['ar', /[\u0600-\u06ff]/g],
+  ['hi', /[\u0900-\u097f]/g],
+  ['ru', /[\u0400-\u04ff]/g]
+]
+
+// Frequent function words and common symptom words for Latin-script languages
+const WORD_MARKERS: Partial<Record<LanguageCode, Set<string>>> = {
+  en: new Set(['the', 'and', 'is', 'i', 'my', 'have', 'it', 'of', 'to', 'with', 'what', 'for', 'you', 'am', 'been', 'this', 'that', 'are', 'do', 'not', 'pain', 'feel', 'since', 'hurts', 'about']),
+  es: new Set(['el', 'los', 'las', 'y', 'es', 'que', 'mi', 'tengo', 'con', 'por', 'para', 'me', 'una', 'dolor', 'estoy', 'muy', 'qué', 'cómo', 'desde', 'duele', 'hace', 'días', 'cabeza', 'pero']),
+  fr: new Set(['le', 'les', 'et', 'est', 'je', 'mon', 'ma', 'ai', 'avec', 'pour', 'une', 'des', 'pas', 'douleur', 'suis', 'très', 'depuis', 'mal', 'tête', 'jours', 'ça', 'mais', 'au', 'du']),
+  de: new Set(['der', 'die', 'das', 'und', 'ist', 'ich', 'habe', 'mit', 'nicht', 'ein', 'eine', 'mein', 'meine', 'seit', 'schmerzen', 'bin', 'sehr', 'was', 'wie', 'tagen', 'kopf', 'aber', 'auch']),
+  pt: new Set(['os', 'as', 'é', 'meu', 'minha', 'tenho', 'com', 'não', 'um', 'uma', 'dor', 'estou', 'muito', 'para', 'em', 'desde', 'cabeça', 'dias', 'mas', 'você', 'está', 'sinto']),
+  it: new Set(['il', 'lo', 'gli', 'è', 'di', 'che', 'mio', 'mia', 'ho', 'con', 'non', 'un', 'una', 'dolore', 'sono', 'molto', 'per', 'da', 'testa', 'giorni', 'ma', 'mi', 'fa']),
+  nl: new Set(['de', 'het', 'een', 'en', 'is', 'ik', 'heb', 'mijn', 'met', 'niet', 'van', 'pijn', 'ben', 'erg', 'sinds', 'dagen', 'hoofd', 'maar', 'wat', 'hoe'])
+}
+
+const llmDetectionSchema = s.object({
+  language: s.enum(LANGUAGE_CODES),
+  confidence: s.number({ min: 0, max: 1 })
+})
+
+export class LanguageDetector {
+  private config: LanguageDetectorConfig
+
+  constructor(config: Partial<LanguageDetectorConfig> = {}) {
+    this.config = { ...resolveDefaultConfig(), ...config }
+  }
+
+  async detect(text: string): Promise<LanguageDetection> {
+    const ruleResult = this.detectByRules(text)
+    if (ruleResult.language && ruleResult.confidence >= this.config.minConfidence) {
+      return ruleResult
+    }
+
+    const trimmed = (text || '').trim()
+    if (!this.config.llmEnabled || trimmed.length < this.config.llmMinLength) {
+      return ruleResult
+    }
+
+    try {
+      const { data } = await generateStructured({
+        name: 'language_detection',
+        schema: llmDetectionSchema,
+        task: 'classification',
+        messages: [
+          {
+            role: 'system',
+            content: `Identify the language of the user's text. Answer with one of these ISO-639-1 codes: ${LANGUAGE_CODES.join(', ')}.
+Respond with JSON: {"language": "es", "confidence": 0.9}. confidence is between 0 and 1.`
+          },
+          { role: 'user', content: trimmed.slice(0, 1000) }
+        ],
+        max_tokens: 30,
+        temperature: 0
+      })
+      return {
+        language: data.confidence >= this.config.minConfidence ? data.language : null,
+        confidence: data.confidence,
+        source: 'llm'
+      }
+    } catch (error) {
+      console.error('Language detection failed:', error)
+      return ruleResult
+    }
+  }
+
+  /**
+   * Script ranges for non-Latin languages, marker words for Latin-script ones
+   */
+  detectByRules(text: string): LanguageDetection {
+    const value = text || ''
+    const letters = (value.match(/\p{L}/gu) || []).length
+    if (letters === 0) {
+      return { language: null, confidence: 0, source: 'none' }
+    }
+
+    const counts = new Map(SCRIPT_PATTERNS.map(([language, pattern]) => [language, (value.match(pattern) || []).length]))
+    // Japanese mixes kana with kanji, so any kana turns the Han count into Japanese
+    if (counts.get('ja')! > 0) {
+      counts.set('ja', counts.get('ja')! + counts.get('zh')!)
+      counts.set('zh', 0)
+    }
+    for (const [language] of SCRIPT_PATTERNS) {
+      if (counts.get(language)! / letters >= 0.3) {
+        return { language, confidence: 0.95, source: 'script' }
+      }
+    }
+
+    const words = value.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean)
+    const scores = (Object.entries(WORD_MARKERS) as [LanguageCode, Set<string>][])
+      .map(([language, markers]) => ({ language, hits: words.filter(word => markers.has(word)).length }))
+      .sort((a, b) => b.hits - a.hits)
+
+    const [best, second] = scores
+    if (best.hits < 2 || best.hits === second.hits) {
+      return { language: null, confidence: 0, source: 'none' }
+    }
+    const confidence = Math.min(0.95, 0.5 + 0.1 * (best.hits - second.hits) + 0.05 * Math.min(best.hits, 4))
+    return { language: best.language, confidence, source: 'words' }
+  }
+}
+
+export const languageDetector = new LanguageDetector()
+
+/**
+ * The user's preferred_language, or null when unset, "auto" or unavailable
+ */
+export async function getPreferredLanguage(userId: string | null | undefined): Promise<LanguageCode | null> {
+  if (!userId) return null
+  try {
+    const personality = await userAgentProfileManager.getAgentPersonality(String(userId))
+    return normalizeLanguage(personality?.preferred_language)
+  } catch (error) {
+    console.error('Failed to load preferred language:', error)
+    return null
+  }
+}
+
+/**
+ * Language for an email: an explicit request, then the user's preference, then the
+ * client's Accept-Language header
+ */
+export async function resolveEmailLanguage(options: {
+  requested?: unknown
+  userId?: string | null
+  acceptLanguage?: unknown
+}): Promise<LanguageCode> {
+  return normalizeLanguage(options.requested) ||
+    await getPreferredLanguage(options.userId) ||
+    parseAcceptLanguage(options.acceptLanguage) ||
+    DEFAULT_LANGUAGE
+}
+
+export interface ConversationLanguage {
+  // Language the assistant answers in
+  responseLanguage: LanguageCode
+  // Language the user wrote in, when it could be told
+  detectedLanguage: LanguageCode | null
+  source: 'request' | 'preference' | 'detected' | 'default'
+}
+
+/**
+ * Decide the answer language for a message. When the message alone is too short to
+ * tell (a bare "sí"), the user's earlier messages are used.
+ */
+export async function resolveConversationLanguage(options: {
+  message: string
+  userId?: string | null
+  requested?: unknown
+  // Already-loaded preferred_language; skips the lookup by userId
+  preferredLanguage?: string | null
+  history?: { role?: string; content?: unknown }[]
+}): Promise<ConversationLanguage> {
+  const [preferred, detection] = await Promise.all([
+    normalizeLanguage(options.requested) ? Promise.resolve(null)
+      : options.preferredLanguage !== undefined ? Promise.resolve(normalizeLanguage(options.preferredLanguage))
+      : getPreferredLanguage(options.userId),
+    languageDetector.detect(options.message)
+  ])
+
+  let detectedLanguage = detection.language
+  if (!detectedLanguage && options.history?.length) {
+    const earlier = options.history
+      .filter(entry => entry?.role === 'user' && typeof entry.content === 'string')
+      .slice(-3)
+      .map(entry => entry.content as string)
+      .join('\n')
+    if (earlier) {
+      detectedLanguage = (await languageDetector.detect(`${earlier}\n${options.message}`)).language
+    }
+  }
+
+  const requested = normalizeLanguage(options.requested)
+  if (requested) return { responseLanguage: requested, detectedLanguage, source: 'request' }
+  if (preferred) return { responseLanguage: preferred, detectedLanguage, source: 'preference' }
+  if (detectedLanguage) return { responseLanguage: detectedLanguage, detectedLanguage, source: 'detected' }
+  return { responseLanguage: DEFAULT_LANGUAGE, detectedLanguage: null, source: 'default' }
+}
+
+/**
+ * System message pinning the answer language, or null when the conversation is
+ * plain English and nothing needs saying
+ */
+export function languageInstruction(language: ConversationLanguage | LanguageCode): string | null {
+  const { responseLanguage, detectedLanguage } = typeof language === 'string'
+    ? { responseLanguage: language, detectedLanguage: null }
+    : language
+  if (responseLanguage === DEFAULT_LANGUAGE && (!detectedLanguage || detectedLanguage === DEFAULT_LANGUAGE)) {
+    return null
+  }
+  const { name, nativeName } = SUPPORTED_LANGUAGES[responseLanguage]
+  return `Always respond in ${name} (${nativeName}), even when the user's message, the conversation history or the medical context above is in another language. Keep medication names, doses and units exact, and add the English medical term in parentheses where it helps the user talk to a clinician.`
+}
+
+/**
+ * English version of patient text for matching against English clinical
+ * vocabularies. Returns the text unchanged when it is already English or when
+ * translation fails.
+ */
+export async function translateToEnglish(text: string, sourceLanguage?: LanguageCode | null): Promise<string> {
+  if (!text || !text.trim()) return text
+  const language = sourceLanguage !== undefined ? sourceLanguage : (await languageDetector.detect(text)).language
+  if (!language || language === DEFAULT_LANGUAGE) return text
+
+  try {
+    const completion = await getLLMProvider().chat({
+      task: 'classification',
+      messages: [
+        {
+          role: 'system',
+          content: `Translate the patient's ${languageName(language)} text into plain English. Keep every symptom, duration, body part and medication; use standard English medical terms where there is one. Output only the translation.`
+        },
+        { role: 'user', content: text }
+      ],
+      max_tokens: Math.min(1000, 100 + text.length),
+      temperature: 0
+    })
+    const translated = completion.choices[0]?.message?.content?.trim()
+    return translated || text
+  } catch (error) {
+    console.error('Translation to English failed:', error)
+    return text
+  }
+}
@@ -0,0 +1,405 @@
+/**
+ * LLM Provider
+ * Single entry point for chat completions, vision, embeddings and transcription.
+ * Models are configured per task rather than hardcoded at each call site, and
+ * LLM_PROVIDER=fake swaps in a deterministic offline provider for tests.
+ */
+
+import OpenAI from 'openai'
+import type { Uploadable } from 'openai/uploads'
+
+export type LLMTask =
+  | 'chat'            // user-facing conversation
+  | 'analysis'        // structured reasoning over health data, diagnostics, memories
+  | 'classification'  // short, high-volume decisions such as intent and triage
+  | 'vision'          // image and document understanding
+  | 'embedding'
+  | 'transcription'
+
+export type LLMModelConfig = Record<LLMTask, string>
+
+const DEFAULT_MODELS: LLMModelConfig = {
+  chat: 'gpt-4o',
+  analysis: 'gpt-4o',
+  classification: 'gpt-4o-mini',
+  vision: 'gpt-4o',
+  embedding: 'text-embedding-ada-002',
+  transcription: 'whisper-1'
+}
+
+// Dimension of the default embedding model, which the vector columns were first sized for
+export const EMBEDDING_DIMENSIONS = 1536
+
+// Native output size of known embedding models; other models need LLM_EMBEDDING_DIMENSIONS
+const EMBEDDING_MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-ada-002': 1536,
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072
+}
+
+export interface EmbeddingModelConfig {
+  model: string
+  dimensions: number
+}
+
+export const DEFAULT_EMBEDDING_MODEL: EmbeddingModelConfig = {
+  model: DEFAULT_MODELS.embedding,
+  dimensions: EMBEDDING_DIMENSIONS
+}
+
+export type LLMChatRequest = Omit<OpenAI.Chat.ChatCompletionCreateParamsNonStreaming, 'model' | 'stream'> & {
+  task?: LLMTask
+  // Overrides the task's configured model
+  model?: string
+}
+
+export interface LLMRequestOptions {
+  signal?: AbortSignal
+}
+
+export interface LLMEmbeddingRequest {
+  input: string | string[]
+  model?: string
+  // Shortened output for models that support it; defaults to the model's configured size
+  dimensions?: number
+}
+
+export interface LLMEmbeddingResult {
+  embeddings: number[][]
+  model: string
+  dimensions: number
+  totalTokens: number
+}
+
+export interface LLMTranscriptionRequest {
+  file: Uploadable
+  // ISO-639-1 code; omit to let the model detect the language
+  language?: string
+  prompt?: string
+  model?: string
+}
+
+export interface LLMTranscriptionResult {
+  text: string
+  language: string | null
+}
+
+export interface LLMProvider {
+  readonly name: string
+  chat(request: LLMChatRequest, options?: LLMRequestOptions): Promise<OpenAI.Chat.ChatCompletion>
+  chatStream(request: LLMChatRequest, options?: LLMRequestOptions): Promise<AsyncIterable<OpenAI.Chat.ChatCompletionChunk>>
+  embed(request: LLMEmbeddingRequest, options?: LLMRequestOptions): Promise<LLMEmbeddingResult>
+  transcribe(request: LLMTranscriptionRequest, options?: LLMRequestOptions): Promise<LLMTranscriptionResult>
+}
+
+/**
+ * Model for a task: LLM_MODEL_<TASK> (e.g. LLM_MODEL_CLASSIFICATION) or the default
+ */
+export function getModelForTask(task: LLMTask): string {
+  return process.env[`LLM_MODEL_${task.toUpperCase()}`] || DEFAULT_MODELS[task]
+}
+
+/**
+ * The configured embedding model and its output size: LLM_EMBEDDING_DIMENSIONS, or
+ * the model's native size
+ */
+export function getEmbeddingModelConfig(): EmbeddingModelConfig {
+  const model = getModelForTask('embedding')
+  const configured = parseInt(process.env.LLM_EMBEDDING_DIMENSIONS || '', 10)
+  const dimensions = configured > 0 ? configured : EMBEDDING_MODEL_DIMENSIONS[model]
+  if (!dimensions) {
+    throw new Error(`Unknown embedding model ${model}: set LLM_EMBEDDING_DIMENSIONS`)
+  }
+  return { model, dimensions }
+}
+
+/**
+ * Model and size for an embedding request; a model other than the configured one
+ * gets its native size unless the request sets one
+ */
+function resolveEmbeddingModel(request: LLMEmbeddingRequest): EmbeddingModelConfig {
+  if (request.model && request.model !== getModelForTask('embedding')) {
+    const dimensions = request.dimensions || EMBEDDING_MODEL_DIMENSIONS[request.model]
+    if (!dimensions) {
+      throw new Error(`Unknown embedding model ${request.model}: pass dimensions`)
+    }
+    return { model: request.model, dimensions }
+  }
+  const configured = getEmbeddingModelConfig()
+  return { model: configured.model, dimensions: request.dimensions || configured.dimensions }
+}
+
+export function getModelConfig(): LLMModelConfig {
+  return (Object.keys(DEFAULT_MODELS) as LLMTask[]).reduce((config, task) => {
+    config[task] = getModelForTask(task)
+    return config
+  }, {} as LLMModelConfig)
+}
+
+function splitChatRequest(request: LLMChatRequest): { model: string; params: Omit<LLMChatRequest, 'task' | 'model'> } {
+  const { task = 'chat', model, ...params } = request
+  return { model: model || getModelForTask(task), params }
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai'
+  private client: OpenAI
+
+  constructor(client: OpenAI = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })) {
+    this.client = client
+  }
+
+  async chat(request: LLMChatRequest, options: LLMRequestOptions = {}): Promise<OpenAI.Chat.ChatCompletion> {
+    const { model, params } = splitChatRequest(request)
+    return this.client.chat.completions.create({ ...params, model }, { signal: options.signal })
+  }
+
+  async chatStream(request: LLMChatRequest, options: LLMRequestOptions = {}): Promise<AsyncIterable<OpenAI.Chat.ChatCompletionChunk>> {
+    const { model, params } = splitChatRequest(request)
+    return this.client.chat.completions.create(
+      { ...params, model, stream: true, stream_options: { include_usage: true } },
+      { signal: options.signal }
+    )
+  }
+
+  async embed(request: LLMEmbeddingRequest, options: LLMRequestOptions = {}): Promise<LLMEmbeddingResult> {
+    const { model, dimensions } = resolveEmbeddingModel(request)
+    // Only newer models accept `dimensions`, and only when it differs from their native size
+    const native = EMBEDDING_MODEL_DIMENSIONS[model]
+    const response = await this.client.embeddings.create({
+      model,
+      input: request.input,
+      ...(native && native !== dimensions ? { dimensions } : {})
+    }, { signal: options.signal })
+    return {
+      embeddings: response.data.map(item => item.embedding),
+      model: response.model,
+      dimensions: response.data[0]?.embedding.length || dimensions,
+      totalTokens: response.usage?.total_tokens || 0
+    }
+  }
+
+  async transcribe(request: LLMTranscriptionRequest, options: LLMRequestOptions = {}): Promise<LLMTranscriptionResult> {
+    // verbose_json is the only format that reports the detected language
+    const transcription: OpenAI.Audio.TranscriptionVerbose = await this.client.audio.transcriptions.create({
+      file: request.file,
+      model: request.model || getModelForTask('transcription'),
+      language: request.language,
+      prompt: request.prompt,
+      response_format: 'verbose_json'
+    }, { signal: options.signal })
+    return {
+      text: transcription.text,
+      language: transcription.language || request.language || null
+    }
+  }
+}
+
+type FakeChatMatcher = string | RegExp | ((request: LLMChatRequest) => boolean)
+type FakeChatReply = string | object | ((request: LLMChatRequest) => string | object)
+
+interface FakeChatRule {
+  matcher: FakeChatMatcher
+  reply: FakeChatReply
+}
+
+export interface FakeLLMCall {
+  kind: 'chat' | 'embed' | 'transcribe'
+  model: string
+  request: any
+}
+
+function messageText(message: OpenAI.Chat.ChatCompletionMessageParam): string {
+  if (typeof message.content === 'string') return message.content
+  if (!Array.isArray(message.content)) return ''
+  return message.content.map(part => ('text' in part ? part.text : '')).join(' ')
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+// FNV-1a, so fake output is stable across runs and processes
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Smallest value that satisfies a JSON schema, used as the fake's structured reply
+function sampleFromJsonSchema(schema: any): any {
+  if (!schema || typeof schema !== 'object') return null
+  if (Array.isArray(schema.anyOf)) return sampleFromJsonSchema(schema.anyOf[0])
+  if (Array.isArray(schema.enum)) return schema.enum[0]
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, sampleFromJsonSchema(value)])
+      )
+    case 'array': return []
+    case 'string': return ''.padEnd(schema.minLength || 0, 'x')
+    case 'number':
+    case 'integer': return schema.minimum ?? 0
+    case 'boolean': return false
+    default: return null
+  }
+}
+
+/**
+ * Offline provider with deterministic output. Replies come from registered rules
+ * matched against the request's user messages; otherwise a stable default is
+ * generated, or the smallest schema-conforming object in JSON schema mode.
+ * Embeddings are hashed bags of words, so texts sharing words land close together
+ * and similarity search still behaves sensibly.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake'
+  readonly calls: FakeLLMCall[] = []
+  private rules: FakeChatRule[] = []
+  private transcript = 'This is a test transcription.'
+
+  /**
+   * Reply with `reply` when a user message contains the string, matches the regex,
+   * or the request satisfies the predicate. Later rules take precedence.
+   */
+  respondTo(matcher: FakeChatMatcher, reply: FakeChatReply): this {
+    this.rules.unshift({ matcher, reply })
+    return this
+  }
+
+  setTranscript(text: string): this {
+    this.transcript = text
+    return this
+  }
+
+  reset(): void {
+    this.rules = []
+    this.calls.length = 0
+  }
+
+  async chat(request: LLMChatRequest): Promise<OpenAI.Chat.ChatCompletion> {
+    const { model } = splitChatRequest(request)
+    this.calls.push({ kind: 'chat', model, request })
+    const content = this.replyFor(request)
+    const promptTokens = estimateTokens(request.messages.map(messageText).join('\n'))
+    const completionTokens = estimateTokens(content)
+
+    return {
+      id: `fake-${hashString(content).toString(16)}`,
+      object: 'chat.completion',
+      created: 0,
+      model,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content, refusal: null },
+        finish_reason: 'stop',
+        logprobs: null
+      }],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens
+      }
+    }
+  }
+
+  async chatStream(request: LLMChatRequest): Promise<AsyncIterable<OpenAI.Chat.ChatCompletionChunk>> {
+    const completion = await this.chat(request)
+    const content = completion.choices[0].message.content || ''
+    const base = { id: completion.id, object: 'chat.completion.chunk' as const, created: 0, model: completion.model }
+
+    return (async function* () {
+      for (const token of content.match(/\S+\s*|\s+/g) || []) {
+        yield { ...base, choices: [{ index: 0, delta: { content: token }, finish_reason: null }] }
+      }
+      yield { ...base, choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] }
+      yield { ...base, choices: [], usage: completion.usage }
+    })()
+  }
+
+  async embed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResult> {
+    const { model, dimensions } = resolveEmbeddingModel(request)
+    this.calls.push({ kind: 'embed', model, request })
+    const inputs = Array.isArray(request.input) ? request.input : [request.input]
+
+    return {
+      embeddings: inputs.map(text => this.embedText(text, dimensions)),
+      model,
+      dimensions,
+      totalTokens: inputs.reduce((sum, text) => sum + estimateTokens(text), 0)
+    }
+  }
+
+  async transcribe(request: LLMTranscriptionRequest): Promise<LLMTranscriptionResult> {
+    const model = request.model || getModelForTask('transcription')
+    this.calls.push({ kind: 'transcribe', model, request })
+    return { text: this.transcript, language: request.language || 'en' }
+  }
+
+  private replyFor(request: LLMChatRequest): string {
+    const userTexts = request.messages.filter(message => message.role === 'user').map(messageText)
+    const text = userTexts[userTexts.length - 1] || ''
+
+    for (const rule of this.rules) {
+      const matcher = rule.matcher
+      const matched = typeof matcher === 'string' ? userTexts.some(userText => userText.includes(matcher))
+        : matcher instanceof RegExp ? userTexts.some(userText => matcher.test(userText))
+        : matcher(request)
+      if (matched) {
+        const reply = typeof rule.reply === 'function' ? rule.reply(request) : rule.reply
+        return typeof reply === 'string' ? reply : JSON.stringify(reply)
+      }
+    }
+
+    if (request.response_format?.type === 'json_schema') {
+      return JSON.stringify(sampleFromJsonSchema(request.response_format.json_schema.schema))
+    }
+    if (request.response_format?.type === 'json_object') {
+      return '{}'
+    }
+    return `Fake response (${hashString(text).toString(16)}): ${text.slice(0, 200)}`
+  }
+
+  private embedText(text: string, dimensions: number): number[] {
+    const vector = new Array<number>(dimensions).fill(0)
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) || []
+    for (const word of words) {
+      const hash = hashString(word)
+      vector[hash % dimensions] += (hash & 1) ? 1 : -1
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1
+    return vector.map(value => value / norm)
+  }
+}
+
+let activeProvider: LLMProvider | null = null
+
+function createDefaultProvider(): LLMProvider {
+  if (process.env.LLM_PROVIDER === 'fake') {
+    console.log('🧪 Using fake LLM provider')
+    return new FakeLLMProvider()
+  }
+  return new OpenAIProvider()
+}
+
+/**
+ * Provider selected by LLM_PROVIDER (openai by default). Resolve it per call rather
+ * than caching it at module load so setLLMProvider takes effect everywhere.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createDefaultProvider()
+  }
+  return activeProvider
+}
+
+/**
+ * Replace the active provider, e.g. with a FakeLLMProvider in tests. Pass null to
+ * go back to the environment default.
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider
+}
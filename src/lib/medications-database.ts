@@ -4,6 +4,7 @@
  */
 
 import { DatabasePool } from './database-pool';
+import { getMerlinClient } from './merlin-client'
 
 export interface MedicationEntry {
   id: string
@@ -138,36 +139,18 @@ class MedicationsDatabase {
   }
 
   /**
-   * Fetch all medications from Merlin API using JWT authentication
+   * Fetch all medications from Merlin API
    */
   private async fetchAllMedicationsFromMerlin(): Promise<MedicationEntry[]> {
     console.log('📡 Fetching all medications from Merlin API...')
     
     try {
-      // Get JWT token first
-      const jwtToken = await this.getJWTToken()
-      
-      // Use correct Merlin endpoint
-      const merlinUrl = 'https://merlin-394631772515.us-central1.run.app'
-      
       // Fetch medications from Merlin medication catalog
-      const response = await fetch(`${merlinUrl}/api/v1/medication/get-medication-catalog`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${jwtToken}`,
-          'Content-Type': 'application/json'
-        }
-      })
-
-      if (!response.ok) {
-        throw new Error(`Merlin API error: ${response.status} ${response.statusText}`)
-      }
-
-      const data = await response.json()
-      console.log(`📋 Fetched ${data?.length || 0} medications from Merlin API`)
+      const data = await getMerlinClient().getMedicationCatalog()
+      console.log(`📋 Fetched ${data.length} medications from Merlin API`)
       
       // Transform Merlin API response to our format
-      return (data || []).map((medication: any, index: number) => ({
+      return data.map((medication: any, index: number) => ({
         id: medication.id || `med_${index}_${medication.name?.replace(/\s+/g, '_').toLowerCase()}`,
         name: medication.name || medication.medication_name,
         generic_name: medication.generic_name,
@@ -187,48 +170,6 @@ class MedicationsDatabase {
     }
   }
 
-  /**
-   * Get JWT token for Merlin API authentication
-   */
-  private async getJWTToken(): Promise<string> {
-    const UMA_API_URL = 'https://uma-394631772515.us-central1.run.app'
-    const UMA_API_KEY = process.env.UMA_API_KEY
-    
-    if (!UMA_API_KEY) {
-      throw new Error('UMA_API_KEY environment variable not found')
-    }
-
-    try {
-      const response = await fetch(`${UMA_API_URL}/get-token`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `basic ${UMA_API_KEY}`,
-          'Cache-Control': 'no-store',
-          'Pragma': 'no-cache',
-          'Expires': '0'
-        }
-      })
-
-      if (!response.ok) {
-        throw new Error(`JWT authentication failed: ${response.status} ${response.statusText}`)
-      }
-
-      const data = await response.json()
-      const token = data.token
-      
-      if (!token) {
-        throw new Error('No JWT token received from UMA API')
-      }
-
-      console.log('✅ JWT token obtained for Merlin API access')
-      return token
-
-    } catch (error) {
-      console.error('Error getting JWT token:', error)
-      throw error
-    }
-  }
-
   /**
    * Insert a single medication into the database
    */
@@ -336,6 +277,56 @@ class MedicationsDatabase {
     }
   }
 
+  /**
+   * Find the catalog entry whose name, generic name or a brand name equals the given name.
+   * Falls back to the name without a trailing strength ("Lisinopril 10mg" → "Lisinopril").
+   */
+  async findMedicationByName(name: string): Promise<MedicationEntry | null> {
+    const exact = await this.findMedicationByExactName(name)
+    if (exact) return exact
+
+    const withoutStrength = name.replace(/\s+\d[\d.,]*\s*(mg|mcg|g|ml|iu|units?|%)\b.*$/i, '').trim()
+    return withoutStrength && withoutStrength !== name.trim()
+      ? this.findMedicationByExactName(withoutStrength)
+      : null
+  }
+
+  private async findMedicationByExactName(name: string): Promise<MedicationEntry | null> {
+    try {
+      const query = `
+        SELECT * FROM medications_master
+        WHERE
+          LOWER(name) = LOWER($1) OR
+          LOWER(generic_name) = LOWER($1) OR
+          EXISTS (
+            SELECT 1 FROM unnest(brand_names) AS brand
+            WHERE LOWER(brand) = LOWER($1)
+          )
+        ORDER BY
+          CASE
+            WHEN LOWER(name) = LOWER($1) THEN 1
+            WHEN LOWER(generic_name) = LOWER($1) THEN 2
+            ELSE 3
+          END,
+          name
+        LIMIT 1
+      `
+      const client = await DatabasePool.getClient()
+      let result
+      try {
+        result = await client.query(query, [name.trim()])
+      } finally {
+        client.release()
+      }
+
+      if (result.rows.length === 0) return null
+      return this.mapRowToMedication(result.rows[0])
+    } catch (error) {
+      console.error('Error finding medication by name:', error)
+      return null
+    }
+  }
+
   /**
    * Get medications by therapeutic class
    */
@@ -0,0 +1,796 @@
+/**
+ * Memory Consolidation
+ * Scheduled upkeep for extracted memories. Insert-time de-duplication only catches
+ * near-identical text, so users collect several memories about the same fact and
+ * many that are never used again. Each run, for every user:
+ *
+ * 1. Active memories of the same type are clustered by embedding similarity,
+ *    and each cluster is merged by the LLM into one canonical memory (source
+ *    'consolidation', no session). The canonical memory lists its sources in
+ *    `provenance`; the sources are archived with `merged_into` pointing at it.
+ * 2. Importance decays from the extracted or user-set value with a half-life
+ *    counted from the last time the memory was put into a prompt. Every use
+ *    lengthens the half-life.
+ * 3. Memories whose importance fell below the threshold are archived.
+ *
+ * Pinned memories are never merged, decayed or archived. Archived rows are kept,
+ * and "forget" still finds them, but they are no longer listed or retrieved.
+ * Each run and its per-user reports are stored for admins.
+ */
+
+import { DatabasePool, isUuid } from './database-pool'
+import { generateStructured, s } from './structured-output'
+import { responseCache } from './response-cache'
+import { memoryStore, memoryContent } from './memory-store'
+import { embeddingIndex } from './embedding-index'
+import { cosineSimilarity } from './memory-manager'
+
+export type ConsolidationTrigger = 'scheduled' | 'manual'
+
+export type ConsolidationRunStatus = 'running' | 'completed' | 'failed'
+
+export interface ConsolidationCounts {
+  memoriesScanned: number
+  clustersMerged: number
+  // Source memories archived into canonical memories
+  memoriesMerged: number
+  decayed: number
+  archived: number
+}
+
+/**
+ * One source of a canonical memory. Merging a canonical memory again carries its
+ * provenance over, so the list always points at the originally extracted rows.
+ */
+export interface MemoryProvenance {
+  memoryId: string
+  sessionId: string | null
+  summary: string
+  importance: number
+  extractedAt: string | null
+}
+
+export interface ConsolidatedCluster {
+  memoryType: string
+  canonicalMemoryId: string
+  summary: string
+  sourceMemoryIds: string[]
+  sessionIds: string[]
+}
+
+export interface ConsolidationReport {
+  id: string
+  runId: string
+  userId: string
+  status: 'completed' | 'failed'
+  counts: ConsolidationCounts
+  clusters: ConsolidatedCluster[]
+  error: string | null
+  durationMs: number
+  createdAt: Date
+}
+
+export interface ConsolidationRun {
+  id: string
+  trigger: ConsolidationTrigger
+  status: ConsolidationRunStatus
+  // Set when the run was limited to one user
+  userId: string | null
+  usersProcessed: number
+  usersFailed: number
+  totals: ConsolidationCounts
+  error: string | null
+  startedAt: Date
+  finishedAt: Date | null
+}
+
+export interface ConsolidationReportFilters {
+  runId?: string
+  userId?: string
+  status?: 'completed' | 'failed'
+  limit?: number
+  offset?: number
+}
+
+export interface ConsolidationConfig {
+  enabled: boolean
+  // Minimum time between scheduled runs
+  intervalHours: number
+  // Cosine similarity for two memories to be merged
+  clusterThreshold: number
+  halfLifeDays: number
+  archiveThreshold: number
+  maxMemoriesPerUser: number
+  maxClustersPerUser: number
+}
+
+export class ConsolidationError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'ConsolidationError'
+    this.status = status
+  }
+}
+
+interface CandidateMemory {
+  id: string
+  sessionId: string | null
+  memoryType: string
+  embedding: number[]
+  summary: string
+  details: any
+  confidence: number
+  importance: number
+  relatedSymptoms: string[]
+  tags: string[]
+  sourceMessages: string[]
+  extractedAt: Date
+  provenance: MemoryProvenance[]
+  referenceCount: number
+  lastUsedAt: Date
+}
+
+// How often the scheduler checks whether a run is due
+const CHECK_INTERVAL_MS = 15 * 60 * 1000
+const MAX_SOURCE_MESSAGES = 20
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '')
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+function resolveDefaultConfig(): ConsolidationConfig {
+  return {
+    enabled: process.env.MEMORY_CONSOLIDATION_ENABLED !== 'false',
+    intervalHours: readNumberEnv('MEMORY_CONSOLIDATION_INTERVAL_HOURS', 24),
+    clusterThreshold: readNumberEnv('MEMORY_CLUSTER_THRESHOLD', 0.88),
+    halfLifeDays: readNumberEnv('MEMORY_DECAY_HALF_LIFE_DAYS', 90),
+    archiveThreshold: readNumberEnv('MEMORY_ARCHIVE_THRESHOLD', 0.1),
+    maxMemoriesPerUser: readNumberEnv('MEMORY_CONSOLIDATION_MAX_MEMORIES', 500),
+    maxClustersPerUser: readNumberEnv('MEMORY_CONSOLIDATION_MAX_CLUSTERS', 20)
+  }
+}
+
+function emptyCounts(): ConsolidationCounts {
+  return { memoriesScanned: 0, clustersMerged: 0, memoriesMerged: 0, decayed: 0, archived: 0 }
+}
+
+/**
+ * Counts as stored on a run or report. Runs from before the memory store kept a
+ * count per legacy table ({ chatMemory, vectorMemory }); those are summed.
+ */
+function parseCounts(raw: any): ConsolidationCounts {
+  const counts = emptyCounts()
+  for (const key of Object.keys(counts) as (keyof ConsolidationCounts)[]) {
+    const value = raw?.[key]
+    counts[key] = typeof value === 'number'
+      ? value
+      : Object.values(value || {}).reduce((sum: number, count) => sum + (Number(count) || 0), 0)
+  }
+  return counts
+}
+
+function addCounts(total: ConsolidationCounts, counts: ConsolidationCounts): void {
+  for (const key of Object.keys(total) as (keyof ConsolidationCounts)[]) {
+    total[key] += counts[key]
+  }
+}
+
+function hasChanges(counts: ConsolidationCounts): boolean {
+  return counts.clustersMerged + counts.decayed + counts.archived > 0
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values))
+}
+
+const consolidatedMemorySchema = s.object({
+  summary: s.string(),
+  details: s.any().default({}),
+  relatedSymptoms: s.array(s.string()).default([]),
+  tags: s.array(s.string()).default([])
+})
+
+export class MemoryConsolidation {
+  private config: ConsolidationConfig
+  private schemaReady: Promise<void> | null = null
+  private intervalId: NodeJS.Timeout | null = null
+  private activeRunId: string | null = null
+  private lastCheckAt: Date | null = null
+
+  constructor(config: Partial<ConsolidationConfig> = {}) {
+    this.config = { ...resolveDefaultConfig(), ...config }
+  }
+
+  getConfig(): Readonly<ConsolidationConfig> {
+    return this.config
+  }
+
+  async initializeSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = memoryStore.initializeSchema().then(() => this.createSchema()).catch(error => {
+        this.schemaReady = null
+        throw error
+      })
+    }
+    return this.schemaReady
+  }
+
+  private async createSchema(): Promise<void> {
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS memory_consolidation_runs (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          trigger VARCHAR(20) NOT NULL,
+          status VARCHAR(20) NOT NULL DEFAULT 'running',
+          user_id UUID,
+          users_processed INTEGER NOT NULL DEFAULT 0,
+          users_failed INTEGER NOT NULL DEFAULT 0,
+          totals JSONB NOT NULL DEFAULT '{}',
+          error TEXT,
+          started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          finished_at TIMESTAMP WITH TIME ZONE
+        )
+      `)
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS memory_consolidation_reports (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          run_id UUID NOT NULL REFERENCES memory_consolidation_runs(id) ON DELETE CASCADE,
+          user_id UUID NOT NULL,
+          status VARCHAR(20) NOT NULL,
+          counts JSONB NOT NULL DEFAULT '{}',
+          clusters JSONB NOT NULL DEFAULT '[]',
+          error TEXT,
+          duration_ms INTEGER NOT NULL DEFAULT 0,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_memory_consolidation_runs_started
+        ON memory_consolidation_runs(started_at DESC);
+
+        CREATE INDEX IF NOT EXISTS idx_memory_consolidation_reports_run
+        ON memory_consolidation_reports(run_id);
+
+        CREATE INDEX IF NOT EXISTS idx_memory_consolidation_reports_user
+        ON memory_consolidation_reports(user_id, created_at DESC);
+      `)
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * Check every 15 minutes whether a run is due. Due-ness is read from the last
+   * all-user run in the database, so restarts neither skip nor repeat a run.
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      console.log('⏸️ Memory consolidation scheduler is disabled')
+      return
+    }
+    if (this.intervalId) {
+      console.log('⚠️ Memory consolidation scheduler is already running')
+      return
+    }
+
+    console.log(`🚀 Starting memory consolidation scheduler (every ${this.config.intervalHours} hours)`)
+    this.intervalId = setInterval(() => this.runIfDue(), CHECK_INTERVAL_MS)
+    this.runIfDue()
+  }
+
+  stop(): void {
+    if (!this.intervalId) {
+      console.log('⚠️ Memory consolidation scheduler is not running')
+      return
+    }
+
+    console.log('🛑 Stopping memory consolidation scheduler')
+    clearInterval(this.intervalId)
+    this.intervalId = null
+  }
+
+  getStatus() {
+    return {
+      enabled: this.config.enabled,
+      schedulerRunning: this.intervalId !== null,
+      intervalHours: this.config.intervalHours,
+      activeRunId: this.activeRunId,
+      lastCheckAt: this.lastCheckAt
+    }
+  }
+
+  private async runIfDue(): Promise<void> {
+    this.lastCheckAt = new Date()
+    if (this.activeRunId) return
+
+    try {
+      await this.initializeSchema()
+      const result = await DatabasePool.query(`
+        SELECT MAX(started_at) AS last_run FROM memory_consolidation_runs WHERE user_id IS NULL
+      `)
+      const lastRun: Date | null = result.rows[0]?.last_run || null
+      if (lastRun && Date.now() - new Date(lastRun).getTime() < this.config.intervalHours * 60 * 60 * 1000) {
+        return
+      }
+
+      await this.runConsolidation({ trigger: 'scheduled' })
+    } catch (error) {
+      if (error instanceof ConsolidationError && error.status === 409) {
+        console.log(`⏭️ Skipping scheduled memory consolidation: ${error.message}`)
+        return
+      }
+      console.error('❌ Error in scheduled memory consolidation:', error)
+    }
+  }
+
+  /**
+   * Start a run in the background and return it while it is still running
+   */
+  async startRun(options: { trigger?: ConsolidationTrigger; userId?: string } = {}): Promise<ConsolidationRun> {
+    const { run, done } = await this.beginRun(options)
+    // Failures are recorded on the run
+    done.catch(() => undefined)
+    return run
+  }
+
+  /**
+   * Run consolidation and wait for it to finish
+   */
+  async runConsolidation(options: { trigger?: ConsolidationTrigger; userId?: string } = {}): Promise<ConsolidationRun> {
+    const { done } = await this.beginRun(options)
+    return done
+  }
+
+  private async beginRun(options: { trigger?: ConsolidationTrigger; userId?: string }): Promise<{ run: ConsolidationRun; done: Promise<ConsolidationRun> }> {
+    if (this.activeRunId) {
+      throw new ConsolidationError('A memory consolidation run is already in progress', 409)
+    }
+    await this.initializeSchema()
+
+    // One run at a time across instances; the lock is held by this client until the run ends
+    const lockClient = await DatabasePool.getClient()
+    let run: ConsolidationRun
+    try {
+      const lock = await lockClient.query(`SELECT pg_try_advisory_lock(hashtext('memory_consolidation')) AS locked`)
+      if (!lock.rows[0]?.locked) {
+        throw new ConsolidationError('A memory consolidation run is already in progress on another instance', 409)
+      }
+
+      const result = await DatabasePool.query(`
+        INSERT INTO memory_consolidation_runs (trigger, user_id, totals)
+        VALUES ($1, $2, $3)
+        RETURNING *
+      `, [options.trigger || 'manual', options.userId || null, JSON.stringify(emptyCounts())])
+      run = this.mapRowToRun(result.rows[0])
+    } catch (error) {
+      await lockClient.query(`SELECT pg_advisory_unlock(hashtext('memory_consolidation'))`).catch(() => undefined)
+      lockClient.release()
+      throw error
+    }
+
+    this.activeRunId = run.id
+    const done = this.executeRun(run, options.userId).finally(async () => {
+      this.activeRunId = null
+      await lockClient.query(`SELECT pg_advisory_unlock(hashtext('memory_consolidation'))`).catch(() => undefined)
+      lockClient.release()
+    })
+    return { run, done }
+  }
+
+  private async executeRun(run: ConsolidationRun, userId?: string): Promise<ConsolidationRun> {
+    console.log(`🧠 Memory consolidation run ${run.id} started (${run.trigger}${userId ? `, user ${userId}` : ''})`)
+    const totals = emptyCounts()
+    let usersProcessed = 0
+    let usersFailed = 0
+
+    try {
+      const userIds = userId ? [userId] : await this.listUsersWithMemories()
+
+      for (const id of userIds) {
+        const report = await this.consolidateUser(run.id, id)
+        usersProcessed++
+        if (report.status === 'failed') {
+          usersFailed++
+        }
+        addCounts(totals, report.counts)
+      }
+
+      const result = await DatabasePool.query(`
+        UPDATE memory_consolidation_runs
+        SET status = 'completed', users_processed = $2, users_failed = $3, totals = $4, finished_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+        RETURNING *
+      `, [run.id, usersProcessed, usersFailed, JSON.stringify(totals)])
+
+      console.log(`✅ Memory consolidation run ${run.id} completed: ${usersProcessed} users, ${totals.clustersMerged} clusters merged, ${totals.archived} memories archived`)
+      return this.mapRowToRun(result.rows[0])
+    } catch (error) {
+      console.error(`❌ Memory consolidation run ${run.id} failed:`, error)
+      const result = await DatabasePool.query(`
+        UPDATE memory_consolidation_runs
+        SET status = 'failed', users_processed = $2, users_failed = $3, totals = $4, error = $5, finished_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+        RETURNING *
+      `, [run.id, usersProcessed, usersFailed, JSON.stringify(totals), error instanceof Error ? error.message : 'Unknown error'])
+      return this.mapRowToRun(result.rows[0])
+    }
+  }
+
+  private async listUsersWithMemories(): Promise<string[]> {
+    const result = await DatabasePool.query(`
+      SELECT DISTINCT user_id FROM memories WHERE archived_at IS NULL
+    `)
+    return result.rows.map(row => row.user_id)
+  }
+
+  /**
+   * Merge, decay and archive one user's memories and store the report. Never throws;
+   * a failure is recorded in the report and the run moves on to the next user.
+   */
+  private async consolidateUser(runId: string, userId: string): Promise<ConsolidationReport> {
+    const startedAt = Date.now()
+    const counts = emptyCounts()
+    const clusters: ConsolidatedCluster[] = []
+    let error: string | null = null
+
+    try {
+      const candidates = await this.loadCandidates(userId)
+      counts.memoriesScanned = candidates.length
+
+      for (const cluster of this.clusterMemories(candidates)) {
+        const merged = await this.mergeCluster(userId, cluster)
+        clusters.push(merged)
+        counts.clustersMerged++
+        counts.memoriesMerged += merged.sourceMemoryIds.length
+      }
+
+      counts.decayed = await this.decayImportance(userId)
+      counts.archived = await this.archiveLowValue(userId)
+    } catch (caught) {
+      console.error(`❌ Error consolidating memories for user ${userId}:`, caught)
+      error = caught instanceof Error ? caught.message : 'Unknown error'
+    }
+
+    if (hasChanges(counts)) {
+      await responseCache.invalidateUser(userId, 'memories')
+    }
+
+    const result = await DatabasePool.query(`
+      INSERT INTO memory_consolidation_reports (run_id, user_id, status, counts, clusters, error, duration_ms)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `, [runId, userId, error ? 'failed' : 'completed', JSON.stringify(counts), JSON.stringify(clusters), error, Date.now() - startedAt])
+    return this.mapRowToReport(result.rows[0])
+  }
+
+  /**
+   * Active, unpinned memories with their embeddings from the active column, most
+   * important first
+   */
+  private async loadCandidates(userId: string): Promise<CandidateMemory[]> {
+    const { active } = await embeddingIndex.getPlan('memories')
+    const result = await DatabasePool.query(`
+      SELECT id, session_id, memory_type, summary, details, confidence, importance, related_symptoms,
+        tags, source_messages, extracted_at, provenance, reference_count, ${active.column}::text AS embedding,
+        COALESCE(last_referenced_at, extracted_at, created_at) AS last_used_at
+      FROM memories
+      WHERE user_id = $1
+        AND archived_at IS NULL
+        AND ${active.column} IS NOT NULL
+        AND NOT pinned
+      ORDER BY importance DESC, created_at DESC
+      LIMIT $2
+    `, [userId, this.config.maxMemoriesPerUser])
+
+    return result.rows.map(row => ({
+      id: row.id,
+      sessionId: row.session_id || null,
+      memoryType: row.memory_type,
+      embedding: JSON.parse(row.embedding),
+      summary: row.summary,
+      details: typeof row.details === 'string' ? JSON.parse(row.details) : row.details,
+      confidence: parseFloat(row.confidence),
+      importance: parseFloat(row.importance),
+      relatedSymptoms: row.related_symptoms || [],
+      tags: row.tags || [],
+      sourceMessages: row.source_messages || [],
+      extractedAt: new Date(row.extracted_at),
+      provenance: row.provenance || [],
+      referenceCount: row.reference_count || 0,
+      lastUsedAt: new Date(row.last_used_at)
+    }))
+  }
+
+  /**
+   * Greedy single pass: each memory joins the first cluster of its type whose seed
+   * is similar enough. Candidates arrive most important first, so seeds are the
+   * most important memory of their cluster.
+   */
+  private clusterMemories(candidates: CandidateMemory[]): CandidateMemory[][] {
+    const clusters: CandidateMemory[][] = []
+
+    for (const memory of candidates) {
+      const cluster = clusters.find(members =>
+        members[0].memoryType === memory.memoryType &&
+        cosineSimilarity(members[0].embedding, memory.embedding) >= this.config.clusterThreshold
+      )
+      if (cluster) {
+        cluster.push(memory)
+      } else {
+        clusters.push([memory])
+      }
+    }
+
+    return clusters
+      .filter(members => members.length > 1)
+      .slice(0, this.config.maxClustersPerUser)
+  }
+
+  private async mergeCluster(userId: string, sources: CandidateMemory[]): Promise<ConsolidatedCluster> {
+    // Oldest first, so later facts win where the sources disagree
+    const chronological = [...sources].sort((a, b) => a.extractedAt.getTime() - b.extractedAt.getTime())
+    const merged = await this.summarizeCluster(chronological)
+
+    const memoryType = sources[0].memoryType
+    const importance = Math.max(...sources.map(source => source.importance))
+    const confidence = Math.max(...sources.map(source => source.confidence || 0.8))
+    const extractedAt = chronological[chronological.length - 1].extractedAt
+    const lastUsedAt = new Date(Math.max(...sources.map(source => source.lastUsedAt.getTime())))
+    const referenceCount = sources.reduce((sum, source) => sum + source.referenceCount, 0)
+    const provenance: MemoryProvenance[] = chronological.flatMap(source => source.provenance.length > 0
+      ? source.provenance
+      : [{
+        memoryId: source.id,
+        sessionId: source.sessionId,
+        summary: source.summary,
+        importance: source.importance,
+        extractedAt: source.extractedAt.toISOString()
+      }]
+    )
+    const tags = unique([...merged.tags, 'consolidated'])
+    const sourceMessages = unique(chronological.flatMap(source => source.sourceMessages)).slice(-MAX_SOURCE_MESSAGES)
+
+    const content = memoryContent(merged.summary, merged.details)
+    const embedded = await embeddingIndex.embed('memories', [content.replace(/\n/g, ' ').trim()])
+
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query('BEGIN')
+
+      const params: any[] = [
+        userId,
+        memoryType,
+        merged.summary,
+        JSON.stringify(merged.details),
+        content,
+        Math.round(confidence * 100) / 100,
+        Math.round(importance * 100) / 100,
+        tags,
+        merged.relatedSymptoms,
+        sourceMessages,
+        extractedAt,
+        referenceCount,
+        lastUsedAt,
+        JSON.stringify(provenance)
+      ]
+      const vectors = embeddingIndex.columnValues(embedded, 0, params)
+      const result = await client.query(`
+        INSERT INTO memories (
+          user_id, session_id, source, memory_type, summary, details, content,
+          confidence, importance, tags, related_symptoms, source_messages, extracted_at,
+          reference_count, last_referenced_at, provenance, ${vectors.columns.join(', ')}
+        ) VALUES ($1, NULL, 'consolidation', $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, ${vectors.placeholders.join(', ')})
+        RETURNING id
+      `, params)
+      const canonicalMemoryId: string = result.rows[0].id
+
+      await client.query(`
+        UPDATE memories
+        SET archived_at = CURRENT_TIMESTAMP, archive_reason = 'merged', merged_into = $2
+        WHERE user_id = $1 AND id = ANY($3::uuid[])
+      `, [userId, canonicalMemoryId, sources.map(source => source.id)])
+
+      await client.query('COMMIT')
+
+      return {
+        memoryType,
+        canonicalMemoryId,
+        summary: merged.summary,
+        sourceMemoryIds: sources.map(source => source.id),
+        sessionIds: unique(provenance.map(entry => entry.sessionId).filter((id): id is string => Boolean(id)))
+      }
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * One summary for a cluster. Falls back to the most important source's summary
+   * and the sources' details combined when the model fails.
+   */
+  private async summarizeCluster(chronological: CandidateMemory[]): Promise<{ summary: string; details: any; relatedSymptoms: string[]; tags: string[] }> {
+    const fallback = {
+      summary: [...chronological].sort((a, b) => b.importance - a.importance)[0].summary,
+      details: Object.assign({}, ...chronological.map(source => source.details || {})),
+      relatedSymptoms: unique(chronological.flatMap(source => source.relatedSymptoms)),
+      tags: unique(chronological.flatMap(source => source.tags))
+    }
+
+    const listing = chronological.map((source, index) => {
+      const date = Number.isNaN(source.extractedAt.getTime()) ? 'unknown date' : source.extractedAt.toISOString().slice(0, 10)
+      return `${index + 1}. (${date}) ${source.summary}\n   Details: ${JSON.stringify(source.details || {})}`
+    }).join('\n')
+
+    try {
+      const { data } = await generateStructured({
+        name: 'memory_consolidation',
+        schema: consolidatedMemorySchema,
+        task: 'analysis',
+        messages: [
+          {
+            role: 'system',
+            content: 'You merge overlapping memories about one patient into a single memory for continuity of care. Keep every distinct fact, do not add facts, and where the memories disagree keep the most recent one and note what changed.'
+          },
+          {
+            role: 'user',
+            content: `These memories, oldest first, describe the same thing:\n\n${listing}\n\nReturn one memory with a summary (max 50 words), structured details, related symptoms and tags.`
+          }
+        ],
+        temperature: 0.1,
+        max_tokens: 800
+      })
+
+      if (!data.summary.trim()) {
+        return fallback
+      }
+      return {
+        summary: data.summary.trim(),
+        details: data.details && typeof data.details === 'object' && !Array.isArray(data.details) ? data.details : fallback.details,
+        relatedSymptoms: unique([...data.relatedSymptoms, ...fallback.relatedSymptoms]),
+        tags: unique([...data.tags, ...fallback.tags])
+      }
+    } catch (error) {
+      console.error('❌ Error summarizing memory cluster, keeping the top memory:', error)
+      return fallback
+    }
+  }
+
+  /**
+   * importance = base × 0.5^(idle days / (half-life × (1 + ln(1 + uses)))), where idle
+   * days count from the last use (or extraction). The base is kept in base_importance
+   * so repeated runs do not compound.
+   */
+  private async decayImportance(userId: string): Promise<number> {
+    const result = await DatabasePool.query(`
+      WITH decayed AS (
+        SELECT id, importance AS previous,
+          ROUND((COALESCE(base_importance, importance) * power(0.5,
+            (EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - COALESCE(last_referenced_at, extracted_at, created_at))) / 86400)::float
+            / ($2::float * (1 + ln(1 + reference_count)::float))
+          ))::numeric, 2) AS next
+        FROM memories
+        WHERE user_id = $1 AND archived_at IS NULL AND NOT pinned
+      )
+      UPDATE memories
+      SET base_importance = COALESCE(memories.base_importance, memories.importance), importance = decayed.next
+      FROM decayed
+      WHERE memories.id = decayed.id AND decayed.next <> decayed.previous
+    `, [userId, this.config.halfLifeDays])
+
+    return result.rowCount ?? 0
+  }
+
+  private async archiveLowValue(userId: string): Promise<number> {
+    const result = await DatabasePool.query(`
+      UPDATE memories
+      SET archived_at = CURRENT_TIMESTAMP, archive_reason = 'decayed'
+      WHERE user_id = $1 AND archived_at IS NULL AND NOT pinned AND importance < $2
+    `, [userId, this.config.archiveThreshold])
+
+    return result.rowCount ?? 0
+  }
+
+  async listRuns(options: { limit?: number; offset?: number } = {}): Promise<{ runs: ConsolidationRun[]; total: number }> {
+    await this.initializeSchema()
+    const countResult = await DatabasePool.query('SELECT COUNT(*)::int AS total FROM memory_consolidation_runs')
+    const result = await DatabasePool.query(`
+      SELECT * FROM memory_consolidation_runs
+      ORDER BY started_at DESC
+      LIMIT $1 OFFSET $2
+    `, [options.limit ?? 20, options.offset ?? 0])
+
+    return {
+      runs: result.rows.map(row => this.mapRowToRun(row)),
+      total: countResult.rows[0]?.total ?? 0
+    }
+  }
+
+  async getRun(runId: string): Promise<ConsolidationRun> {
+    await this.initializeSchema()
+    const result = isUuid(runId)
+      ? await DatabasePool.query('SELECT * FROM memory_consolidation_runs WHERE id = $1', [runId])
+      : { rows: [] }
+    if (result.rows.length === 0) {
+      throw new ConsolidationError('Consolidation run not found', 404)
+    }
+    return this.mapRowToRun(result.rows[0])
+  }
+
+  async listReports(filters: ConsolidationReportFilters = {}): Promise<{ reports: ConsolidationReport[]; total: number }> {
+    await this.initializeSchema()
+    const conditions: string[] = []
+    const params: any[] = []
+
+    // Both columns are UUIDs; any other value matches nothing
+    if ((filters.runId && !isUuid(filters.runId)) || (filters.userId && !isUuid(filters.userId))) {
+      return { reports: [], total: 0 }
+    }
+    if (filters.runId) {
+      params.push(filters.runId)
+      conditions.push(`run_id = $${params.length}`)
+    }
+    if (filters.userId) {
+      params.push(filters.userId)
+      conditions.push(`user_id = $${params.length}`)
+    }
+    if (filters.status) {
+      params.push(filters.status)
+      conditions.push(`status = $${params.length}`)
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const countResult = await DatabasePool.query(`SELECT COUNT(*)::int AS total FROM memory_consolidation_reports ${where}`, params)
+
+    const result = await DatabasePool.query(`
+      SELECT * FROM memory_consolidation_reports
+      ${where}
+      ORDER BY created_at DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+    `, [...params, filters.limit ?? 50, filters.offset ?? 0])
+
+    return {
+      reports: result.rows.map(row => this.mapRowToReport(row)),
+      total: countResult.rows[0]?.total ?? 0
+    }
+  }
+
+  private mapRowToRun(row: any): ConsolidationRun {
+    return {
+      id: row.id,
+      trigger: row.trigger,
+      status: row.status,
+      userId: row.user_id || null,
+      usersProcessed: row.users_processed,
+      usersFailed: row.users_failed,
+      totals: parseCounts(row.totals),
+      error: row.error || null,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at || null
+    }
+  }
+
+  private mapRowToReport(row: any): ConsolidationReport {
+    return {
+      id: row.id,
+      runId: row.run_id,
+      userId: row.user_id,
+      status: row.status,
+      counts: parseCounts(row.counts),
+      clusters: row.clusters || [],
+      error: row.error || null,
+      durationMs: row.duration_ms,
+      createdAt: row.created_at
+    }
+  }
+}
+
+export const memoryConsolidation = new MemoryConsolidation()
@@ -0,0 +1,288 @@
+/**
+ * Memory Manager
+ * User-facing management of stored memories: editing, pinning, importance,
+ * per-session deletion and "forget anything about X".
+ *
+ * Forgetting is two calls: a preview that lists every matching memory, and a
+ * commit that deletes the ids the user confirmed from that preview.
+ */
+
+import { DatabasePool, isUuid } from './database-pool'
+import { memoryStore, Memory, memoryContent } from './memory-store'
+import { embeddingIndex } from './embedding-index'
+import { responseCache } from './response-cache'
+
+export interface MemoryUpdate {
+  summary?: string
+  details?: any
+  // 0-1
+  importance?: number
+  pinned?: boolean
+}
+
+export interface ForgetMatch {
+  id: string
+  sessionId: string | null
+  source: string
+  memoryType: string
+  summary: string
+  // Cosine similarity to the phrase; null for text-only matches
+  similarity: number | null
+  matchedBy: 'semantic' | 'text'
+  archived: boolean
+}
+
+export interface ForgetPreview {
+  phrase: string
+  threshold: number
+  memories: ForgetMatch[]
+}
+
+export interface MemoryDeletionResult {
+  deleted: number
+}
+
+export class MemoryError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'MemoryError'
+    this.status = status
+  }
+}
+
+const MAX_SUMMARY_LENGTH = 500
+const MAX_FORGET_MATCHES = 200
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '')
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+const DEFAULT_FORGET_THRESHOLD = readNumberEnv('MEMORY_FORGET_THRESHOLD', 0.5)
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`)
+}
+
+class MemoryManager {
+  async getMemory(userId: string, memoryId: string): Promise<Memory> {
+    const memory = await memoryStore.getMemory(userId, memoryId)
+    if (!memory) {
+      throw new MemoryError('Memory not found or access denied', 404)
+    }
+    return memory
+  }
+
+  /**
+   * Edit, pin/unpin or re-rank one memory. A new summary or details are re-embedded.
+   * A new importance becomes the base that consolidation decays from.
+   */
+  async updateMemory(userId: string, memoryId: string, update: MemoryUpdate): Promise<Memory> {
+    const changes = this.validateUpdate(update)
+    const current = await this.getMemory(userId, memoryId)
+
+    const summary = changes.summary ?? current.summary
+    const details = changes.details !== undefined ? changes.details : current.details
+    const importance = changes.importance ?? current.importance
+    const content = memoryContent(summary, details)
+    const textChanged = summary !== current.summary || changes.details !== undefined
+    const params: any[] = [
+      current.id,
+      userId,
+      summary,
+      JSON.stringify(details),
+      content,
+      importance,
+      changes.pinned ?? null,
+      textChanged
+    ]
+    const embedding = textChanged
+      ? `${embeddingIndex.assignments(await embeddingIndex.embed('memories', [content]), 0, params)},`
+      : ''
+
+    await DatabasePool.query(`
+      UPDATE memories
+      SET summary = $3,
+          details = $4,
+          content = $5,
+          ${embedding}
+          importance = $6,
+          base_importance = CASE WHEN importance = $6 THEN base_importance ELSE NULL END,
+          last_referenced_at = CASE WHEN importance = $6 THEN last_referenced_at ELSE CURRENT_TIMESTAMP END,
+          pinned = COALESCE($7, pinned),
+          pinned_at = CASE WHEN $7::boolean IS NULL THEN pinned_at WHEN $7 THEN COALESCE(pinned_at, CURRENT_TIMESTAMP) ELSE NULL END,
+          edited_at = CASE WHEN $8 THEN CURRENT_TIMESTAMP ELSE edited_at END,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND user_id = $2
+    `, params)
+
+    await responseCache.invalidateUser(userId, 'memories')
+    return this.getMemory(userId, current.id)
+  }
+
+  /**
+   * Delete every memory extracted from one chat session.
+   * Consolidated memories built partly from the session are deleted as well, and the
+   * other memories that were merged into them are restored.
+   */
+  async deleteSessionMemories(userId: string, sessionId: string): Promise<MemoryDeletionResult> {
+    if (!sessionId) {
+      throw new MemoryError('sessionId is required')
+    }
+    await memoryStore.initializeSchema()
+
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query('BEGIN')
+      const sessionResult = await client.query('DELETE FROM memories WHERE user_id = $1 AND session_id = $2', [userId, sessionId])
+
+      const consolidated = await client.query(`
+        DELETE FROM memories
+        WHERE user_id = $1 AND provenance @> jsonb_build_array(jsonb_build_object('sessionId', $2::text))
+        RETURNING id
+      `, [userId, sessionId])
+      if (consolidated.rows.length > 0) {
+        await client.query(`
+          UPDATE memories
+          SET archived_at = NULL, archive_reason = NULL, merged_into = NULL, updated_at = CURRENT_TIMESTAMP
+          WHERE user_id = $1 AND merged_into = ANY($2::uuid[])
+        `, [userId, consolidated.rows.map(row => row.id)])
+      }
+      await client.query('COMMIT')
+
+      const deleted = (sessionResult.rowCount ?? 0) + consolidated.rows.length
+      if (deleted > 0) {
+        await responseCache.invalidateUser(userId, 'memories')
+      }
+      console.log(`🧹 Deleted ${deleted} memories for session ${sessionId}`)
+      return { deleted }
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * Find everything that would be forgotten for a phrase, without deleting anything.
+   * Memories match by embedding similarity or by containing the phrase, archived
+   * ones included.
+   */
+  async previewForget(userId: string, phrase: string, options: { threshold?: number } = {}): Promise<ForgetPreview> {
+    const text = (phrase || '').trim()
+    if (!text) {
+      throw new MemoryError('phrase is required')
+    }
+    const threshold = options.threshold ?? DEFAULT_FORGET_THRESHOLD
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+      throw new MemoryError('threshold must be between 0 and 1')
+    }
+    await memoryStore.initializeSchema()
+
+    const params: any[] = [userId, threshold, `%${escapeLike(text)}%`, text]
+    const similar = await embeddingIndex.buildQuery('memories', text, params)
+
+    const result = await DatabasePool.query(`
+      SELECT id, session_id, source, memory_type, summary, archived_at,
+        CASE WHEN ${similar.hasEmbedding} THEN ${similar.similarity} END AS similarity
+      FROM memories
+      WHERE user_id = $1
+        AND ((${similar.hasEmbedding} AND ${similar.similarity} >= $2)
+          OR content ILIKE $3
+          OR content_tsvector @@ plainto_tsquery('english', $4))
+      ORDER BY ${similar.distance} NULLS LAST
+      LIMIT ${MAX_FORGET_MATCHES}
+    `, params)
+
+    const memories: ForgetMatch[] = result.rows.map(row => {
+      const similarity = row.similarity === null ? null : parseFloat(row.similarity)
+      return {
+        id: row.id,
+        sessionId: row.session_id || null,
+        source: row.source,
+        memoryType: row.memory_type,
+        summary: row.summary,
+        similarity,
+        matchedBy: similarity !== null && similarity >= threshold ? 'semantic' : 'text',
+        archived: row.archived_at !== null
+      }
+    })
+
+    return { phrase: text, threshold, memories }
+  }
+
+  /**
+   * Delete the memories confirmed from a preview. Ids that are not the user's are ignored.
+   */
+  async forget(userId: string, memoryIds: string[]): Promise<MemoryDeletionResult> {
+    const ids = (memoryIds || []).filter(id => typeof id === 'string')
+    if (ids.length === 0) {
+      throw new MemoryError('memoryIds from the preview are required')
+    }
+    await memoryStore.initializeSchema()
+
+    const result = await DatabasePool.query('DELETE FROM memories WHERE user_id = $1 AND id = ANY($2::uuid[])', [userId, ids.filter(isUuid)])
+    const deleted = result.rowCount ?? 0
+    if (deleted > 0) {
+      await responseCache.invalidateUser(userId, 'memories')
+    }
+    console.log(`🧹 Forgot ${deleted} memories for user ${userId}`)
+    return { deleted }
+  }
+
+  private validateUpdate(update: MemoryUpdate): MemoryUpdate {
+    const changes: MemoryUpdate = {}
+
+    if (update.summary !== undefined) {
+      if (typeof update.summary !== 'string' || !update.summary.trim()) {
+        throw new MemoryError('summary must be a non-empty string')
+      }
+      if (update.summary.length > MAX_SUMMARY_LENGTH) {
+        throw new MemoryError(`summary must be at most ${MAX_SUMMARY_LENGTH} characters`)
+      }
+      changes.summary = update.summary.trim()
+    }
+    if (update.details !== undefined) {
+      if (typeof update.details !== 'object' || update.details === null || Array.isArray(update.details)) {
+        throw new MemoryError('details must be an object')
+      }
+      changes.details = update.details
+    }
+    if (update.importance !== undefined) {
+      const importance = Number(update.importance)
+      if (!Number.isFinite(importance) || importance < 0 || importance > 1) {
+        throw new MemoryError('importance must be between 0 and 1')
+      }
+      changes.importance = Math.round(importance * 100) / 100
+    }
+    if (update.pinned !== undefined) {
+      if (typeof update.pinned !== 'boolean') {
+        throw new MemoryError('pinned must be a boolean')
+      }
+      changes.pinned = update.pinned
+    }
+
+    if (Object.keys(changes).length === 0) {
+      throw new MemoryError('Nothing to update: provide summary, details, importance or pinned')
+    }
+    return changes
+  }
+}
+
+export const memoryManager = new MemoryManager()
@@ -0,0 +1,840 @@
+/**
+ * Memory Store
+ * One table and one retrieval API for everything the assistant remembers about a
+ * user. Chat extraction, the personal agent and consolidation all write here, and
+ * chat context, the agent prompt and memory search all read from here, so what
+ * one learns the others see.
+ *
+ * Every row carries its embedding (see embedding-index for which column and
+ * model) and a full-text vector. `search` ranks by
+ * semantic similarity (plus full-text hits) when given a query, by importance
+ * otherwise, and filters by type, tags, source and session.
+ *
+ * Memories used to live in chat_memory, vector_memory (an embedded copy of each
+ * chat_memory row) and user_agent_memory. `migrateLegacyMemories` folds those rows
+ * in once, keeping their ids in legacy_table/legacy_id; the old tables are no
+ * longer written.
+ */
+
+import { DatabasePool, isUuid } from './database-pool'
+import { DEFAULT_EMBEDDING_MODEL } from './llm-provider'
+import { embeddingIndex } from './embedding-index'
+import { responseCache } from './response-cache'
+
+export const MEMORY_TYPES = [
+  // Extracted from chat history
+  'symptom', 'medication', 'lifestyle', 'preference', 'medical_history', 'concern', 'follow_up',
+  // Noted by the personal agent
+  'success', 'challenge', 'milestone'
+] as const
+
+export type MemoryType = typeof MEMORY_TYPES[number]
+
+export type MemorySource = 'chat_extraction' | 'agent' | 'consolidation'
+
+export interface Memory {
+  id: string
+  userId: string
+  // Chat session the memory was extracted from; null for agent and consolidated memories
+  sessionId: string | null
+  source: MemorySource
+  memoryType: string
+  summary: string
+  details: any
+  confidence: number
+  // 0-1
+  importance: number
+  tags: string[]
+  relatedSymptoms: string[]
+  sourceMessages: string[]
+  pinned: boolean
+  pinnedAt: Date | null
+  // Set when the user changed the summary or details; extraction no longer overwrites them
+  editedAt: Date | null
+  referenceCount: number
+  lastReferencedAt: Date | null
+  archivedAt: Date | null
+  archiveReason: string | null
+  mergedInto: string | null
+  provenance: any[]
+  extractedAt: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface NewMemory {
+  userId: string
+  sessionId?: string | null
+  source: MemorySource
+  memoryType: string
+  summary: string
+  details?: any
+  confidence?: number
+  importance?: number
+  tags?: string[]
+  relatedSymptoms?: string[]
+  sourceMessages?: string[]
+  extractedAt?: Date
+}
+
+export interface MemorySearchOptions {
+  // Ranks by meaning and full-text match; without it, by pinned and importance
+  query?: string
+  memoryTypes?: string[]
+  // Matches memories with any of the tags
+  tags?: string[]
+  sources?: MemorySource[]
+  sessionId?: string
+  pinned?: boolean
+  includeArchived?: boolean
+  // Minimum cosine similarity for a semantic hit
+  threshold?: number
+  limit?: number
+  // Count the results as used in a prompt, which slows their importance decay
+  recordReferences?: boolean
+}
+
+export interface MemorySearchResult {
+  memory: Memory
+  similarity: number | null
+  textRank: number | null
+  relevanceScore: number
+}
+
+export interface MemoryStats {
+  totalMemories: number
+  memoryTypes: Record<string, number>
+  sources: Record<string, number>
+  averageImportance: number
+  recentMemories: number
+  pinnedMemories: number
+}
+
+export interface LegacyMigrationStatus {
+  legacyTable: string
+  migrated: number
+  // Rows that could not be folded in (e.g. user_agent_memory rows for unknown users)
+  skipped: number
+  completedAt: Date | null
+}
+
+export interface MemoryMigrationResult {
+  tables: LegacyMigrationStatus[]
+  embeddingsBackfilled: number
+}
+
+export const LEGACY_MEMORY_TABLES = ['vector_memory', 'chat_memory', 'user_agent_memory'] as const
+
+// Near-identical memories are merged into the existing row instead of inserted
+const DUPLICATE_THRESHOLD = 0.95
+const DEFAULT_SEARCH_THRESHOLD = 0.6
+
+// Every column but the embeddings and the full-text vector
+const MEMORY_COLUMNS = `
+  id, user_id, session_id, source, memory_type, summary, details, confidence, importance,
+  tags, related_symptoms, source_messages, pinned, pinned_at, edited_at, reference_count, last_referenced_at,
+  archived_at, archive_reason, merged_into, provenance, extracted_at, created_at, updated_at
+`
+
+/**
+ * The text that is embedded and searched for a memory
+ */
+export function memoryContent(summary: string, details: any): string {
+  return `${summary} ${JSON.stringify(details ?? {})}`
+}
+
+class MemoryStore {
+  private schemaReady: Promise<void> | null = null
+
+  /**
+   * Create the memories table, once per process. The legacy tables are folded in by
+   * startLegacyMigration and the admin endpoint, never on a request.
+   */
+  async initializeSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.createSchema().catch(error => {
+        this.schemaReady = null
+        throw error
+      })
+    }
+    return this.schemaReady
+  }
+
+  /**
+   * Fold in legacy tables that were never migrated, in the background at startup.
+   * Memories left without an embedding are filled in by the embedding-index scheduler;
+   * failures are logged and can be retried from the admin endpoint.
+   */
+  startLegacyMigration(): void {
+    this.initializeSchema()
+      .then(() => this.migrateLegacyMemories({ onlyPending: true, backfillEmbeddings: false }))
+      .catch(error => {
+        console.error('❌ Legacy memory migration at startup failed:', error)
+      })
+  }
+
+  private async createSchema(): Promise<void> {
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query('CREATE EXTENSION IF NOT EXISTS vector')
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS memories (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          session_id VARCHAR(255),
+          source VARCHAR(20) NOT NULL,
+          memory_type VARCHAR(50) NOT NULL,
+          summary TEXT NOT NULL,
+          details JSONB NOT NULL DEFAULT '{}',
+          content TEXT NOT NULL,
+          embedding vector(1536),
+          embedding_model VARCHAR(100),
+          embedding_dimensions INTEGER,
+          content_tsvector tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+          confidence DECIMAL(3,2) DEFAULT 0.8,
+          importance DECIMAL(3,2) DEFAULT 0.5,
+          base_importance DECIMAL(3,2),
+          tags TEXT[] DEFAULT '{}',
+          related_symptoms TEXT[] DEFAULT '{}',
+          source_messages TEXT[] DEFAULT '{}',
+          pinned BOOLEAN NOT NULL DEFAULT false,
+          pinned_at TIMESTAMP WITH TIME ZONE,
+          edited_at TIMESTAMP WITH TIME ZONE,
+          reference_count INTEGER NOT NULL DEFAULT 0,
+          last_referenced_at TIMESTAMP WITH TIME ZONE,
+          archived_at TIMESTAMP WITH TIME ZONE,
+          archive_reason VARCHAR(20),
+          merged_into UUID,
+          provenance JSONB NOT NULL DEFAULT '[]',
+          legacy_table VARCHAR(30),
+          legacy_id UUID,
+          extracted_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+
+      await client.query('ALTER TABLE memories ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE')
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_memories_embedding ON memories USING hnsw (embedding vector_cosine_ops);
+        CREATE INDEX IF NOT EXISTS idx_memories_fts ON memories USING gin (content_tsvector);
+        CREATE INDEX IF NOT EXISTS idx_memories_tags ON memories USING gin (tags);
+        CREATE INDEX IF NOT EXISTS idx_memories_user_active ON memories(user_id, importance DESC) WHERE archived_at IS NULL;
+        CREATE INDEX IF NOT EXISTS idx_memories_user_type ON memories(user_id, memory_type);
+        CREATE INDEX IF NOT EXISTS idx_memories_session ON memories(user_id, session_id);
+        CREATE INDEX IF NOT EXISTS idx_memories_pinned ON memories(user_id) WHERE pinned;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_memories_legacy ON memories(legacy_table, legacy_id);
+      `)
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS memory_store_migrations (
+          legacy_table VARCHAR(30) PRIMARY KEY,
+          migrated INTEGER NOT NULL DEFAULT 0,
+          skipped INTEGER NOT NULL DEFAULT 0,
+          completed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+    } finally {
+      client.release()
+    }
+  }
+
+  async addMemory(memory: NewMemory): Promise<Memory> {
+    const [stored] = await this.addMemories([memory])
+    return stored
+  }
+
+  /**
+   * Embed and store memories. A memory nearly identical to an existing active one
+   * updates that row instead, keeping the higher importance and confidence. Pinned
+   * memories and ones the user edited keep their text: the extraction only adds its
+   * tags and source messages and counts as a reference.
+   */
+  async addMemories(memories: NewMemory[]): Promise<Memory[]> {
+    if (memories.length === 0) return []
+    await this.initializeSchema()
+
+    const contents = memories.map(memory => memoryContent(memory.summary, memory.details))
+    const embedded = await embeddingIndex.embed('memories', contents.map(content => content.replace(/\n/g, ' ').trim()))
+    const stored: Memory[] = []
+
+    for (let index = 0; index < memories.length; index++) {
+      const memory = memories[index]
+
+      const duplicateParams: any[] = [memory.userId, DUPLICATE_THRESHOLD]
+      const similar = embeddingIndex.queryFor(embedded, index, duplicateParams)
+      const duplicate = await DatabasePool.query(`
+        SELECT id, pinned, edited_at FROM memories
+        WHERE user_id = $1 AND archived_at IS NULL AND ${similar.hasEmbedding}
+          AND ${similar.similarity} >= $2
+        ORDER BY ${similar.distance}
+        LIMIT 1
+      `, duplicateParams)
+
+      // Tags, symptoms and source messages accumulate rather than being replaced
+      let result
+      const existing = duplicate.rows[0]
+      if (existing && (existing.pinned || existing.edited_at)) {
+        result = await DatabasePool.query(`
+          UPDATE memories
+          SET tags = ARRAY(SELECT DISTINCT unnest(tags || $3::text[])),
+              source_messages = ARRAY(SELECT DISTINCT unnest(source_messages || $4::text[])),
+              reference_count = reference_count + 1,
+              last_referenced_at = CURRENT_TIMESTAMP,
+              updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1 AND user_id = $2
+          RETURNING ${MEMORY_COLUMNS}
+        `, [existing.id, memory.userId, memory.tags || [], memory.sourceMessages || []])
+      } else if (existing) {
+        const params: any[] = [
+          existing.id,
+          memory.userId,
+          memory.summary,
+          JSON.stringify(memory.details ?? {}),
+          contents[index],
+          memory.confidence ?? 0.8,
+          memory.importance ?? 0.5,
+          memory.tags || [],
+          memory.relatedSymptoms || [],
+          memory.sourceMessages || []
+        ]
+        result = await DatabasePool.query(`
+          UPDATE memories
+          SET summary = $3, details = $4, content = $5, ${embeddingIndex.assignments(embedded, index, params)},
+              confidence = GREATEST(confidence, $6), importance = GREATEST(importance, $7),
+              tags = ARRAY(SELECT DISTINCT unnest(tags || $8::text[])),
+              related_symptoms = ARRAY(SELECT DISTINCT unnest(related_symptoms || $9::text[])),
+              source_messages = ARRAY(SELECT DISTINCT unnest(source_messages || $10::text[])),
+              updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1 AND user_id = $2
+          RETURNING ${MEMORY_COLUMNS}
+        `, params)
+      } else {
+        const params: any[] = [
+          memory.userId,
+          memory.sessionId || null,
+          memory.source,
+          memory.memoryType,
+          memory.summary,
+          JSON.stringify(memory.details ?? {}),
+          contents[index],
+          memory.confidence ?? 0.8,
+          memory.importance ?? 0.5,
+          memory.tags || [],
+          memory.relatedSymptoms || [],
+          memory.sourceMessages || [],
+          memory.extractedAt || new Date()
+        ]
+        const vectors = embeddingIndex.columnValues(embedded, index, params)
+        result = await DatabasePool.query(`
+          INSERT INTO memories (
+            user_id, session_id, source, memory_type, summary, details, content,
+            confidence, importance, tags, related_symptoms, source_messages, extracted_at,
+            ${vectors.columns.join(', ')}
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, ${vectors.placeholders.join(', ')})
+          RETURNING ${MEMORY_COLUMNS}
+        `, params)
+      }
+
+      stored.push(this.mapRowToMemory(result.rows[0]))
+    }
+
+    for (const userId of new Set(memories.map(memory => memory.userId))) {
+      await responseCache.invalidateUser(userId, 'memories')
+    }
+    return stored
+  }
+
+  async getMemory(userId: string, memoryId: string): Promise<Memory | null> {
+    await this.initializeSchema()
+    if (!isUuid(memoryId)) {
+      return null
+    }
+    const result = await DatabasePool.query(`
+      SELECT ${MEMORY_COLUMNS} FROM memories WHERE id = $1 AND user_id = $2
+    `, [memoryId, userId])
+    return result.rows[0] ? this.mapRowToMemory(result.rows[0]) : null
+  }
+
+  /**
+   * The one retrieval API: semantic plus full-text ranking when there is a query,
+   * filtered by type, tags, source, session and pinned state
+   */
+  async search(userId: string, options: MemorySearchOptions = {}): Promise<MemorySearchResult[]> {
+    await this.initializeSchema()
+    const limit = options.limit ?? 10
+    const params: any[] = [userId]
+    const conditions = ['user_id = $1']
+
+    if (!options.includeArchived) {
+      conditions.push('archived_at IS NULL')
+    }
+    if (options.memoryTypes && options.memoryTypes.length > 0) {
+      params.push(options.memoryTypes)
+      conditions.push(`memory_type = ANY($${params.length})`)
+    }
+    if (options.tags && options.tags.length > 0) {
+      params.push(options.tags)
+      conditions.push(`tags && $${params.length}::text[]`)
+    }
+    if (options.sources && options.sources.length > 0) {
+      params.push(options.sources)
+      conditions.push(`source = ANY($${params.length})`)
+    }
+    if (options.sessionId) {
+      params.push(options.sessionId)
+      conditions.push(`session_id = $${params.length}`)
+    }
+    if (options.pinned !== undefined) {
+      conditions.push(options.pinned ? 'pinned' : 'NOT pinned')
+    }
+
+    let results: MemorySearchResult[]
+    const query = (options.query || '').trim()
+
+    if (query) {
+      const similar = await embeddingIndex.buildQuery('memories', query, params)
+      params.push(query, options.threshold ?? DEFAULT_SEARCH_THRESHOLD)
+      const text = `plainto_tsquery('english', $${params.length - 1})`
+
+      const result = await DatabasePool.query(`
+        SELECT ${MEMORY_COLUMNS},
+          CASE WHEN ${similar.hasEmbedding} THEN ${similar.similarity} END AS similarity,
+          ts_rank(content_tsvector, ${text}) AS text_rank
+        FROM memories
+        WHERE ${conditions.join(' AND ')}
+          AND ((${similar.hasEmbedding} AND ${similar.similarity} >= $${params.length}) OR content_tsvector @@ ${text})
+        ORDER BY ${similar.distance} NULLS LAST
+        LIMIT ${limit * 3}
+      `, params)
+
+      results = result.rows.map(row => {
+        const memory = this.mapRowToMemory(row)
+        const similarity = row.similarity === null ? null : parseFloat(row.similarity)
+        const textRank = parseFloat(row.text_rank) || 0
+        return {
+          memory,
+          similarity,
+          textRank,
+          // Weight vector similarity higher than text rank
+          relevanceScore: this.calculateRelevanceScore((similarity ?? 0) + textRank * 0.3, memory)
+        }
+      })
+    } else {
+      const result = await DatabasePool.query(`
+        SELECT ${MEMORY_COLUMNS}
+        FROM memories
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY pinned DESC, importance DESC, COALESCE(last_referenced_at, extracted_at) DESC
+        LIMIT ${limit}
+      `, params)
+
+      results = result.rows.map(row => {
+        const memory = this.mapRowToMemory(row)
+        return { memory, similarity: null, textRank: null, relevanceScore: memory.importance }
+      })
+    }
+
+    results = results.sort((a, b) => b.relevanceScore - a.relevanceScore).slice(0, limit)
+
+    if (options.recordReferences && results.length > 0) {
+      // Tracking must not hold up the reply
+      this.recordReferences(userId, results.map(result => result.memory.id)).catch(error => {
+        console.error('❌ Error recording memory references:', error)
+      })
+    }
+    return results
+  }
+
+  /**
+   * Memories the user pinned, most important first
+   */
+  async getPinnedMemories(userId: string): Promise<Memory[]> {
+    const results = await this.search(userId, { pinned: true, limit: 50 })
+    return results.map(result => result.memory)
+  }
+
+  /**
+   * Prompt-ready context for a query, grouped by memory type
+   */
+  async getContextualMemories(
+    userId: string,
+    query: string,
+    currentSymptoms: string[] = [],
+    limit: number = 5
+  ): Promise<string> {
+    try {
+      // Expand query with current symptoms
+      const expandedQuery = [query, ...currentSymptoms].join(' ')
+      const memories = await this.search(userId, { query: expandedQuery, limit, recordReferences: true })
+
+      if (memories.length === 0) {
+        return ''
+      }
+
+      // Group memories by type
+      const groupedMemories: Record<string, MemorySearchResult[]> = {}
+      memories.forEach(result => {
+        const type = result.memory.memoryType
+        if (!groupedMemories[type]) {
+          groupedMemories[type] = []
+        }
+        groupedMemories[type].push(result)
+      })
+
+      // Format context string
+      let context = '**Previous Session Context:**\n\n'
+
+      for (const [type, typeMemories] of Object.entries(groupedMemories)) {
+        const typeLabel = type.replace('_', ' ').toUpperCase()
+        context += `**${typeLabel}:**\n`
+
+        typeMemories.slice(0, 3).forEach(result => {
+          const relevancePercent = Math.round(result.relevanceScore * 100)
+          context += `• ${result.memory.summary} (${relevancePercent}% relevant)\n`
+        })
+
+        context += '\n'
+      }
+
+      return context.trim()
+    } catch (error) {
+      console.error('❌ Error getting contextual memories:', error)
+      return ''
+    }
+  }
+
+  /**
+   * Count a use of memories that were put into a prompt
+   */
+  async recordReferences(userId: string, memoryIds: string[]): Promise<void> {
+    if (memoryIds.length === 0) return
+    await DatabasePool.query(`
+      UPDATE memories
+      SET reference_count = reference_count + 1, last_referenced_at = CURRENT_TIMESTAMP
+      WHERE user_id = $1 AND id = ANY($2::uuid[])
+    `, [userId, memoryIds])
+  }
+
+  async getMemoryStats(userId: string): Promise<MemoryStats> {
+    await this.initializeSchema()
+    const stats = await DatabasePool.query(`
+      SELECT
+        COUNT(*)::int AS total_memories,
+        AVG(importance)::float AS avg_importance,
+        COUNT(*) FILTER (WHERE created_at > NOW() - INTERVAL '7 days')::int AS recent_memories,
+        COUNT(*) FILTER (WHERE pinned)::int AS pinned_memories
+      FROM memories
+      WHERE user_id = $1 AND archived_at IS NULL
+    `, [userId])
+
+    const breakdown = await DatabasePool.query(`
+      SELECT memory_type, source, COUNT(*)::int AS count
+      FROM memories
+      WHERE user_id = $1 AND archived_at IS NULL
+      GROUP BY memory_type, source
+    `, [userId])
+
+    const memoryTypes: Record<string, number> = {}
+    const sources: Record<string, number> = {}
+    breakdown.rows.forEach(row => {
+      memoryTypes[row.memory_type] = (memoryTypes[row.memory_type] || 0) + row.count
+      sources[row.source] = (sources[row.source] || 0) + row.count
+    })
+
+    return {
+      totalMemories: stats.rows[0]?.total_memories || 0,
+      memoryTypes,
+      sources,
+      averageImportance: stats.rows[0]?.avg_importance || 0,
+      recentMemories: stats.rows[0]?.recent_memories || 0,
+      pinnedMemories: stats.rows[0]?.pinned_memories || 0
+    }
+  }
+
+  /**
+   * Fold chat_memory, vector_memory and user_agent_memory into memories. Safe to run
+   * again: rows already copied are skipped by legacy id. With `onlyPending`, tables
+   * that were migrated before are left alone.
+   *
+   * vector_memory rows are copied with their embeddings and take pin, message and
+   * usage data from their chat_memory twin (same user, session and summary);
+   * chat_memory rows without a twin are copied and, unless `backfillEmbeddings` is
+   * false, embedded afterwards.
+   */
+  async migrateLegacyMemories(options: { onlyPending?: boolean; backfillEmbeddings?: boolean } = {}): Promise<MemoryMigrationResult> {
+    const existing = await DatabasePool.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_schema = current_schema() AND table_name = ANY($1)
+    `, [LEGACY_MEMORY_TABLES])
+    const present = new Set<string>(existing.rows.map(row => row.table_name))
+
+    const done = await DatabasePool.query('SELECT legacy_table FROM memory_store_migrations')
+    const completed = new Set<string>(done.rows.map(row => row.legacy_table))
+    const pending = LEGACY_MEMORY_TABLES.filter(table => present.has(table) && !(options.onlyPending && completed.has(table)))
+
+    if (pending.length === 0) {
+      return { tables: await this.getMigrationStatus(), embeddingsBackfilled: 0 }
+    }
+
+    console.log(`🧠 Migrating legacy memories from ${pending.join(', ')}`)
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query('BEGIN')
+
+      // Columns added by later releases may be missing on tables that were never upgraded
+      for (const table of ['chat_memory', 'vector_memory'].filter(table => present.has(table))) {
+        await client.query(`
+          ALTER TABLE ${table}
+          ADD COLUMN IF NOT EXISTS pinned BOOLEAN NOT NULL DEFAULT false,
+          ADD COLUMN IF NOT EXISTS pinned_at TIMESTAMP WITH TIME ZONE,
+          ADD COLUMN IF NOT EXISTS reference_count INTEGER NOT NULL DEFAULT 0,
+          ADD COLUMN IF NOT EXISTS last_referenced_at TIMESTAMP WITH TIME ZONE,
+          ADD COLUMN IF NOT EXISTS base_importance DECIMAL(3,2),
+          ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE,
+          ADD COLUMN IF NOT EXISTS archive_reason VARCHAR(20),
+          ADD COLUMN IF NOT EXISTS merged_into UUID,
+          ADD COLUMN IF NOT EXISTS provenance JSONB NOT NULL DEFAULT '[]'
+        `)
+      }
+
+      const counts: Record<string, { migrated: number; skipped: number }> = {}
+
+      if (pending.includes('vector_memory')) {
+        const twin = present.has('chat_memory')
+          ? `LEFT JOIN LATERAL (
+              SELECT * FROM chat_memory
+              WHERE chat_memory.user_id = v.user_id
+                AND chat_memory.session_id = v.session_id
+                AND chat_memory.summary = v.metadata->>'summary'
+              ORDER BY chat_memory.created_at
+              LIMIT 1
+            ) c ON true`
+          : `LEFT JOIN LATERAL (
+              SELECT NULL::boolean AS pinned, NULL::timestamptz AS pinned_at, NULL::int AS reference_count,
+                NULL::text[] AS source_messages, NULL::timestamptz AS extracted_at
+            ) c ON true`
+
+        const result = await client.query(`
+          INSERT INTO memories (
+            user_id, session_id, source, memory_type, summary, details, content,
+            embedding, embedding_model, embedding_dimensions,
+            confidence, importance, base_importance, tags, related_symptoms, source_messages,
+            pinned, pinned_at, reference_count, last_referenced_at, archived_at, archive_reason,
+            provenance, legacy_table, legacy_id, extracted_at, created_at, updated_at
+          )
+          SELECT
+            v.user_id,
+            NULLIF(v.session_id, 'consolidated'),
+            CASE WHEN v.session_id = 'consolidated' THEN 'consolidation' ELSE 'chat_extraction' END,
+            v.memory_type,
+            COALESCE(v.metadata->>'summary', v.content),
+            COALESCE(v.metadata->'details', '{}'::jsonb),
+            v.content,
+            v.embedding,
+            CASE WHEN v.embedding IS NOT NULL THEN $1::varchar END,
+            CASE WHEN v.embedding IS NOT NULL THEN $2::int END,
+            COALESCE((v.metadata->>'confidence')::float, 0.8),
+            COALESCE((v.metadata->>'importance')::float, 0.5),
+            v.base_importance,
+            CASE WHEN jsonb_typeof(v.metadata->'tags') = 'array' THEN ARRAY(SELECT jsonb_array_elements_text(v.metadata->'tags')) ELSE '{}' END,
+            CASE WHEN jsonb_typeof(v.metadata->'relatedSymptoms') = 'array' THEN ARRAY(SELECT jsonb_array_elements_text(v.metadata->'relatedSymptoms')) ELSE '{}' END,
+            COALESCE(c.source_messages, '{}'),
+            COALESCE(c.pinned, false),
+            c.pinned_at,
+            GREATEST(v.reference_count, COALESCE(c.reference_count, 0)),
+            v.last_referenced_at,
+            v.archived_at,
+            v.archive_reason,
+            v.provenance,
+            'vector_memory',
+            v.id,
+            COALESCE(c.extracted_at, v.created_at),
+            v.created_at,
+            v.updated_at
+          FROM vector_memory v
+          ${twin}
+          ON CONFLICT (legacy_table, legacy_id) DO NOTHING
+        `, [DEFAULT_EMBEDDING_MODEL.model, DEFAULT_EMBEDDING_MODEL.dimensions])
+
+        // Merged sources point at their canonical memory's new id
+        await client.query(`
+          UPDATE memories
+          SET merged_into = target.id
+          FROM vector_memory v
+          JOIN memories target ON target.legacy_table = 'vector_memory' AND target.legacy_id = v.merged_into
+          WHERE memories.legacy_table = 'vector_memory' AND memories.legacy_id = v.id
+            AND v.merged_into IS NOT NULL AND memories.merged_into IS NULL
+        `)
+
+        counts.vector_memory = { migrated: result.rowCount ?? 0, skipped: 0 }
+      }
+
+      if (pending.includes('chat_memory')) {
+        const noTwin = present.has('vector_memory')
+          ? `WHERE NOT EXISTS (
+              SELECT 1 FROM vector_memory v
+              WHERE v.user_id = c.user_id AND v.session_id = c.session_id AND v.metadata->>'summary' = c.summary
+            )`
+          : ''
+
+        const result = await client.query(`
+          INSERT INTO memories (
+            user_id, session_id, source, memory_type, summary, details, content,
+            confidence, importance, base_importance, tags, related_symptoms, source_messages,
+            pinned, pinned_at, reference_count, last_referenced_at, archived_at, archive_reason,
+            provenance, legacy_table, legacy_id, extracted_at, created_at, updated_at
+          )
+          SELECT
+            c.user_id,
+            NULLIF(c.session_id, 'consolidated'),
+            CASE WHEN c.session_id = 'consolidated' THEN 'consolidation' ELSE 'chat_extraction' END,
+            c.memory_type,
+            c.summary,
+            c.details,
+            c.summary || ' ' || c.details::text,
+            c.confidence,
+            c.importance,
+            c.base_importance,
+            COALESCE(c.tags, '{}'),
+            COALESCE(c.related_symptoms, '{}'),
+            COALESCE(c.source_messages, '{}'),
+            c.pinned,
+            c.pinned_at,
+            c.reference_count,
+            c.last_referenced_at,
+            c.archived_at,
+            c.archive_reason,
+            c.provenance,
+            'chat_memory',
+            c.id,
+            c.extracted_at,
+            c.created_at,
+            c.updated_at
+          FROM chat_memory c
+          ${noTwin}
+          ON CONFLICT (legacy_table, legacy_id) DO NOTHING
+        `)
+        counts.chat_memory = { migrated: result.rowCount ?? 0, skipped: 0 }
+      }
+
+      if (pending.includes('user_agent_memory')) {
+        // user_agent_memory.user_id is free text; rows that do not name a known user cannot be kept
+        const result = await client.query(`
+          INSERT INTO memories (
+            user_id, source, memory_type, summary, details, content, importance, tags,
+            last_referenced_at, legacy_table, legacy_id, extracted_at, created_at, updated_at
+          )
+          SELECT
+            u.id,
+            'agent',
+            a.memory_type,
+            a.content,
+            '{}'::jsonb,
+            a.content,
+            LEAST(GREATEST(COALESCE(a.importance_score, 5), 0), 10) / 10.0,
+            CASE WHEN jsonb_typeof(a.context_tags) = 'array' THEN ARRAY(SELECT jsonb_array_elements_text(a.context_tags)) ELSE '{}' END,
+            a.last_referenced,
+            'user_agent_memory',
+            a.id,
+            a.created_at,
+            a.created_at,
+            a.created_at
+          FROM user_agent_memory a
+          JOIN users u ON u.id::text = a.user_id
+          ON CONFLICT (legacy_table, legacy_id) DO NOTHING
+        `)
+        const orphans = await client.query(`
+          SELECT COUNT(*)::int AS count FROM user_agent_memory a
+          WHERE NOT EXISTS (SELECT 1 FROM users u WHERE u.id::text = a.user_id)
+        `)
+        counts.user_agent_memory = { migrated: result.rowCount ?? 0, skipped: orphans.rows[0]?.count ?? 0 }
+      }
+
+      for (const [table, count] of Object.entries(counts)) {
+        await client.query(`
+          INSERT INTO memory_store_migrations (legacy_table, migrated, skipped, completed_at)
+          VALUES ($1, $2, $3, CURRENT_TIMESTAMP)
+          ON CONFLICT (legacy_table) DO UPDATE SET
+            migrated = memory_store_migrations.migrated + EXCLUDED.migrated,
+            skipped = EXCLUDED.skipped,
+            completed_at = EXCLUDED.completed_at
+        `, [table, count.migrated, count.skipped])
+      }
+
+      await client.query('COMMIT')
+      console.log(`✅ Legacy memories migrated: ${Object.entries(counts).map(([table, count]) => `${table} ${count.migrated} (${count.skipped} skipped)`).join(', ')}`)
+    } catch (error) {
+      await client.query('ROLLBACK')
+      console.error('❌ Error migrating legacy memories:', error)
+      throw error
+    } finally {
+      client.release()
+    }
+
+    const embeddingsBackfilled = options.backfillEmbeddings === false ? 0 : await embeddingIndex.backfill('memories')
+    return { tables: await this.getMigrationStatus(), embeddingsBackfilled }
+  }
+
+  async getMigrationStatus(): Promise<LegacyMigrationStatus[]> {
+    const result = await DatabasePool.query('SELECT * FROM memory_store_migrations ORDER BY legacy_table')
+    return result.rows.map(row => ({
+      legacyTable: row.legacy_table,
+      migrated: row.migrated,
+      skipped: row.skipped,
+      completedAt: row.completed_at || null
+    }))
+  }
+
+  /**
+   * Relevance from similarity, importance, confidence and recency
+   */
+  private calculateRelevanceScore(similarity: number, memory: Memory): number {
+    let score = similarity * 0.7 // Base similarity weight
+
+    // Boost for importance
+    score += memory.importance * 0.2
+
+    // Boost for confidence
+    score += memory.confidence * 0.1
+
+    // Recency boost (newer memories slightly favored)
+    const daysSinceExtracted = (Date.now() - new Date(memory.extractedAt).getTime()) / (1000 * 60 * 60 * 24)
+    score += Math.max(0, (30 - daysSinceExtracted) / 30) * 0.05
+
+    return Math.min(1.0, score)
+  }
+
+  mapRowToMemory(row: any): Memory {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      sessionId: row.session_id || null,
+      source: row.source,
+      memoryType: row.memory_type,
+      summary: row.summary,
+      details: typeof row.details === 'string' ? JSON.parse(row.details) : row.details,
+      confidence: parseFloat(row.confidence),
+      importance: parseFloat(row.importance),
+      tags: row.tags || [],
+      relatedSymptoms: row.related_symptoms || [],
+      sourceMessages: row.source_messages || [],
+      pinned: Boolean(row.pinned),
+      pinnedAt: row.pinned_at || null,
+      editedAt: row.edited_at || null,
+      referenceCount: row.reference_count || 0,
+      lastReferencedAt: row.last_referenced_at || null,
+      archivedAt: row.archived_at || null,
+      archiveReason: row.archive_reason || null,
+      mergedInto: row.merged_into || null,
+      provenance: row.provenance || [],
+      extractedAt: row.extracted_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }
+  }
+}
+
+export const memoryStore = new MemoryStore()
@@ -67,6 +67,8 @@ class MentionDataService {
           return await this.fetchVitalsData()
         case 'conditions':
           return await this.fetchConditionsData()
+        case 'allergies':
+          return await this.fetchAllergiesData()
         default:
           return null
       }
@@ -389,6 +391,29 @@ class MentionDataService {
     }
   }
 
+  private async fetchAllergiesData(): Promise<MentionData> {
+    const response = await fetch('/api/mention/allergies', {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${this.sessionToken}`,
+        'Content-Type': 'application/json'
+      }
+    })
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch allergies data')
+    }
+
+    const data = await response.json()
+    
+    return {
+      type: 'allergies',
+      summary: data.summary || 'No allergies recorded',
+      data: data.data || data,
+      timestamp: data.timestamp || new Date().toISOString()
+    }
+  }
+
   private formatConditionsSummary(data: any): string {
     if (!data || !data.conditions || data.conditions.length === 0) {
       return 'No pre-existing conditions recorded'
@@ -0,0 +1,379 @@
+/**
+ * Merlin API Client
+ * Single typed entry point for every Merlin diagnostic call, with retry/backoff,
+ * timeouts and JWT refresh-on-401 handled in one place
+ */
+
+import axios, { AxiosError, Method } from 'axios'
+import { getValidJWTToken, clearTokenCache } from './jwt-manager'
+
+const DEFAULT_MERLIN_ENDPOINT = 'https://merlin-394631772515.us-central1.run.app'
+export const MERLIN_STUB_PATH = '/merlin-stub'
+const STUB_TOKEN = 'merlin-stub-token'
+
+export interface MerlinClientConfig {
+  baseUrl: string
+  platformId: string
+  timeoutMs: number
+  maxRetries: number
+  retryBaseDelayMs: number
+  retryMaxDelayMs: number
+  retryOnStatuses: number[]
+  // Failures that prove Merlin did not process the request; the only ones non-idempotent calls retry
+  unprocessedStatuses: number[]
+  unprocessedErrorCodes: string[]
+  getToken: () => Promise<string>
+  onUnauthorized: () => void
+}
+
+export interface MerlinPatientInfo {
+  first_name: string
+  last_name: string
+  date_of_birth: string
+  sex_at_birth: string
+  comments: string[]
+  allergy_list: any[]
+  medication_list: any[]
+  risk_factor_list: any[]
+  problem_list: any[]
+}
+
+export interface MerlinSessionPayload {
+  patient_info: MerlinPatientInfo
+  reason_for_encounter: string
+}
+
+export interface MerlinQuestion {
+  question: string
+  answerList: string[]
+}
+
+export interface MerlinDifferentialItem {
+  diagnosis: {
+    display_name: string
+    display_name_layman?: string
+    [key: string]: any
+  }
+  probability: number
+  [key: string]: any
+}
+
+export interface MerlinSdcoReference {
+  sdco_id: string
+  display_name: string
+  display_name_layman?: string
+  version?: string
+  [key: string]: any
+}
+
+// Merlin catalog identifiers for the patient's known history
+export interface MerlinPatientHistory {
+  allergyList: string[]
+  medicationList: string[]
+  riskFactorList: string[]
+  problemList: string[]
+}
+
+export interface MerlinPatientData {
+  firstName: string
+  lastName: string
+  dateOfBirth: string // MM/DD/YYYY
+  sex: string // 'Male' | 'Female' | 'Other'
+  history?: MerlinPatientHistory
+}
+
+/**
+ * Convert YYYY-MM-DD (or any Date-parsable string) to Merlin's MM/DD/YYYY
+ */
+export function formatMerlinDate(dateString: string): string {
+  const date = new Date(dateString)
+  if (isNaN(date.getTime())) {
+    throw new Error('Invalid date format provided by authenticated user')
+  }
+  const month = (date.getMonth() + 1).toString().padStart(2, '0')
+  const day = date.getDate().toString().padStart(2, '0')
+  return `${month}/${day}/${date.getFullYear()}`
+}
+
+/**
+ * Patient data stored with a session, built from the validated session user
+ */
+export function patientDataFromUser(user: {
+  firstName: string
+  lastName: string
+  dateOfBirth: string
+  genderAtBirth?: string
+  email?: string
+}): MerlinPatientData & { email?: string } {
+  return {
+    firstName: user.firstName,
+    lastName: user.lastName,
+    dateOfBirth: formatMerlinDate(user.dateOfBirth),
+    sex: user.genderAtBirth === 'male' ? 'Male' :
+         user.genderAtBirth === 'female' ? 'Female' : 'Other',
+    email: user.email
+  }
+}
+
+/**
+ * Build Merlin patient_info from the patient data stored with a session. History is
+ * stored alongside so rebuilt and migrated sessions send the same lists.
+ */
+export function toMerlinPatientInfo(patient: MerlinPatientData): MerlinPatientInfo {
+  return {
+    first_name: patient.firstName,
+    last_name: patient.lastName,
+    date_of_birth: patient.dateOfBirth,
+    sex_at_birth: patient.sex.charAt(0).toLowerCase(),
+    comments: [],
+    allergy_list: patient.history?.allergyList || [],
+    medication_list: patient.history?.medicationList || [],
+    risk_factor_list: patient.history?.riskFactorList || [],
+    problem_list: patient.history?.problemList || []
+  }
+}
+
+export class MerlinApiError extends Error {
+  status?: number
+  endpoint: string
+  data?: any
+
+  constructor(message: string, endpoint: string, status?: number, data?: any) {
+    super(message)
+    this.name = 'MerlinApiError'
+    this.endpoint = endpoint
+    this.status = status
+    this.data = data
+  }
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10)
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+export function isMerlinStubEnabled(): boolean {
+  return process.env.MERLIN_STUB === 'true'
+}
+
+function resolveDefaultConfig(): MerlinClientConfig {
+  const stubEnabled = isMerlinStubEnabled()
+  const localBaseUrl = process.env.BASE_URL || `http://localhost:${process.env.PORT || 3000}`
+
+  return {
+    baseUrl: stubEnabled
+      ? `${localBaseUrl}${MERLIN_STUB_PATH}`
+      : process.env.MERLIN_ENDPOINT || DEFAULT_MERLIN_ENDPOINT,
+    platformId: process.env.MERLIN_PLATFORM_ID || 'Mobile',
+    timeoutMs: readNumberEnv('MERLIN_TIMEOUT_MS', 15000),
+    maxRetries: readNumberEnv('MERLIN_MAX_RETRIES', 2),
+    retryBaseDelayMs: readNumberEnv('MERLIN_RETRY_BASE_MS', 300),
+    retryMaxDelayMs: readNumberEnv('MERLIN_RETRY_MAX_MS', 3000),
+    retryOnStatuses: [408, 429, 502, 503, 504],
+    unprocessedStatuses: [429, 503],
+    // The connection was never made, so the request cannot have reached Merlin
+    unprocessedErrorCodes: ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'],
+    // The stub does not check tokens, so skip the UMA round trip entirely
+    getToken: stubEnabled ? async () => STUB_TOKEN : getValidJWTToken,
+    onUnauthorized: stubEnabled ? () => {} : clearTokenCache
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+export class MerlinClient {
+  private config: MerlinClientConfig
+
+  constructor(config: Partial<MerlinClientConfig> = {}) {
+    this.config = { ...resolveDefaultConfig(), ...config }
+  }
+
+  getConfig(): Readonly<MerlinClientConfig> {
+    return this.config
+  }
+
+  /**
+   * Start a new diagnostic session and return its persistanceSession id
+   */
+  async startNewSession(payload: MerlinSessionPayload): Promise<{ sessionId: string; raw: any }> {
+    const data = await this.request('PUT', '/api/v1/diagnostic/start-new-session', {
+      platform_id: this.config.platformId,
+      ...payload
+    })
+
+    const sessionId = data?.persistanceSession || data?.session_id
+    if (!sessionId) {
+      throw new MerlinApiError('Session creation succeeded but no session ID returned', 'start-new-session', 200, data)
+    }
+
+    return { sessionId, raw: data }
+  }
+
+  /**
+   * Get the next unanswered diagnostic question, or null when none are left
+   */
+  async getDiagnosticQuestion(sessionId: string): Promise<MerlinQuestion | null> {
+    const data = await this.request('PUT', '/api/v1/dx-session/get-diagnostic-question', {
+      persistanceSession: sessionId
+    })
+
+    if (data?.question && data.question !== 'No Questions Left') {
+      return {
+        question: data.question,
+        answerList: data.answer_list || []
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Answer the current question. Not idempotent: a repeat would answer the next question too.
+   */
+  async submitDiagnosticAnswer(sessionId: string, answerIndex: number): Promise<any> {
+    return this.request('PUT', '/api/v1/dx-session/submit-diagnostic-answer', {
+      persistanceSession: sessionId,
+      answer_index: answerIndex,
+      platform_id: this.config.platformId
+    }, { idempotent: false })
+  }
+
+  /**
+   * Queue symptoms on the session. Not idempotent: a repeat queues them twice.
+   */
+  async addSymptomsToQueue(sessionId: string, sdcoIds: string[]): Promise<any> {
+    return this.request('POST', '/api/v1/dx-session/add-symptoms-to-queue', {
+      persistanceSession: sessionId,
+      sdco_ids: sdcoIds,
+      platform_id: this.config.platformId
+    }, { idempotent: false })
+  }
+
+  /**
+   * Get the differential diagnosis in Merlin's original item structure
+   */
+  async getDifferentialDiagnosis(sessionId: string): Promise<MerlinDifferentialItem[]> {
+    const data = await this.request('PUT', '/api/v1/dx-session/get-differential-diagnosis', {
+      persistanceSession: sessionId,
+      platform_id: this.config.platformId
+    })
+
+    return data?.differential_diagnosis || []
+  }
+
+  async getPlatformSdcoList(): Promise<MerlinSdcoReference[]> {
+    const data = await this.request('PUT', '/api/v1/diagnostic/get-platform-sdco-list', {
+      platform_id: this.config.platformId
+    }, { timeoutMs: 30000 })
+
+    return data?.sdco_references || []
+  }
+
+  async getPlatformSdcoHeaders(): Promise<any[]> {
+    const data = await this.request('PUT', '/api/v1/diagnostic/get-platform-sdco-headers', {
+      platform_id: this.config.platformId
+    }, { timeoutMs: 30000 })
+
+    return data?.documents || []
+  }
+
+  async getOneSdco(sdcoId: string): Promise<any | null> {
+    const data = await this.request('PUT', '/api/v1/diagnostic/get-one-sdco', {
+      platform_id: this.config.platformId,
+      sdco_id: sdcoId
+    })
+
+    return data?.document || null
+  }
+
+  async getConditionList(): Promise<any[]> {
+    const data = await this.request('PUT', '/api/v1/caring/get-condition-list', undefined, { timeoutMs: 30000 })
+    return data?.conditions || []
+  }
+
+  async getMedicationCatalog(): Promise<any[]> {
+    const data = await this.request('GET', '/api/v1/medication/get-medication-catalog', undefined, { timeoutMs: 30000 })
+    return Array.isArray(data) ? data : []
+  }
+
+  /**
+   * Send a request to Merlin, retrying transient failures with exponential backoff
+   * and refreshing the JWT once if Merlin rejects it. Calls marked non-idempotent
+   * are only retried when the failure shows Merlin did not process them; after a
+   * timeout or a gateway error it may have, so the error is raised instead.
+   */
+  private async request(
+    method: Method,
+    path: string,
+    body?: any,
+    options: { timeoutMs?: number; idempotent?: boolean } = {}
+  ): Promise<any> {
+    const idempotent = options.idempotent ?? true
+    const endpoint = path.split('/').pop() || path
+    let attempt = 0
+    let refreshedToken = false
+
+    while (true) {
+      const token = await this.config.getToken()
+
+      try {
+        const response = await axios.request({
+          method,
+          url: `${this.config.baseUrl}${path}`,
+          data: body,
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+          },
+          timeout: options.timeoutMs ?? this.config.timeoutMs
+        })
+
+        return response.data
+      } catch (error) {
+        const axiosError = error as AxiosError
+        const status = axiosError.response?.status
+
+        if (status === 401 && !refreshedToken) {
+          console.log(`🔑 Merlin ${endpoint} returned 401 - refreshing JWT token`)
+          this.config.onUnauthorized()
+          refreshedToken = true
+          continue
+        }
+
+        const retryable = idempotent
+          ? status === undefined || this.config.retryOnStatuses.includes(status)
+          : status === undefined
+            ? this.config.unprocessedErrorCodes.includes(axiosError.code || '')
+            : this.config.unprocessedStatuses.includes(status)
+        if (retryable && attempt < this.config.maxRetries) {
+          const delay = Math.min(
+            this.config.retryBaseDelayMs * Math.pow(2, attempt),
+            this.config.retryMaxDelayMs
+          )
+          attempt++
+          console.log(`🔁 Merlin ${endpoint} failed (${status || axiosError.code || 'network'}), retry ${attempt}/${this.config.maxRetries} in ${delay}ms`)
+          await sleep(delay)
+          continue
+        }
+
+        throw new MerlinApiError(
+          `Merlin ${endpoint} failed${status ? ` with status ${status}` : ''}: ${axiosError.message}`,
+          endpoint,
+          status,
+          axiosError.response?.data
+        )
+      }
+    }
+  }
+}
+
+let sharedClient: MerlinClient | null = null
+
+export function getMerlinClient(): MerlinClient {
+  if (!sharedClient) {
+    sharedClient = new MerlinClient()
+  }
+  return sharedClient
+}
@@ -0,0 +1,228 @@
+/**
+ * In-process Merlin Stub
+ * Minimal, deterministic stand-in for the Merlin diagnostic API so the whole
+ * diagnostic flow can run locally. Enabled with MERLIN_STUB=true.
+ */
+
+import { Router, Request, Response } from 'express'
+
+interface StubCondition {
+  display_name: string
+  display_name_layman: string
+  baseWeight: number
+}
+
+interface StubQuestion {
+  question: string
+  answer_list: string[]
+  // Weight multipliers applied per condition index when the answer at that index is chosen
+  effects: Record<number, number[]>
+}
+
+interface StubSession {
+  id: string
+  reasonForEncounter: string
+  symptomQueue: string[]
+  answers: number[]
+  createdAt: number
+}
+
+const STUB_SDCO_REFERENCES = [
+  { sdco_id: 'abdominal_pain@C0000737', display_name: 'Abdominal pain', display_name_layman: 'Stomach ache' },
+  { sdco_id: 'headache@C0018681', display_name: 'Headache', display_name_layman: 'Head pain' },
+  { sdco_id: 'chest_pain@C0008031', display_name: 'Chest pain', display_name_layman: 'Pain in the chest' },
+  { sdco_id: 'diarrhea@C0011991', display_name: 'Diarrhea', display_name_layman: 'Loose stools' },
+  { sdco_id: 'cough@C0010200', display_name: 'Cough', display_name_layman: 'Coughing' },
+  { sdco_id: 'fever@C0015967', display_name: 'Fever', display_name_layman: 'High temperature' },
+  { sdco_id: 'nausea@C0027497', display_name: 'Nausea', display_name_layman: 'Feeling sick' },
+  { sdco_id: 'fatigue@C0015672', display_name: 'Fatigue', display_name_layman: 'Tiredness' },
+  { sdco_id: 'malaise@C0231218', display_name: 'Malaise', display_name_layman: 'Feeling unwell' }
+]
+
+const STUB_CONDITIONS: StubCondition[] = [
+  { display_name: 'Viral gastroenteritis', display_name_layman: 'Stomach flu', baseWeight: 4 },
+  { display_name: 'Tension-type headache', display_name_layman: 'Stress headache', baseWeight: 3 },
+  { display_name: 'Upper respiratory tract infection', display_name_layman: 'Common cold', baseWeight: 3 },
+  { display_name: 'Gastroesophageal reflux disease', display_name_layman: 'Acid reflux', baseWeight: 2 },
+  { display_name: 'Influenza', display_name_layman: 'Flu', baseWeight: 2 }
+]
+
+const STUB_QUESTIONS: StubQuestion[] = [
+  {
+    question: 'Do you have a fever?',
+    answer_list: ['Present', 'Absent', "Don't know"],
+    effects: { 0: [1.5, 0.8, 1.4, 0.6, 2], 1: [0.8, 1.2, 0.8, 1.3, 0.4] }
+  },
+  {
+    question: 'How long have you had this symptom?',
+    answer_list: ['Less than 24 hours', '1 to 7 days', 'More than a week'],
+    effects: { 0: [1.4, 1.1, 1, 0.7, 1.2], 2: [0.6, 1.2, 0.8, 1.6, 0.5] }
+  },
+  {
+    question: 'Have you had vomiting?',
+    answer_list: ['Present', 'Absent', "Don't know"],
+    effects: { 0: [2, 0.7, 0.8, 1, 1.1], 1: [0.6, 1.1, 1.1, 1, 1] }
+  },
+  {
+    question: 'Is the symptom worse after eating?',
+    answer_list: ['Yes', 'No', "Don't know"],
+    effects: { 0: [1.2, 0.8, 0.7, 2, 0.8], 1: [0.9, 1.1, 1.1, 0.6, 1.1] }
+  }
+]
+
+const sessions = new Map<string, StubSession>()
+
+function requireSession(req: Request, res: Response): StubSession | null {
+  const session = sessions.get(req.body?.persistanceSession)
+  if (!session) {
+    res.status(404).json({ detail: 'Session not found' })
+    return null
+  }
+  return session
+}
+
+function buildDifferential(session: StubSession): any[] {
+  const weights = STUB_CONDITIONS.map(condition => condition.baseWeight)
+
+  session.answers.forEach((answerIndex, questionIndex) => {
+    const multipliers = STUB_QUESTIONS[questionIndex]?.effects[answerIndex]
+    if (multipliers) {
+      multipliers.forEach((multiplier, conditionIndex) => {
+        weights[conditionIndex] *= multiplier
+      })
+    }
+  })
+
+  // Each queued symptom nudges the spread a little so queueing is observable
+  const queueBoost = 1 + session.symptomQueue.length * 0.1
+  weights[0] *= queueBoost
+
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+
+  return STUB_CONDITIONS
+    .map((condition, index) => ({
+      diagnosis: {
+        display_name: condition.display_name,
+        display_name_layman: condition.display_name_layman
+      },
+      probability: Math.round((weights[index] / total) * 1000) / 1000
+    }))
+    .sort((a, b) => b.probability - a.probability)
+}
+
+export function createMerlinStubRouter(): Router {
+  const router = Router()
+
+  router.put('/api/v1/diagnostic/start-new-session', (req: Request, res: Response) => {
+    const { reason_for_encounter, patient_info } = req.body || {}
+
+    if (!reason_for_encounter || !patient_info) {
+      return res.status(422).json({ detail: 'reason_for_encounter and patient_info are required' })
+    }
+
+    const id = `stub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    sessions.set(id, {
+      id,
+      reasonForEncounter: reason_for_encounter,
+      symptomQueue: [],
+      answers: [],
+      createdAt: Date.now()
+    })
+
+    console.log(`🧪 MERLIN STUB: Started session ${id} for ${reason_for_encounter}`)
+    res.status(200).json({ persistanceSession: id })
+  })
+
+  router.put('/api/v1/dx-session/get-diagnostic-question', (req: Request, res: Response) => {
+    const session = requireSession(req, res)
+    if (!session) return
+
+    const next = STUB_QUESTIONS[session.answers.length]
+    if (!next) {
+      return res.status(200).json({ persistanceSession: session.id, question: 'No Questions Left', answer_list: [] })
+    }
+
+    res.status(200).json({
+      persistanceSession: session.id,
+      question: next.question,
+      answer_list: next.answer_list
+    })
+  })
+
+  router.put('/api/v1/dx-session/submit-diagnostic-answer', (req: Request, res: Response) => {
+    const session = requireSession(req, res)
+    if (!session) return
+
+    const question = STUB_QUESTIONS[session.answers.length]
+    const answerIndex = Number(req.body.answer_index)
+
+    if (!question) {
+      return res.status(500).json({ detail: 'Internal Error' })
+    }
+    if (!Number.isInteger(answerIndex) || answerIndex < 0 || answerIndex >= question.answer_list.length) {
+      return res.status(422).json({ detail: 'answer_index out of range' })
+    }
+
+    session.answers.push(answerIndex)
+    res.status(200).json({ persistanceSession: session.id, status: 'answer recorded' })
+  })
+
+  router.post('/api/v1/dx-session/add-symptoms-to-queue', (req: Request, res: Response) => {
+    const session = requireSession(req, res)
+    if (!session) return
+
+    const sdcoIds: string[] = Array.isArray(req.body.sdco_ids) ? req.body.sdco_ids : []
+    session.symptomQueue.push(...sdcoIds)
+    res.status(200).json({ persistanceSession: session.id, queued: session.symptomQueue.length })
+  })
+
+  router.put('/api/v1/dx-session/get-differential-diagnosis', (req: Request, res: Response) => {
+    const session = requireSession(req, res)
+    if (!session) return
+
+    res.status(200).json({
+      persistanceSession: session.id,
+      differential_diagnosis: buildDifferential(session)
+    })
+  })
+
+  router.put('/api/v1/diagnostic/get-platform-sdco-list', (_req: Request, res: Response) => {
+    res.status(200).json({ sdco_references: STUB_SDCO_REFERENCES })
+  })
+
+  router.put('/api/v1/diagnostic/get-platform-sdco-headers', (_req: Request, res: Response) => {
+    res.status(200).json({
+      documents: STUB_SDCO_REFERENCES.map(reference => ({ id: reference.sdco_id, ...reference, version: 'stub' }))
+    })
+  })
+
+  router.put('/api/v1/diagnostic/get-one-sdco', (req: Request, res: Response) => {
+    const reference = STUB_SDCO_REFERENCES.find(item => item.sdco_id === req.body?.sdco_id)
+    if (!reference) {
+      return res.status(404).json({ detail: 'SDCO not found' })
+    }
+    res.status(200).json({
+      document: { ...reference, version: 'stub', description: `${reference.display_name} (stub document)` }
+    })
+  })
+
+  router.put('/api/v1/caring/get-condition-list', (_req: Request, res: Response) => {
+    res.status(200).json({
+      conditions: STUB_CONDITIONS.map((condition, index) => ({
+        id: `stub_condition_${index}`,
+        name: condition.display_name,
+        description: condition.display_name_layman
+      }))
+    })
+  })
+
+  router.get('/api/v1/medication/get-medication-catalog', (_req: Request, res: Response) => {
+    res.status(200).json([
+      { id: 'stub_med_ibuprofen', name: 'Ibuprofen', generic_name: 'ibuprofen', therapeutic_class: 'NSAID' },
+      { id: 'stub_med_omeprazole', name: 'Omeprazole', generic_name: 'omeprazole', therapeutic_class: 'Proton pump inhibitor' },
+      { id: 'stub_med_amoxicillin', name: 'Amoxicillin', generic_name: 'amoxicillin', therapeutic_class: 'Penicillin antibiotic' }
+    ])
+  })
+
+  return router
+}
@@ -9,6 +9,8 @@ import { sendOTPEmail } from './email-service'
 export interface OTPRequest {
   email: string
   purpose: 'signup' | 'login' | 'verification'
+  // Email language code; English when omitted
+  language?: string
   ipAddress?: string
   userAgent?: string
 }
@@ -61,7 +63,8 @@ export class OTPService {
       const emailResult = await sendOTPEmail(
         request.email,
         otpCode,
-        request.purpose
+        request.purpose,
+        request.language
       )
 
       if (!emailResult.success) {
@@ -0,0 +1,147 @@
+/**
+ * Patient History Mapping
+ * Maps a user's active medications, conditions and drug allergies onto Merlin catalog
+ * identifiers for the patient_info lists sent when a diagnostic session starts. Items
+ * without a Merlin identifier are reported back instead of being sent as free text.
+ */
+
+import { DatabasePool } from './database-pool'
+import { medicationsDatabase } from './medications-database'
+import { allergiesDatabase } from './allergies-database'
+import { MerlinPatientHistory } from './merlin-client'
+
+export type UnmappedHistoryReason = 'not_in_catalog' | 'no_merlin_id'
+
+export interface UnmappedHistoryItem {
+  type: 'medication' | 'condition' | 'allergy'
+  name: string
+  reason: UnmappedHistoryReason
+}
+
+export interface MappedHistoryItem {
+  type: 'medication' | 'condition' | 'allergy'
+  name: string
+  merlinId: string
+  list: 'medication_list' | 'problem_list' | 'risk_factor_list' | 'allergy_list'
+}
+
+export interface PatientHistoryMapping {
+  history: MerlinPatientHistory
+  mapped: MappedHistoryItem[]
+  unmapped: UnmappedHistoryItem[]
+}
+
+// Catalog rows synthesised locally when Merlin returned no id (see the *-database populate code)
+const LOCAL_ID_PATTERN = /^(med|condition)_\d+/
+
+// Conditions Merlin treats as risk factors rather than active problems
+const RISK_FACTOR_PATTERN = /smok|tobacco|nicotine|obes|overweight|alcohol|hyperlipid|high cholesterol|family history|sedentary|pregnan/i
+
+function isMerlinId(id: string | null | undefined): id is string {
+  return !!id && !LOCAL_ID_PATTERN.test(id)
+}
+
+async function mapMedications(userId: string, result: PatientHistoryMapping): Promise<void> {
+  const medications = await DatabasePool.query(`
+    SELECT DISTINCT name FROM user_medications
+    WHERE user_id = $1
+      AND status IN ('active', 'currently_taking')
+      AND (NULLIF(end_date::text, '') IS NULL OR NULLIF(end_date::text, '')::date >= CURRENT_DATE)
+  `, [userId])
+
+  for (const row of medications.rows) {
+    const name: string = row.name
+    if (!name?.trim()) continue
+
+    const entry = await medicationsDatabase.findMedicationByName(name)
+
+    if (!entry) {
+      result.unmapped.push({ type: 'medication', name, reason: 'not_in_catalog' })
+    } else if (!isMerlinId(entry.id)) {
+      result.unmapped.push({ type: 'medication', name, reason: 'no_merlin_id' })
+    } else if (!result.history.medicationList.includes(entry.id)) {
+      result.history.medicationList.push(entry.id)
+      result.mapped.push({ type: 'medication', name, merlinId: entry.id, list: 'medication_list' })
+    }
+  }
+}
+
+async function mapConditions(userId: string, result: PatientHistoryMapping): Promise<void> {
+  const conditions = await DatabasePool.query(`
+    SELECT uc.condition_id, cl.id AS library_id, cl.display_name
+    FROM user_conditions uc
+    LEFT JOIN conditions_library cl ON uc.condition_id::text = cl.id
+    WHERE uc.user_id = $1 AND uc.is_active = true
+  `, [userId])
+
+  for (const row of conditions.rows) {
+    const name: string = row.display_name || String(row.condition_id)
+
+    if (!row.library_id) {
+      result.unmapped.push({ type: 'condition', name, reason: 'not_in_catalog' })
+      continue
+    }
+    if (!isMerlinId(row.library_id)) {
+      result.unmapped.push({ type: 'condition', name, reason: 'no_merlin_id' })
+      continue
+    }
+
+    const isRiskFactor = RISK_FACTOR_PATTERN.test(name)
+    const list = isRiskFactor ? result.history.riskFactorList : result.history.problemList
+    if (!list.includes(row.library_id)) {
+      list.push(row.library_id)
+      result.mapped.push({
+        type: 'condition',
+        name,
+        merlinId: row.library_id,
+        list: isRiskFactor ? 'risk_factor_list' : 'problem_list'
+      })
+    }
+  }
+}
+
+// Only drug allergies linked to a catalog medication have a Merlin identifier
+async function mapAllergies(userId: string, result: PatientHistoryMapping): Promise<void> {
+  const allergies = await allergiesDatabase.getAllergies(userId)
+
+  for (const allergy of allergies) {
+    if (!allergy.medicationId) {
+      result.unmapped.push({ type: 'allergy', name: allergy.substance, reason: 'not_in_catalog' })
+    } else if (!isMerlinId(allergy.medicationId)) {
+      result.unmapped.push({ type: 'allergy', name: allergy.substance, reason: 'no_merlin_id' })
+    } else if (!result.history.allergyList.includes(allergy.medicationId)) {
+      result.history.allergyList.push(allergy.medicationId)
+      result.mapped.push({ type: 'allergy', name: allergy.substance, merlinId: allergy.medicationId, list: 'allergy_list' })
+    }
+  }
+}
+
+/**
+ * Build the Merlin history lists for a user. A failing lookup leaves that part empty
+ * rather than blocking session creation.
+ */
+export async function buildPatientHistory(userId: string): Promise<PatientHistoryMapping> {
+  const result: PatientHistoryMapping = {
+    history: { allergyList: [], medicationList: [], riskFactorList: [], problemList: [] },
+    mapped: [],
+    unmapped: []
+  }
+
+  const [medications, conditions, allergies] = await Promise.allSettled([
+    mapMedications(userId, result),
+    mapConditions(userId, result),
+    mapAllergies(userId, result)
+  ])
+  if (medications.status === 'rejected') {
+    console.error('Failed to map user medications for Merlin:', medications.reason)
+  }
+  if (conditions.status === 'rejected') {
+    console.error('Failed to map user conditions for Merlin:', conditions.reason)
+  }
+  if (allergies.status === 'rejected') {
+    console.error('Failed to map user allergies for Merlin:', allergies.reason)
+  }
+
+  console.log(`🩺 Patient history mapped: ${result.mapped.length} items, ${result.unmapped.length} unmapped`)
+  return result
+}
@@ -1,23 +1,42 @@
-import OpenAI from 'openai'
+import type OpenAI from 'openai'
 import { getHealthContextForUser } from './health-context'
-import { userAgentProfileManager, UserAgentPersonality, UserGoal, UserAgentMemory } from './user-agent-profile'
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-})
+import { userAgentProfileManager, UserAgentPersonality, UserGoal } from './user-agent-profile'
+import { memoryStore, Memory } from './memory-store'
+import { consumeCompletionStream } from './sse'
+import { getLLMProvider, getModelForTask, LLMChatRequest } from './llm-provider'
+import { promptRegistry, PromptTemplateRef, RenderedPrompt } from './prompt-registry'
+import {
+  resolveConversationLanguage,
+  languageInstruction,
+  languageName,
+  normalizeLanguage,
+  LanguageCode,
+  DEFAULT_LANGUAGE,
+  AUTO_LANGUAGE
+} from './language'
+import { responseGuardrails, guardrailSummary, GuardrailAction, GuardrailCategory } from './response-guardrails'
 
 export interface PersonalAgentContext {
   userId: string
   healthData: any
   personality: UserAgentPersonality | null
   goals: UserGoal[]
-  memories: UserAgentMemory[]
+  memories: Memory[]
   currentSession: {
     conversationHistory: any[]
     contextTags: string[]
   }
 }
 
+export interface ProcessMessageOptions {
+  // When set, the completion is streamed and text is passed here as it arrives, a sentence
+  // at a time once it passes the guardrail rules
+  onToken?: (token: string) => void
+  signal?: AbortSignal
+  // Answer language; defaults to the user's preferred_language, then the message's language
+  language?: string
+}
+
 export class PersonalAIAgent {
   private userId: string
   private context: PersonalAgentContext | null = null
@@ -112,7 +131,7 @@ export class PersonalAIAgent {
       communication_style: 'friendly' as const,
       medical_expertise_level: 'basic' as const,
       focus_areas: ['general_health'],
-      preferred_language: 'en',
+      preferred_language: AUTO_LANGUAGE,
       reminder_frequency: 'weekly' as const,
       proactive_suggestions: true,
       privacy_level: 'moderate' as const
@@ -128,98 +147,56 @@ export class PersonalAIAgent {
     }
   }
 
-  generatePersonalizedSystemPrompt(): string {
+  /**
+   * Memories relevant to the current message are listed before the user's most important ones
+   */
+  async generatePersonalizedSystemPrompt(language?: LanguageCode, relevantMemories: Memory[] = []): Promise<RenderedPrompt> {
     if (!this.context) {
       throw new Error('Agent not initialized. Call initializeAgent() first.')
     }
 
-    const { personality, goals, memories, healthData } = this.context
-
-    let prompt = `You are a personalized AI health assistant specifically designed for this user. You have complete knowledge of their health profile and personal preferences.
-
-## Your Personality & Communication Style:
-- Communication Style: ${personality?.communication_style || 'friendly'}
-- Medical Expertise Level: ${personality?.medical_expertise_level || 'basic'}
-- Focus Areas: ${personality?.focus_areas?.join(', ') || 'general health'}
-- Language: ${personality?.preferred_language || 'English'}
-
-## User's Health Goals:`
-
-    if (goals.length > 0) {
-      goals.forEach(goal => {
-        prompt += `
-- ${goal.title}: ${goal.description} (Priority: ${goal.priority})`
-        if (goal.target_value && goal.target_unit) {
-          prompt += ` Target: ${goal.target_value} ${goal.target_unit}`
-        }
-      })
-    } else {
-      prompt += `
-- No specific health goals set yet. Consider asking about their health objectives.`
-    }
-
-    prompt += `
+    const { personality, goals, healthData } = this.context
+    const relevantIds = new Set(relevantMemories.map(memory => memory.id))
+    const memories = [...relevantMemories, ...this.context.memories.filter(memory => !relevantIds.has(memory.id))]
 
-## Important Memories & Context:`
-    if (memories.length > 0) {
-      memories.slice(0, 10).forEach(memory => {
-        prompt += `
-- ${memory.memory_type}: ${memory.content} (Importance: ${memory.importance_score}/10)`
-      })
-    } else {
-      prompt += `
-- This is a new relationship. Pay attention to preferences and concerns to build your understanding.`
+    const languageStyles: Record<string, string> = {
+      professional: 'professional, clinical language',
+      friendly: 'warm, approachable language',
+      motivational: 'encouraging, energetic language',
+      direct: 'clear, concise language'
     }
 
-    prompt += `
-
-## Current Health Data:`
-    if (healthData) {
-      if (healthData.medications?.length > 0) {
-        prompt += `
-### Medications:
-${healthData.medications.map((med: any) => `- ${med.name}: ${med.details}`).join('\n')}`
-      }
-
-      if (healthData.wearables?.length > 0) {
-        prompt += `
-### Connected Devices:
-${healthData.wearables.map((device: any) => `- ${device.device}`).join('\n')}`
-      }
-
-      if (healthData.timeline?.length > 0) {
-        prompt += `
-### Recent Health Events:
-${healthData.timeline.map((event: any) => `- ${event.event}`).join('\n')}`
-      }
-    }
-
-    prompt += `
-
-## Your Role:
-- Act as their personal health companion who knows their complete history
-- Reference their goals, medications, and health data naturally in conversations
-- Remember their preferences and build on previous interactions
-- ${personality?.proactive_suggestions ? 'Offer proactive suggestions based on their data and goals' : 'Wait for them to ask before making suggestions'}
-- Maintain appropriate medical disclaimers while being personally supportive
-
-## Communication Guidelines:
-- Use ${personality?.communication_style === 'professional' ? 'professional, clinical language' : 
-         personality?.communication_style === 'friendly' ? 'warm, approachable language' :
-         personality?.communication_style === 'motivational' ? 'encouraging, energetic language' :
-         personality?.communication_style === 'direct' ? 'clear, concise language' :
-         'empathetic, understanding language'}
-- Adapt medical complexity to ${personality?.medical_expertise_level} level
-- Always provide medical disclaimers when giving health advice
-- Remember details from this conversation for future reference`
-
-    return prompt
+    return promptRegistry.render('personal_agent_system', {
+      communicationStyle: personality?.communication_style || 'friendly',
+      medicalExpertiseLevel: personality?.medical_expertise_level || 'basic',
+      focusAreas: personality?.focus_areas?.join(', ') || 'general health',
+      language: languageName(language || normalizeLanguage(personality?.preferred_language) || DEFAULT_LANGUAGE),
+      goals: goals.map(goal =>
+        `- ${goal.title}: ${goal.description} (Priority: ${goal.priority})` +
+        (goal.target_value && goal.target_unit ? ` Target: ${goal.target_value} ${goal.target_unit}` : '')
+      ).join('\n'),
+      memories: memories.slice(0, 10)
+        .map(memory => `- ${memory.memoryType}: ${memory.summary} (Importance: ${Math.round(memory.importance * 10)}/10)`)
+        .join('\n'),
+      medications: (healthData?.medications || []).map((med: any) => `- ${med.name}: ${med.details}`).join('\n'),
+      wearables: (healthData?.wearables || []).map((device: any) => `- ${device.device}`).join('\n'),
+      timeline: (healthData?.timeline || []).map((event: any) => `- ${event.event}`).join('\n'),
+      suggestionGuideline: personality?.proactive_suggestions
+        ? 'Offer proactive suggestions based on their data and goals'
+        : 'Wait for them to ask before making suggestions',
+      languageStyle: languageStyles[personality?.communication_style || ''] || 'empathetic, understanding language'
+    }, { assignmentKey: this.userId })
   }
 
-  async processMessage(message: string, conversationHistory: any[] = []): Promise<{
+  async processMessage(message: string, conversationHistory: any[] = [], options: ProcessMessageOptions = {}): Promise<{
     response: string
-    memories: UserAgentMemory[]
+    memories: Memory[]
     contextTags: string[]
+    usage: OpenAI.CompletionUsage | null
+    promptTemplate: PromptTemplateRef
+    language: { response: LanguageCode; detected: LanguageCode | null }
+    // Set when the safety guardrails changed the reply; a streamed reply must be replaced with `response`
+    guardrail: { action: GuardrailAction; categories: GuardrailCategory[] } | null
   }> {
     if (!this.context) {
       await this.initializeAgent()
@@ -232,30 +209,75 @@ ${healthData.timeline.map((event: any) => `- ${event.event}`).join('\n')}`
     const contextTags = this.extractContextTags(message)
     this.context!.currentSession.contextTags = contextTags
 
-    // Get relevant memories for this conversation
-    const relevantMemories = await userAgentProfileManager.getRelevantMemories(
-      this.userId, 
-      contextTags, 
-      5
-    )
+    // Get relevant memories for this conversation, including those learned from chat
+    const relevantMemories = (await memoryStore.search(this.userId, {
+      query: message,
+      limit: 5,
+      recordReferences: true
+    })).map(result => result.memory)
+
+    const language = await resolveConversationLanguage({
+      message,
+      requested: options.language,
+      preferredLanguage: this.context!.personality?.preferred_language ?? null,
+      history: conversationHistory
+    })
+    const instruction = languageInstruction(language)
 
     // Generate personalized response
-    const systemPrompt = this.generatePersonalizedSystemPrompt()
+    const systemPrompt = await this.generatePersonalizedSystemPrompt(language.responseLanguage, relevantMemories)
+    const promptTemplate: PromptTemplateRef = { name: systemPrompt.name, version: systemPrompt.version }
     
     const messages = [
-      { role: 'system', content: systemPrompt },
+      { role: 'system', content: systemPrompt.content },
+      ...(instruction ? [{ role: 'system', content: instruction }] : []),
       ...conversationHistory,
       { role: 'user', content: message }
     ]
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const completionParams: LLMChatRequest = {
+      task: 'chat',
       messages: messages as any,
       temperature: 0.7,
       max_tokens: 1000
+    }
+
+    let generated: string | null | undefined
+    let usage: OpenAI.CompletionUsage | null = null
+    const startTime = Date.now()
+    const guardrailContext = {
+      endpoint: '/api/agent/chat',
+      userId: this.userId,
+      userMessage: message,
+      language: language.responseLanguage
+    }
+    const guarded = options.onToken ? responseGuardrails.guardStream(guardrailContext, options.onToken) : null
+    if (guarded) {
+      const streamed = await consumeCompletionStream(
+        await getLLMProvider().chatStream(completionParams, { signal: options.signal }),
+        token => guarded.push(token)
+      )
+      generated = streamed.content
+      usage = streamed.usage
+    } else {
+      const completion = await getLLMProvider().chat(completionParams)
+      generated = completion.choices[0]?.message?.content
+      usage = completion.usage || null
+    }
+
+    const fallback = 'I apologize, but I could not generate a response.'
+
+    await promptRegistry.recordUsage(promptTemplate, {
+      userId: this.userId,
+      endpoint: '/api/agent/chat',
+      model: getModelForTask('chat'),
+      usage,
+      latencyMs: Date.now() - startTime
     })
 
-    const response = completion.choices[0]?.message?.content || 'I apologize, but I could not generate a response.'
+    const guardrail = generated ? await responseGuardrails.apply(generated, guardrailContext) : null
+    const response = guardrail?.content || fallback
+    guarded?.finish(response)
 
     // Store important elements as memories
     await this.storeConversationMemories(message, response, contextTags)
@@ -263,7 +285,11 @@ ${healthData.timeline.map((event: any) => `- ${event.event}`).join('\n')}`
     return {
       response,
       memories: relevantMemories,
-      contextTags
+      contextTags,
+      usage,
+      promptTemplate,
+      language: { response: language.responseLanguage, detected: language.detectedLanguage },
+      guardrail: guardrail ? guardrailSummary(guardrail) : null
     }
   }
 
@@ -297,31 +323,37 @@ ${healthData.timeline.map((event: any) => `- ${event.event}`).join('\n')}`
   private async storeConversationMemories(userMessage: string, agentResponse: string, contextTags: string[]): Promise<void> {
     // Store user preferences or concerns
     if (userMessage.toLowerCase().includes('prefer') || userMessage.toLowerCase().includes('like') || userMessage.toLowerCase().includes('hate')) {
-      await userAgentProfileManager.addMemory(this.userId, {
-        memory_type: 'preference',
-        content: `User expressed: ${userMessage}`,
-        importance_score: 7,
-        context_tags: contextTags
+      await memoryStore.addMemory({
+        userId: this.userId,
+        source: 'agent',
+        memoryType: 'preference',
+        summary: `User expressed: ${userMessage}`,
+        importance: 0.7,
+        tags: contextTags
       })
     }
 
     // Store concerns or symptoms
     if (userMessage.toLowerCase().includes('worried') || userMessage.toLowerCase().includes('concern') || userMessage.toLowerCase().includes('pain')) {
-      await userAgentProfileManager.addMemory(this.userId, {
-        memory_type: 'concern',
-        content: `User concern: ${userMessage}`,
-        importance_score: 8,
-        context_tags: contextTags
+      await memoryStore.addMemory({
+        userId: this.userId,
+        source: 'agent',
+        memoryType: 'concern',
+        summary: `User concern: ${userMessage}`,
+        importance: 0.8,
+        tags: contextTags
       })
     }
 
     // Store successes or improvements
     if (userMessage.toLowerCase().includes('better') || userMessage.toLowerCase().includes('improved') || userMessage.toLowerCase().includes('success')) {
-      await userAgentProfileManager.addMemory(this.userId, {
-        memory_type: 'success',
-        content: `User success: ${userMessage}`,
-        importance_score: 6,
-        context_tags: contextTags
+      await memoryStore.addMemory({
+        userId: this.userId,
+        source: 'agent',
+        memoryType: 'success',
+        summary: `User success: ${userMessage}`,
+        importance: 0.6,
+        tags: contextTags
       })
     }
   }
@@ -0,0 +1,530 @@
+/**
+ * Prompt Registry
+ * Versioned system prompts with percentage-based A/B assignment. Versions are
+ * immutable once created; activating sets how much traffic each version gets.
+ * Assignment hashes the user (or another stable key) so a user keeps seeing the
+ * same version while an experiment runs. Every response records the template name
+ * and version it was generated with, so versions can be compared on tokens, cost
+ * and latency.
+ *
+ * Activations reach other instances when their allocation cache expires
+ * (PROMPT_REGISTRY_CACHE_SECONDS, 60 by default).
+ *
+ * The built-in text of each template is stored as a version too. When the code's
+ * text changes, schema setup stores it as a new version; it takes over the traffic
+ * only while nothing but built-in versions is active, so running experiments stay.
+ */
+
+import { createHash } from 'crypto'
+import type { PoolClient } from 'pg'
+import { DatabasePool } from './database-pool'
+import { BUILTIN_PROMPT_TEMPLATES, PromptTemplateName, isPromptTemplateName } from './prompt-templates'
+import TokenTracker from './token-tracker'
+
+const BUILTIN_VERSION = 1
+const ALLOCATION_CACHE_MS = parseInt(process.env.PROMPT_REGISTRY_CACHE_SECONDS || '60', 10) * 1000
+const MAX_TEMPLATE_LENGTH = 50000
+
+export type PromptVariables = Record<string, string | number | boolean | null | undefined>
+
+export interface PromptTemplateRef {
+  name: PromptTemplateName
+  version: number
+}
+
+export interface PromptTemplateVersion extends PromptTemplateRef {
+  id: string | null
+  template: string
+  description: string | null
+  // Share of traffic in percent; 0 means the version is inactive
+  trafficPercent: number
+  createdBy: string | null
+  createdAt: Date | null
+  activatedAt: Date | null
+}
+
+export interface RenderedPrompt extends PromptTemplateRef {
+  content: string
+}
+
+export interface PromptAllocation {
+  version: number
+  percent: number
+}
+
+export interface PromptVersionStats {
+  version: number
+  responses: number
+  avgPromptTokens: number
+  avgCompletionTokens: number
+  avgLatencyMs: number | null
+  estimatedCost: number
+}
+
+export interface PromptUsageRecord {
+  userId?: string | null
+  endpoint: string
+  model?: string | null
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null
+  latencyMs?: number | null
+}
+
+export class PromptTemplateError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'PromptTemplateError'
+    this.status = status
+  }
+}
+
+const TAG_PATTERN = /\{\{([#^/]?)(\w+)\}\}/g
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g
+
+function isPresent(value: PromptVariables[string]): boolean {
+  if (value === null || value === undefined || value === false) return false
+  return String(value).trim().length > 0
+}
+
+/**
+ * Fill a template. Sections are resolved before variables are inserted, so
+ * variable values are never interpreted as template syntax.
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  let rendered = template
+  let previous: string
+  do {
+    previous = rendered
+    rendered = rendered.replace(SECTION_PATTERN, (_, kind: string, name: string, body: string) =>
+      (kind === '#') === isPresent(variables[name]) ? body : ''
+    )
+  } while (rendered !== previous)
+
+  return rendered.replace(/\{\{(\w+)\}\}/g, (_, name: string) =>
+    isPresent(variables[name]) ? String(variables[name]) : ''
+  )
+}
+
+/**
+ * Variable names a template refers to, including section names
+ */
+export function templateVariables(template: string): string[] {
+  const names = new Set<string>()
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    names.add(match[2])
+  }
+  return Array.from(names)
+}
+
+function validateTemplate(name: PromptTemplateName, template: string): void {
+  if (!template.trim()) {
+    throw new PromptTemplateError('template cannot be empty')
+  }
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    throw new PromptTemplateError(`template must be at most ${MAX_TEMPLATE_LENGTH} characters`)
+  }
+
+  const allowed = BUILTIN_PROMPT_TEMPLATES[name].variables
+  const unknown = templateVariables(template).filter(variable => !allowed.includes(variable))
+  if (unknown.length > 0) {
+    throw new PromptTemplateError(
+      `Unknown variables for ${name}: ${unknown.join(', ')}. Available: ${allowed.join(', ') || 'none'}`
+    )
+  }
+
+  const open: string[] = []
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    if (match[1] === '#' || match[1] === '^') {
+      open.push(match[2])
+    } else if (match[1] === '/') {
+      if (open.pop() !== match[2]) {
+        throw new PromptTemplateError(`Unbalanced section {{/${match[2]}}}`)
+      }
+    }
+  }
+  if (open.length > 0) {
+    throw new PromptTemplateError(`Section {{#${open[open.length - 1]}}} is never closed`)
+  }
+}
+
+// Stable bucket 0-99 for a template and assignment key
+function assignmentBucket(name: string, key: string): number {
+  return parseInt(createHash('sha256').update(`${name}:${key}`).digest('hex').slice(0, 8), 16) % 100
+}
+
+// md5, so it can be compared with md5(template) in SQL
+function contentHash(template: string): string {
+  return createHash('md5').update(template).digest('hex')
+}
+
+/**
+ * Serialize changes to one template's versions and traffic, until the transaction ends
+ */
+async function lockTemplate(client: PoolClient, name: string): Promise<void> {
+  await client.query(`SELECT pg_advisory_xact_lock(hashtext('prompt_template:' || $1))`, [name])
+}
+
+function builtinVersion(name: PromptTemplateName): PromptTemplateVersion {
+  const builtin = BUILTIN_PROMPT_TEMPLATES[name]
+  return {
+    id: null,
+    name,
+    version: BUILTIN_VERSION,
+    template: builtin.template,
+    description: builtin.description,
+    trafficPercent: 100,
+    createdBy: null,
+    createdAt: null,
+    activatedAt: null
+  }
+}
+
+class PromptRegistry {
+  private schemaReady: Promise<void> | null = null
+  private allocations = new Map<PromptTemplateName, { versions: PromptTemplateVersion[]; loadedAt: number }>()
+
+  /**
+   * Create tables and seed the built-in templates once per process
+   */
+  async initializeSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.createSchema().catch(error => {
+        this.schemaReady = null
+        throw error
+      })
+    }
+    return this.schemaReady
+  }
+
+  private async createSchema(): Promise<void> {
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS prompt_templates (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          name VARCHAR(100) NOT NULL,
+          version INTEGER NOT NULL,
+          template TEXT NOT NULL,
+          description TEXT,
+          traffic_percent INTEGER NOT NULL DEFAULT 0 CHECK (traffic_percent BETWEEN 0 AND 100),
+          created_by VARCHAR(255),
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          activated_at TIMESTAMP WITH TIME ZONE,
+          UNIQUE (name, version)
+        )
+      `)
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS prompt_template_usage (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          template_name VARCHAR(100) NOT NULL,
+          template_version INTEGER NOT NULL,
+          user_id VARCHAR(255),
+          endpoint VARCHAR(255) NOT NULL,
+          model VARCHAR(100),
+          prompt_tokens INTEGER,
+          completion_tokens INTEGER,
+          total_tokens INTEGER,
+          estimated_cost DECIMAL(10, 6),
+          latency_ms INTEGER,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_prompt_template_usage_version
+        ON prompt_template_usage(template_name, template_version, created_at)
+      `)
+
+      for (const name of Object.keys(BUILTIN_PROMPT_TEMPLATES) as PromptTemplateName[]) {
+        await this.syncBuiltin(client, name)
+      }
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * Store the code's built-in text unless a version already has it. The first one is
+   * version 1 and takes all traffic; a changed one replaces built-in versions in the
+   * traffic split, but waits for an activation when other versions are running.
+   */
+  private async syncBuiltin(client: PoolClient, name: PromptTemplateName): Promise<void> {
+    const builtin = BUILTIN_PROMPT_TEMPLATES[name]
+    try {
+      await client.query('BEGIN')
+      await lockTemplate(client, name)
+      const stored = await client.query(`
+        SELECT COALESCE(MAX(version), 0) AS latest,
+          BOOL_OR(md5(template) = $2) AS current,
+          BOOL_AND(traffic_percent = 0 OR created_by = 'builtin') AS builtin_only
+        FROM prompt_templates WHERE name = $1
+      `, [name, contentHash(builtin.template)])
+      const { latest, current, builtin_only: builtinOnly } = stored.rows[0]
+      if (current) {
+        await client.query('COMMIT')
+        return
+      }
+
+      const version = latest === 0 ? BUILTIN_VERSION : latest + 1
+      const takeTraffic = latest === 0 || builtinOnly
+      if (takeTraffic) {
+        await client.query('UPDATE prompt_templates SET traffic_percent = 0 WHERE name = $1', [name])
+      }
+      await client.query(`
+        INSERT INTO prompt_templates (name, version, template, description, traffic_percent, created_by, activated_at)
+        VALUES ($1, $2, $3, $4, $5, 'builtin', ${takeTraffic ? 'CURRENT_TIMESTAMP' : 'NULL'})
+      `, [name, version, builtin.template, builtin.description, takeTraffic ? 100 : 0])
+      await client.query('COMMIT')
+
+      if (latest === 0) return
+      if (takeTraffic) {
+        console.log(`📝 Built-in prompt ${name} changed; stored and activated as version ${version}`)
+      } else {
+        console.warn(`⚠️ Built-in prompt ${name} changed; stored as version ${version}, which gets no traffic until it is activated`)
+      }
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    }
+  }
+
+  /**
+   * Pick the version for a request. The same assignment key always lands on the same
+   * version for a given allocation; without a key the pick is random. Falls back to
+   * the built-in version when the database is unavailable.
+   */
+  async resolve(name: PromptTemplateName, options: { assignmentKey?: string | null } = {}): Promise<PromptTemplateVersion> {
+    let versions: PromptTemplateVersion[]
+    try {
+      versions = await this.getActiveVersions(name)
+    } catch (error) {
+      console.warn(`⚠️ Prompt registry unavailable, using built-in ${name}:`, error instanceof Error ? error.message : error)
+      return builtinVersion(name)
+    }
+    if (versions.length === 0) {
+      return builtinVersion(name)
+    }
+
+    const bucket = options.assignmentKey
+      ? assignmentBucket(name, options.assignmentKey)
+      : Math.floor(Math.random() * 100)
+    let cumulative = 0
+    for (const version of versions) {
+      cumulative += version.trafficPercent
+      if (bucket < cumulative) {
+        return version
+      }
+    }
+    return versions[versions.length - 1]
+  }
+
+  async render(
+    name: PromptTemplateName,
+    variables: PromptVariables = {},
+    options: { assignmentKey?: string | null } = {}
+  ): Promise<RenderedPrompt> {
+    const version = await this.resolve(name, options)
+    return { name, version: version.version, content: renderPromptTemplate(version.template, variables) }
+  }
+
+  async listVersions(name?: string): Promise<PromptTemplateVersion[]> {
+    await this.initializeSchema()
+    const result = await DatabasePool.query(`
+      SELECT * FROM prompt_templates
+      ${name ? 'WHERE name = $1' : ''}
+      ORDER BY name, version
+    `, name ? [name] : [])
+    return result.rows.map(row => this.mapRowToVersion(row))
+  }
+
+  /**
+   * Store a new, inactive version. Templates may only use the variables the calling
+   * code provides for that prompt.
+   */
+  async createVersion(data: {
+    name: string
+    template: string
+    description?: string | null
+    createdBy?: string | null
+  }): Promise<PromptTemplateVersion> {
+    if (!isPromptTemplateName(data.name)) {
+      throw new PromptTemplateError(`Unknown prompt template: ${data.name}`, 404)
+    }
+    validateTemplate(data.name, data.template || '')
+    await this.initializeSchema()
+
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query('BEGIN')
+      // Without the lock two concurrent creates would both pick MAX(version) + 1
+      await lockTemplate(client, data.name)
+      const result = await client.query(`
+        INSERT INTO prompt_templates (name, version, template, description, created_by)
+        SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4
+        FROM prompt_templates WHERE name = $1
+        RETURNING *
+      `, [data.name, data.template, data.description || null, data.createdBy || null])
+      await client.query('COMMIT')
+      return this.mapRowToVersion(result.rows[0])
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * Replace the traffic split for a template. Percentages must add up to 100;
+   * versions not listed stop receiving traffic.
+   */
+  async activate(name: string, allocations: PromptAllocation[]): Promise<PromptTemplateVersion[]> {
+    if (!isPromptTemplateName(name)) {
+      throw new PromptTemplateError(`Unknown prompt template: ${name}`, 404)
+    }
+    if (!Array.isArray(allocations) || allocations.length === 0) {
+      throw new PromptTemplateError('At least one version must be activated')
+    }
+    const seen = new Set<number>()
+    for (const allocation of allocations) {
+      if (!Number.isInteger(allocation?.version) || !Number.isInteger(allocation?.percent) ||
+          allocation.percent < 1 || allocation.percent > 100) {
+        throw new PromptTemplateError('Each allocation needs an integer version and a percent between 1 and 100')
+      }
+      if (seen.has(allocation.version)) {
+        throw new PromptTemplateError(`Version ${allocation.version} is listed more than once`)
+      }
+      seen.add(allocation.version)
+    }
+    if (allocations.reduce((sum, allocation) => sum + allocation.percent, 0) !== 100) {
+      throw new PromptTemplateError('Traffic percentages must add up to 100')
+    }
+
+    await this.initializeSchema()
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query('BEGIN')
+      await lockTemplate(client, name)
+      const existing = await client.query(
+        'SELECT version FROM prompt_templates WHERE name = $1 AND version = ANY($2) FOR UPDATE',
+        [name, allocations.map(allocation => allocation.version)]
+      )
+      const missing = allocations.filter(allocation => !existing.rows.some(row => row.version === allocation.version))
+      if (missing.length > 0) {
+        throw new PromptTemplateError(`Version ${missing.map(allocation => allocation.version).join(', ')} of ${name} does not exist`, 404)
+      }
+
+      await client.query('UPDATE prompt_templates SET traffic_percent = 0 WHERE name = $1', [name])
+      for (const allocation of allocations) {
+        await client.query(`
+          UPDATE prompt_templates
+          SET traffic_percent = $3, activated_at = CURRENT_TIMESTAMP
+          WHERE name = $1 AND version = $2
+        `, [name, allocation.version, allocation.percent])
+      }
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+
+    this.allocations.delete(name)
+    console.log(`🧪 Prompt ${name} traffic: ${allocations.map(allocation => `v${allocation.version}=${allocation.percent}%`).join(', ')}`)
+    return this.listVersions(name)
+  }
+
+  /**
+   * Record which template version produced a response. Never throws.
+   */
+  async recordUsage(prompt: PromptTemplateRef, record: PromptUsageRecord): Promise<void> {
+    try {
+      await this.initializeSchema()
+      const usage = record.usage || null
+      const estimatedCost = usage
+        ? TokenTracker.getInstance().calculateOpenAICost(usage.total_tokens, record.model || undefined)
+        : null
+      await DatabasePool.query(`
+        INSERT INTO prompt_template_usage (
+          template_name, template_version, user_id, endpoint, model,
+          prompt_tokens, completion_tokens, total_tokens, estimated_cost, latency_ms
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      `, [
+        prompt.name,
+        prompt.version,
+        record.userId || null,
+        record.endpoint,
+        record.model || null,
+        usage?.prompt_tokens ?? null,
+        usage?.completion_tokens ?? null,
+        usage?.total_tokens ?? null,
+        estimatedCost,
+        record.latencyMs ?? null
+      ])
+    } catch (error) {
+      console.error('Failed to record prompt template usage:', error)
+    }
+  }
+
+  async getVersionStats(name: string, days: number = 30): Promise<PromptVersionStats[]> {
+    await this.initializeSchema()
+    const result = await DatabasePool.query(`
+      SELECT
+        template_version,
+        COUNT(*)::int AS responses,
+        COALESCE(AVG(prompt_tokens), 0) AS avg_prompt_tokens,
+        COALESCE(AVG(completion_tokens), 0) AS avg_completion_tokens,
+        AVG(latency_ms) AS avg_latency_ms,
+        COALESCE(SUM(estimated_cost), 0) AS estimated_cost
+      FROM prompt_template_usage
+      WHERE template_name = $1 AND created_at > CURRENT_TIMESTAMP - make_interval(days => $2)
+      GROUP BY template_version
+      ORDER BY template_version
+    `, [name, days])
+
+    return result.rows.map(row => ({
+      version: row.template_version,
+      responses: row.responses,
+      avgPromptTokens: Math.round(parseFloat(row.avg_prompt_tokens)),
+      avgCompletionTokens: Math.round(parseFloat(row.avg_completion_tokens)),
+      avgLatencyMs: row.avg_latency_ms === null ? null : Math.round(parseFloat(row.avg_latency_ms)),
+      estimatedCost: parseFloat(row.estimated_cost)
+    }))
+  }
+
+  private async getActiveVersions(name: PromptTemplateName): Promise<PromptTemplateVersion[]> {
+    const cached = this.allocations.get(name)
+    if (cached && Date.now() - cached.loadedAt < ALLOCATION_CACHE_MS) {
+      return cached.versions
+    }
+
+    await this.initializeSchema()
+    const result = await DatabasePool.query(`
+      SELECT * FROM prompt_templates
+      WHERE name = $1 AND traffic_percent > 0
+      ORDER BY version
+    `, [name])
+    const versions = result.rows.map(row => this.mapRowToVersion(row))
+    this.allocations.set(name, { versions, loadedAt: Date.now() })
+    return versions
+  }
+
+  private mapRowToVersion(row: any): PromptTemplateVersion {
+    return {
+      id: row.id,
+      name: row.name,
+      version: row.version,
+      template: row.template,
+      description: row.description,
+      trafficPercent: row.traffic_percent,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      activatedAt: row.activated_at
+    }
+  }
+}
+
+export const promptRegistry = new PromptRegistry()
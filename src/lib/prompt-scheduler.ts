@@ -2,6 +2,7 @@
 import { getPromptsReadyForExecution, recordPromptExecution } from './scheduled-prompts-database'
 import { ScheduledPromptProcessor } from './scheduled-prompt-processor'
 import { emailService } from './email-service'
+import { getPreferredLanguage } from './language'
 import { DatabasePool } from './database-pool';
 
 class PromptScheduler {
@@ -127,12 +128,20 @@ class PromptScheduler {
         client.release()
       }
 
+      // Each recipient gets the email in their own preferred language; the analysis
+      // itself is already in the owner's language
+      const ownerLanguage = await getPreferredLanguage(prompt.user_id)
+      const dataSources = Object.fromEntries((execution.data_sources_used || []).map((source: string) => [source, true]))
+      const executionTime = new Date(execution.execution_time || Date.now()).toISOString()
+
       // Send to prompt owner
-      const ownerEmailResult = await emailService.sendPasswordResetEmail(
+      const ownerEmailResult = await emailService.sendScheduledPromptResult(
         userEmail,
-        'dummy-token',
-        userEmail.split('@')[0],
-        false
+        prompt.title,
+        execution.ai_response,
+        dataSources,
+        executionTime,
+        ownerLanguage
       )
 
       // Send to shared users with email permissions
@@ -151,12 +160,16 @@ class PromptScheduler {
           if (shareResult.rows.length > 0) {
             const permissions = shareResult.rows[0].permissions
             if (permissions.receive_emails) {
+              const recipient = await shareClient.query('SELECT id FROM users WHERE email = $1', [sharedEmail])
+              const recipientLanguage = await getPreferredLanguage(recipient.rows[0]?.id) || ownerLanguage
               emailPromises.push(
-                emailService.sendPasswordResetEmail(
+                emailService.sendScheduledPromptResult(
                   sharedEmail,
-                  'dummy-token',
-                  sharedEmail.split('@')[0],
-                  false
+                  prompt.title,
+                  execution.ai_response,
+                  dataSources,
+                  executionTime,
+                  recipientLanguage
                 )
               )
             }
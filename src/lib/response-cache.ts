@@ -1,131 +1,571 @@
 /**
- * High-Performance Response Cache for Chat Sessions
- * Dramatically reduces chat response times through intelligent caching
+ * Response Cache for Chat Sessions
+ * Reuses chat answers for repeated questions. Entries are always scoped to one user
+ * (or one anonymous session) and one prompt template version, so an answer built
+ * from someone's health data is never served to anyone else, and a prompt change
+ * never serves answers written for the old prompt.
+ *
+ * Backends are pluggable: RESPONSE_CACHE_BACKEND=memory (default, per process) or
+ * postgres (shared between instances). With RESPONSE_CACHE_SEMANTIC=true a miss on
+ * the exact key falls back to an embedding lookup for near-duplicate wording within
+ * the same scope and context, among entries embedded by the same model. Callers
+ * that change a user's health data, medications or memories call invalidateUser so
+ * stale answers are dropped.
  */
 
 import { createHash } from 'crypto'
+import { DatabasePool } from './database-pool'
+import { getLLMProvider, EmbeddingModelConfig, DEFAULT_EMBEDDING_MODEL } from './llm-provider'
 
-interface CacheEntry {
+export type ResponseCacheBackendName = 'memory' | 'postgres'
+
+export type ResponseCacheInvalidationReason = 'health_data' | 'medications' | 'memories'
+
+export interface ResponseCacheConfig {
+  backend: ResponseCacheBackendName
+  ttlMs: number
+  // Entry limit for the in-memory backend; least recently used entries go first
+  maxEntries: number
+  semantic: boolean
+  // Minimum cosine similarity for a near-duplicate hit
+  semanticThreshold: number
+}
+
+export interface ResponseCacheScope {
+  // User id, or `session:<id>` for anonymous chats
+  owner: string
+  templateVersion: string
+}
+
+export interface ResponseCacheRequest extends ResponseCacheScope {
+  message: string
+  // Everything else the answer depends on: diagnosis, health context, pending question
+  context: string
+}
+
+export interface CachedResponse {
+  key: string
+  owner: string
+  templateVersion: string
+  contextHash: string
+  message: string
   response: string
-  timestamp: number
+  // Details returned with the response on a hit, such as the sources it cites
+  metadata: Record<string, any> | null
+  embedding: number[] | null
+  // Model that produced `embedding`
+  embeddingModel: EmbeddingModelConfig | null
   hitCount: number
+  createdAt: number
+  expiresAt: number
 }
 
-interface OpenAIResponse {
-  content: string
-  usage: {
-    prompt_tokens: number
-    completion_tokens: number
-    total_tokens: number
+export interface ResponseCacheHit {
+  response: string
+  metadata: Record<string, any> | null
+  match: 'exact' | 'semantic'
+  similarity: number
+}
+
+export interface ResponseCacheBackend {
+  readonly name: ResponseCacheBackendName
+  get(key: string): Promise<CachedResponse | null>
+  set(entry: CachedResponse): Promise<void>
+  recordHit(key: string): Promise<void>
+  findSimilar(
+    scope: ResponseCacheScope & { contextHash: string },
+    embedding: number[],
+    model: EmbeddingModelConfig,
+    minSimilarity: number
+  ): Promise<{ entry: CachedResponse; similarity: number } | null>
+  deleteOwner(owner: string): Promise<number>
+  size(): Promise<number>
+  topHits(limit: number): Promise<Array<{ key: string; hits: number }>>
+  clear(): Promise<void>
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '')
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+function resolveDefaultConfig(): ResponseCacheConfig {
+  return {
+    backend: process.env.RESPONSE_CACHE_BACKEND === 'postgres' ? 'postgres' : 'memory',
+    ttlMs: readNumberEnv('RESPONSE_CACHE_TTL_MINUTES', 60) * 60 * 1000,
+    maxEntries: readNumberEnv('RESPONSE_CACHE_MAX_ENTRIES', 1000),
+    semantic: process.env.RESPONSE_CACHE_SEMANTIC === 'true',
+    semanticThreshold: readNumberEnv('RESPONSE_CACHE_SEMANTIC_THRESHOLD', 0.95)
   }
 }
 
-class ResponseCache {
-  private cache = new Map<string, CacheEntry>()
-  private readonly TTL = 60 * 60 * 1000 // 1 hour cache
-  private readonly MAX_ENTRIES = 1000
-  
-  private generateCacheKey(userMessage: string, context: string): string {
-    // Create deterministic cache key from message and context
-    const safeMessage = userMessage || ''
-    const normalizedMessage = safeMessage.toLowerCase().trim()
-    const contextHash = createHash('md5').update(context || '').digest('hex').substring(0, 8)
-    const messageHash = createHash('md5').update(normalizedMessage).digest('hex').substring(0, 8)
-    
-    return `${messageHash}-${contextHash}`
-  }
-  
-  async getCachedResponse(
-    userMessage: string, 
-    diagnosticContext: string,
-    healthContext: string
-  ): Promise<string | null> {
+function normalizeMessage(message: string): string {
+  return (message || '').toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+/**
+ * Per-process cache. Invalidation only reaches the process it runs in, so use the
+ * postgres backend when several instances serve the same users.
+ */
+export class InMemoryResponseCacheBackend implements ResponseCacheBackend {
+  readonly name = 'memory' as const
+  private entries = new Map<string, CachedResponse>()
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string): Promise<CachedResponse | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return null
+    }
+    return { ...entry }
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    this.entries.delete(entry.key)
+    while (this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value
+      if (oldestKey === undefined) break
+      this.entries.delete(oldestKey)
+    }
+    this.entries.set(entry.key, entry)
+  }
+
+  async recordHit(key: string): Promise<void> {
+    const entry = this.entries.get(key)
+    if (!entry) return
+    entry.hitCount++
+    // Re-insert so Map order tracks recency
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+  }
+
+  async findSimilar(
+    scope: ResponseCacheScope & { contextHash: string },
+    embedding: number[],
+    model: EmbeddingModelConfig,
+    minSimilarity: number
+  ): Promise<{ entry: CachedResponse; similarity: number } | null> {
+    const now = Date.now()
+    let best: { entry: CachedResponse; similarity: number } | null = null
+    for (const entry of this.entries.values()) {
+      if (
+        !entry.embedding ||
+        entry.embeddingModel?.model !== model.model ||
+        entry.embeddingModel?.dimensions !== model.dimensions ||
+        entry.expiresAt <= now ||
+        entry.owner !== scope.owner ||
+        entry.templateVersion !== scope.templateVersion ||
+        entry.contextHash !== scope.contextHash
+      ) {
+        continue
+      }
+      const similarity = cosineSimilarity(embedding, entry.embedding)
+      if (similarity >= minSimilarity && (!best || similarity > best.similarity)) {
+        best = { entry, similarity }
+      }
+    }
+    return best
+  }
+
+  async deleteOwner(owner: string): Promise<number> {
+    let removed = 0
+    for (const [key, entry] of this.entries) {
+      if (entry.owner === owner) {
+        this.entries.delete(key)
+        removed++
+      }
+    }
+    return removed
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size
+  }
+
+  async topHits(limit: number): Promise<Array<{ key: string; hits: number }>> {
+    return Array.from(this.entries.values())
+      .sort((a, b) => b.hitCount - a.hitCount)
+      .slice(0, limit)
+      .map(entry => ({ key: entry.key, hits: entry.hitCount }))
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+}
+
+/**
+ * Shared cache in the response_cache table. Embeddings use pgvector so semantic
+ * lookups run in the database. The vector column has no fixed size, so entries from
+ * different embedding models can coexist until they expire.
+ */
+export class PostgresResponseCacheBackend implements ResponseCacheBackend {
+  readonly name = 'postgres' as const
+  private schemaReady: Promise<void> | null = null
+
+  async initializeSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.createSchema().catch(error => {
+        this.schemaReady = null
+        throw error
+      })
+    }
+    return this.schemaReady
+  }
+
+  private async createSchema(): Promise<void> {
+    const client = await DatabasePool.getClient()
     try {
-      const cacheKey = this.generateCacheKey(
-        userMessage, 
-        diagnosticContext + healthContext
+      await client.query('CREATE EXTENSION IF NOT EXISTS vector')
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS response_cache (
+          cache_key VARCHAR(64) PRIMARY KEY,
+          owner VARCHAR(255) NOT NULL,
+          template_version VARCHAR(100) NOT NULL,
+          context_hash VARCHAR(64) NOT NULL,
+          message TEXT NOT NULL,
+          response TEXT NOT NULL,
+          metadata JSONB,
+          embedding vector,
+          embedding_model VARCHAR(100),
+          embedding_dimensions INTEGER,
+          hit_count INTEGER NOT NULL DEFAULT 0,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+        )
+      `)
+
+      await client.query('ALTER TABLE response_cache ADD COLUMN IF NOT EXISTS metadata JSONB')
+
+      // Tables created before the model was recorded have a fixed-size column
+      await client.query(`
+        ALTER TABLE response_cache
+        ALTER COLUMN embedding TYPE vector,
+        ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(100),
+        ADD COLUMN IF NOT EXISTS embedding_dimensions INTEGER
+      `)
+      await client.query(`
+        UPDATE response_cache
+        SET embedding_model = $1, embedding_dimensions = vector_dims(embedding)
+        WHERE embedding IS NOT NULL AND embedding_model IS NULL
+      `, [DEFAULT_EMBEDDING_MODEL.model])
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_response_cache_scope
+        ON response_cache(owner, template_version, context_hash)
+      `)
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_response_cache_expires
+        ON response_cache(expires_at)
+      `)
+    } finally {
+      client.release()
+    }
+  }
+
+  async get(key: string): Promise<CachedResponse | null> {
+    await this.initializeSchema()
+    const result = await DatabasePool.query(`
+      SELECT * FROM response_cache
+      WHERE cache_key = $1 AND expires_at > CURRENT_TIMESTAMP
+    `, [key])
+    return result.rows[0] ? this.mapRowToEntry(result.rows[0]) : null
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    await this.initializeSchema()
+    await DatabasePool.query(`
+      INSERT INTO response_cache (
+        cache_key, owner, template_version, context_hash, message, response, metadata,
+        embedding, embedding_model, embedding_dimensions, expires_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8::vector, $9, $10, $11)
+      ON CONFLICT (cache_key) DO UPDATE SET
+        response = EXCLUDED.response,
+        metadata = EXCLUDED.metadata,
+        embedding = EXCLUDED.embedding,
+        embedding_model = EXCLUDED.embedding_model,
+        embedding_dimensions = EXCLUDED.embedding_dimensions,
+        hit_count = 0,
+        created_at = CURRENT_TIMESTAMP,
+        expires_at = EXCLUDED.expires_at
+    `, [
+      entry.key,
+      entry.owner,
+      entry.templateVersion,
+      entry.contextHash,
+      entry.message,
+      entry.response,
+      entry.metadata ? JSON.stringify(entry.metadata) : null,
+      entry.embedding ? `[${entry.embedding.join(',')}]` : null,
+      entry.embedding ? entry.embeddingModel?.model ?? null : null,
+      entry.embedding ? entry.embeddingModel?.dimensions ?? null : null,
+      new Date(entry.expiresAt)
+    ])
+
+    // Expired rows are never read again; clear them out on writes
+    await DatabasePool.query('DELETE FROM response_cache WHERE expires_at <= CURRENT_TIMESTAMP')
+  }
+
+  async recordHit(key: string): Promise<void> {
+    await this.initializeSchema()
+    await DatabasePool.query('UPDATE response_cache SET hit_count = hit_count + 1 WHERE cache_key = $1', [key])
+  }
+
+  async findSimilar(
+    scope: ResponseCacheScope & { contextHash: string },
+    embedding: number[],
+    model: EmbeddingModelConfig,
+    minSimilarity: number
+  ): Promise<{ entry: CachedResponse; similarity: number } | null> {
+    await this.initializeSchema()
+    // Materialized so the distance is only computed for vectors of the query's size
+    const result = await DatabasePool.query(`
+      WITH candidates AS MATERIALIZED (
+        SELECT * FROM response_cache
+        WHERE owner = $1
+          AND template_version = $2
+          AND context_hash = $3
+          AND embedding IS NOT NULL
+          AND embedding_model = $6
+          AND embedding_dimensions = $7
+          AND expires_at > CURRENT_TIMESTAMP
       )
-      
-      const entry = this.cache.get(cacheKey)
-      
-      if (!entry) {
-        return null
+      SELECT *, 1 - (embedding <=> $4::vector) AS similarity
+      FROM candidates
+      WHERE 1 - (embedding <=> $4::vector) >= $5
+      ORDER BY embedding <=> $4::vector
+      LIMIT 1
+    `, [scope.owner, scope.templateVersion, scope.contextHash, `[${embedding.join(',')}]`, minSimilarity, model.model, model.dimensions])
+
+    const row = result.rows[0]
+    return row ? { entry: this.mapRowToEntry(row), similarity: parseFloat(row.similarity) } : null
+  }
+
+  async deleteOwner(owner: string): Promise<number> {
+    await this.initializeSchema()
+    const result = await DatabasePool.query('DELETE FROM response_cache WHERE owner = $1', [owner])
+    return result.rowCount || 0
+  }
+
+  async size(): Promise<number> {
+    await this.initializeSchema()
+    const result = await DatabasePool.query(
+      'SELECT COUNT(*)::int AS count FROM response_cache WHERE expires_at > CURRENT_TIMESTAMP'
+    )
+    return result.rows[0].count
+  }
+
+  async topHits(limit: number): Promise<Array<{ key: string; hits: number }>> {
+    await this.initializeSchema()
+    const result = await DatabasePool.query(`
+      SELECT cache_key, hit_count FROM response_cache
+      WHERE expires_at > CURRENT_TIMESTAMP
+      ORDER BY hit_count DESC
+      LIMIT $1
+    `, [limit])
+    return result.rows.map(row => ({ key: row.cache_key, hits: row.hit_count }))
+  }
+
+  async clear(): Promise<void> {
+    await this.initializeSchema()
+    await DatabasePool.query('DELETE FROM response_cache')
+  }
+
+  private mapRowToEntry(row: any): CachedResponse {
+    return {
+      key: row.cache_key,
+      owner: row.owner,
+      templateVersion: row.template_version,
+      contextHash: row.context_hash,
+      message: row.message,
+      response: row.response,
+      metadata: row.metadata || null,
+      embedding: typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding || null,
+      embeddingModel: row.embedding_model ? { model: row.embedding_model, dimensions: row.embedding_dimensions } : null,
+      hitCount: row.hit_count,
+      createdAt: new Date(row.created_at).getTime(),
+      expiresAt: new Date(row.expires_at).getTime()
+    }
+  }
+}
+
+export class ResponseCache {
+  private config: ResponseCacheConfig
+  private backend: ResponseCacheBackend
+  private hits = 0
+  private semanticHits = 0
+  private misses = 0
+
+  constructor(config: Partial<ResponseCacheConfig> = {}, backend?: ResponseCacheBackend) {
+    this.config = { ...resolveDefaultConfig(), ...config }
+    this.backend = backend || (this.config.backend === 'postgres'
+      ? new PostgresResponseCacheBackend()
+      : new InMemoryResponseCacheBackend(this.config.maxEntries))
+  }
+
+  getConfig(): Readonly<ResponseCacheConfig> {
+    return this.config
+  }
+
+  /**
+   * Replace the backend, e.g. with an in-memory one in tests. Counters are reset.
+   */
+  setBackend(backend: ResponseCacheBackend): void {
+    this.backend = backend
+    this.hits = 0
+    this.semanticHits = 0
+    this.misses = 0
+  }
+
+  private buildKey(request: ResponseCacheRequest): { key: string; contextHash: string; message: string } {
+    const message = normalizeMessage(request.message)
+    const contextHash = sha256(request.context || '')
+    const key = sha256([request.owner, request.templateVersion, contextHash, message].join('\n'))
+    return { key, contextHash, message }
+  }
+
+  async getCachedResponse(request: ResponseCacheRequest): Promise<ResponseCacheHit | null> {
+    try {
+      const { key, contextHash, message } = this.buildKey(request)
+
+      const entry = await this.backend.get(key)
+      if (entry) {
+        await this.backend.recordHit(key)
+        this.hits++
+        console.log(`💾 Cache HIT for key: ${key.slice(0, 12)} (hits: ${entry.hitCount + 1})`)
+        return { response: entry.response, metadata: entry.metadata, match: 'exact', similarity: 1 }
       }
-      
-      // Check if cache entry is expired
-      if (Date.now() - entry.timestamp > this.TTL) {
-        this.cache.delete(cacheKey)
-        return null
+
+      if (this.config.semantic && message) {
+        const { embedding, model } = await this.embed(message)
+        const similar = await this.backend.findSimilar(
+          { owner: request.owner, templateVersion: request.templateVersion, contextHash },
+          embedding,
+          model,
+          this.config.semanticThreshold
+        )
+        if (similar) {
+          await this.backend.recordHit(similar.entry.key)
+          this.hits++
+          this.semanticHits++
+          console.log(`💾 Cache SEMANTIC HIT for key: ${similar.entry.key.slice(0, 12)} (similarity: ${similar.similarity.toFixed(3)})`)
+          return { response: similar.entry.response, metadata: similar.entry.metadata, match: 'semantic', similarity: similar.similarity }
+        }
       }
-      
-      // Update hit count and return cached response
-      entry.hitCount++
-      console.log(`💾 Cache HIT for key: ${cacheKey} (hits: ${entry.hitCount})`)
-      
-      return entry.response
+
+      this.misses++
+      return null
     } catch (error) {
       console.log('Cache retrieval error:', error)
+      this.misses++
       return null
     }
   }
-  
-  setCachedResponse(
-    userMessage: string,
-    diagnosticContext: string,
-    healthContext: string,
-    response: string
-  ): void {
+
+  async setCachedResponse(request: ResponseCacheRequest, response: string, metadata: Record<string, any> | null = null): Promise<void> {
     try {
-      const cacheKey = this.generateCacheKey(
-        userMessage,
-        diagnosticContext + healthContext
-      )
-      
-      // Implement LRU eviction if cache is full
-      if (this.cache.size >= this.MAX_ENTRIES) {
-        const oldestKey = this.cache.keys().next().value
-        if (oldestKey) {
-          this.cache.delete(oldestKey)
-        }
-      }
-      
-      this.cache.set(cacheKey, {
+      const { key, contextHash, message } = this.buildKey(request)
+      const now = Date.now()
+      const embedded = this.config.semantic && message ? await this.embed(message) : null
+
+      await this.backend.set({
+        key,
+        owner: request.owner,
+        templateVersion: request.templateVersion,
+        contextHash,
+        message,
         response,
-        timestamp: Date.now(),
-        hitCount: 0
+        metadata,
+        embedding: embedded?.embedding ?? null,
+        embeddingModel: embedded?.model ?? null,
+        hitCount: 0,
+        createdAt: now,
+        expiresAt: now + this.config.ttlMs
       })
-      
-      console.log(`💾 Cache SET for key: ${cacheKey}`)
+
+      console.log(`💾 Cache SET for key: ${key.slice(0, 12)}`)
     } catch (error) {
       console.log('Cache storage error:', error)
     }
   }
-  
-  getCacheStats(): {
+
+  /**
+   * Drop every cached answer for a user after their health data, medications or
+   * memories changed. Never throws, so callers can run it after their own write.
+   */
+  async invalidateUser(userId: string, reason: ResponseCacheInvalidationReason): Promise<void> {
+    if (!userId) return
+    try {
+      const removed = await this.backend.deleteOwner(String(userId))
+      if (removed > 0) {
+        console.log(`💾 Cache invalidated ${removed} entries for user ${userId} (${reason} changed)`)
+      }
+    } catch (error) {
+      console.log('Cache invalidation error:', error)
+    }
+  }
+
+  async getCacheStats(): Promise<{
+    backend: ResponseCacheBackendName
     size: number
-    maxSize: number
+    maxSize: number | null
     ttlMinutes: number
+    semantic: boolean
+    hits: number
+    semanticHits: number
+    misses: number
+    hitRate: number
     topHits: Array<{ key: string; hits: number }>
-  } {
-    const entries = Array.from(this.cache.entries())
-    const topHits = entries
-      .sort(([,a], [,b]) => b.hitCount - a.hitCount)
-      .slice(0, 10)
-      .map(([key, entry]) => ({ key, hits: entry.hitCount }))
-    
+  }> {
+    const lookups = this.hits + this.misses
+    const [size, topHits] = await Promise.all([this.backend.size(), this.backend.topHits(10)])
+
     return {
-      size: this.cache.size,
-      maxSize: this.MAX_ENTRIES,
-      ttlMinutes: this.TTL / (60 * 1000),
-      topHits
+      backend: this.backend.name,
+      size,
+      maxSize: this.backend.name === 'memory' ? this.config.maxEntries : null,
+      ttlMinutes: this.config.ttlMs / (60 * 1000),
+      semantic: this.config.semantic,
+      hits: this.hits,
+      semanticHits: this.semanticHits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      // Keys are hashes; a prefix is enough to tell entries apart
+      topHits: topHits.map(entry => ({ key: entry.key.slice(0, 12), hits: entry.hits }))
     }
   }
-  
-  clearCache(): void {
-    this.cache.clear()
+
+  async clearCache(): Promise<void> {
+    await this.backend.clear()
     console.log('💾 Response cache cleared')
   }
+
+  private async embed(message: string): Promise<{ embedding: number[]; model: EmbeddingModelConfig }> {
+    const { embeddings, model, dimensions } = await getLLMProvider().embed({ input: message })
+    return { embedding: embeddings[0], model: { model, dimensions } }
+  }
 }
 
 // Singleton instance for global use
-export const responseCache = new ResponseCache()
\ No newline at end of file
+export const responseCache = new ResponseCache()
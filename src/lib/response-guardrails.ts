@@ -0,0 +1,661 @@
+/**
+ * Response Guardrails
+ * Post-generation safety pass for assistant replies. The system prompts ask the
+ * model not to diagnose or prescribe; this checks that it didn't. English replies
+ * go through rules first, and every reply can be reviewed by an LLM classifier
+ * (any language). Replies that state a diagnosis, give dosing instructions or
+ * advise stopping prescribed medication are rewritten, and blocked when the
+ * rewrite fails or still trips the rules. A missing disclaimer is appended.
+ *
+ * Each intervention is stored in guardrail_interventions with its categories and
+ * both versions of the reply for admin review.
+ *
+ * Streamed replies go out sentence by sentence as each passes the rules, and stop
+ * at the first one that does not. The whole reply is checked when the stream ends;
+ * if that changes it, the caller sends the final text to replace what was streamed.
+ */
+
+import { DatabasePool, isUuid } from './database-pool'
+import { generateStructured, s } from './structured-output'
+import { getLLMProvider } from './llm-provider'
+import { LanguageCode, DEFAULT_LANGUAGE, languageName } from './language'
+
+export const GUARDRAIL_CATEGORIES = ['definitive_diagnosis', 'specific_dosing', 'stop_medication', 'missing_disclaimer'] as const
+
+export type GuardrailCategory = typeof GUARDRAIL_CATEGORIES[number]
+
+// Ordered by severity; an intervention is reported with the strongest action taken
+export type GuardrailAction = 'none' | 'disclaimer_added' | 'rewritten' | 'blocked'
+
+export type GuardrailReviewVerdict = 'confirmed' | 'false_positive'
+
+export interface GuardrailFinding {
+  category: GuardrailCategory
+  // The sentence that triggered the finding, empty for a missing disclaimer
+  excerpt: string
+  explanation: string
+  source: 'rule' | 'llm'
+}
+
+export interface GuardrailContext {
+  endpoint: string
+  userId?: string | null
+  sessionId?: string | null
+  threadId?: string | null
+  userMessage?: string
+  // Language of the reply; rules only run on English
+  language?: LanguageCode
+}
+
+export interface GuardrailResult {
+  content: string
+  action: GuardrailAction
+  categories: GuardrailCategory[]
+  findings: GuardrailFinding[]
+  interventionId: string | null
+}
+
+export interface GuardrailConfig {
+  enabled: boolean
+  llmEnabled: boolean
+  // Shorter replies skip the classifier
+  llmMinLength: number
+  rewriteEnabled: boolean
+  // Categories that are blocked outright instead of rewritten
+  blockCategories: GuardrailCategory[]
+  // Shorter replies (greetings, one-line answers) do not need a disclaimer
+  disclaimerMinLength: number
+}
+
+export interface GuardrailIntervention {
+  id: string
+  endpoint: string
+  userId: string | null
+  sessionId: string | null
+  threadId: string | null
+  language: string | null
+  categories: GuardrailCategory[]
+  action: GuardrailAction
+  findings: GuardrailFinding[]
+  userMessage: string | null
+  originalResponse: string
+  finalResponse: string
+  reviewedAt: Date | null
+  reviewedBy: string | null
+  reviewVerdict: GuardrailReviewVerdict | null
+  reviewNotes: string | null
+  createdAt: Date
+}
+
+export interface GuardrailInterventionFilters {
+  category?: GuardrailCategory
+  action?: GuardrailAction
+  endpoint?: string
+  reviewed?: boolean
+  days?: number
+  limit?: number
+  offset?: number
+}
+
+export interface GuardrailInterventionSummary {
+  category: GuardrailCategory
+  action: GuardrailAction
+  count: number
+}
+
+export class GuardrailError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'GuardrailError'
+    this.status = status
+  }
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '')
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+export function isGuardrailCategory(value: unknown): value is GuardrailCategory {
+  return typeof value === 'string' && (GUARDRAIL_CATEGORIES as readonly string[]).includes(value)
+}
+
+function resolveDefaultConfig(): GuardrailConfig {
+  return {
+    enabled: process.env.GUARDRAILS_ENABLED !== 'false',
+    llmEnabled: process.env.GUARDRAILS_LLM_ENABLED !== 'false',
+    llmMinLength: readNumberEnv('GUARDRAILS_LLM_MIN_LENGTH', 80),
+    rewriteEnabled: process.env.GUARDRAILS_REWRITE_ENABLED !== 'false',
+    blockCategories: (process.env.GUARDRAILS_BLOCK_CATEGORIES || '')
+      .split(',')
+      .map(category => category.trim())
+      .filter(isGuardrailCategory),
+    disclaimerMinLength: readNumberEnv('GUARDRAILS_DISCLAIMER_MIN_LENGTH', 200)
+  }
+}
+
+// Appended when a reply has no disclaimer, and used as the whole reply when one is blocked
+const SAFETY_MESSAGES: Partial<Record<LanguageCode, { disclaimer: string; blocked: string }>> = {
+  en: {
+    disclaimer: 'This information is for education only and is not a substitute for professional medical advice. Please talk to your doctor or another qualified healthcare provider about your situation.',
+    blocked: "I'm not able to give a diagnosis, specific dosing instructions or advice about changing prescribed medication. Your doctor or pharmacist can look at your full situation and guide you safely, so please reach out to them, and seek emergency care if your symptoms are severe or getting worse."
+  },
+  es: {
+    disclaimer: 'Esta información es solo educativa y no sustituye el consejo médico profesional. Consulta tu situación con tu médico u otro profesional sanitario cualificado.',
+    blocked: 'No puedo dar un diagnóstico, instrucciones de dosificación específicas ni consejos sobre cambiar una medicación recetada. Tu médico o farmacéutico puede valorar tu situación completa y orientarte con seguridad; ponte en contacto con ellos y busca atención urgente si tus síntomas son graves o empeoran.'
+  },
+  fr: {
+    disclaimer: 'Ces informations sont uniquement éducatives et ne remplacent pas un avis médical professionnel. Parlez de votre situation à votre médecin ou à un autre professionnel de santé qualifié.',
+    blocked: "Je ne peux pas poser de diagnostic, donner de posologie précise ni conseiller de modifier un traitement prescrit. Votre médecin ou votre pharmacien peut évaluer votre situation dans son ensemble et vous guider en toute sécurité : contactez-les, et consultez en urgence si vos symptômes sont graves ou s'aggravent."
+  },
+  de: {
+    disclaimer: 'Diese Informationen dienen nur der Aufklärung und ersetzen keinen ärztlichen Rat. Bitte besprechen Sie Ihre Situation mit Ihrem Arzt oder einer anderen qualifizierten medizinischen Fachkraft.',
+    blocked: 'Ich kann keine Diagnose stellen, keine konkreten Dosierungsanweisungen geben und nicht dazu raten, verschriebene Medikamente zu ändern. Ihr Arzt oder Apotheker kann Ihre gesamte Situation beurteilen und Sie sicher beraten. Bitte wenden Sie sich an sie und suchen Sie bei schweren oder zunehmenden Beschwerden sofort ärztliche Hilfe.'
+  },
+  pt: {
+    disclaimer: 'Estas informações são apenas educativas e não substituem o aconselhamento médico profissional. Fale sobre a sua situação com o seu médico ou outro profissional de saúde qualificado.',
+    blocked: 'Não posso dar um diagnóstico, instruções de dosagem específicas nem conselhos sobre alterar medicação prescrita. O seu médico ou farmacêutico pode avaliar a sua situação completa e orientá-lo com segurança; contacte-os e procure atendimento urgente se os sintomas forem graves ou estiverem a piorar.'
+  },
+  it: {
+    disclaimer: 'Queste informazioni hanno solo scopo educativo e non sostituiscono il parere medico professionale. Parla della tua situazione con il tuo medico o con un altro professionista sanitario qualificato.',
+    blocked: 'Non posso fornire una diagnosi, indicazioni di dosaggio specifiche o consigli sulla modifica di farmaci prescritti. Il tuo medico o farmacista può valutare la tua situazione complessiva e guidarti in sicurezza: contattali e rivolgiti al pronto soccorso se i sintomi sono gravi o peggiorano.'
+  }
+}
+
+const DIAGNOSIS_PATTERNS: RegExp[] = [
+  /\byou\s+(?:definitely|certainly|clearly|undoubtedly|obviously|almost certainly)\s+(?:have|are suffering from|are dealing with|['’]ve got|got)\b/i,
+  /\b(?:this|that|it|what you have|your symptoms|your condition)\s+(?:is|are)\s+(?:definitely|certainly|clearly|undoubtedly|without (?:a )?doubt)\s+(?!(?:worth|something|important|a good|best|recommended|not|normal|okay|ok|understandable|concerning|a question|a conversation)\b)/i,
+  /\b(?:your|the)\s+diagnosis\s+is\b/i,
+  /\bI\s+(?:can\s+)?(?:confirm|diagnose)\b/i
+]
+
+const DOSE_PATTERN = /\b\d+(?:[.,]\d+)?\s?(?:mg|mcg|µg|micrograms?|milligrams?|g|grams?|ml|milliliters?|units?|iu|tablets?|pills?|capsules?|puffs?|drops?)\b/i
+
+// Imperative ("Take 400 mg...", "- Use 2 puffs") or addressed to the user ("you should take")
+const DOSING_INSTRUCTION_PATTERN = /(?:^[\s*\-•\d.)]*|\byou\s+(?:should|can|could|may|might|need to|want to|ought to|will need to)?\s*|\b(?:just|simply|then)\s+)(?:take|use|give|start|increase|decrease|reduce|double|raise|lower|try)\b/i
+
+const STOP_MEDICATION_PATTERN = /\b(?:stop|stopping|discontinue|discontinuing|quit|quitting|skip|skipping|come off|get off|go off|wean off|cut out)\b(?:\s+\S+){0,4}?\s+(?:medications?|medicines?|meds|prescriptions?|pills|tablets|doses?|insulin|statins?|antidepressants?|blood thinners?|antibiotics?|steroids?|inhalers?)\b/i
+
+// "Don't stop your medication without talking to your doctor" is the advice we want
+const SAFE_STOP_PATTERN = /\b(?:don['’]?t|do not|never|shouldn['’]?t|should not|avoid|without|before|unless|doctor|physician|pharmacist|prescriber|healthcare provider|clinician)\b/i
+
+const DISCLAIMER_PATTERN = /\b(?:doctors?|physicians?|healthcare (?:providers?|professionals?|team)|health care providers?|medical professionals?|clinicians?|pharmacists?|GP|nurses?|specialists?|medical advice|emergency services|911)\b/i
+
+const classifierSchema = s.object({
+  violations: s.array(s.object({
+    category: s.enum(GUARDRAIL_CATEGORIES),
+    excerpt: s.string().default(''),
+    explanation: s.string().default('')
+  }))
+})
+
+const CATEGORY_GUIDANCE: Record<GuardrailCategory, string> = {
+  definitive_diagnosis: 'Replace statements that the user has a specific condition with possibilities they can discuss with a clinician.',
+  specific_dosing: 'Remove specific doses, amounts and schedules; say a doctor or pharmacist can advise on dosing.',
+  stop_medication: 'Remove any advice to stop, skip or change prescribed medication; say not to change medication without talking to the prescriber.',
+  missing_disclaimer: 'End with a short reminder that this is educational information and that the user should consult a healthcare provider.'
+}
+
+const ACTION_RANK: Record<GuardrailAction, number> = { none: 0, disclaimer_added: 1, rewritten: 2, blocked: 3 }
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean)
+}
+
+// End of the first complete sentence in streamed text, 0 when there is none yet
+function sentenceEnd(text: string): number {
+  const match = /[.!?](?=\s)|\n/.exec(text)
+  return match ? match.index + match[0].length : 0
+}
+
+function excerptOf(sentence: string): string {
+  return sentence.length > 200 ? `${sentence.slice(0, 197)}...` : sentence
+}
+
+function safetyMessages(language: LanguageCode | undefined) {
+  return SAFETY_MESSAGES[language || DEFAULT_LANGUAGE] || SAFETY_MESSAGES[DEFAULT_LANGUAGE]!
+}
+
+export class ResponseGuardrails {
+  private config: GuardrailConfig
+  private schemaReady: Promise<void> | null = null
+
+  constructor(config: Partial<GuardrailConfig> = {}) {
+    this.config = { ...resolveDefaultConfig(), ...config }
+  }
+
+  getConfig(): Readonly<GuardrailConfig> {
+    return this.config
+  }
+
+  /**
+   * Check a streamed reply as it arrives; see GuardedStream
+   */
+  guardStream(context: Pick<GuardrailContext, 'language'>, send: (text: string) => void): GuardedStream {
+    return new GuardedStream(text => this.passesStreamCheck(text, context), send)
+  }
+
+  /**
+   * Whether a piece of a streamed reply may be sent before the whole reply is checked.
+   * A missing disclaimer is about the whole reply, so it is left to apply().
+   */
+  private passesStreamCheck(text: string, context: Pick<GuardrailContext, 'language'> = {}): boolean {
+    if (!this.config.enabled) return true
+    return this.checkByRules(text, context).every(finding => finding.category === 'missing_disclaimer')
+  }
+
+  /**
+   * Check a generated reply and return the text to send. Never throws: when the
+   * classifier or rewrite fails, the rules and the block fallback still apply.
+   */
+  async apply(response: string, context: GuardrailContext): Promise<GuardrailResult> {
+    const passed: GuardrailResult = { content: response, action: 'none', categories: [], findings: [], interventionId: null }
+    if (!this.config.enabled || !response.trim()) {
+      return passed
+    }
+
+    const findings = await this.check(response, context)
+    if (findings.length === 0) {
+      return passed
+    }
+
+    const categories = Array.from(new Set(findings.map(finding => finding.category)))
+    const serious = categories.filter(category => category !== 'missing_disclaimer')
+    const messages = safetyMessages(context.language)
+    let content = response
+    let action: GuardrailAction = 'none'
+
+    if (serious.some(category => this.config.blockCategories.includes(category))) {
+      content = messages.blocked
+      action = 'blocked'
+    } else if (serious.length > 0) {
+      const rewritten = this.config.rewriteEnabled ? await this.rewrite(response, findings, context) : null
+      const remaining = rewritten ? this.checkByRules(rewritten, context).filter(finding => finding.category !== 'missing_disclaimer') : []
+      if (!rewritten || remaining.length > 0) {
+        content = messages.blocked
+        action = 'blocked'
+      } else {
+        content = rewritten
+        action = 'rewritten'
+      }
+    }
+
+    // The rewrite is asked to add a disclaimer; the rules make sure it did
+    if (action !== 'blocked' && categories.includes('missing_disclaimer') && !DISCLAIMER_PATTERN.test(content)) {
+      content = `${content.trimEnd()}\n\n*${messages.disclaimer}*`
+      action = ACTION_RANK[action] > ACTION_RANK.disclaimer_added ? action : 'disclaimer_added'
+    }
+
+    console.log(`🛡️ Guardrail ${action} on ${context.endpoint}: ${categories.join(', ')}`)
+    const interventionId = await this.logIntervention({ context, categories, action, findings, originalResponse: response, finalResponse: content })
+
+    return { content, action, categories, findings, interventionId }
+  }
+
+  /**
+   * All findings for a reply: rules for English replies, then the classifier
+   */
+  async check(response: string, context: Pick<GuardrailContext, 'language' | 'userMessage'> = {}): Promise<GuardrailFinding[]> {
+    const findings = this.checkByRules(response, context)
+
+    if (this.config.llmEnabled && response.length >= this.config.llmMinLength) {
+      for (const finding of await this.classify(response, context)) {
+        const duplicate = findings.some(existing => existing.category === finding.category && (!finding.excerpt || existing.excerpt.includes(finding.excerpt)))
+        if (!duplicate) {
+          findings.push(finding)
+        }
+      }
+    }
+
+    return findings
+  }
+
+  /**
+   * Deterministic checks. English only; other languages rely on the classifier.
+   */
+  checkByRules(response: string, context: Pick<GuardrailContext, 'language'> = {}): GuardrailFinding[] {
+    if (context.language && context.language !== DEFAULT_LANGUAGE) {
+      return []
+    }
+
+    const findings: GuardrailFinding[] = []
+    for (const sentence of splitSentences(response)) {
+      if (DIAGNOSIS_PATTERNS.some(pattern => pattern.test(sentence))) {
+        findings.push({ category: 'definitive_diagnosis', excerpt: excerptOf(sentence), explanation: 'States a diagnosis as fact', source: 'rule' })
+      }
+      if (DOSE_PATTERN.test(sentence) && DOSING_INSTRUCTION_PATTERN.test(sentence)) {
+        findings.push({ category: 'specific_dosing', excerpt: excerptOf(sentence), explanation: 'Tells the user to take a specific dose', source: 'rule' })
+      }
+      if (STOP_MEDICATION_PATTERN.test(sentence) && !SAFE_STOP_PATTERN.test(sentence)) {
+        findings.push({ category: 'stop_medication', excerpt: excerptOf(sentence), explanation: 'Advises stopping medication without involving a clinician', source: 'rule' })
+      }
+    }
+
+    if (response.length >= this.config.disclaimerMinLength && !DISCLAIMER_PATTERN.test(response)) {
+      findings.push({ category: 'missing_disclaimer', excerpt: '', explanation: 'No referral to a healthcare professional', source: 'rule' })
+    }
+
+    return findings
+  }
+
+  private async classify(response: string, context: Pick<GuardrailContext, 'language' | 'userMessage'>): Promise<GuardrailFinding[]> {
+    try {
+      const { data } = await generateStructured({
+        name: 'response_guardrail',
+        schema: classifierSchema,
+        task: 'classification',
+        messages: [
+          {
+            role: 'system',
+            content: `You review replies from a medical education assistant before they reach the patient. The assistant must educate, not practise medicine. Report each violation in the reply:
+
+- definitive_diagnosis: tells the user they have a specific condition as a fact, rather than as a possibility to discuss with a clinician
+- specific_dosing: tells the user what dose, amount or schedule of a medication or supplement to take
+- stop_medication: advises stopping, skipping or changing a prescribed medication without involving the prescriber
+- missing_disclaimer: gives health information without any reminder to consult a healthcare professional (not needed for greetings or replies with no health content)
+
+General education ("ibuprofen is a common pain reliever") and advice to see a clinician are not violations. The reply may be in any language.
+
+Respond with JSON: {"violations": [{"category": "specific_dosing", "excerpt": "the offending sentence, quoted from the reply", "explanation": "brief reason"}]}
+Use an empty list when the reply is safe.`
+          },
+          {
+            role: 'user',
+            content: `${context.userMessage ? `USER MESSAGE: "${context.userMessage.slice(0, 1000)}"\n\n` : ''}ASSISTANT REPLY:\n${response}`
+          }
+        ],
+        max_tokens: 400,
+        temperature: 0
+      })
+
+      return data.violations.map(violation => ({
+        category: violation.category,
+        excerpt: violation.category === 'missing_disclaimer' ? '' : excerptOf(violation.excerpt.trim()),
+        explanation: violation.explanation,
+        source: 'llm' as const
+      }))
+    } catch (error) {
+      console.error('Guardrail classification failed, using rules only:', error)
+      return []
+    }
+  }
+
+  /**
+   * Ask the model to fix the findings, or null when that fails
+   */
+  private async rewrite(response: string, findings: GuardrailFinding[], context: GuardrailContext): Promise<string | null> {
+    const categories = Array.from(new Set(findings.map(finding => finding.category)))
+    const excerpts = findings.filter(finding => finding.excerpt).map(finding => `- [${finding.category}] ${finding.excerpt}`)
+
+    try {
+      const completion = await getLLMProvider().chat({
+        task: 'chat',
+        messages: [
+          {
+            role: 'system',
+            content: `You are a safety editor for a medical education assistant. Rewrite the assistant reply so it no longer has the problems listed below. Keep it in ${languageName(context.language || DEFAULT_LANGUAGE)}, keep its tone, formatting and all other helpful content, and do not add new medical claims.
+
+Problems to fix:
+${categories.map(category => `- ${category}: ${CATEGORY_GUIDANCE[category]}`).join('\n')}
+
+Output only the rewritten reply.`
+          },
+          {
+            role: 'user',
+            content: `${excerpts.length > 0 ? `FLAGGED SENTENCES:\n${excerpts.join('\n')}\n\n` : ''}REPLY TO REWRITE:\n${response}`
+          }
+        ],
+        max_tokens: 1500,
+        temperature: 0.2
+      })
+      const rewritten = completion.choices[0]?.message?.content?.trim()
+      return rewritten || null
+    } catch (error) {
+      console.error('Guardrail rewrite failed:', error)
+      return null
+    }
+  }
+
+  async initializeSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.createSchema().catch(error => {
+        this.schemaReady = null
+        throw error
+      })
+    }
+    return this.schemaReady
+  }
+
+  private async createSchema(): Promise<void> {
+    const client = await DatabasePool.getClient()
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS guardrail_interventions (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          endpoint VARCHAR(255) NOT NULL,
+          user_id VARCHAR(255),
+          session_id VARCHAR(255),
+          thread_id VARCHAR(255),
+          language VARCHAR(10),
+          categories TEXT[] NOT NULL,
+          action VARCHAR(20) NOT NULL,
+          findings JSONB NOT NULL DEFAULT '[]',
+          user_message TEXT,
+          original_response TEXT NOT NULL,
+          final_response TEXT NOT NULL,
+          reviewed_at TIMESTAMP WITH TIME ZONE,
+          reviewed_by VARCHAR(255),
+          review_verdict VARCHAR(20),
+          review_notes TEXT,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_guardrail_interventions_created
+        ON guardrail_interventions(created_at DESC)
+      `)
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_guardrail_interventions_categories
+        ON guardrail_interventions USING GIN (categories)
+      `)
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * Store an intervention for review. Never throws; returns null when it could not be stored.
+   */
+  private async logIntervention(data: {
+    context: GuardrailContext
+    categories: GuardrailCategory[]
+    action: GuardrailAction
+    findings: GuardrailFinding[]
+    originalResponse: string
+    finalResponse: string
+  }): Promise<string | null> {
+    try {
+      await this.initializeSchema()
+      const result = await DatabasePool.query(`
+        INSERT INTO guardrail_interventions (
+          endpoint, user_id, session_id, thread_id, language, categories, action,
+          findings, user_message, original_response, final_response
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        RETURNING id
+      `, [
+        data.context.endpoint,
+        data.context.userId ? String(data.context.userId) : null,
+        data.context.sessionId || null,
+        data.context.threadId || null,
+        data.context.language || null,
+        data.categories,
+        data.action,
+        JSON.stringify(data.findings),
+        data.context.userMessage || null,
+        data.originalResponse,
+        data.finalResponse
+      ])
+      return result.rows[0]?.id || null
+    } catch (error) {
+      console.error('Failed to log guardrail intervention:', error)
+      return null
+    }
+  }
+
+  async listInterventions(filters: GuardrailInterventionFilters = {}): Promise<{ interventions: GuardrailIntervention[]; total: number }> {
+    await this.initializeSchema()
+    const conditions: string[] = ['created_at > CURRENT_TIMESTAMP - make_interval(days => $1)']
+    const params: any[] = [filters.days ?? 30]
+
+    if (filters.category) {
+      params.push(filters.category)
+      conditions.push(`$${params.length} = ANY(categories)`)
+    }
+    if (filters.action) {
+      params.push(filters.action)
+      conditions.push(`action = $${params.length}`)
+    }
+    if (filters.endpoint) {
+      params.push(filters.endpoint)
+      conditions.push(`endpoint = $${params.length}`)
+    }
+    if (filters.reviewed !== undefined) {
+      conditions.push(filters.reviewed ? 'reviewed_at IS NOT NULL' : 'reviewed_at IS NULL')
+    }
+
+    const where = conditions.join(' AND ')
+    const countResult = await DatabasePool.query(`SELECT COUNT(*)::int AS total FROM guardrail_interventions WHERE ${where}`, params)
+
+    const result = await DatabasePool.query(`
+      SELECT * FROM guardrail_interventions
+      WHERE ${where}
+      ORDER BY created_at DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+    `, [...params, filters.limit ?? 50, filters.offset ?? 0])
+
+    return {
+      interventions: result.rows.map(row => this.mapRowToIntervention(row)),
+      total: countResult.rows[0]?.total ?? 0
+    }
+  }
+
+  /**
+   * Intervention counts per category and action over the window
+   */
+  async getSummary(days: number = 30): Promise<GuardrailInterventionSummary[]> {
+    await this.initializeSchema()
+    const result = await DatabasePool.query(`
+      SELECT category, action, COUNT(*)::int AS count
+      FROM guardrail_interventions, unnest(categories) AS category
+      WHERE created_at > CURRENT_TIMESTAMP - make_interval(days => $1)
+      GROUP BY category, action
+      ORDER BY category, action
+    `, [days])
+
+    return result.rows.map(row => ({ category: row.category, action: row.action, count: row.count }))
+  }
+
+  async reviewIntervention(id: string, review: { verdict: GuardrailReviewVerdict; notes?: string | null; reviewedBy: string }): Promise<GuardrailIntervention> {
+    await this.initializeSchema()
+    if (!isUuid(id)) {
+      throw new GuardrailError('Intervention not found', 404)
+    }
+    const result = await DatabasePool.query(`
+      UPDATE guardrail_interventions
+      SET reviewed_at = CURRENT_TIMESTAMP, reviewed_by = $2, review_verdict = $3, review_notes = $4
+      WHERE id = $1
+      RETURNING *
+    `, [id, review.reviewedBy, review.verdict, review.notes || null])
+
+    if (result.rows.length === 0) {
+      throw new GuardrailError('Intervention not found', 404)
+    }
+    return this.mapRowToIntervention(result.rows[0])
+  }
+
+  private mapRowToIntervention(row: any): GuardrailIntervention {
+    return {
+      id: row.id,
+      endpoint: row.endpoint,
+      userId: row.user_id,
+      sessionId: row.session_id,
+      threadId: row.thread_id,
+      language: row.language,
+      categories: row.categories || [],
+      action: row.action,
+      findings: row.findings || [],
+      userMessage: row.user_message,
+      originalResponse: row.original_response,
+      finalResponse: row.final_response,
+      reviewedAt: row.reviewed_at,
+      reviewedBy: row.reviewed_by,
+      reviewVerdict: row.review_verdict,
+      reviewNotes: row.review_notes,
+      createdAt: row.created_at
+    }
+  }
+}
+
+/**
+ * Releases streamed text one complete sentence at a time once it passes the rules.
+ * After a sentence fails, nothing more is released. finish() is given the text the
+ * reply ends up as (after apply()) and sends what is still missing when that text
+ * continues what was streamed; otherwise the caller replaces the streamed text.
+ */
+export class GuardedStream {
+  private pending = ''
+  private sent = ''
+  private stopped = false
+
+  constructor(private passes: (text: string) => boolean, private send: (text: string) => void) {}
+
+  push(token: string): void {
+    this.pending += token
+    for (let end = sentenceEnd(this.pending); end > 0 && !this.stopped; end = sentenceEnd(this.pending)) {
+      this.release(this.pending.slice(0, end))
+    }
+  }
+
+  /**
+   * Whether the streamed text still has to be replaced by `final`
+   */
+  finish(final: string): boolean {
+    if (!this.stopped && this.pending && this.passes(this.pending)) {
+      this.release(this.pending)
+    }
+    if (!final.startsWith(this.sent)) {
+      return true
+    }
+    if (final.length > this.sent.length) {
+      this.send(final.slice(this.sent.length))
+      this.sent = final
+    }
+    return false
+  }
+
+  private release(text: string): void {
+    if (!this.passes(text)) {
+      this.stopped = true
+      return
+    }
+    this.pending = this.pending.slice(text.length)
+    this.sent += text
+    this.send(text)
+  }
+}
+
+/**
+ * What the chat endpoints report about a guardrail pass, null when nothing changed
+ */
+export function guardrailSummary(result: GuardrailResult): { action: GuardrailAction; categories: GuardrailCategory[] } | null {
+  return result.action === 'none' ? null : { action: result.action, categories: result.categories }
+}
+
+export const responseGuardrails = new ResponseGuardrails()
@@ -1,11 +1,9 @@
 // Scheduled Prompt Processing with OpenAI and @Mention Integration
-import OpenAI from 'openai'
+import { getLLMProvider } from './llm-provider'
+import { promptRegistry, RenderedPrompt } from './prompt-registry'
+import { resolveConversationLanguage, languageInstruction, ConversationLanguage } from './language'
 import { ScheduledPrompt, PromptExecution, recordPromptExecution } from './scheduled-prompts-database'
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
-
 // @Mention data fetching interfaces
 interface MentionDataFetcher {
   fetchWearableData(userId: string): Promise<any>
@@ -128,10 +126,13 @@ export class ScheduledPromptProcessor {
       const mentionedData = await this.fetchMentionedData(prompt.user_id, prompt.mentioned_data_types)
       
       // Build OpenAI system prompt with @mention context
-      const systemPrompt = this.buildSystemPrompt(prompt, mentionedData)
+      const systemPrompt = await this.buildSystemPrompt(prompt, mentionedData)
       
+      // Answer in the owner's preferred language, or the language the prompt is written in
+      const language = await resolveConversationLanguage({ message: prompt.prompt_text, userId: prompt.user_id })
+
       // Process with OpenAI GPT-4o
-      const openaiResponse = await this.processWithOpenAI(prompt.prompt_text, systemPrompt)
+      const openaiResponse = await this.processWithOpenAI(prompt.prompt_text, systemPrompt, prompt.user_id, language)
       
       // Format the result for email and storage
       const formattedResult = this.formatResultForEmail(openaiResponse, prompt.title, mentionedData)
@@ -229,95 +230,74 @@ export class ScheduledPromptProcessor {
     return data
   }
 
-  private buildSystemPrompt(prompt: ScheduledPrompt, mentionedData: any): string {
-    let systemPrompt = `You are an advanced AI health assistant analyzing a scheduled prompt with access to the user's real health data. 
-
-Current Date: ${new Date().toISOString().split('T')[0]}
-Prompt Title: ${prompt.title}
-Execution Type: Scheduled ${prompt.schedule_type} execution
-
-Available Health Context:`
-
-    // Add wearable data context
+  private async buildSystemPrompt(prompt: ScheduledPrompt, mentionedData: any): Promise<RenderedPrompt> {
+    let wearableData = ''
     if (mentionedData.wearables) {
-      systemPrompt += `
-
-**Wearable Device Data:**`
-      
-      if (mentionedData.wearables.devices && mentionedData.wearables.devices.length > 0) {
-        mentionedData.wearables.devices.forEach((device: any) => {
-          systemPrompt += `
-- ${device.provider_display}: ${device.status}
+      const devices = mentionedData.wearables.devices || []
+      wearableData = devices.length > 0
+        ? devices.map((device: any) => `- ${device.provider_display}: ${device.status}
   Recent Activity: ${device.recent_activity || 'No recent data'}
-  Last Sync: ${device.last_sync || 'Never'}`
-        })
-      } else {
-        systemPrompt += `
-- No wearable devices currently connected`
-      }
+  Last Sync: ${device.last_sync || 'Never'}`).join('\n')
+        : '- No wearable devices currently connected'
     }
 
-    // Add medical data context
+    const medicalLines: string[] = []
     if (mentionedData.medical) {
-      systemPrompt += `
-
-**Medical Information:**`
-      
       if (mentionedData.medical.medications?.medications?.length > 0) {
-        systemPrompt += `
-Current Medications: ${mentionedData.medical.medications.medications.map((med: any) => 
-          `${med.medication_name} (${med.dosage})`).join(', ')}`
+        medicalLines.push(`Current Medications: ${mentionedData.medical.medications.medications.map((med: any) => 
+          `${med.medication_name} (${med.dosage})`).join(', ')}`)
       }
       
       if (mentionedData.medical.lab_results?.labs?.length > 0) {
-        systemPrompt += `
-Recent Lab Results: ${mentionedData.medical.lab_results.labs.slice(0, 3).map((lab: any) => 
-          `${lab.test_name}: ${lab.result} ${lab.unit}`).join(', ')}`
+        medicalLines.push(`Recent Lab Results: ${mentionedData.medical.lab_results.labs.slice(0, 3).map((lab: any) => 
+          `${lab.test_name}: ${lab.result} ${lab.unit}`).join(', ')}`)
       }
       
       if (mentionedData.medical.vitals?.vitals?.length > 0) {
         const recentVitals = mentionedData.medical.vitals.vitals.slice(0, 3)
-        systemPrompt += `
-Recent Vitals: ${recentVitals.map((vital: any) => 
-          `${vital.measurement_type}: ${vital.value} ${vital.unit}`).join(', ')}`
+        medicalLines.push(`Recent Vitals: ${recentVitals.map((vital: any) => 
+          `${vital.measurement_type}: ${vital.value} ${vital.unit}`).join(', ')}`)
       }
     }
 
-    // Add health timeline context
-    if (mentionedData.health) {
-      systemPrompt += `
-
-**Health Timeline:**
-${mentionedData.health.summary || 'No recent health timeline data'}`
-    }
-
-    systemPrompt += `
-
-Instructions:
-1. Analyze the user's prompt in the context of their real health data above
-2. Provide personalized, actionable insights based on their actual health metrics
-3. Reference specific data points when relevant (e.g., "Based on your recent Oura Ring data showing...")
-4. Keep the response comprehensive but well-formatted for email delivery
-5. Use a professional yet warm tone appropriate for health guidance
-6. Always include disclaimers about consulting healthcare professionals for medical decisions
-
-Remember: This is a scheduled automated analysis, so provide complete insights that stand alone.`
-
-    return systemPrompt
+    return promptRegistry.render('scheduled_prompt_system', {
+      currentDate: new Date().toISOString().split('T')[0],
+      promptTitle: prompt.title,
+      scheduleType: prompt.schedule_type,
+      wearableData,
+      medicalData: medicalLines.join('\n'),
+      healthTimeline: mentionedData.health ? (mentionedData.health.summary || 'No recent health timeline data') : ''
+    }, { assignmentKey: prompt.user_id })
   }
 
-  private async processWithOpenAI(promptText: string, systemPrompt: string): Promise<string> {
+  private async processWithOpenAI(
+    promptText: string,
+    systemPrompt: RenderedPrompt,
+    userId: string,
+    language: ConversationLanguage
+  ): Promise<string> {
     try {
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o', // Latest OpenAI model as specified in blueprint
+      const startTime = Date.now()
+      const instruction = languageInstruction(language)
+      const completion = await getLLMProvider().chat({
+        task: 'chat',
         messages: [
-          { role: 'system', content: systemPrompt },
+          { role: 'system', content: systemPrompt.content },
+          ...(instruction ? [{ role: 'system' as const, content: instruction }] : []),
           { role: 'user', content: promptText }
         ],
         max_tokens: 2000,
         temperature: 0.7,
       })
 
+      await promptRegistry.recordUsage(systemPrompt, {
+        userId,
+        endpoint: 'scheduled-prompt',
+        model: completion.model,
+        usage: completion.usage,
+        latencyMs: Date.now() - startTime
+      })
+
       return completion.choices[0]?.message?.content || 'No response generated'
     } catch (error) {
       console.error('❌ OpenAI processing error:', error)
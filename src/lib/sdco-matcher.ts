@@ -0,0 +1,363 @@
+/**
+ * SDCO Matcher
+ * Ranks SDCO candidates for a symptom by combining lexical search over the LLM
+ * synonym expansion, vector similarity from sdco_documents / enhanced_sdco_documents,
+ * and what users previously picked for the same symptom. Flags near-ties so the
+ * caller can ask the user instead of guessing.
+ */
+
+import { embeddingIndex, EmbeddingTarget } from './embedding-index'
+import { generateStructured, s } from './structured-output'
+import { DatabasePool } from './database-pool'
+import { FixedVectorSearchManager } from './fixed-vector-search-manager'
+
+const AMBIGUITY_MARGIN = parseFloat(process.env.SDCO_AMBIGUITY_MARGIN || '0.05')
+const MAX_CLARIFICATION_OPTIONS = 3
+
+// Lexical matches on the user's own words count more than matches on generated synonyms.
+// Lexical scores are ts_rank values, which mostly fall between 0.05 and 0.6, so each is
+// divided by the best one for the symptom: the top full-text hit scores 1 and the rest
+// keep their ratio to it, the 0-1 scale the weights and the ambiguity margin assume.
+const ORIGINAL_TERM_WEIGHT = 1
+const SYNONYM_TERM_WEIGHT = 0.85
+const VECTOR_WEIGHT = 0.6
+const LEXICAL_WEIGHT = 0.4
+const SELECTION_BOOST_PER_PICK = 0.1
+const MAX_SELECTION_BOOST = 0.3
+
+export type SdcoMatchSource = 'lexical' | 'vector' | 'user_selection'
+
+export interface SdcoCandidate {
+  sdcoId: string
+  displayName: string
+  displayNameLayman: string | null
+  score: number
+  // 0-1, relative to the best full-text hit for the symptom
+  lexicalScore: number
+  vectorScore: number
+  selectionBoost: number
+  matchedTerms: string[]
+  sources: SdcoMatchSource[]
+}
+
+export interface SdcoClarification {
+  symptom: string
+  prompt: string
+  options: { sdcoId: string; displayName: string; displayNameLayman: string | null; score: number }[]
+}
+
+export interface SdcoMatchResult {
+  symptom: string
+  searchTerms: string[]
+  candidates: SdcoCandidate[]
+  ambiguous: boolean
+  clarification: SdcoClarification | null
+}
+
+/**
+ * Normalise symptom text so "Chest pain!" and "chest  pain" share selections
+ */
+export function normalizeSymptomKey(symptom: string): string {
+  return symptom.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Ask OpenAI for standardized medical terms and colloquial variants of a symptom
+ */
+export async function generateMedicalSynonyms(symptom: string): Promise<string[]> {
+  console.log('*** GENERATING MEDICAL SYNONYMS FOR:', symptom)
+  try {
+    const { data } = await generateStructured({
+      name: 'medical_synonyms',
+      schema: s.object({
+        synonyms: s.array(s.string())
+      }),
+      task: 'analysis',
+      messages: [
+        {
+          role: "system",
+          content: `Generate medical synonyms and related terms for the given symptom to improve diagnostic matching.
+
+Return a JSON object whose "synonyms" array holds 5-8 related medical terms that could help match this symptom in a medical database:
+- Include the standardized medical term
+- Include common colloquial expressions
+- Include related symptoms that often occur together
+- Include anatomical variations (if applicable)
+- Include both singular and plural forms when relevant
+
+Examples:
+"runny nose" → {"synonyms": ["rhinorrhea", "nasal discharge", "nasal congestion", "runny nose", "stuffy nose", "sinus drainage", "postnasal drip"]}
+"stomach pain" → {"synonyms": ["abdominal pain", "gastric pain", "epigastric pain", "belly pain", "stomach ache", "gastralgia", "dyspepsia"]}
+"diarrhea" → {"synonyms": ["loose stools", "watery stools", "liquid stools", "gastroenteritis", "bowel urgency", "frequent bowel movements", "runny stools"]}
+"chest pain" → {"synonyms": ["thoracic pain", "cardiac pain", "angina", "chest discomfort", "precordial pain", "retrosternal pain", "chest tightness"]}
+
+Return ONLY the JSON object, no additional text.`
+        },
+        {
+          role: "user",
+          content: symptom
+        }
+      ],
+      max_tokens: 200,
+      temperature: 0.3
+    })
+
+    return data.synonyms.filter(term => term.trim().length > 0).slice(0, 8)
+  } catch (error) {
+    console.error('Medical synonym generation failed:', error)
+    return []
+  }
+}
+
+class SdcoMatcher {
+  private schemaReady: Promise<void> | null = null
+  private lexicalSearch = new FixedVectorSearchManager()
+
+  async initializeSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = DatabasePool.query(`
+        CREATE TABLE IF NOT EXISTS sdco_match_selections (
+          id SERIAL PRIMARY KEY,
+          symptom_key TEXT NOT NULL,
+          symptom_text TEXT NOT NULL,
+          sdco_id VARCHAR(255) NOT NULL,
+          user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+          offered_sdco_ids JSONB DEFAULT '[]',
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_sdco_match_selections_key
+        ON sdco_match_selections(symptom_key, sdco_id);
+      `).then(() => undefined).catch(error => {
+        this.schemaReady = null
+        throw error
+      })
+    }
+    return this.schemaReady
+  }
+
+  /**
+   * Rank SDCO candidates for a symptom, best first
+   */
+  async rankCandidates(symptom: string, limit: number = 5): Promise<SdcoMatchResult> {
+    if (!symptom || symptom.trim() === '') {
+      throw new Error('No symptom provided for SDCO matching')
+    }
+
+    const synonyms = await generateMedicalSynonyms(symptom)
+    const searchTerms = [symptom, ...synonyms]
+      .filter((term, index, array) => array.indexOf(term) === index)
+
+    const candidates = new Map<string, SdcoCandidate>()
+    const candidateFor = (sdcoId: string, displayName: string, displayNameLayman: string | null): SdcoCandidate => {
+      let candidate = candidates.get(sdcoId)
+      if (!candidate) {
+        candidate = {
+          sdcoId,
+          displayName,
+          displayNameLayman,
+          score: 0,
+          lexicalScore: 0,
+          vectorScore: 0,
+          selectionBoost: 0,
+          matchedTerms: [],
+          sources: []
+        }
+        candidates.set(sdcoId, candidate)
+      }
+      return candidate
+    }
+    const addSource = (candidate: SdcoCandidate, source: SdcoMatchSource) => {
+      if (!candidate.sources.includes(source)) candidate.sources.push(source)
+    }
+
+    const [lexicalResults, vectorResults, selections] = await Promise.all([
+      Promise.all(searchTerms.map(async (term, index) => ({
+        term,
+        weight: index === 0 ? ORIGINAL_TERM_WEIGHT : SYNONYM_TERM_WEIGHT,
+        // Full text only; the symptom's embedding is searched once, below
+        rows: await this.lexicalSearch.searchSymptoms(term, 3, { lexical: 1, semantic: 0 })
+      }))),
+      this.searchByEmbedding(symptom, limit),
+      this.getSelectionCounts(symptom)
+    ])
+
+    const topLexicalScore = Math.max(0, ...lexicalResults.flatMap(({ rows }) => rows.map(row => row.lexical_score)))
+    for (const { term, weight, rows } of lexicalResults) {
+      for (const row of rows) {
+        const candidate = candidateFor(row.sdco_id, row.display_name, row.display_name_layman)
+        const lexicalScore = topLexicalScore > 0 ? row.lexical_score / topLexicalScore : 0
+        candidate.lexicalScore = Math.max(candidate.lexicalScore, Math.round(lexicalScore * weight * 1000) / 1000)
+        if (!candidate.matchedTerms.includes(term)) candidate.matchedTerms.push(term)
+        addSource(candidate, 'lexical')
+      }
+    }
+
+    for (const row of vectorResults) {
+      const candidate = candidateFor(row.sdcoId, row.displayName, row.displayNameLayman)
+      candidate.vectorScore = Math.max(candidate.vectorScore, row.similarity)
+      addSource(candidate, 'vector')
+    }
+
+    for (const selection of selections) {
+      const candidate = candidateFor(selection.sdcoId, selection.displayName, selection.displayNameLayman)
+      candidate.selectionBoost = Math.min(MAX_SELECTION_BOOST, selection.count * SELECTION_BOOST_PER_PICK)
+      addSource(candidate, 'user_selection')
+    }
+
+    // Without embeddings (e.g. tables not populated yet) rank on lexical matches alone
+    const hasVectorScores = vectorResults.length > 0
+    for (const candidate of candidates.values()) {
+      const base = hasVectorScores
+        ? VECTOR_WEIGHT * candidate.vectorScore + LEXICAL_WEIGHT * candidate.lexicalScore
+        : candidate.lexicalScore
+      candidate.score = Math.round((base + candidate.selectionBoost) * 1000) / 1000
+    }
+
+    const ranked = Array.from(candidates.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+
+    const closeCandidates = ranked.filter(candidate =>
+      candidate.score > 0 && ranked[0].score - candidate.score <= AMBIGUITY_MARGIN
+    )
+    const ambiguous = closeCandidates.length > 1
+
+    console.log(`🎯 SDCO candidates for "${symptom}": ${ranked.map(c => `${c.sdcoId} (${c.score})`).join(', ') || 'none'}${ambiguous ? ' - ambiguous' : ''}`)
+
+    return {
+      symptom,
+      searchTerms,
+      candidates: ranked,
+      ambiguous,
+      clarification: ambiguous ? this.buildClarification(symptom, closeCandidates) : null
+    }
+  }
+
+  /**
+   * Remember which SDCO the user picked for a symptom so it ranks higher next time
+   */
+  async recordSelection(data: {
+    symptom: string
+    sdcoId: string
+    userId?: string | null
+    offeredSdcoIds?: string[]
+  }): Promise<void> {
+    await this.initializeSchema()
+    await DatabasePool.query(`
+      INSERT INTO sdco_match_selections (symptom_key, symptom_text, sdco_id, user_id, offered_sdco_ids)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [
+      normalizeSymptomKey(data.symptom),
+      data.symptom,
+      data.sdcoId,
+      data.userId || null,
+      JSON.stringify(data.offeredSdcoIds || [])
+    ])
+    console.log(`📝 Recorded SDCO selection "${data.symptom}" → ${data.sdcoId}`)
+  }
+
+  /**
+   * Look up an SDCO by id, used to validate a user's clarification choice
+   */
+  async getSdcoReference(sdcoId: string): Promise<{ sdcoId: string; displayName: string; displayNameLayman: string | null } | null> {
+    const result = await DatabasePool.query(`
+      SELECT sdco_id, medical_term, layman_term
+      FROM sdco_documents
+      WHERE sdco_id = $1
+      LIMIT 1
+    `, [sdcoId])
+
+    if (result.rows.length === 0) return null
+    const row = result.rows[0]
+    return { sdcoId: row.sdco_id, displayName: row.medical_term, displayNameLayman: row.layman_term }
+  }
+
+  private buildClarification(symptom: string, candidates: SdcoCandidate[]): SdcoClarification {
+    const options = candidates.slice(0, MAX_CLARIFICATION_OPTIONS)
+    const names = options.map(option => (option.displayNameLayman || option.displayName).toLowerCase())
+    const choices = names.length > 1
+      ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`
+      : names[0]
+
+    return {
+      symptom,
+      prompt: `Did you mean ${choices}?`,
+      options: options.map(option => ({
+        sdcoId: option.sdcoId,
+        displayName: option.displayName,
+        displayNameLayman: option.displayNameLayman,
+        score: option.score
+      }))
+    }
+  }
+
+  private async searchByEmbedding(symptom: string, limit: number): Promise<{
+    sdcoId: string
+    displayName: string
+    displayNameLayman: string | null
+    similarity: number
+  }[]> {
+    const tables: { target: EmbeddingTarget; table: string }[] = [
+      { target: 'sdco_documents', table: 'sdco_documents' },
+      { target: 'enhanced_sdco_documents', table: 'enhanced_sdco_documents' }
+    ]
+
+    // Either table may be missing or unpopulated; use whatever answers
+    const results = await Promise.all(tables.map(async ({ target, table }) => {
+      try {
+        const params: any[] = [limit]
+        const similar = await embeddingIndex.buildQuery(target, symptom, params)
+        const result = await DatabasePool.query(`
+          SELECT sdco_id, medical_term, layman_term, ${similar.similarity} AS similarity
+          FROM ${table}
+          WHERE ${similar.hasEmbedding}
+          ORDER BY ${similar.distance}
+          LIMIT $1
+        `, params)
+        return result.rows
+      } catch (error: any) {
+        console.log('*** SDCO VECTOR SEARCH FAILED:', error.message)
+        return [] as any[]
+      }
+    }))
+
+    return results.flat().map(row => ({
+      sdcoId: row.sdco_id,
+      displayName: row.medical_term,
+      displayNameLayman: row.layman_term,
+      similarity: parseFloat(row.similarity || 0)
+    }))
+  }
+
+  private async getSelectionCounts(symptom: string): Promise<{
+    sdcoId: string
+    displayName: string
+    displayNameLayman: string | null
+    count: number
+  }[]> {
+    try {
+      await this.initializeSchema()
+      const result = await DatabasePool.query(`
+        SELECT s.sdco_id, COUNT(*) AS picks,
+               MAX(d.medical_term) AS medical_term, MAX(d.layman_term) AS layman_term
+        FROM sdco_match_selections s
+        LEFT JOIN sdco_documents d ON d.sdco_id = s.sdco_id
+        WHERE s.symptom_key = $1
+        GROUP BY s.sdco_id
+      `, [normalizeSymptomKey(symptom)])
+
+      return result.rows.map(row => ({
+        sdcoId: row.sdco_id,
+        displayName: row.medical_term || row.sdco_id,
+        displayNameLayman: row.layman_term,
+        count: parseInt(row.picks, 10)
+      }))
+    } catch (error) {
+      console.error('Failed to load SDCO selections:', error)
+      return []
+    }
+  }
+}
+
+export const sdcoMatcher = new SdcoMatcher()
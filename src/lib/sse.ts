@@ -0,0 +1,113 @@
+/**
+ * Server-Sent Events
+ * Streaming mode for the chat endpoints. Clients opt in with `stream: true` in the body
+ * or an `Accept: text/event-stream` header. Text arrives as `token` events and one
+ * `metadata` event closes the stream; failures after the stream opened are sent as an
+ * `error` event because the status code has already gone out. While the safety
+ * guardrails are enabled, text is sent a sentence at a time once it passes their
+ * rules (see GuardedStream). When they change a reply after it was streamed, a
+ * `guardrail` event carries the text that replaces everything streamed so far.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+import type OpenAI from 'openai'
+
+export type ChatStreamEvent = 'token' | 'guardrail' | 'metadata' | 'error'
+
+export interface CompletionStreamResult {
+  content: string
+  usage: OpenAI.CompletionUsage | null
+  // Milliseconds from the request to the first token, null if nothing was generated
+  firstTokenMs: number | null
+}
+
+export function wantsEventStream(req: NextApiRequest): boolean {
+  return req.body?.stream === true || String(req.headers.accept || '').includes('text/event-stream')
+}
+
+export function openEventStream(res: NextApiResponse): void {
+  res.status(200)
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8')
+  res.setHeader('Cache-Control', 'no-cache, no-transform')
+  res.setHeader('Connection', 'keep-alive')
+  // Stop reverse proxies from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no')
+  res.flushHeaders?.()
+}
+
+export function sendEvent(res: NextApiResponse, event: ChatStreamEvent, data: any): void {
+  if (res.writableEnded) return
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+/**
+ * Send the closing metadata event and end the response
+ */
+export function endEventStream(res: NextApiResponse, metadata: Record<string, any>): void {
+  sendEvent(res, 'metadata', metadata)
+  res.end()
+}
+
+/**
+ * Stream an already complete response (cache hit, emergency guidance) as a single token
+ */
+export function streamCompleteResponse(res: NextApiResponse, content: string, metadata: Record<string, any>): void {
+  openEventStream(res)
+  sendEvent(res, 'token', { content })
+  endEventStream(res, metadata)
+}
+
+/**
+ * Report a failure on an open stream, or fall back to JSON if nothing was sent yet
+ */
+export function failEventStream(res: NextApiResponse, status: number, body: Record<string, any>): void {
+  if (!res.headersSent) {
+    res.status(status).json(body)
+    return
+  }
+  sendEvent(res, 'error', body)
+  res.end()
+}
+
+/**
+ * Abort the upstream completion when the client goes away mid-stream
+ */
+export function abortOnDisconnect(res: NextApiResponse): AbortController {
+  const controller = new AbortController()
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort()
+    }
+  })
+  return controller
+}
+
+/**
+ * Forward each content delta to onToken and collect the full text and usage.
+ * Usage is only reported when the request set stream_options.include_usage.
+ */
+export async function consumeCompletionStream(
+  stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>,
+  onToken: (token: string) => void,
+  startedAt: number = Date.now()
+): Promise<CompletionStreamResult> {
+  let content = ''
+  let usage: OpenAI.CompletionUsage | null = null
+  let firstTokenMs: number | null = null
+
+  for await (const chunk of stream) {
+    const token = chunk.choices[0]?.delta?.content
+    if (token) {
+      if (firstTokenMs === null) {
+        firstTokenMs = Date.now() - startedAt
+      }
+      content += token
+      onToken(token)
+    }
+    if (chunk.usage) {
+      usage = chunk.usage
+    }
+  }
+
+  return { content, usage, firstTokenMs }
+}
@@ -0,0 +1,296 @@
+/**
+ * Structured LLM Output
+ * Typed schemas for JSON-producing prompts. The schema is sent to the model as a
+ * JSON schema response format, the reply is validated against it, and a failed
+ * reply gets one repair round trip before a StructuredOutputError is raised.
+ */
+
+import type OpenAI from 'openai'
+import { getLLMProvider, LLMChatRequest, LLMRequestOptions } from './llm-provider'
+
+const DEFAULT_REPAIR_ATTEMPTS = 1
+
+type Validator<T> = (value: unknown, path: string, issues: string[]) => T
+
+export class Schema<T> {
+  constructor(
+    readonly validate: Validator<T>,
+    readonly jsonSchema: Record<string, any>,
+    // Optional and defaulted fields are left out of an object's required list
+    readonly isOptional = false
+  ) {}
+
+  safeParse(value: unknown): { success: true; data: T } | { success: false; issues: string[] } {
+    const issues: string[] = []
+    const data = this.validate(value, '$', issues)
+    return issues.length === 0 ? { success: true, data } : { success: false, issues }
+  }
+
+  /**
+   * Add a check across fields, e.g. "answerIndex is required when answered"
+   */
+  refine(check: (value: T) => boolean, message: string): Schema<T> {
+    return new Schema((value, path, issues) => {
+      const before = issues.length
+      const result = this.validate(value, path, issues)
+      if (issues.length === before && !check(result)) {
+        issues.push(`${path}: ${message}`)
+      }
+      return result
+    }, this.jsonSchema, this.isOptional)
+  }
+
+  optional(): Schema<T | undefined> {
+    return new Schema<T | undefined>(
+      (value, path, issues) => value === undefined || value === null ? undefined : this.validate(value, path, issues),
+      this.jsonSchema,
+      true
+    )
+  }
+
+  nullable(): Schema<T | null> {
+    return new Schema<T | null>(
+      (value, path, issues) => value === undefined || value === null ? null : this.validate(value, path, issues),
+      { anyOf: [this.jsonSchema, { type: 'null' }] },
+      // A missing key reads as null, so it need not be listed as required
+      true
+    )
+  }
+
+  default(fallback: T): Schema<T> {
+    return new Schema<T>(
+      (value, path, issues) => value === undefined || value === null ? fallback : this.validate(value, path, issues),
+      this.jsonSchema,
+      true
+    )
+  }
+
+  describe(description: string): Schema<T> {
+    return new Schema(this.validate, { ...this.jsonSchema, description }, this.isOptional)
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+type Shape = Record<string, Schema<any>>
+
+function typeName(value: unknown): string {
+  return value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value
+}
+
+export const s = {
+  string(options: { minLength?: number } = {}): Schema<string> {
+    return new Schema((value, path, issues) => {
+      if (typeof value !== 'string') {
+        issues.push(`${path}: expected string, got ${typeName(value)}`)
+        return ''
+      }
+      if (options.minLength !== undefined && value.trim().length < options.minLength) {
+        issues.push(`${path}: must be at least ${options.minLength} characters`)
+      }
+      return value
+    }, { type: 'string', ...(options.minLength !== undefined ? { minLength: options.minLength } : {}) })
+  },
+
+  // Numeric strings such as "0.8" are accepted, models produce them often enough
+  number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+    return new Schema((value, path, issues) => {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        issues.push(`${path}: expected number, got ${typeName(value)}`)
+        return 0
+      }
+      if (options.integer && !Number.isInteger(number)) {
+        issues.push(`${path}: expected an integer`)
+      }
+      if (options.min !== undefined && number < options.min) {
+        issues.push(`${path}: must be >= ${options.min}`)
+      }
+      if (options.max !== undefined && number > options.max) {
+        issues.push(`${path}: must be <= ${options.max}`)
+      }
+      return number
+    }, {
+      type: options.integer ? 'integer' : 'number',
+      ...(options.min !== undefined ? { minimum: options.min } : {}),
+      ...(options.max !== undefined ? { maximum: options.max } : {})
+    })
+  },
+
+  boolean(): Schema<boolean> {
+    return new Schema((value, path, issues) => {
+      if (value === 'true' || value === 'false') return value === 'true'
+      if (typeof value !== 'boolean') {
+        issues.push(`${path}: expected boolean, got ${typeName(value)}`)
+        return false
+      }
+      return value
+    }, { type: 'boolean' })
+  },
+
+  enum<const V extends readonly string[]>(values: V): Schema<V[number]> {
+    return new Schema((value, path, issues) => {
+      if (typeof value !== 'string' || !values.includes(value)) {
+        issues.push(`${path}: expected one of ${values.join(', ')}`)
+        return values[0]
+      }
+      return value as V[number]
+    }, { type: 'string', enum: [...values] })
+  },
+
+  array<T>(item: Schema<T>, options: { maxItems?: number } = {}): Schema<T[]> {
+    return new Schema((value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push(`${path}: expected array, got ${typeName(value)}`)
+        return []
+      }
+      if (options.maxItems !== undefined && value.length > options.maxItems) {
+        issues.push(`${path}: at most ${options.maxItems} items allowed`)
+      }
+      return value.map((entry, index) => item.validate(entry, `${path}[${index}]`, issues))
+    }, { type: 'array', items: item.jsonSchema, ...(options.maxItems !== undefined ? { maxItems: options.maxItems } : {}) })
+  },
+
+  // Free-form JSON, for nested details the caller stores as-is
+  any(): Schema<any> {
+    return new Schema(value => value, {})
+  },
+
+  // Unknown keys are dropped from the parsed result
+  object<S extends Shape>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+    return new Schema((value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push(`${path}: expected object, got ${typeName(value)}`)
+        return {} as { [K in keyof S]: Infer<S[K]> }
+      }
+      const result: Record<string, any> = {}
+      for (const [key, field] of Object.entries(shape)) {
+        const fieldValue = (value as Record<string, unknown>)[key]
+        if (fieldValue === undefined && !field.isOptional) {
+          issues.push(`${path}.${key}: is required`)
+          continue
+        }
+        result[key] = field.validate(fieldValue, `${path}.${key}`, issues)
+      }
+      return result as { [K in keyof S]: Infer<S[K]> }
+    }, {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, field.jsonSchema])),
+      required: Object.entries(shape).filter(([, field]) => !field.isOptional).map(([key]) => key)
+    })
+  }
+}
+
+export interface StructuredOutputRequest<T> extends Omit<LLMChatRequest, 'response_format'> {
+  // Identifies the prompt in logs and errors; letters, digits, _ and - only
+  name: string
+  schema: Schema<T>
+  repairAttempts?: number
+}
+
+export interface StructuredOutputResult<T> {
+  data: T
+  attempts: number
+  usage: OpenAI.CompletionUsage | null
+}
+
+export class StructuredOutputError extends Error {
+  status: number
+  outputName: string
+  attempts: number
+  issues: string[]
+  rawOutput: string | null
+
+  constructor(outputName: string, attempts: number, issues: string[], rawOutput: string | null) {
+    super(`${outputName}: model output did not match the schema after ${attempts} attempt(s): ${issues.slice(0, 3).join('; ')}`)
+    this.name = 'StructuredOutputError'
+    this.status = 502
+    this.outputName = outputName
+    this.attempts = attempts
+    this.issues = issues
+    this.rawOutput = rawOutput
+  }
+}
+
+/**
+ * Parse a reply that should be a JSON object, tolerating code fences and
+ * text around the object
+ */
+export function extractJson(text: string): { value?: unknown; error?: string } {
+  const cleaned = text.replace(/```(?:json)?\s*|```/g, '').trim()
+  try {
+    return { value: JSON.parse(cleaned) }
+  } catch {
+    const start = cleaned.search(/[{[]/)
+    const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'))
+    if (start !== -1 && end > start) {
+      try {
+        return { value: JSON.parse(cleaned.slice(start, end + 1)) }
+      } catch {}
+    }
+    return { error: 'reply is not valid JSON' }
+  }
+}
+
+function addUsage(total: OpenAI.CompletionUsage | null, usage: OpenAI.CompletionUsage | undefined): OpenAI.CompletionUsage | null {
+  if (!usage) return total
+  if (!total) return { ...usage }
+  return {
+    prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+    completion_tokens: total.completion_tokens + usage.completion_tokens,
+    total_tokens: total.total_tokens + usage.total_tokens
+  }
+}
+
+/**
+ * Run a JSON-producing prompt and return its validated result. Invalid replies are
+ * sent back to the model with the validation issues; provider errors are not retried.
+ */
+export async function generateStructured<T>(
+  request: StructuredOutputRequest<T>,
+  options: LLMRequestOptions = {}
+): Promise<StructuredOutputResult<T>> {
+  const { name, schema, repairAttempts = DEFAULT_REPAIR_ATTEMPTS, messages, ...params } = request
+  const conversation: OpenAI.Chat.ChatCompletionMessageParam[] = [...messages]
+  let usage: OpenAI.CompletionUsage | null = null
+  let issues: string[] = []
+  let raw: string | null = null
+
+  for (let attempt = 1; attempt <= repairAttempts + 1; attempt++) {
+    const completion = await getLLMProvider().chat({
+      ...params,
+      messages: conversation,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name, schema: schema.jsonSchema, strict: false }
+      }
+    }, options)
+    usage = addUsage(usage, completion.usage)
+    raw = completion.choices[0]?.message?.content?.trim() || null
+
+    const parsed = raw ? extractJson(raw) : { error: 'reply was empty' }
+    if (parsed.error) {
+      issues = [parsed.error]
+    } else {
+      const result = schema.safeParse(parsed.value)
+      if (result.success) {
+        if (attempt > 1) {
+          console.log(`🔧 ${name}: output repaired on attempt ${attempt}`)
+        }
+        return { data: result.data, attempts: attempt, usage }
+      }
+      issues = result.issues
+    }
+
+    console.warn(`⚠️ ${name}: invalid structured output on attempt ${attempt}:`, issues)
+    conversation.push(
+      { role: 'assistant', content: raw || '' },
+      {
+        role: 'user',
+        content: `Your reply could not be used: ${issues.join('; ')}. Reply again with only a JSON object that matches this JSON schema: ${JSON.stringify(schema.jsonSchema)}`
+      }
+    )
+  }
+
+  throw new StructuredOutputError(name, repairAttempts + 1, issues, raw)
+}
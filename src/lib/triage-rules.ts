@@ -0,0 +1,161 @@
+/**
+ * Emergency Triage Rules
+ * Declarative red-flag rule set used by the triage module. A rule matches when every
+ * group in `allOf` has at least one matching pattern and no `noneOf` pattern matches.
+ * Bump TRIAGE_RULESET.version whenever rules change so results stay traceable.
+ */
+
+export type TriageLevel = 'emergency' | 'urgent' | 'routine'
+
+export interface TriageRule {
+  id: string
+  description: string
+  level: Exclude<TriageLevel, 'routine'>
+  recommendedAction: string
+  // Each inner array is an any-of group of case-insensitive regex sources
+  allOf: string[][]
+  noneOf?: string[]
+}
+
+export interface TriageRuleset {
+  version: string
+  rules: TriageRule[]
+}
+
+const CALL_EMERGENCY = 'Call 911 (or your local emergency number) or go to the nearest emergency department now.'
+
+export const TRIAGE_RULESET: TriageRuleset = {
+  version: '2026.10.1',
+  rules: [
+    {
+      id: 'cardiac_chest_pain_dyspnea',
+      description: 'Chest pain with shortness of breath',
+      level: 'emergency',
+      recommendedAction: CALL_EMERGENCY,
+      allOf: [
+        ['chest (pain|pressure|tightness|discomfort)', 'pain in (my|the) chest', 'crushing.*chest'],
+        ['short(ness)? of breath', "can'?t (catch my )?breath", '(trouble|difficulty|hard) breathing', 'breathless', 'gasping']
+      ]
+    },
+    {
+      id: 'cardiac_chest_pain_radiating',
+      description: 'Chest pain spreading to the arm, jaw or back, or with sweating',
+      level: 'emergency',
+      recommendedAction: CALL_EMERGENCY,
+      allOf: [
+        ['chest (pain|pressure|tightness|discomfort)', 'pain in (my|the) chest'],
+        ['\\barms?\\b', '\\bjaw\\b', 'radiat', 'spread', 'sweat', 'clammy']
+      ]
+    },
+    {
+      id: 'stroke_signs',
+      description: 'Possible stroke: face drooping, arm weakness or speech difficulty',
+      level: 'emergency',
+      recommendedAction: `${CALL_EMERGENCY} Note the time the symptoms started.`,
+      allOf: [
+        [
+          'face (is )?(drooping|droops|numb)', 'droop(ing|y)? (face|mouth|smile)',
+          'slurred speech', "(can'?t|cannot|trouble|difficulty) (speak|talk)ing?", 'slurring',
+          'sudden(ly)? (numb|weak)', '(numb|weak)(ness)? (on|in) one side', 'one side of (my|the) (body|face)',
+          'sudden (confusion|vision loss|loss of vision)'
+        ]
+      ]
+    },
+    {
+      id: 'suicidal_ideation',
+      description: 'Thoughts of suicide or self-harm',
+      level: 'emergency',
+      recommendedAction: 'Call or text 988 (Suicide & Crisis Lifeline) now, or call 911 if you are in immediate danger. You do not have to go through this alone.',
+      allOf: [
+        [
+          'suicid', 'kill(ing)? myself', 'end(ing)? (my|it) (life|all)', "don'?t want to (live|be alive)",
+          'better off dead', '(want|going|thinking about|thoughts of) (to )?hurt(ing)? myself', 'self[- ]harm', 'take my (own )?life'
+        ]
+      ]
+    },
+    {
+      id: 'anaphylaxis',
+      description: 'Possible severe allergic reaction affecting breathing or swallowing',
+      level: 'emergency',
+      recommendedAction: `Use an epinephrine auto-injector if you have one. ${CALL_EMERGENCY}`,
+      allOf: [
+        ['throat (is )?(closing|swelling|tight)', 'swollen (tongue|lips|throat)', '(tongue|lips|throat) (is |are )?swell', 'hives', 'allergic reaction', 'anaphyla'],
+        ['(trouble|difficulty|hard) (breathing|swallowing)', "can'?t (breathe|swallow)", 'wheez', 'throat (is )?(closing|tight)', 'anaphyla']
+      ]
+    },
+    {
+      id: 'unresponsive_or_seizure',
+      description: 'Loss of consciousness or seizure',
+      level: 'emergency',
+      recommendedAction: CALL_EMERGENCY,
+      allOf: [
+        ['passed out', 'unconscious', 'unresponsive', "won'?t wake up", 'seizure', 'convuls']
+      ]
+    },
+    {
+      id: 'severe_bleeding',
+      description: 'Heavy bleeding or coughing / vomiting blood',
+      level: 'emergency',
+      recommendedAction: `Apply firm pressure to any wound. ${CALL_EMERGENCY}`,
+      allOf: [
+        ["bleeding (that )?(won'?t|will not|doesn'?t) stop", 'heavy bleeding', '(cough|vomit|throw)(ing)?( up)? blood', 'blood(y)? vomit']
+      ]
+    },
+    {
+      id: 'thunderclap_headache',
+      description: 'Sudden, severe "worst ever" headache',
+      level: 'emergency',
+      recommendedAction: CALL_EMERGENCY,
+      allOf: [
+        ['worst headache', 'thunderclap', 'sudden (severe|explosive) headache', 'headache.*(came on|started) (suddenly|all of a sudden)']
+      ]
+    },
+    {
+      id: 'meningitis_signs',
+      description: 'Fever with stiff neck or a rash that does not fade',
+      level: 'emergency',
+      recommendedAction: CALL_EMERGENCY,
+      allOf: [
+        ['fever', 'high temperature'],
+        ['stiff neck', "(can'?t|cannot) (bend|move) my neck", "rash (that )?(doesn'?t|does not|won'?t) fade"]
+      ]
+    },
+    {
+      id: 'chest_pain_isolated',
+      description: 'Chest pain',
+      level: 'urgent',
+      recommendedAction: 'Get medical care today. If the pain becomes severe, spreads, or you feel short of breath, call 911.',
+      allOf: [
+        ['chest (pain|pressure|tightness|discomfort)', 'pain in (my|the) chest']
+      ]
+    },
+    {
+      id: 'high_fever',
+      description: 'Very high or persistent fever',
+      level: 'urgent',
+      recommendedAction: 'Contact a healthcare provider or urgent care today.',
+      allOf: [
+        ['fever', 'temperature'],
+        ['10[3-5](\\.\\d)? ?(f|°|degrees)?', '(39\\.[5-9]|4[0-1](\\.\\d)?) ?(c|°)', '(for|over|more than) (3|three|4|four|5|five) days']
+      ]
+    },
+    {
+      id: 'blood_in_stool',
+      description: 'Blood in stool or black, tarry stool',
+      level: 'urgent',
+      recommendedAction: 'Contact a healthcare provider today. Go to an emergency department if you feel faint or the bleeding is heavy.',
+      allOf: [
+        ['blood(y)? (in (my )?)?(stool|poop)', 'black,? tarry', 'rectal bleeding', 'bleeding from (my )?(rectum|bottom)']
+      ]
+    },
+    {
+      id: 'severe_abdominal_pain',
+      description: 'Severe or rigid abdominal pain',
+      level: 'urgent',
+      recommendedAction: 'Get medical care today. Go to an emergency department if the pain is unbearable or you cannot keep fluids down.',
+      allOf: [
+        ['(severe|excruciating|unbearable|worst) (abdominal|stomach|belly) pain', '(abdomen|stomach|belly) (is )?(rigid|hard as a board)']
+      ]
+    }
+  ]
+}
@@ -0,0 +1,220 @@
+/**
+ * Triage Translations
+ * Emergency guidance shown by triage.ts, in the languages the assistant answers in.
+ * English comes from the rule set itself; rules or languages missing here fall back
+ * to English. Keep rule ids in step with triage-rules.ts.
+ */
+
+import { DEFAULT_LANGUAGE, LanguageCode } from './language'
+
+export interface EmergencyStrings {
+  heading: string
+  intro: string
+  closing: string
+  // Reason given when the emergency was flagged by the LLM rather than a rule
+  possibleEmergency: string
+  callEmergency: string
+  // Per rule id; rules without their own action use callEmergency
+  rules: Record<string, { description: string; recommendedAction?: string }>
+}
+
+const en: EmergencyStrings = {
+  heading: '⚠️ This may be a medical emergency',
+  intro: 'What you described can be a sign of a serious condition:',
+  closing: "Please don't wait for an online assessment. If you are unsure, it is always safer to seek emergency care.",
+  possibleEmergency: 'Your symptoms may need emergency care',
+  callEmergency: 'Call 911 (or your local emergency number) or go to the nearest emergency department now.',
+  rules: {}
+}
+
+const esCall = 'Llama al 911 (o al número de emergencias local) o acude ahora mismo al servicio de urgencias más cercano.'
+const es: EmergencyStrings = {
+  heading: '⚠️ Esto puede ser una urgencia médica',
+  intro: 'Lo que describes puede ser señal de un problema grave:',
+  closing: 'No esperes a una valoración en línea. Si tienes dudas, siempre es más seguro buscar atención de urgencia.',
+  possibleEmergency: 'Tus síntomas pueden necesitar atención de urgencia',
+  callEmergency: esCall,
+  rules: {
+    cardiac_chest_pain_dyspnea: { description: 'Dolor en el pecho con falta de aire' },
+    cardiac_chest_pain_radiating: { description: 'Dolor en el pecho que se extiende al brazo, la mandíbula o la espalda, o con sudoración' },
+    stroke_signs: {
+      description: 'Posible ictus: cara caída, debilidad en un brazo o dificultad para hablar',
+      recommendedAction: `${esCall} Anota la hora en que empezaron los síntomas.`
+    },
+    suicidal_ideation: {
+      description: 'Pensamientos de suicidio o de hacerte daño',
+      recommendedAction: 'Llama o envía un mensaje al 988 (línea de prevención del suicidio y crisis) ahora, o llama al 911 si estás en peligro inmediato. No tienes por qué afrontarlo sin ayuda.'
+    },
+    anaphylaxis: {
+      description: 'Posible reacción alérgica grave que afecta a la respiración o la deglución',
+      recommendedAction: `Usa un autoinyector de adrenalina si tienes uno. ${esCall}`
+    },
+    unresponsive_or_seizure: { description: 'Pérdida de conocimiento o convulsión' },
+    severe_bleeding: {
+      description: 'Sangrado abundante, o tos o vómitos con sangre',
+      recommendedAction: `Presiona con firmeza sobre cualquier herida. ${esCall}`
+    },
+    thunderclap_headache: { description: 'Dolor de cabeza repentino e intenso, "el peor de tu vida"' },
+    meningitis_signs: { description: 'Fiebre con rigidez de nuca o una erupción que no desaparece al presionarla' },
+    chest_pain_isolated: { description: 'Dolor en el pecho' },
+    high_fever: { description: 'Fiebre muy alta o persistente' },
+    blood_in_stool: { description: 'Sangre en las heces o heces negras y pegajosas' },
+    severe_abdominal_pain: { description: 'Dolor abdominal intenso o abdomen rígido' }
+  }
+}
+
+const frCall = "Appelez le 911 (ou le numéro d'urgence local) ou rendez-vous immédiatement aux urgences les plus proches."
+const fr: EmergencyStrings = {
+  heading: "⚠️ Il peut s'agir d'une urgence médicale",
+  intro: "Ce que vous décrivez peut être le signe d'un problème grave :",
+  closing: "N'attendez pas une évaluation en ligne. En cas de doute, il est toujours plus sûr de consulter en urgence.",
+  possibleEmergency: 'Vos symptômes peuvent nécessiter des soins urgents',
+  callEmergency: frCall,
+  rules: {
+    cardiac_chest_pain_dyspnea: { description: 'Douleur thoracique avec essoufflement' },
+    cardiac_chest_pain_radiating: { description: "Douleur thoracique qui s'étend au bras, à la mâchoire ou au dos, ou accompagnée de sueurs" },
+    stroke_signs: {
+      description: "AVC possible : visage affaissé, faiblesse d'un bras ou difficulté à parler",
+      recommendedAction: `${frCall} Notez l'heure à laquelle les symptômes ont commencé.`
+    },
+    suicidal_ideation: {
+      description: 'Pensées suicidaires ou envie de vous faire du mal',
+      recommendedAction: "Appelez le 988 ou envoyez-lui un SMS (ligne d'écoute suicide et crise) maintenant, ou appelez le 911 si vous êtes en danger immédiat. Vous n'avez pas à affronter cela sans aide."
+    },
+    anaphylaxis: {
+      description: 'Possible réaction allergique grave touchant la respiration ou la déglutition',
+      recommendedAction: `Utilisez un stylo auto-injecteur d'adrénaline si vous en avez un. ${frCall}`
+    },
+    unresponsive_or_seizure: { description: 'Perte de connaissance ou crise convulsive' },
+    severe_bleeding: {
+      description: 'Saignement abondant, ou toux ou vomissements de sang',
+      recommendedAction: `Appuyez fermement sur toute plaie. ${frCall}`
+    },
+    thunderclap_headache: { description: 'Mal de tête soudain et violent, « le pire de votre vie »' },
+    meningitis_signs: { description: "Fièvre avec raideur de la nuque ou éruption qui ne s'efface pas à la pression" },
+    chest_pain_isolated: { description: 'Douleur thoracique' },
+    high_fever: { description: 'Fièvre très élevée ou persistante' },
+    blood_in_stool: { description: 'Sang dans les selles ou selles noires et goudronneuses' },
+    severe_abdominal_pain: { description: 'Douleur abdominale intense ou ventre dur' }
+  }
+}
+
+const deCall = 'Rufen Sie sofort den Notruf 911 (oder Ihre örtliche Notrufnummer) an oder gehen Sie in die nächste Notaufnahme.'
+const de: EmergencyStrings = {
+  heading: '⚠️ Dies könnte ein medizinischer Notfall sein',
+  intro: 'Was Sie beschreiben, kann ein Anzeichen für eine ernste Erkrankung sein:',
+  closing: 'Bitte warten Sie nicht auf eine Online-Einschätzung. Im Zweifel ist es immer sicherer, sich notfallmäßig behandeln zu lassen.',
+  possibleEmergency: 'Ihre Beschwerden könnten eine Notfallbehandlung erfordern',
+  callEmergency: deCall,
+  rules: {
+    cardiac_chest_pain_dyspnea: { description: 'Brustschmerzen mit Atemnot' },
+    cardiac_chest_pain_radiating: { description: 'Brustschmerzen, die in Arm, Kiefer oder Rücken ausstrahlen, oder mit Schweißausbruch' },
+    stroke_signs: {
+      description: 'Möglicher Schlaganfall: hängender Mundwinkel, Armschwäche oder Sprachstörung',
+      recommendedAction: `${deCall} Notieren Sie, wann die Beschwerden begonnen haben.`
+    },
+    suicidal_ideation: {
+      description: 'Gedanken an Suizid oder Selbstverletzung',
+      recommendedAction: 'Rufen Sie jetzt die 988 an oder schreiben Sie eine SMS (Suicide & Crisis Lifeline), oder wählen Sie 911, wenn Sie in unmittelbarer Gefahr sind. Sie müssen das nicht allein durchstehen.'
+    },
+    anaphylaxis: {
+      description: 'Mögliche schwere allergische Reaktion mit Atem- oder Schluckbeschwerden',
+      recommendedAction: `Verwenden Sie einen Adrenalin-Autoinjektor, falls Sie einen haben. ${deCall}`
+    },
+    unresponsive_or_seizure: { description: 'Bewusstlosigkeit oder Krampfanfall' },
+    severe_bleeding: {
+      description: 'Starke Blutung oder Bluthusten bzw. Bluterbrechen',
+      recommendedAction: `Drücken Sie fest auf jede Wunde. ${deCall}`
+    },
+    thunderclap_headache: { description: 'Plötzliche, extrem heftige Kopfschmerzen („die schlimmsten überhaupt")' },
+    meningitis_signs: { description: 'Fieber mit Nackensteifigkeit oder einem Ausschlag, der auf Druck nicht verblasst' },
+    chest_pain_isolated: { description: 'Brustschmerzen' },
+    high_fever: { description: 'Sehr hohes oder anhaltendes Fieber' },
+    blood_in_stool: { description: 'Blut im Stuhl oder schwarzer, teerartiger Stuhl' },
+    severe_abdominal_pain: { description: 'Starke Bauchschmerzen oder bretthart gespannter Bauch' }
+  }
+}
+
+const ptCall = 'Ligue para o 911 (ou para o número de emergência local) ou vá já ao serviço de urgência mais próximo.'
+const pt: EmergencyStrings = {
+  heading: '⚠️ Isto pode ser uma emergência médica',
+  intro: 'O que descreveu pode ser sinal de um problema grave:',
+  closing: 'Não espere por uma avaliação online. Em caso de dúvida, é sempre mais seguro procurar atendimento de urgência.',
+  possibleEmergency: 'Os seus sintomas podem precisar de atendimento urgente',
+  callEmergency: ptCall,
+  rules: {
+    cardiac_chest_pain_dyspnea: { description: 'Dor no peito com falta de ar' },
+    cardiac_chest_pain_radiating: { description: 'Dor no peito que se estende ao braço, maxilar ou costas, ou com suores' },
+    stroke_signs: {
+      description: 'Possível AVC: face descaída, fraqueza num braço ou dificuldade em falar',
+      recommendedAction: `${ptCall} Anote a hora em que os sintomas começaram.`
+    },
+    suicidal_ideation: {
+      description: 'Pensamentos de suicídio ou de autolesão',
+      recommendedAction: 'Ligue ou envie uma mensagem para o 988 (linha de prevenção do suicídio e crise) agora, ou ligue para o 911 se estiver em perigo imediato. Não tem de passar por isto sem ajuda.'
+    },
+    anaphylaxis: {
+      description: 'Possível reação alérgica grave que afeta a respiração ou a deglutição',
+      recommendedAction: `Use um autoinjetor de adrenalina se tiver um. ${ptCall}`
+    },
+    unresponsive_or_seizure: { description: 'Perda de consciência ou convulsão' },
+    severe_bleeding: {
+      description: 'Hemorragia abundante, ou tosse ou vómitos com sangue',
+      recommendedAction: `Faça pressão firme sobre qualquer ferida. ${ptCall}`
+    },
+    thunderclap_headache: { description: 'Dor de cabeça súbita e intensa, "a pior de sempre"' },
+    meningitis_signs: { description: 'Febre com rigidez do pescoço ou manchas na pele que não desaparecem à pressão' },
+    chest_pain_isolated: { description: 'Dor no peito' },
+    high_fever: { description: 'Febre muito alta ou persistente' },
+    blood_in_stool: { description: 'Sangue nas fezes ou fezes negras e pegajosas' },
+    severe_abdominal_pain: { description: 'Dor abdominal intensa ou abdómen rígido' }
+  }
+}
+
+const itCall = 'Chiama subito il 911 (o il numero di emergenza locale) oppure vai al pronto soccorso più vicino.'
+const it: EmergencyStrings = {
+  heading: "⚠️ Potrebbe trattarsi di un'emergenza medica",
+  intro: 'Quello che descrivi può essere il segno di un problema serio:',
+  closing: 'Non aspettare una valutazione online. Nel dubbio, è sempre più sicuro rivolgersi al pronto soccorso.',
+  possibleEmergency: 'I tuoi sintomi potrebbero richiedere cure urgenti',
+  callEmergency: itCall,
+  rules: {
+    cardiac_chest_pain_dyspnea: { description: 'Dolore al petto con mancanza di respiro' },
+    cardiac_chest_pain_radiating: { description: 'Dolore al petto che si irradia al braccio, alla mandibola o alla schiena, o con sudorazione' },
+    stroke_signs: {
+      description: 'Possibile ictus: viso cadente, debolezza a un braccio o difficoltà a parlare',
+      recommendedAction: `${itCall} Annota l'ora in cui sono iniziati i sintomi.`
+    },
+    suicidal_ideation: {
+      description: 'Pensieri di suicidio o di farti del male',
+      recommendedAction: 'Chiama o manda un SMS al 988 (Suicide & Crisis Lifeline) ora, oppure chiama il 911 se sei in pericolo immediato. Non devi affrontare tutto questo senza aiuto.'
+    },
+    anaphylaxis: {
+      description: 'Possibile reazione allergica grave che interessa la respirazione o la deglutizione',
+      recommendedAction: `Usa un autoiniettore di adrenalina se ne hai uno. ${itCall}`
+    },
+    unresponsive_or_seizure: { description: 'Perdita di coscienza o crisi convulsiva' },
+    severe_bleeding: {
+      description: 'Sanguinamento abbondante, o tosse o vomito con sangue',
+      recommendedAction: `Premi con forza su qualsiasi ferita. ${itCall}`
+    },
+    thunderclap_headache: { description: 'Mal di testa improvviso e violentissimo, "il peggiore di sempre"' },
+    meningitis_signs: { description: "Febbre con rigidità del collo o un'eruzione cutanea che non scompare alla pressione" },
+    chest_pain_isolated: { description: 'Dolore al petto' },
+    high_fever: { description: 'Febbre molto alta o persistente' },
+    blood_in_stool: { description: 'Sangue nelle feci o feci nere e catramose' },
+    severe_abdominal_pain: { description: 'Dolore addominale forte o addome rigido' }
+  }
+}
+
+const EMERGENCY_STRINGS: Partial<Record<LanguageCode, EmergencyStrings>> = { en, es, fr, de, pt, it }
+
+/**
+ * Emergency strings for a language, and whether they are a translation (false means English)
+ */
+export function getEmergencyStrings(language: LanguageCode = DEFAULT_LANGUAGE): { strings: EmergencyStrings; translated: boolean } {
+  const strings = EMERGENCY_STRINGS[language]
+  return strings && language !== DEFAULT_LANGUAGE
+    ? { strings, translated: true }
+    : { strings: en, translated: false }
+}
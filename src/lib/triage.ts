@@ -0,0 +1,172 @@
+/**
+ * Emergency Triage
+ * Classifies an incoming symptom message into emergency / urgent / routine using the
+ * declarative red-flag rules, with an LLM second opinion that can escalate but never
+ * downgrade a rule match. Emergency results are meant to short-circuit the normal flow.
+ */
+
+import { generateStructured, s } from './structured-output'
+import { TRIAGE_RULESET, TriageLevel, TriageRule } from './triage-rules'
+import { getEmergencyStrings } from './triage-translations'
+import { LanguageCode, DEFAULT_LANGUAGE } from './language'
+
+export type { TriageLevel } from './triage-rules'
+
+const LLM_TRIAGE_ENABLED = process.env.TRIAGE_LLM_ENABLED !== 'false'
+const LLM_TRIAGE_TIMEOUT_MS = parseInt(process.env.TRIAGE_LLM_TIMEOUT_MS || '4000', 10)
+
+const LEVEL_RANK: Record<TriageLevel, number> = { routine: 0, urgent: 1, emergency: 2 }
+
+const DEFAULT_ACTIONS: Record<TriageLevel, string> = {
+  emergency: 'Call 911 (or your local emergency number) or go to the nearest emergency department now.',
+  urgent: 'Contact a healthcare provider or urgent care today.',
+  routine: 'Continue with the assessment. Contact a healthcare provider if symptoms worsen.'
+}
+
+export interface TriageMatchedRule {
+  id: string
+  description: string
+  level: TriageLevel
+}
+
+export interface TriageLLMOpinion {
+  level: TriageLevel
+  reasoning: string
+}
+
+export interface TriageResult {
+  level: TriageLevel
+  rulesetVersion: string
+  matchedRules: TriageMatchedRule[]
+  recommendedAction: string
+  llmOpinion: TriageLLMOpinion | null
+  escalatedByLLM: boolean
+}
+
+function ruleMatches(rule: TriageRule, text: string): boolean {
+  const test = (pattern: string) => new RegExp(pattern, 'i').test(text)
+  if (rule.noneOf?.some(test)) return false
+  return rule.allOf.every(group => group.some(test))
+}
+
+/**
+ * Evaluate the red-flag rules only, most severe matches first
+ */
+export function evaluateTriageRules(message: string): TriageRule[] {
+  const text = message.toLowerCase()
+  return TRIAGE_RULESET.rules
+    .filter(rule => ruleMatches(rule, text))
+    .sort((a, b) => LEVEL_RANK[b.level] - LEVEL_RANK[a.level])
+}
+
+async function getLLMOpinion(message: string): Promise<TriageLLMOpinion | null> {
+  try {
+    const completion = generateStructured({
+      name: 'triage_opinion',
+      schema: s.object({
+        level: s.enum(['routine', 'urgent', 'emergency'] as const),
+        reasoning: s.string().default('')
+      }),
+      task: 'classification',
+      messages: [
+        {
+          role: 'system',
+          content: `You are an emergency triage nurse. Classify the urgency of the patient's message.
+
+LEVELS:
+- emergency: possible life-threatening condition needing emergency services now (e.g. heart attack, stroke, anaphylaxis, suicidal intent, severe bleeding, loss of consciousness)
+- urgent: needs medical attention within 24 hours
+- routine: can continue with a normal symptom assessment
+
+Only use emergency when the message itself describes red-flag features. Do not escalate on vague or historical mentions.
+
+Respond with JSON only:
+{
+  "level": "emergency" | "urgent" | "routine",
+  "reasoning": "brief explanation"
+}`
+        },
+        { role: 'user', content: message }
+      ],
+      max_tokens: 120,
+      temperature: 0
+    })
+
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<null>(resolve => {
+      timer = setTimeout(() => resolve(null), LLM_TRIAGE_TIMEOUT_MS)
+    })
+    const response = await Promise.race([completion, timeout]).finally(() => clearTimeout(timer))
+    if (!response) {
+      console.log('⏱️ LLM triage timed out - using rules only')
+      return null
+    }
+
+    return response.data
+  } catch (error) {
+    console.error('LLM triage error:', error)
+    return null
+  }
+}
+
+/**
+ * Triage a symptom message. Rules are authoritative; the LLM can only raise the level.
+ * The rules are written in English, so for messages in other languages pass the English
+ * translation as well; the rules then run on both texts.
+ */
+export async function triageMessage(message: string, options: { useLLM?: boolean; englishMessage?: string } = {}): Promise<TriageResult> {
+  const ruleText = options.englishMessage && options.englishMessage !== message
+    ? `${message || ''}\n${options.englishMessage}`
+    : message || ''
+  const matched = evaluateTriageRules(ruleText)
+  const useLLM = (options.useLLM ?? LLM_TRIAGE_ENABLED) && !!message?.trim()
+
+  // An emergency rule match is already conclusive, no need to wait on the LLM
+  const needsOpinion = useLLM && matched[0]?.level !== 'emergency'
+  const llmOpinion = needsOpinion ? await getLLMOpinion(message) : null
+
+  const ruleLevel: TriageLevel = matched[0]?.level || 'routine'
+  const escalatedByLLM = !!llmOpinion && LEVEL_RANK[llmOpinion.level] > LEVEL_RANK[ruleLevel]
+  const level = escalatedByLLM ? llmOpinion!.level : ruleLevel
+
+  const result: TriageResult = {
+    level,
+    rulesetVersion: TRIAGE_RULESET.version,
+    matchedRules: matched.map(rule => ({ id: rule.id, description: rule.description, level: rule.level })),
+    recommendedAction: escalatedByLLM || matched.length === 0
+      ? DEFAULT_ACTIONS[level]
+      : matched[0].recommendedAction,
+    llmOpinion,
+    escalatedByLLM
+  }
+
+  if (level !== 'routine') {
+    console.log(`🚨 TRIAGE ${level.toUpperCase()}: rules=[${result.matchedRules.map(rule => rule.id).join(', ')}] llm=${llmOpinion?.level || 'n/a'}`)
+  }
+
+  return result
+}
+
+export function isEmergency(result: TriageResult): boolean {
+  return result.level === 'emergency'
+}
+
+/**
+ * User-facing message shown instead of the normal flow for emergency-level results,
+ * in the user's language where a translation exists (English otherwise)
+ */
+export function buildEmergencyMessage(result: TriageResult, language: LanguageCode = DEFAULT_LANGUAGE): string {
+  const { strings, translated } = getEmergencyStrings(language)
+
+  const ruleAction = !result.escalatedByLLM && result.matchedRules.length > 0
+  const recommendedAction = !translated
+    ? result.recommendedAction
+    : (ruleAction && strings.rules[result.matchedRules[0].id]?.recommendedAction) || strings.callEmergency
+
+  // The LLM's reasoning is in English, so translated messages give a generic reason instead
+  const reasons = result.matchedRules.length > 0
+    ? result.matchedRules.map(rule => `- ${(translated && strings.rules[rule.id]?.description) || rule.description}`).join('\n')
+    : `- ${(!translated && result.llmOpinion?.reasoning) || strings.possibleEmergency}`
+
+  return `## ${strings.heading}\n\n**${recommendedAction}**\n\n${strings.intro}\n\n${reasons}\n\n${strings.closing}`
+}
@@ -1,4 +1,5 @@
 import { DatabasePool } from './database-pool';
+import { memoryStore, Memory } from './memory-store';
 
 export interface UserGoal {
   id: string
@@ -22,7 +23,7 @@ export interface UserAgentPersonality {
   communication_style: 'professional' | 'friendly' | 'motivational' | 'direct' | 'empathetic'
   medical_expertise_level: 'basic' | 'intermediate' | 'advanced'
   focus_areas: string[] // ['nutrition', 'fitness', 'mental_health', 'chronic_conditions']
-  preferred_language: string
+  preferred_language: string // ISO-639-1 code, or 'auto' to follow the user's language
   reminder_frequency: 'daily' | 'weekly' | 'monthly' | 'as_needed'
   proactive_suggestions: boolean
   privacy_level: 'open' | 'moderate' | 'private'
@@ -30,17 +31,6 @@ export interface UserAgentPersonality {
   updated_at: Date
 }
 
-export interface UserAgentMemory {
-  id: string
-  user_id: string
-  memory_type: 'preference' | 'concern' | 'success' | 'challenge' | 'milestone'
-  content: string
-  importance_score: number // 1-10
-  context_tags: string[]
-  created_at: Date
-  last_referenced: Date
-}
-
 export class UserAgentProfileManager {
   private static instance: UserAgentProfileManager
   private dbPool: DatabasePool
@@ -87,7 +77,7 @@ export class UserAgentProfileManager {
           communication_style VARCHAR(50) DEFAULT 'friendly',
           medical_expertise_level VARCHAR(20) DEFAULT 'basic',
           focus_areas JSONB DEFAULT '[]',
-          preferred_language VARCHAR(10) DEFAULT 'en',
+          preferred_language VARCHAR(10) DEFAULT 'auto',
           reminder_frequency VARCHAR(20) DEFAULT 'weekly',
           proactive_suggestions BOOLEAN DEFAULT true,
           privacy_level VARCHAR(20) DEFAULT 'moderate',
@@ -96,32 +86,24 @@ export class UserAgentProfileManager {
         )
       `)
 
-      // User Agent Memory table
+      // Tables created before language support defaulted to 'en'
       await client.query(`
-        CREATE TABLE IF NOT EXISTS user_agent_memory (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          user_id VARCHAR(255) NOT NULL,
-          memory_type VARCHAR(50) NOT NULL,
-          content TEXT NOT NULL,
-          importance_score INTEGER DEFAULT 5,
-          context_tags JSONB DEFAULT '[]',
-          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-          last_referenced TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-        )
+        ALTER TABLE user_agent_personality ALTER COLUMN preferred_language SET DEFAULT 'auto'
       `)
 
       // Create indexes for performance
       await client.query(`
         CREATE INDEX IF NOT EXISTS idx_user_goals_user_id ON user_goals(user_id);
         CREATE INDEX IF NOT EXISTS idx_user_goals_active ON user_goals(user_id, is_active);
-        CREATE INDEX IF NOT EXISTS idx_agent_memory_user_id ON user_agent_memory(user_id);
-        CREATE INDEX IF NOT EXISTS idx_agent_memory_importance ON user_agent_memory(user_id, importance_score DESC);
       `)
 
       console.log('✅ User Agent Profile schema initialized')
     } finally {
       client.release()
     }
+
+    // Agent memories live in the shared memory store
+    await memoryStore.initializeSchema()
   }
 
   // Goal Management
@@ -203,75 +185,22 @@ export class UserAgentProfileManager {
     }
   }
 
-  // Memory Management
-  async addMemory(userId: string, memory: Omit<UserAgentMemory, 'id' | 'user_id' | 'created_at' | 'last_referenced'>): Promise<UserAgentMemory> {
-    const client = await DatabasePool.getClient()
-    
-    try {
-      const result = await client.query(`
-        INSERT INTO user_agent_memory (user_id, memory_type, content, importance_score, context_tags)
-        VALUES ($1, $2, $3, $4, $5)
-        RETURNING *
-      `, [userId, memory.memory_type, memory.content, memory.importance_score, JSON.stringify(memory.context_tags)])
-
-      return result.rows[0]
-    } finally {
-      client.release()
-    }
-  }
-
-  async getRelevantMemories(userId: string, contextTags: string[] = [], limit: number = 10): Promise<UserAgentMemory[]> {
-    const client = await DatabasePool.getClient()
-    
-    try {
-      let query = `
-        SELECT * FROM user_agent_memory 
-        WHERE user_id = $1
-      `
-      const params: any[] = [userId]
-
-      if (contextTags.length > 0) {
-        query += ` AND context_tags ?| $2`
-        params.push(contextTags)
-      }
-
-      query += ` ORDER BY importance_score DESC, last_referenced DESC LIMIT $${params.length + 1}`
-      params.push(limit)
-
-      const result = await client.query(query, params)
-      
-      // Update last_referenced for retrieved memories
-      if (result.rows.length > 0) {
-        const memoryIds = result.rows.map(row => row.id)
-        await client.query(`
-          UPDATE user_agent_memory 
-          SET last_referenced = CURRENT_TIMESTAMP 
-          WHERE id = ANY($1)
-        `, [memoryIds])
-      }
-
-      return result.rows
-    } finally {
-      client.release()
-    }
-  }
-
   // Comprehensive Agent Profile
   async getComprehensiveAgentProfile(userId: string): Promise<{
     personality: UserAgentPersonality | null
     goals: UserGoal[]
-    recentMemories: UserAgentMemory[]
+    recentMemories: Memory[]
   }> {
     const [personality, goals, memories] = await Promise.all([
       this.getAgentPersonality(userId),
       this.getUserGoals(userId),
-      this.getRelevantMemories(userId, [], 20)
+      memoryStore.search(userId, { limit: 20 })
     ])
 
     return {
       personality,
       goals,
-      recentMemories: memories
+      recentMemories: memories.map(result => result.memory)
     }
   }
 }
@@ -2,6 +2,9 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { setupServices } from './service';
+import { memoryConsolidation } from './lib/memory-consolidation';
+import { embeddingIndex } from './lib/embedding-index';
+import { memoryStore } from './lib/memory-store';
 
 dotenv.config();
 
@@ -19,4 +22,7 @@ setupServices(app, BASE_URL);
 
 app.listen(PORT, () => {
   console.log(`Server is running at ${BASE_URL}`);
+  memoryStore.startLegacyMigration();
+  memoryConsolidation.start();
+  embeddingIndex.start();
 });
\ No newline at end of file
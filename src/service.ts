@@ -17,10 +17,21 @@ import validate from './api/address/validate';
 
 import dashboard from './api/admin/dashboard';
 import databaseStatus from './api/admin/database-status';
+import embeddingMigration from './api/admin/embedding-migration';
+import embeddingMigrations from './api/admin/embedding-migrations';
 import generateSdcoEmbeddings from './api/admin/generate-sdco-embeddings';
+import guardrailInterventionReview from './api/admin/guardrail-intervention-review';
+import guardrailInterventions from './api/admin/guardrail-interventions';
+import memoryConsolidationReports from './api/admin/memory-consolidation-reports';
+import memoryConsolidationRun from './api/admin/memory-consolidation-run';
+import memoryConsolidationRuns from './api/admin/memory-consolidation-runs';
+import memoryMigration from './api/admin/memory-migration';
 import metrics from './api/admin/metrics';
 import performanceMetrics from './api/admin/performance-metrics';
 import performanceStats from './api/admin/performance-stats';
+import promptTemplateActivate from './api/admin/prompt-template-activate';
+import promptTemplates from './api/admin/prompt-templates';
+import searchIndex from './api/admin/search-index';
 import sessions from './api/admin/sessions';
 import stats from './api/admin/stats';
 import tokenUsage from './api/admin/token-usage';
@@ -38,6 +49,40 @@ import chat from './api/agent/chat';
 import goals from './api/agent/goals';
 import profile from './api/agent/profile';
 
+import conversationThread from './api/conversations/thread';
+import conversationThreads from './api/conversations/threads';
+
+import fallbackSession from './api/diagnostic/fallback-session';
+import migrateFallbackSession from './api/diagnostic/migrate-fallback-session';
+import getNextQuestion from './api/diagnostic/get-next-question';
+import getNextUnansweredQuestion from './api/diagnostic/get-next-unanswered-question';
+import submitAnswer from './api/diagnostic/submit-answer';
+
+import userAllergies from './api/medications/user-allergies';
+
+import deleteMemory from './api/memory/delete';
+import deleteSessionMemories from './api/memory/delete-session';
+import forgetMemories from './api/memory/forget';
+import listMemories from './api/memory/list';
+import updateMemory from './api/memory/update';
+
+import allergiesMention from './api/mention/allergies';
+
+import sdcoLookup from './api/sdco/lookup';
+
+import amendSessionAnswer from './api/session/amend-answer';
+import createSession from './api/session/create';
+import differentialHistory from './api/session/differential-history';
+import sessionHistory from './api/session/history';
+import refreshDiagnosis from './api/session/refresh-diagnosis';
+import sessionState from './api/session/state';
+
+import symptomsQueue from './api/symptoms/queue';
+
+import { isMerlinStubEnabled, MERLIN_STUB_PATH } from './lib/merlin-client';
+import { createMerlinStubRouter } from './lib/merlin-stub';
+import { startDiagnosticSessionSweeper } from './lib/diagnostic-session-database';
+
 
 
 
@@ -58,10 +103,27 @@ export function setupServices(app: Express, baseUrl: string) {
 
   app.get('/api/admin/dashboard', dashboard);
   app.get('/api/admin/database-status', databaseStatus);
+  app.get('/api/admin/embedding-migrations', embeddingMigrations);
+  app.post('/api/admin/embedding-migrations', embeddingMigrations);
+  app.get('/api/admin/embedding-migrations/:id', embeddingMigration);
+  app.post('/api/admin/embedding-migrations/:id', embeddingMigration);
   //app.post('/api/admin/generate-sdco-embeddings', generateSdcoEmbeddings);
+  app.get('/api/admin/guardrail-interventions', guardrailInterventions);
+  app.post('/api/admin/guardrail-interventions/:id/review', guardrailInterventionReview);
+  app.get('/api/admin/memory-consolidation/reports', memoryConsolidationReports);
+  app.get('/api/admin/memory-consolidation/runs', memoryConsolidationRuns);
+  app.post('/api/admin/memory-consolidation/runs', memoryConsolidationRuns);
+  app.get('/api/admin/memory-consolidation/runs/:id', memoryConsolidationRun);
+  app.get('/api/admin/memory-migration', memoryMigration);
+  app.post('/api/admin/memory-migration', memoryMigration);
   app.get('/api/admin/metrics', metrics);
   app.get('/api/admin/performance-metrics', performanceMetrics);
   app.get('/api/admin/performance-stats', performanceStats);
+  app.get('/api/admin/prompt-templates', promptTemplates);
+  app.post('/api/admin/prompt-templates', promptTemplates);
+  app.post('/api/admin/prompt-templates/:name/activate', promptTemplateActivate);
+  app.get('/api/admin/search-index', searchIndex);
+  app.post('/api/admin/search-index', searchIndex);
   app.get('/api/admin/sessions', sessions);
   app.get('/api/admin/stats', stats);
   app.get('/api/admin/token-usage', tokenUsage);
@@ -80,6 +142,51 @@ export function setupServices(app: Express, baseUrl: string) {
   // app.post('/api/chat/generate', generate);
   // app.post('/api/chat/get-context', getContext);
 
+  app.get('/api/conversations', conversationThreads);
+  app.post('/api/conversations', conversationThreads);
+  app.get('/api/conversations/:id', conversationThread);
+  app.patch('/api/conversations/:id', conversationThread);
+  app.delete('/api/conversations/:id', conversationThread);
+
+  app.post('/api/diagnostic/fallback-session', fallbackSession);
+  app.post('/api/diagnostic/migrate-fallback-session', migrateFallbackSession);
+  app.put('/api/diagnostic/get-next-question', getNextQuestion);
+  app.post('/api/diagnostic/get-next-unanswered-question', getNextUnansweredQuestion);
+  app.post('/api/diagnostic/submit-answer', submitAnswer);
+
+  app.get('/api/medications/user-allergies', userAllergies);
+  app.post('/api/medications/user-allergies', userAllergies);
+  app.put('/api/medications/user-allergies', userAllergies);
+  app.delete('/api/medications/user-allergies', userAllergies);
+
+  app.delete('/api/memory/delete', deleteMemory);
+  app.post('/api/memory/forget', forgetMemories);
+  app.get('/api/memory/list', listMemories);
+  app.delete('/api/memory/session/:sessionId', deleteSessionMemories);
+  app.patch('/api/memory/:id', updateMemory);
+
+  app.get('/api/mention/allergies', allergiesMention);
+
+  app.get('/api/sdco/lookup', sdcoLookup);
+  app.put('/api/sdco/lookup', sdcoLookup);
+
+  app.post('/api/session/create', createSession);
+  app.post('/api/session/refresh-diagnosis', refreshDiagnosis);
+  app.get('/api/session/:id', sessionState);
+  app.get('/api/session/:id/history', sessionHistory);
+  app.get('/api/session/:id/differential-history', differentialHistory);
+  app.post('/api/session/:id/amend-answer', amendSessionAnswer);
+
+  app.post('/api/symptoms/queue', symptomsQueue);
+
+  // Local stand-in for Merlin so the diagnostic flow runs without the real service
+  if (isMerlinStubEnabled()) {
+    app.use(MERLIN_STUB_PATH, createMerlinStubRouter());
+    console.log(`🧪 Merlin stub mounted at ${baseUrl}${MERLIN_STUB_PATH}`);
+  }
+
+  startDiagnosticSessionSweeper();
+
   const swaggerOptions = {
     definition: {
       openapi: '3.0.0',
@@ -0,0 +1,201 @@
+/**
+ * FakeLLMProvider checks, run with `npm test`. The fake stands in for OpenAI in
+ * offline runs (LLM_PROVIDER=fake), so its output has to stay deterministic and
+ * shaped like the real provider's. The flow tests at the end run the diagnostic,
+ * memory extraction and scheduled prompt code against it, with their database
+ * calls stubbed.
+ */
+
+import { test, mock, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { FakeLLMProvider, getLLMProvider, setLLMProvider } from '../lib/llm-provider'
+import { consumeCompletionStream } from '../lib/sse'
+import { generateFallbackDifferential, generateFallbackQuestion } from '../lib/fallback-diagnostics'
+import { chatMemoryExtractor } from '../lib/chat-memory-extractor'
+import { memoryStore, Memory } from '../lib/memory-store'
+import { promptRegistry } from '../lib/prompt-registry'
+import { PromptTemplateName } from '../lib/prompt-templates'
+import { ScheduledPromptProcessor } from '../lib/scheduled-prompt-processor'
+import * as scheduledPromptsDatabase from '../lib/scheduled-prompts-database'
+import { userAgentProfileManager } from '../lib/user-agent-profile'
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + value * b[index], 0)
+}
+
+test('chat replies are stable and follow registered rules', async () => {
+  const provider = new FakeLLMProvider()
+  const request = { messages: [{ role: 'user' as const, content: 'What causes a headache?' }] }
+
+  const first = await provider.chat(request)
+  const second = await provider.chat(request)
+  assert.equal(first.choices[0].message.content, second.choices[0].message.content)
+  assert.ok(first.usage && first.usage.total_tokens > 0)
+
+  provider.respondTo('headache', 'Drink water').respondTo(/headache/, { later: 'wins' })
+  const ruled = await provider.chat(request)
+  assert.deepEqual(JSON.parse(ruled.choices[0].message.content || ''), { later: 'wins' })
+  assert.equal(provider.calls.filter(call => call.kind === 'chat').length, 3)
+})
+
+test('JSON schema requests get the smallest conforming object', async () => {
+  const provider = new FakeLLMProvider()
+  const completion = await provider.chat({
+    messages: [{ role: 'user', content: 'Classify this' }],
+    response_format: {
+      type: 'json_schema',
+      json_schema: {
+        name: 'classification',
+        schema: {
+          type: 'object',
+          properties: {
+            category: { type: 'string', enum: ['emergency', 'routine'] },
+            confidence: { type: 'number', minimum: 0 },
+            reasons: { type: 'array', items: { type: 'string' } }
+          }
+        }
+      }
+    }
+  })
+  assert.deepEqual(JSON.parse(completion.choices[0].message.content || ''), {
+    category: 'emergency',
+    confidence: 0,
+    reasons: []
+  })
+})
+
+test('streamed tokens add up to the full reply with usage last', async () => {
+  const provider = new FakeLLMProvider().respondTo('hello', 'Hello there, how can I help?')
+  const tokens: string[] = []
+  const streamed = await consumeCompletionStream(
+    await provider.chatStream({ messages: [{ role: 'user', content: 'hello' }] }),
+    token => tokens.push(token)
+  )
+  assert.equal(streamed.content, 'Hello there, how can I help?')
+  assert.equal(tokens.join(''), streamed.content)
+  assert.ok(tokens.length > 1)
+  assert.ok(streamed.usage && streamed.usage.completion_tokens > 0)
+})
+
+test('embeddings are unit length and closer for texts sharing words', async () => {
+  const provider = new FakeLLMProvider()
+  const { embeddings, dimensions } = await provider.embed({
+    input: ['sharp chest pain', 'chest pain when breathing', 'itchy skin rash']
+  })
+  assert.equal(embeddings.length, 3)
+  assert.ok(embeddings.every(embedding => embedding.length === dimensions))
+  assert.ok(Math.abs(cosine(embeddings[0], embeddings[0]) - 1) < 1e-9)
+  assert.ok(cosine(embeddings[0], embeddings[1]) > cosine(embeddings[0], embeddings[2]))
+
+  const again = await provider.embed({ input: 'sharp chest pain' })
+  assert.deepEqual(again.embeddings[0], embeddings[0])
+})
+
+test('transcription returns the configured transcript', async () => {
+  const provider = new FakeLLMProvider().setTranscript('My knee hurts')
+  const result = await provider.transcribe({ file: new File(['audio'], 'note.webm'), language: 'es' })
+  assert.deepEqual(result, { text: 'My knee hurts', language: 'es' })
+})
+
+test('setLLMProvider swaps the provider every caller resolves', () => {
+  const provider = new FakeLLMProvider()
+  setLLMProvider(provider)
+  try {
+    assert.equal(getLLMProvider(), provider)
+  } finally {
+    setLLMProvider(null)
+  }
+})
+
+/**
+ * Install `provider` for a flow test, with prompt templates rendered from their name
+ * instead of the database
+ */
+function useProvider(provider: FakeLLMProvider): FakeLLMProvider {
+  setLLMProvider(provider)
+  mock.method(promptRegistry, 'render', async (name: PromptTemplateName) => ({ name, version: 1, content: `${name} prompt` }))
+  mock.method(promptRegistry, 'recordUsage', async () => undefined)
+  return provider
+}
+
+afterEach(() => {
+  mock.restoreAll()
+  setLLMProvider(null)
+})
+
+test('diagnostic flow: the fallback question and differential come from the provider', async () => {
+  const provider = useProvider(new FakeLLMProvider()
+    .respondTo('Generate an appropriate diagnostic question', {
+      question: 'Is the pain worse when you breathe in?',
+      answerList: ['Yes', 'No']
+    })
+    .respondTo('Patient presents with', {
+      diagnoses: [
+        { diagnosis: { display_name: 'Costochondritis' }, probability: 0.3 },
+        { diagnosis: { display_name: 'Pleurisy' }, probability: 0.6 }
+      ]
+    }))
+
+  const question = await generateFallbackQuestion('sharp chest pain')
+  const differential = await generateFallbackDifferential('sharp chest pain')
+
+  assert.deepEqual(question, { question: 'Is the pain worse when you breathe in?', answerList: ['Yes', 'No'] })
+  assert.deepEqual(differential.map(entry => entry.diagnosis.display_name), ['Pleurisy', 'Costochondritis'])
+  assert.equal(provider.calls.filter(call => call.kind === 'chat').length, 2)
+})
+
+test('memory extraction flow: extracted memories are stored with their ids', async () => {
+  useProvider(new FakeLLMProvider().respondTo('sertraline', {
+    memories: [{
+      type: 'medication',
+      summary: 'Takes 50 mg sertraline each morning',
+      confidence: 0.9,
+      importance: 0.8,
+      tags: ['mental-health'],
+      sourceMessages: ['I take 50 mg of sertraline every morning']
+    }]
+  }))
+  const stored = mock.method(memoryStore, 'addMemories', async (memories: any[]) =>
+    memories.map((memory, index) => ({ ...memory, id: `memory-${index}` }) as Memory))
+  mock.method(chatMemoryExtractor as any, 'updateUserContext', async () => undefined)
+
+  const entries = await chatMemoryExtractor.extractFromChatHistory('user-1', 'session-1', [
+    { role: 'user', content: 'I take 50 mg of sertraline every morning' },
+    { role: 'assistant', content: 'Thanks, I will keep that in mind.' }
+  ])
+
+  assert.equal(entries.length, 1)
+  assert.equal(entries[0].id, 'memory-0')
+  assert.equal(entries[0].memoryType, 'medication')
+  assert.equal(entries[0].summary, 'Takes 50 mg sertraline each morning')
+  assert.ok(entries[0].tags.includes('mental-health'))
+  assert.equal(stored.mock.callCount(), 1)
+  assert.equal(stored.mock.calls[0].arguments[0][0].source, 'chat_extraction')
+})
+
+test('scheduled prompt flow: the provider reply is recorded as the execution result', async () => {
+  useProvider(new FakeLLMProvider().respondTo('Summarise my week', 'You slept well most nights this week.'))
+  mock.method(userAgentProfileManager, 'getAgentPersonality', async () => null)
+  const recorded = mock.method(scheduledPromptsDatabase, 'recordPromptExecution', async (_execution: Omit<scheduledPromptsDatabase.PromptExecution, 'id' | 'execution_time'>) => 'execution-1')
+
+  const execution = await new ScheduledPromptProcessor().processScheduledPrompt({
+    id: 'prompt-1',
+    user_id: 'user-1',
+    title: 'Weekly summary',
+    prompt_text: 'Summarise my week for me please',
+    mentioned_data_types: [],
+    schedule_type: 'weekly',
+    scheduled_time: new Date(),
+    timezone: 'UTC',
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+    execution_count: 0,
+    email_delivery: false
+  })
+
+  assert.equal(execution.id, 'execution-1')
+  assert.equal(execution.execution_status, 'success')
+  assert.equal(execution.ai_response, 'You slept well most nights this week.')
+  assert.equal(recorded.mock.calls[0].arguments[0].ai_response, 'You slept well most nights this week.')
+})
@@ -0,0 +1,105 @@
+/**
+ * Duplicate handling in memoryStore.addMemories, with the database and embedding
+ * calls stubbed so the statements it sends can be checked.
+ */
+
+import { test, mock, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { DatabasePool } from '../lib/database-pool'
+import { embeddingIndex } from '../lib/embedding-index'
+import { memoryStore } from '../lib/memory-store'
+import { responseCache } from '../lib/response-cache'
+
+const USER_ID = '2f1c7a3e-8d4b-4c1a-9e2f-5b6a7c8d9e0f'
+const MEMORY_ID = '7b3e9c1d-2a4f-4e6b-8c0d-1f2e3a4b5c6d'
+
+function memoryRow(overrides: Record<string, any> = {}) {
+  return {
+    id: MEMORY_ID,
+    user_id: USER_ID,
+    session_id: null,
+    source: 'chat_extraction',
+    memory_type: 'medication',
+    summary: 'Takes 50 mg sertraline each morning',
+    details: {},
+    confidence: '0.80',
+    importance: '0.70',
+    tags: ['medication'],
+    related_symptoms: [],
+    source_messages: [],
+    pinned: false,
+    edited_at: null,
+    reference_count: 1,
+    provenance: [],
+    extracted_at: new Date(),
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides
+  }
+}
+
+/**
+ * Stub the database: the duplicate lookup finds `existing`, and every statement is recorded
+ */
+function stubStore(existing: Record<string, any>) {
+  const statements: { sql: string; params: any[] }[] = []
+  mock.method(memoryStore, 'initializeSchema', async () => undefined)
+  mock.method(responseCache, 'invalidateUser', async () => undefined)
+  mock.method(embeddingIndex, 'embed', async (_target: string, texts: string[]) => [{
+    column: { column: 'embedding', model: 'text-embedding-ada-002', dimensions: 3 },
+    embeddings: texts.map(() => [0.1, 0.2, 0.3])
+  }])
+  mock.method(DatabasePool, 'query', async (sql: string, params: any[] = []) => {
+    statements.push({ sql, params })
+    if (sql.includes('SELECT id, pinned, edited_at')) {
+      return { rows: [existing] }
+    }
+    return { rows: [memoryRow(existing)] }
+  })
+  return statements
+}
+
+const extraction = {
+  userId: USER_ID,
+  sessionId: 'session-2',
+  source: 'chat_extraction' as const,
+  memoryType: 'medication',
+  summary: 'Takes sertraline',
+  tags: ['mental-health'],
+  sourceMessages: ['I take sertraline']
+}
+
+afterEach(() => mock.restoreAll())
+
+test('a duplicate of a user-edited memory keeps the stored text', async () => {
+  const statements = stubStore({ id: MEMORY_ID, pinned: false, edited_at: new Date() })
+
+  const [stored] = await memoryStore.addMemories([extraction])
+
+  const update = statements.find(statement => statement.sql.includes('UPDATE memories'))!
+  assert.ok(update, 'the duplicate is updated')
+  assert.doesNotMatch(update.sql, /summary\s*=|details\s*=|content\s*=/)
+  assert.match(update.sql, /reference_count = reference_count \+ 1/)
+  assert.ok(!update.params.includes('Takes sertraline'))
+  assert.deepEqual(update.params.slice(2), [['mental-health'], ['I take sertraline']])
+  assert.equal(stored.summary, 'Takes 50 mg sertraline each morning')
+})
+
+test('a duplicate of a pinned memory keeps the stored text', async () => {
+  const statements = stubStore({ id: MEMORY_ID, pinned: true, edited_at: null })
+
+  await memoryStore.addMemories([extraction])
+
+  const update = statements.find(statement => statement.sql.includes('UPDATE memories'))!
+  assert.doesNotMatch(update.sql, /summary\s*=/)
+})
+
+test('a duplicate of an unprotected memory takes the new text', async () => {
+  const statements = stubStore({ id: MEMORY_ID, pinned: false, edited_at: null })
+
+  await memoryStore.addMemories([extraction])
+
+  const update = statements.find(statement => statement.sql.includes('UPDATE memories'))!
+  assert.match(update.sql, /summary = \$3/)
+  assert.equal(update.params[2], 'Takes sertraline')
+})
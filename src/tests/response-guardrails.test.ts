@@ -0,0 +1,55 @@
+/**
+ * Streaming guardrail checks: text goes out sentence by sentence while the
+ * guardrails are on, and stops at the first sentence the rules flag.
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { FakeLLMProvider } from '../lib/llm-provider'
+import { ResponseGuardrails } from '../lib/response-guardrails'
+import { consumeCompletionStream } from '../lib/sse'
+
+// Classifier off so the checks need no model or database
+const guardrails = new ResponseGuardrails({ enabled: true, llmEnabled: false })
+
+test('a safe reply streams as several token events with guardrails enabled', async () => {
+  const reply = 'Headaches have many causes. Staying hydrated often helps. Talk to your doctor if they keep coming back.'
+  const provider = new FakeLLMProvider().respondTo('headache', reply)
+  const events: string[] = []
+
+  const guarded = guardrails.guardStream({ language: 'en' }, text => events.push(text))
+  const streamed = await consumeCompletionStream(
+    await provider.chatStream({ messages: [{ role: 'user', content: 'Why do I get a headache?' }] }),
+    token => guarded.push(token)
+  )
+  const result = await guardrails.apply(streamed.content, { endpoint: 'test', language: 'en' })
+
+  assert.equal(result.action, 'none')
+  assert.equal(guarded.finish(result.content), false)
+  assert.ok(events.length > 1, `expected several token events, got ${events.length}`)
+  assert.equal(events.join(''), reply)
+})
+
+test('streaming stops at the first sentence the rules flag', () => {
+  const events: string[] = []
+  const guarded = guardrails.guardStream({ language: 'en' }, text => events.push(text))
+
+  for (const token of ['Ibuprofen eases pain. ', 'Take 800 mg ', 'every four hours. ', 'Rest helps too.']) {
+    guarded.push(token)
+  }
+
+  assert.equal(events.join(''), 'Ibuprofen eases pain.')
+  // The checked reply no longer continues the streamed text, so it has to replace it
+  assert.equal(guarded.finish('A pharmacist can advise on dosing.'), true)
+  assert.equal(events.join(''), 'Ibuprofen eases pain.')
+})
+
+test('text the guardrails append is sent as one more token', () => {
+  const events: string[] = []
+  const guarded = guardrails.guardStream({ language: 'en' }, text => events.push(text))
+
+  guarded.push('Sleep matters. ')
+  guarded.push('Most adults need seven hours')
+  assert.equal(guarded.finish('Sleep matters. Most adults need seven hours\n\n*See your doctor.*'), false)
+  assert.deepEqual(events, ['Sleep matters.', ' Most adults need seven hours', '\n\n*See your doctor.*'])
+})